@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "emailVerified" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "emailVerifiedAt" TIMESTAMP(3),
+ADD COLUMN     "pendingEmail" VARCHAR(254),
+ADD COLUMN     "emailVerificationToken" VARCHAR(255),
+ADD COLUMN     "emailVerificationExpires" TIMESTAMP(3);
+
+-- Cuentas existentes: se consideran verificadas para no bloquear sus compras
+UPDATE "User" SET "emailVerified" = true, "emailVerifiedAt" = CURRENT_TIMESTAMP;
+
+-- CreateIndex
+CREATE INDEX "User_emailVerificationToken_idx" ON "User"("emailVerificationToken");
@@ -0,0 +1,52 @@
+-- CreateEnum
+CREATE TYPE "TeamMemberRole" AS ENUM ('MANAGER', 'BOX_OFFICE', 'SCANNER');
+
+-- CreateTable
+CREATE TABLE "OrganizerTeamMember" (
+    "id" SERIAL NOT NULL,
+    "organizerId" INTEGER NOT NULL,
+    "userId" INTEGER,
+    "email" VARCHAR(254) NOT NULL,
+    "role" "TeamMemberRole" NOT NULL,
+    "inviteTokenHash" VARCHAR(64),
+    "inviteExpiresAt" TIMESTAMP(3),
+    "acceptedAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OrganizerTeamMember_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "OrganizerTeamMemberEvent" (
+    "memberId" INTEGER NOT NULL,
+    "eventId" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OrganizerTeamMemberEvent_pkey" PRIMARY KEY ("memberId","eventId")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OrganizerTeamMember_organizerId_email_key" ON "OrganizerTeamMember"("organizerId", "email");
+
+-- CreateIndex
+CREATE INDEX "OrganizerTeamMember_userId_revokedAt_idx" ON "OrganizerTeamMember"("userId", "revokedAt");
+
+-- CreateIndex
+CREATE INDEX "OrganizerTeamMember_inviteTokenHash_idx" ON "OrganizerTeamMember"("inviteTokenHash");
+
+-- CreateIndex
+CREATE INDEX "OrganizerTeamMemberEvent_eventId_idx" ON "OrganizerTeamMemberEvent"("eventId");
+
+-- AddForeignKey
+ALTER TABLE "OrganizerTeamMember" ADD CONSTRAINT "OrganizerTeamMember_organizerId_fkey" FOREIGN KEY ("organizerId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrganizerTeamMember" ADD CONSTRAINT "OrganizerTeamMember_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrganizerTeamMemberEvent" ADD CONSTRAINT "OrganizerTeamMemberEvent_memberId_fkey" FOREIGN KEY ("memberId") REFERENCES "OrganizerTeamMember"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrganizerTeamMemberEvent" ADD CONSTRAINT "OrganizerTeamMemberEvent_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,129 @@
+-- CreateTable
+CREATE TABLE "RutNormalizationIssue" (
+    "id" SERIAL NOT NULL,
+    "entityType" VARCHAR(40) NOT NULL,
+    "entityId" INTEGER NOT NULL,
+    "field" VARCHAR(40) NOT NULL,
+    "reason" VARCHAR(20) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RutNormalizationIssue_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RutNormalizationIssue_entityType_entityId_idx" ON "RutNormalizationIssue"("entityType", "entityId");
+
+-- Forma canónica de un RUT ("12345678-5") o NULL si el formato o el dígito verificador
+-- no son válidos. Misma regla que src/utils/rut.ts (cuerpo de 7 u 8 dígitos, módulo 11).
+CREATE FUNCTION pg_temp.rut_canonical(input TEXT) RETURNS TEXT AS $$
+DECLARE
+  raw TEXT := upper(regexp_replace(coalesce(input, ''), '[.[:space:]-]', '', 'g'));
+  body TEXT;
+  dv TEXT;
+  total INT := 0;
+  mul INT := 2;
+  res INT;
+BEGIN
+  IF raw !~ '^[0-9]+[0-9K]$' THEN
+    RETURN NULL;
+  END IF;
+  body := ltrim(left(raw, length(raw) - 1), '0');
+  dv := right(raw, 1);
+  IF length(body) NOT BETWEEN 7 AND 8 THEN
+    RETURN NULL;
+  END IF;
+  FOR i IN REVERSE length(body)..1 LOOP
+    total := total + substr(body, i, 1)::INT * mul;
+    mul := CASE WHEN mul = 7 THEN 2 ELSE mul + 1 END;
+  END LOOP;
+  res := 11 - (total % 11);
+  IF dv <> CASE res WHEN 11 THEN '0' WHEN 10 THEN 'K' ELSE res::TEXT END THEN
+    RETURN NULL;
+  END IF;
+  RETURN body || '-' || dv;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- User.rut es único: dos variantes del mismo RUT ("12.345.678-5" y "12345678-5") no pueden
+-- quedar ambas en forma canónica; se normaliza la primera (menor id) y se reporta el resto.
+DO $$
+DECLARE
+  u RECORD;
+  canon TEXT;
+BEGIN
+  FOR u IN SELECT "id", "rut" FROM "User" WHERE "rut" IS NOT NULL ORDER BY "id" LOOP
+    canon := pg_temp.rut_canonical(u."rut");
+    IF canon IS NULL THEN
+      INSERT INTO "RutNormalizationIssue" ("entityType", "entityId", "field", "reason")
+      VALUES ('User', u."id", 'rut', 'INVALID');
+    ELSIF canon <> u."rut" THEN
+      IF EXISTS (SELECT 1 FROM "User" WHERE "rut" = canon AND "id" <> u."id") THEN
+        INSERT INTO "RutNormalizationIssue" ("entityType", "entityId", "field", "reason")
+        VALUES ('User', u."id", 'rut', 'DUPLICATE');
+      ELSE
+        UPDATE "User" SET "rut" = canon WHERE "id" = u."id";
+      END IF;
+    END IF;
+  END LOOP;
+END $$;
+
+-- OrganizerApplication.taxId
+INSERT INTO "RutNormalizationIssue" ("entityType", "entityId", "field", "reason")
+SELECT 'OrganizerApplication', "id", 'taxId', 'INVALID'
+FROM "OrganizerApplication"
+WHERE pg_temp.rut_canonical("taxId") IS NULL;
+
+UPDATE "OrganizerApplication"
+SET "taxId" = pg_temp.rut_canonical("taxId")
+WHERE pg_temp.rut_canonical("taxId") IS DISTINCT FROM "taxId"
+  AND pg_temp.rut_canonical("taxId") IS NOT NULL;
+
+-- OrganizerApplication.payoutHolderRut
+INSERT INTO "RutNormalizationIssue" ("entityType", "entityId", "field", "reason")
+SELECT 'OrganizerApplication', "id", 'payoutHolderRut', 'INVALID'
+FROM "OrganizerApplication"
+WHERE pg_temp.rut_canonical("payoutHolderRut") IS NULL;
+
+UPDATE "OrganizerApplication"
+SET "payoutHolderRut" = pg_temp.rut_canonical("payoutHolderRut")
+WHERE pg_temp.rut_canonical("payoutHolderRut") IS DISTINCT FROM "payoutHolderRut"
+  AND pg_temp.rut_canonical("payoutHolderRut") IS NOT NULL;
+
+-- ConnectedAccount.payoutHolderRut (nullable: vacío/NULL no se reporta)
+INSERT INTO "RutNormalizationIssue" ("entityType", "entityId", "field", "reason")
+SELECT 'ConnectedAccount', "id", 'payoutHolderRut', 'INVALID'
+FROM "ConnectedAccount"
+WHERE coalesce("payoutHolderRut", '') <> ''
+  AND pg_temp.rut_canonical("payoutHolderRut") IS NULL;
+
+UPDATE "ConnectedAccount"
+SET "payoutHolderRut" = pg_temp.rut_canonical("payoutHolderRut")
+WHERE pg_temp.rut_canonical("payoutHolderRut") IS DISTINCT FROM "payoutHolderRut"
+  AND pg_temp.rut_canonical("payoutHolderRut") IS NOT NULL;
+
+-- Event.payoutHolderRut (nullable: vacío/NULL no se reporta)
+INSERT INTO "RutNormalizationIssue" ("entityType", "entityId", "field", "reason")
+SELECT 'Event', "id", 'payoutHolderRut', 'INVALID'
+FROM "Event"
+WHERE coalesce("payoutHolderRut", '') <> ''
+  AND pg_temp.rut_canonical("payoutHolderRut") IS NULL;
+
+UPDATE "Event"
+SET "payoutHolderRut" = pg_temp.rut_canonical("payoutHolderRut")
+WHERE pg_temp.rut_canonical("payoutHolderRut") IS DISTINCT FROM "payoutHolderRut"
+  AND pg_temp.rut_canonical("payoutHolderRut") IS NOT NULL;
+
+-- Resumen (visible con psql / logs del servidor); el detalle queda en "RutNormalizationIssue"
+DO $$
+DECLARE
+  r RECORD;
+BEGIN
+  FOR r IN
+    SELECT "entityType", "field", "reason", count(*) AS n
+    FROM "RutNormalizationIssue"
+    GROUP BY 1, 2, 3
+    ORDER BY 1, 2, 3
+  LOOP
+    RAISE WARNING 'RUT no normalizado: %.% (%) → % fila(s)', r."entityType", r."field", r."reason", r.n;
+  END LOOP;
+END $$;
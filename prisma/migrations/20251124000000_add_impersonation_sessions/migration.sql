@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "ImpersonationSession" (
+    "id" SERIAL NOT NULL,
+    "impersonatorId" INTEGER NOT NULL,
+    "targetUserId" INTEGER NOT NULL,
+    "reason" VARCHAR(500) NOT NULL,
+    "readOnly" BOOLEAN NOT NULL DEFAULT true,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "endedAt" TIMESTAMP(3),
+    "endedReason" VARCHAR(32),
+    "ip" VARCHAR(64),
+    "userAgent" VARCHAR(512),
+
+    CONSTRAINT "ImpersonationSession_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ImpersonationSession_impersonatorId_startedAt_idx" ON "ImpersonationSession"("impersonatorId", "startedAt");
+
+-- CreateIndex
+CREATE INDEX "ImpersonationSession_targetUserId_startedAt_idx" ON "ImpersonationSession"("targetUserId", "startedAt");
@@ -0,0 +1,47 @@
+-- CreateEnum
+CREATE TYPE "EventCancellationStatus" AS ENUM ('PENDING', 'RUNNING', 'COMPLETED', 'COMPLETED_WITH_ERRORS');
+
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN "canceledAt" TIMESTAMP(3),
+ADD COLUMN "cancellationReason" VARCHAR(500);
+
+-- AlterTable
+ALTER TABLE "GeneratedTicket" ADD COLUMN "invalidatedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Reservation" ADD COLUMN "cancellationNotifiedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "EventCancellation" (
+    "id" SERIAL NOT NULL,
+    "eventId" INTEGER NOT NULL,
+    "requestedById" INTEGER NOT NULL,
+    "reason" VARCHAR(500) NOT NULL,
+    "status" "EventCancellationStatus" NOT NULL DEFAULT 'PENDING',
+    "paidReservations" INTEGER NOT NULL DEFAULT 0,
+    "refundedCount" INTEGER NOT NULL DEFAULT 0,
+    "refundFailedCount" INTEGER NOT NULL DEFAULT 0,
+    "holdsCanceled" INTEGER NOT NULL DEFAULT 0,
+    "ticketsInvalidated" INTEGER NOT NULL DEFAULT 0,
+    "payoutsCanceled" INTEGER NOT NULL DEFAULT 0,
+    "payoutsNotCancelable" INTEGER NOT NULL DEFAULT 0,
+    "buyersNotified" INTEGER NOT NULL DEFAULT 0,
+    "notifyFailedCount" INTEGER NOT NULL DEFAULT 0,
+    "lastError" VARCHAR(500),
+    "heartbeatAt" TIMESTAMP(3),
+    "startedAt" TIMESTAMP(3),
+    "finishedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EventCancellation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EventCancellation_eventId_key" ON "EventCancellation"("eventId");
+
+-- CreateIndex
+CREATE INDEX "EventCancellation_status_heartbeatAt_idx" ON "EventCancellation"("status", "heartbeatAt");
+
+-- AddForeignKey
+ALTER TABLE "EventCancellation" ADD CONSTRAINT "EventCancellation_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
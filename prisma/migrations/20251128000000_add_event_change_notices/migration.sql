@@ -0,0 +1,39 @@
+-- AlterTable
+ALTER TABLE "Reservation" ADD COLUMN "changeRefundNoticeId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "EventChangeNotice" (
+    "id" SERIAL NOT NULL,
+    "eventId" INTEGER NOT NULL,
+    "createdById" INTEGER NOT NULL,
+    "reason" VARCHAR(500) NOT NULL,
+    "previousDate" TIMESTAMP(3) NOT NULL,
+    "newDate" TIMESTAMP(3) NOT NULL,
+    "previousLocation" VARCHAR(120) NOT NULL,
+    "newLocation" VARCHAR(120) NOT NULL,
+    "previousCity" VARCHAR(120),
+    "newCity" VARCHAR(120),
+    "previousCommune" VARCHAR(120),
+    "newCommune" VARCHAR(120),
+    "refundWindowEndsAt" TIMESTAMP(3) NOT NULL,
+    "notifyCursor" INTEGER NOT NULL DEFAULT 0,
+    "lockedAt" TIMESTAMP(3),
+    "notifiedAt" TIMESTAMP(3),
+    "buyersNotified" INTEGER NOT NULL DEFAULT 0,
+    "notifyFailedCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EventChangeNotice_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "EventChangeNotice_eventId_createdAt_idx" ON "EventChangeNotice"("eventId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "EventChangeNotice_notifiedAt_idx" ON "EventChangeNotice"("notifiedAt");
+
+-- AddForeignKey
+ALTER TABLE "Reservation" ADD CONSTRAINT "Reservation_changeRefundNoticeId_fkey" FOREIGN KEY ("changeRefundNoticeId") REFERENCES "EventChangeNotice"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EventChangeNotice" ADD CONSTRAINT "EventChangeNotice_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE CASCADE ON UPDATE CASCADE;
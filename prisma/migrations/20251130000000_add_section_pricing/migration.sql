@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "EventSection" ADD COLUMN "price" INTEGER;
+
+-- AlterTable
+ALTER TABLE "Reservation" ADD COLUMN "unitPrice" INTEGER,
+ADD COLUMN "ticketTypeId" INTEGER,
+ADD COLUMN "ticketTypeName" VARCHAR(60);
+
+-- CreateTable
+CREATE TABLE "SectionTicketType" (
+    "id" SERIAL NOT NULL,
+    "sectionId" INTEGER NOT NULL,
+    "name" VARCHAR(60) NOT NULL,
+    "price" INTEGER NOT NULL,
+    "eligibilityNote" VARCHAR(200),
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SectionTicketType_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SectionTicketType_sectionId_idx" ON "SectionTicketType"("sectionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SectionTicketType_sectionId_name_key" ON "SectionTicketType"("sectionId", "name");
+
+-- AddForeignKey
+ALTER TABLE "Reservation" ADD CONSTRAINT "Reservation_ticketTypeId_fkey" FOREIGN KEY ("ticketTypeId") REFERENCES "SectionTicketType"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SectionTicketType" ADD CONSTRAINT "SectionTicketType_sectionId_fkey" FOREIGN KEY ("sectionId") REFERENCES "EventSection"("id") ON DELETE CASCADE ON UPDATE CASCADE;
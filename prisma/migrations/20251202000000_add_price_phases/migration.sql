@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "Reservation" ADD COLUMN "pricePhaseId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "PricePhase" (
+    "id" SERIAL NOT NULL,
+    "eventId" INTEGER NOT NULL,
+    "sectionId" INTEGER,
+    "name" VARCHAR(60) NOT NULL,
+    "price" INTEGER NOT NULL,
+    "startsAt" TIMESTAMP(3),
+    "endsAt" TIMESTAMP(3),
+    "quantityCap" INTEGER,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PricePhase_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PricePhase_eventId_sectionId_idx" ON "PricePhase"("eventId", "sectionId");
+
+-- CreateIndex
+CREATE INDEX "Reservation_pricePhaseId_idx" ON "Reservation"("pricePhaseId");
+
+-- AddForeignKey
+ALTER TABLE "Reservation" ADD CONSTRAINT "Reservation_pricePhaseId_fkey" FOREIGN KEY ("pricePhaseId") REFERENCES "PricePhase"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PricePhase" ADD CONSTRAINT "PricePhase_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PricePhase" ADD CONSTRAINT "PricePhase_sectionId_fkey" FOREIGN KEY ("sectionId") REFERENCES "EventSection"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN "seriesId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "EventSeries" (
+    "id" SERIAL NOT NULL,
+    "organizerId" INTEGER NOT NULL,
+    "title" VARCHAR(120) NOT NULL,
+    "description" VARCHAR(4000) NOT NULL,
+    "coverImageUrl" VARCHAR(1024),
+    "location" VARCHAR(120) NOT NULL,
+    "city" VARCHAR(120),
+    "commune" VARCHAR(120),
+    "price" INTEGER NOT NULL DEFAULT 0,
+    "capacity" INTEGER NOT NULL,
+    "sectionsTemplate" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EventSeries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "EventSeries_organizerId_idx" ON "EventSeries"("organizerId");
+
+-- CreateIndex
+CREATE INDEX "Event_seriesId_date_idx" ON "Event"("seriesId", "date");
+
+-- AddForeignKey
+ALTER TABLE "Event" ADD CONSTRAINT "Event_seriesId_fkey" FOREIGN KEY ("seriesId") REFERENCES "EventSeries"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EventSeries" ADD CONSTRAINT "EventSeries_organizerId_fkey" FOREIGN KEY ("organizerId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
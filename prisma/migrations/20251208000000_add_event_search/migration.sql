@@ -0,0 +1,26 @@
+-- Búsqueda de eventos públicos: full-text en español sin acentos + trigramas para errores de tipeo
+CREATE EXTENSION IF NOT EXISTS unaccent;
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- unaccent() es STABLE; este wrapper IMMUTABLE permite usarlo en columnas generadas e índices
+CREATE FUNCTION "immutable_unaccent"(text) RETURNS text AS $$
+  SELECT public.unaccent('public.unaccent'::regdictionary, $1)
+$$ LANGUAGE sql IMMUTABLE PARALLEL SAFE STRICT;
+
+-- Texto normalizado (minúsculas, sin acentos) para la similitud por trigramas
+CREATE FUNCTION "event_search_text"(title text, location text, city text, commune text) RETURNS text AS $$
+  SELECT "immutable_unaccent"(lower(concat_ws(' ', title, location, city, commune)))
+$$ LANGUAGE sql IMMUTABLE PARALLEL SAFE;
+
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('spanish', "immutable_unaccent"(coalesce("title", ''))), 'A') ||
+  setweight(to_tsvector('spanish', "immutable_unaccent"(concat_ws(' ', "location", "city", "commune"))), 'B') ||
+  setweight(to_tsvector('spanish', "immutable_unaccent"(coalesce("description", ''))), 'C')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "Event_searchVector_idx" ON "Event" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "Event_search_trgm_idx" ON "Event" USING GIN ("event_search_text"("title", "location", "city", "commune") gin_trgm_ops);
@@ -0,0 +1,10 @@
+-- CreateEnum
+CREATE TYPE "EventGeoSource" AS ENUM ('EXACT', 'COMMUNE');
+
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN "latitude" DOUBLE PRECISION,
+ADD COLUMN "longitude" DOUBLE PRECISION,
+ADD COLUMN "geoSource" "EventGeoSource";
+
+-- CreateIndex
+CREATE INDEX "Event_latitude_longitude_idx" ON "Event"("latitude", "longitude");
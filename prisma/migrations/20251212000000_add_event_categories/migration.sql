@@ -0,0 +1,46 @@
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN "tags" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateTable
+CREATE TABLE "EventCategory" (
+    "id" SERIAL NOT NULL,
+    "name" VARCHAR(80) NOT NULL,
+    "slug" VARCHAR(80) NOT NULL,
+    "parentId" INTEGER,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EventCategory_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "EventCategoryAssignment" (
+    "eventId" INTEGER NOT NULL,
+    "categoryId" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EventCategoryAssignment_pkey" PRIMARY KEY ("eventId","categoryId")
+);
+
+-- CreateIndex
+CREATE INDEX "Event_tags_idx" ON "Event" USING GIN ("tags");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EventCategory_slug_key" ON "EventCategory"("slug");
+
+-- CreateIndex
+CREATE INDEX "EventCategory_parentId_sortOrder_idx" ON "EventCategory"("parentId", "sortOrder");
+
+-- CreateIndex
+CREATE INDEX "EventCategoryAssignment_categoryId_idx" ON "EventCategoryAssignment"("categoryId");
+
+-- AddForeignKey
+ALTER TABLE "EventCategory" ADD CONSTRAINT "EventCategory_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "EventCategory"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EventCategoryAssignment" ADD CONSTRAINT "EventCategoryAssignment_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EventCategoryAssignment" ADD CONSTRAINT "EventCategoryAssignment_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "EventCategory"("id") ON DELETE CASCADE ON UPDATE CASCADE;
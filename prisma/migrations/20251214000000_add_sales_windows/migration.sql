@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN "publishAt" TIMESTAMP(3),
+ADD COLUMN "salesOpenAt" TIMESTAMP(3),
+ADD COLUMN "salesCloseAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "EventSection" ADD COLUMN "salesOpenAt" TIMESTAMP(3),
+ADD COLUMN "salesCloseAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Event_publishAt_idx" ON "Event"("publishAt");
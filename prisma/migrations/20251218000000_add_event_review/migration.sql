@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "EventReviewStatus" AS ENUM ('DRAFT', 'SUBMITTED', 'CHANGES_REQUESTED', 'APPROVED', 'REJECTED');
+
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN "reviewStatus" "EventReviewStatus" NOT NULL DEFAULT 'SUBMITTED',
+ADD COLUMN "submittedAt" TIMESTAMP(3),
+ADD COLUMN "reviewedAt" TIMESTAMP(3),
+ADD COLUMN "reviewedById" INTEGER,
+ADD COLUMN "reviewRound" INTEGER NOT NULL DEFAULT 0;
+
+-- Eventos existentes: aprobados quedan APPROVED; pendientes entran a la cola por su última edición
+UPDATE "Event" SET "reviewStatus" = 'APPROVED', "reviewRound" = 1 WHERE "approved" = true;
+UPDATE "Event" SET "submittedAt" = "updatedAt", "reviewRound" = 1 WHERE "approved" = false;
+
+-- CreateTable
+CREATE TABLE "EventReviewComment" (
+    "id" SERIAL NOT NULL,
+    "eventId" INTEGER NOT NULL,
+    "parentId" INTEGER,
+    "field" VARCHAR(40),
+    "message" VARCHAR(2000),
+    "toStatus" "EventReviewStatus",
+    "round" INTEGER NOT NULL DEFAULT 0,
+    "authorId" INTEGER,
+    "authorRole" VARCHAR(20) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EventReviewComment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Event_reviewStatus_submittedAt_idx" ON "Event"("reviewStatus", "submittedAt");
+
+-- CreateIndex
+CREATE INDEX "EventReviewComment_eventId_createdAt_idx" ON "EventReviewComment"("eventId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "EventReviewComment_parentId_idx" ON "EventReviewComment"("parentId");
+
+-- AddForeignKey
+ALTER TABLE "EventReviewComment" ADD CONSTRAINT "EventReviewComment_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EventReviewComment" ADD CONSTRAINT "EventReviewComment_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "EventReviewComment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
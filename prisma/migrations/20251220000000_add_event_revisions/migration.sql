@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "EventRevisionStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED', 'WITHDRAWN');
+
+-- CreateTable
+CREATE TABLE "EventRevision" (
+    "id" SERIAL NOT NULL,
+    "eventId" INTEGER NOT NULL,
+    "status" "EventRevisionStatus" NOT NULL DEFAULT 'PENDING',
+    "changes" JSONB NOT NULL,
+    "previous" JSONB NOT NULL,
+    "createdById" INTEGER,
+    "reviewedById" INTEGER,
+    "reviewedAt" TIMESTAMP(3),
+    "reviewNote" VARCHAR(1000),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EventRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "EventRevision_eventId_status_idx" ON "EventRevision"("eventId", "status");
+
+-- CreateIndex
+CREATE INDEX "EventRevision_status_createdAt_idx" ON "EventRevision"("status", "createdAt");
+
+-- Una sola revisión pendiente por evento
+CREATE UNIQUE INDEX "EventRevision_eventId_pending_key" ON "EventRevision"("eventId") WHERE "status" = 'PENDING';
+
+-- AddForeignKey
+ALTER TABLE "EventRevision" ADD CONSTRAINT "EventRevision_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE CASCADE ON UPDATE CASCADE;
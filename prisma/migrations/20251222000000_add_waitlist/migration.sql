@@ -0,0 +1,53 @@
+-- CreateEnum
+CREATE TYPE "WaitlistStatus" AS ENUM ('WAITING', 'OFFERED', 'CLAIMED', 'EXPIRED', 'CANCELED');
+
+-- CreateTable
+CREATE TABLE "WaitlistEntry" (
+    "id" SERIAL NOT NULL,
+    "eventId" INTEGER NOT NULL,
+    "sectionId" INTEGER,
+    "ticketTypeId" INTEGER,
+    "userId" INTEGER NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "status" "WaitlistStatus" NOT NULL DEFAULT 'WAITING',
+    "offerTokenHash" VARCHAR(64),
+    "offeredAt" TIMESTAMP(3),
+    "offerExpiresAt" TIMESTAMP(3),
+    "reservationId" INTEGER,
+    "resolvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WaitlistEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WaitlistEntry_offerTokenHash_key" ON "WaitlistEntry"("offerTokenHash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WaitlistEntry_reservationId_key" ON "WaitlistEntry"("reservationId");
+
+-- CreateIndex
+CREATE INDEX "WaitlistEntry_eventId_sectionId_status_createdAt_idx" ON "WaitlistEntry"("eventId", "sectionId", "status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "WaitlistEntry_status_offerExpiresAt_idx" ON "WaitlistEntry"("status", "offerExpiresAt");
+
+-- CreateIndex
+CREATE INDEX "WaitlistEntry_userId_status_idx" ON "WaitlistEntry"("userId", "status");
+
+-- Una sola inscripción activa por usuario en cada evento/sección
+CREATE UNIQUE INDEX "WaitlistEntry_active_key" ON "WaitlistEntry"("eventId", COALESCE("sectionId", 0), "userId")
+    WHERE "status" IN ('WAITING', 'OFFERED');
+
+-- AddForeignKey
+ALTER TABLE "WaitlistEntry" ADD CONSTRAINT "WaitlistEntry_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WaitlistEntry" ADD CONSTRAINT "WaitlistEntry_sectionId_fkey" FOREIGN KEY ("sectionId") REFERENCES "EventSection"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WaitlistEntry" ADD CONSTRAINT "WaitlistEntry_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WaitlistEntry" ADD CONSTRAINT "WaitlistEntry_reservationId_fkey" FOREIGN KEY ("reservationId") REFERENCES "Reservation"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -102,6 +102,22 @@ async function seedConfig() {
       description: 'Horas después del evento para crear un reclamo',
       isEditable: true,
     },
+    {
+      category: 'BUSINESS_RULE',
+      key: 'WAITLIST_OFFER_MINUTES',
+      value: '30',
+      dataType: 'INTEGER',
+      description: 'Minutos que tiene el siguiente en la lista de espera para pagar su oferta',
+      isEditable: true,
+    },
+    {
+      category: 'BUSINESS_RULE',
+      key: 'EVENT_SENSITIVE_FIELDS',
+      value: 'price,sectionPrice,ticketTypePrice,pricePhases,startAt,capacity,description',
+      dataType: 'STRING',
+      description: 'Campos de un evento aprobado que requieren nueva aprobación al cambiar (title, description, startAt, venue, city, commune, capacity, price, priceBase, coverImageUrl). sectionPrice, ticketTypePrice y pricePhases no pasan por revisión: se rechazan mientras el evento esté aprobado',
+      isEditable: true,
+    },
   ];
 
   // Solo crear SystemConfig que NO existan
@@ -146,6 +162,25 @@ async function seedConfig() {
   }
 }
 
+// Categorías base - SOLO si no hay ninguna (después se administran desde el panel)
+async function seedEventCategories() {
+  const count = await prisma.eventCategory.count();
+  if (count > 0) return;
+
+  const roots = [
+    { name: 'Música', slug: 'musica' },
+    { name: 'Teatro', slug: 'teatro' },
+    { name: 'Deportes', slug: 'deportes' },
+    { name: 'Infantil', slug: 'infantil' },
+    { name: 'Comedia', slug: 'comedia' },
+    { name: 'Festivales', slug: 'festivales' },
+    { name: 'Otros', slug: 'otros' },
+  ];
+  await prisma.eventCategory.createMany({
+    data: roots.map((c, i) => ({ ...c, sortOrder: i })),
+  });
+}
+
 async function main() {
   // Datos del admin - usar variables de entorno si están disponibles
   const email = process.env.BOOTSTRAP_ADMIN_EMAIL || 'admin@confiaticket.com';
@@ -165,6 +200,8 @@ async function main() {
         name: 'Super Admin',
         role: 'superadmin',
         isActive: true,
+        emailVerified: true,
+        emailVerifiedAt: new Date(),
         password: passwordHash,
         // completa otros campos requeridos por tu schema si los tienes
       },
@@ -183,6 +220,7 @@ async function main() {
 
   // Seed de configuración
   await seedConfig();
+  await seedEventCategories();
 }
 
 main()
@@ -56,7 +56,16 @@ export const env = {
   DATABASE_URL: process.env.DATABASE_URL ?? "",
   JWT_SECRET: process.env.JWT_SECRET ?? "changeme",
   JWT_EXPIRES_IN: process.env.JWT_EXPIRES_IN, // ej: "7d"
+  REFRESH_TOKEN_EXPIRES_DAYS: toInt(process.env.REFRESH_TOKEN_EXPIRES_DAYS, 30),
+  TWO_FACTOR_ENCRYPTION_KEY: process.env.TWO_FACTOR_ENCRYPTION_KEY, // default: deriva de JWT_SECRET
   BCRYPT_SALT_ROUNDS: toInt(process.env.BCRYPT_SALT_ROUNDS, 10),
+  PASSWORD_RESET_EXPIRES_HOURS: toInt(process.env.PASSWORD_RESET_EXPIRES_HOURS, 1),
+  EMAIL_VERIFICATION_EXPIRES_HOURS: toInt(process.env.EMAIL_VERIFICATION_EXPIRES_HOURS, 48),
+  TEAM_INVITE_EXPIRES_HOURS: toInt(process.env.TEAM_INVITE_EXPIRES_HOURS, 168),
+  DATA_EXPORT_EXPIRES_HOURS: toInt(process.env.DATA_EXPORT_EXPIRES_HOURS, 48),     // vigencia del link de descarga
+  DATA_EXPORT_COOLDOWN_HOURS: toInt(process.env.DATA_EXPORT_COOLDOWN_HOURS, 24),   // 1 solicitud por ventana
+  IMPERSONATION_DEFAULT_MINUTES: toInt(process.env.IMPERSONATION_DEFAULT_MINUTES, 15), // "ver como usuario"
+  IMPERSONATION_MAX_MINUTES: toInt(process.env.IMPERSONATION_MAX_MINUTES, 60),
 
   /* ===== Email ===== */
   SMTP_HOST: process.env.SMTP_HOST,
@@ -139,6 +148,15 @@ export const env = {
   // CSV de segundos: "60,300,1800,10800,86400"
   PAYOUTS_RETRY_SCHEDULE: process.env.PAYOUTS_RETRY_SCHEDULE,
 
+  /* ===== Anonimización de cuentas eliminadas ===== */
+  ACCOUNT_ANONYMIZE_JOB_ENABLED: toBool(process.env.ACCOUNT_ANONYMIZE_JOB_ENABLED, true),
+  ACCOUNT_ANONYMIZE_INTERVAL_MINUTES: toInt(process.env.ACCOUNT_ANONYMIZE_INTERVAL_MINUTES, 360),
+  ACCOUNT_ANONYMIZE_GRACE_DAYS: toInt(process.env.ACCOUNT_ANONYMIZE_GRACE_DAYS, 30),   // días desde deletedAt
+  ACCOUNT_ANONYMIZE_LIMIT: toInt(process.env.ACCOUNT_ANONYMIZE_LIMIT, 50),
+
+  /* ===== Cambios de fecha/lugar de eventos ===== */
+  EVENT_CHANGE_REFUND_WINDOW_DAYS: toInt(process.env.EVENT_CHANGE_REFUND_WINDOW_DAYS, 7), // ventana de reembolso voluntario
+
   /* =================================================================
      ============ PSP Marketplace (Split / Escrow) – Opción B =========
      ================================================================= */
@@ -0,0 +1,190 @@
+// src/controllers/admin.auditLog.controller.ts
+import { Request, Response } from 'express';
+import type { Prisma } from '@prisma/client';
+import prisma from '../prisma/client';
+import { recordAudit } from '../services/audit.service';
+
+const MAX_PAGE_SIZE = 100;
+const MAX_EXPORT_ROWS = 50000;
+const EXPORT_BATCH = 1000;
+
+function toStr(v: unknown) {
+  return String(v ?? '').trim();
+}
+
+function parseDate(v: unknown): Date | null {
+  const s = toStr(v);
+  if (!s) return null;
+  const d = new Date(s);
+  return Number.isNaN(d.getTime()) ? null : d;
+}
+
+/**
+ * Filtros comunes (listado y CSV):
+ * actorId, action (exacta o prefijo con "*", p.ej. "payout.*"), entityType, entityId,
+ * requestId, dateFrom, dateTo (ISO; una fecha sin hora incluye el día completo)
+ */
+function buildWhere(query: Request['query']): Prisma.AuditLogWhereInput {
+  const where: Prisma.AuditLogWhereInput = {};
+
+  const actorId = Number(query.actorId);
+  if (query.actorId && Number.isInteger(actorId)) where.actorId = actorId;
+
+  const action = toStr(query.action);
+  if (action) {
+    where.action = action.endsWith('*') ? { startsWith: action.slice(0, -1) } : action;
+  }
+
+  const entityType = toStr(query.entityType);
+  if (entityType) where.entityType = entityType;
+
+  const entityId = toStr(query.entityId);
+  if (entityId) where.entityId = entityId;
+
+  const requestId = toStr(query.requestId);
+  if (requestId) where.requestId = requestId;
+
+  const from = parseDate(query.dateFrom);
+  const to = parseDate(query.dateTo);
+  if (from || to) {
+    where.createdAt = {};
+    if (from) where.createdAt.gte = from;
+    if (to) {
+      if (/^\d{4}-\d{2}-\d{2}$/.test(toStr(query.dateTo))) to.setUTCHours(23, 59, 59, 999);
+      where.createdAt.lte = to;
+    }
+  }
+
+  return where;
+}
+
+/** Nombre/email de los actores (no se guardan en el log para no duplicar PII) */
+async function actorsById(ids: (number | null)[]) {
+  const unique = [...new Set(ids.filter((id): id is number => id != null))];
+  if (!unique.length) return new Map<number, { id: number; name: string; email: string }>();
+  const users = await prisma.user.findMany({
+    where: { id: { in: unique } },
+    select: { id: true, name: true, email: true },
+  });
+  return new Map(users.map((u) => [u.id, u]));
+}
+
+/**
+ * GET /api/admin/audit-log
+ * Query: filtros de buildWhere + page, pageSize
+ */
+export async function adminListAuditLog(req: Request, res: Response) {
+  try {
+    const page = Math.max(1, parseInt(toStr(req.query.page)) || 1);
+    const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(toStr(req.query.pageSize)) || 50));
+    const where = buildWhere(req.query);
+
+    const [rows, total] = await Promise.all([
+      prisma.auditLog.findMany({
+        where,
+        orderBy: { id: 'desc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+      prisma.auditLog.count({ where }),
+    ]);
+
+    const actors = await actorsById(rows.map((r) => r.actorId));
+
+    return res.json({
+      items: rows.map((r) => ({ ...r, actor: r.actorId != null ? actors.get(r.actorId) ?? null : null })),
+      total,
+      page,
+      pageSize,
+      totalPages: Math.ceil(total / pageSize),
+    });
+  } catch (err) {
+    console.error('adminListAuditLog error:', err);
+    return res.status(500).json({ error: 'Error al obtener el registro de auditoría' });
+  }
+}
+
+const CSV_COLUMNS = [
+  'id',
+  'createdAt',
+  'actorId',
+  'actorEmail',
+  'actorRole',
+  'action',
+  'entityType',
+  'entityId',
+  'before',
+  'after',
+  'metadata',
+  'ip',
+  'userAgent',
+  'requestId',
+] as const;
+
+function csvCell(v: unknown): string {
+  if (v == null) return '';
+  let s = v instanceof Date ? v.toISOString() : typeof v === 'object' ? JSON.stringify(v) : String(v);
+  // Evitar inyección de fórmulas al abrir el CSV en planillas
+  if (/^[=+\-@\t\r]/.test(s)) s = `'${s}`;
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/**
+ * GET /api/admin/audit-log/export.csv
+ * Mismos filtros que el listado; orden cronológico; máximo MAX_EXPORT_ROWS filas.
+ * Se escribe por lotes para no cargar todo el resultado en memoria.
+ */
+export async function adminExportAuditLogCsv(req: Request, res: Response) {
+  try {
+    const where = buildWhere(req.query);
+    const total = await prisma.auditLog.count({ where });
+    if (total > MAX_EXPORT_ROWS) {
+      return res.status(413).json({
+        error: `La exportación excede ${MAX_EXPORT_ROWS} filas (${total}). Acota el rango de fechas u otros filtros.`,
+      });
+    }
+
+    await recordAudit(req, {
+      action: 'audit_log.export',
+      entityType: 'AuditLog',
+      metadata: { filters: req.query, rows: total },
+    });
+
+    const stamp = new Date().toISOString().slice(0, 10);
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="audit-log-${stamp}.csv"`);
+    res.write('\uFEFF' + CSV_COLUMNS.join(',') + '\n');
+
+    let cursor: number | undefined;
+    for (;;) {
+      const rows = await prisma.auditLog.findMany({
+        where,
+        orderBy: { id: 'asc' },
+        take: EXPORT_BATCH,
+        ...(cursor != null ? { skip: 1, cursor: { id: cursor } } : {}),
+      });
+      if (!rows.length) break;
+
+      const actors = await actorsById(rows.map((r) => r.actorId));
+      const lines = rows.map((r) => {
+        const record: Record<(typeof CSV_COLUMNS)[number], unknown> = {
+          ...r,
+          actorEmail: r.actorId != null ? actors.get(r.actorId)?.email : null,
+        };
+        return CSV_COLUMNS.map((c) => csvCell(record[c])).join(',');
+      });
+      res.write(lines.join('\n') + '\n');
+
+      cursor = rows[rows.length - 1]!.id;
+      if (rows.length < EXPORT_BATCH) break;
+    }
+
+    return res.end();
+  } catch (err) {
+    console.error('adminExportAuditLogCsv error:', err);
+    if (!res.headersSent) {
+      return res.status(500).json({ error: 'Error al exportar el registro de auditoría' });
+    }
+    return res.end();
+  }
+}
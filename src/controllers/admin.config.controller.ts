@@ -2,6 +2,7 @@
 import { Request, Response } from 'express';
 import prisma from '../prisma/client';
 import { clearConfigCache } from '../services/config.service';
+import { recordAudit } from '../services/audit.service';
 
 export async function listTicketLimits(_req: Request, res: Response) {
   const limits = await prisma.ticketLimitConfig.findMany();
@@ -49,6 +50,7 @@ export async function updateTicketLimit(req: Request, res: Response) {
     return res.status(400).json({ error: 'Datos invalidos', details: errors });
   }
 
+  const before = await prisma.ticketLimitConfig.findUnique({ where: { eventType } });
   const updated = await prisma.ticketLimitConfig.upsert({
     where: { eventType },
     update: { minCapacity, maxCapacity },
@@ -56,6 +58,13 @@ export async function updateTicketLimit(req: Request, res: Response) {
   });
 
   clearConfigCache();
+  await recordAudit(req, {
+    action: 'config.ticket_limit.update',
+    entityType: 'TicketLimitConfig',
+    entityId: eventType,
+    before: before ? { minCapacity: before.minCapacity, maxCapacity: before.maxCapacity } : null,
+    after: { minCapacity: updated.minCapacity, maxCapacity: updated.maxCapacity },
+  });
   res.json(updated);
 }
 
@@ -105,6 +114,15 @@ export async function updatePriceLimit(req: Request, res: Response) {
   }
 
   clearConfigCache();
+  await recordAudit(req, {
+    action: 'config.price_limit.update',
+    entityType: 'PriceLimitConfig',
+    entityId: updated.id,
+    before: existing
+      ? { minPrice: existing.minPrice, maxPrice: existing.maxPrice, resaleMarkupPercent: existing.resaleMarkupPercent }
+      : null,
+    after: { minPrice: updated.minPrice, maxPrice: updated.maxPrice, resaleMarkupPercent: updated.resaleMarkupPercent },
+  });
   res.json(updated);
 }
 
@@ -153,6 +171,13 @@ export async function updatePlatformFee(req: Request, res: Response) {
   }
 
   clearConfigCache();
+  await recordAudit(req, {
+    action: 'config.platform_fee.update',
+    entityType: 'PlatformFeeConfig',
+    entityId: updated.id,
+    before: existing ? { feeBps: existing.feeBps, description: existing.description } : null,
+    after: { feeBps: updated.feeBps, description: updated.description },
+  });
   res.json(updated);
 }
 
@@ -186,6 +211,7 @@ export async function updateFieldLimit(req: Request, res: Response) {
     return res.status(400).json({ error: 'Datos invalidos', details: errors });
   }
 
+  const before = await prisma.fieldLimitConfig.findUnique({ where: { fieldName } });
   const updated = await prisma.fieldLimitConfig.upsert({
     where: { fieldName },
     update: { maxLength, context: context || null },
@@ -193,6 +219,13 @@ export async function updateFieldLimit(req: Request, res: Response) {
   });
 
   clearConfigCache();
+  await recordAudit(req, {
+    action: 'config.field_limit.update',
+    entityType: 'FieldLimitConfig',
+    entityId: fieldName,
+    before: before ? { maxLength: before.maxLength, context: before.context } : null,
+    after: { maxLength: updated.maxLength, context: updated.context },
+  });
   res.json(updated);
 }
 
@@ -229,6 +262,7 @@ export async function updateSystemConfig(req: Request, res: Response) {
     return res.status(400).json({ error: 'Datos invalidos', details: errors });
   }
 
+  const before = await prisma.systemConfig.findUnique({ where: { key } });
   const updated = await prisma.systemConfig.upsert({
     where: { key },
     update: {
@@ -249,6 +283,20 @@ export async function updateSystemConfig(req: Request, res: Response) {
   });
 
   clearConfigCache();
+  const snapshot = (c: typeof updated) => ({
+    value: c.value,
+    category: c.category,
+    dataType: c.dataType,
+    description: c.description,
+    isEditable: c.isEditable,
+  });
+  await recordAudit(req, {
+    action: 'config.system.update',
+    entityType: 'SystemConfig',
+    entityId: key,
+    before: before ? snapshot(before) : null,
+    after: snapshot(updated),
+  });
   res.json(updated);
 }
 
@@ -297,5 +345,12 @@ export async function updateReservationHold(req: Request, res: Response) {
   }
 
   clearConfigCache();
+  await recordAudit(req, {
+    action: 'config.reservation_hold.update',
+    entityType: 'ReservationHoldConfig',
+    entityId: updated.id,
+    before: existing ? { holdMinutes: existing.holdMinutes, description: existing.description } : null,
+    after: { holdMinutes: updated.holdMinutes, description: updated.description },
+  });
   res.json(updated);
 }
@@ -0,0 +1,168 @@
+// src/controllers/admin.eventCategories.controller.ts
+// Árbol de categorías de eventos (eventCategory.service.ts). Los organizadores solo pueden
+// elegir categorías activas; desactivar una la oculta sin tocar los eventos ya clasificados.
+import { Request, Response } from 'express';
+import prisma from '../prisma/client';
+import { recordAudit } from '../services/audit.service';
+import { buildCategoryTree, slugify, wouldCreateCycle } from '../services/eventCategory.service';
+
+function toStr(v: unknown) {
+  return String(v ?? '').trim();
+}
+
+function isUniqueViolation(err: unknown) {
+  return (err as { code?: string })?.code === 'P2002';
+}
+
+type CategoryData = { name?: string; slug?: string; parentId?: number | null; sortOrder?: number; isActive?: boolean };
+
+async function parseCategoryBody(body: Record<string, unknown> | undefined, partial: boolean, categoryId?: number) {
+  const errors: string[] = [];
+  const data: CategoryData = {};
+
+  if (body?.name !== undefined || !partial) {
+    const v = toStr(body?.name);
+    if (!v) errors.push('name es requerido');
+    else if (v.length > 80) errors.push('name excede 80 caracteres');
+    else data.name = v;
+  }
+  // slug: si no viene al crear, se genera desde el nombre
+  if (body?.slug !== undefined || (!partial && data.name)) {
+    const v = slugify(toStr(body?.slug) || data.name || '');
+    if (!v) errors.push('slug inválido (solo letras, números y guiones)');
+    else data.slug = v;
+  }
+  if (body?.parentId !== undefined) {
+    if (body.parentId === null) {
+      data.parentId = null;
+    } else {
+      const parentId = Number(body.parentId);
+      const parent = Number.isInteger(parentId)
+        ? await prisma.eventCategory.findUnique({ where: { id: parentId }, select: { id: true } })
+        : null;
+      if (!parent) errors.push('parentId no existe');
+      else if (categoryId && (await wouldCreateCycle(categoryId, parent.id))) {
+        errors.push('parentId no puede ser la misma categoría ni una de sus subcategorías');
+      } else data.parentId = parent.id;
+    }
+  }
+  if (body?.sortOrder !== undefined) {
+    const n = Number(body.sortOrder);
+    if (!Number.isInteger(n)) errors.push('sortOrder debe ser un entero');
+    else data.sortOrder = n;
+  }
+  if (body?.isActive !== undefined) {
+    if (typeof body.isActive !== 'boolean') errors.push('isActive debe ser booleano');
+    else data.isActive = body.isActive;
+  }
+
+  return { errors, data };
+}
+
+/**
+ * GET /api/admin/event-categories
+ * Árbol completo (incluye inactivas) con la cantidad de eventos asignados a cada categoría
+ */
+export async function listEventCategories(_req: Request, res: Response) {
+  const categories = await prisma.eventCategory.findMany({
+    include: { _count: { select: { events: true } } },
+  });
+  const items = buildCategoryTree(
+    categories.map(({ _count, ...c }) => ({ ...c, assignedEvents: _count.events }))
+  );
+  res.json({ items });
+}
+
+/**
+ * POST /api/admin/event-categories
+ * Body: { name, slug?, parentId?, sortOrder?, isActive? }
+ */
+export async function createEventCategory(req: Request, res: Response) {
+  const { errors, data } = await parseCategoryBody(req.body, false);
+  if (errors.length) {
+    return res.status(400).json({ error: 'Datos invalidos', details: errors });
+  }
+
+  try {
+    const category = await prisma.eventCategory.create({
+      data: {
+        name: data.name!,
+        slug: data.slug!,
+        parentId: data.parentId ?? null,
+        sortOrder: data.sortOrder ?? 0,
+        isActive: data.isActive ?? true,
+      },
+    });
+    await recordAudit(req, {
+      action: 'event_category.create',
+      entityType: 'EventCategory',
+      entityId: category.id,
+      after: { name: category.name, slug: category.slug, parentId: category.parentId, isActive: category.isActive },
+    });
+    res.status(201).json(category);
+  } catch (err) {
+    if (isUniqueViolation(err)) return res.status(409).json({ error: 'Ya existe una categoría con ese slug' });
+    throw err;
+  }
+}
+
+/**
+ * PUT /api/admin/event-categories/:id
+ */
+export async function updateEventCategory(req: Request, res: Response) {
+  const id = Number(req.params.id);
+  const before = Number.isInteger(id) ? await prisma.eventCategory.findUnique({ where: { id } }) : null;
+  if (!before) return res.status(404).json({ error: 'Categoría no encontrada' });
+
+  const { errors, data } = await parseCategoryBody(req.body, true, id);
+  if (errors.length) {
+    return res.status(400).json({ error: 'Datos invalidos', details: errors });
+  }
+
+  try {
+    const updated = await prisma.eventCategory.update({ where: { id }, data });
+    await recordAudit(req, {
+      action: 'event_category.update',
+      entityType: 'EventCategory',
+      entityId: id,
+      before: { name: before.name, slug: before.slug, parentId: before.parentId, sortOrder: before.sortOrder, isActive: before.isActive },
+      after: { name: updated.name, slug: updated.slug, parentId: updated.parentId, sortOrder: updated.sortOrder, isActive: updated.isActive },
+    });
+    res.json(updated);
+  } catch (err) {
+    if (isUniqueViolation(err)) return res.status(409).json({ error: 'Ya existe una categoría con ese slug' });
+    throw err;
+  }
+}
+
+/**
+ * DELETE /api/admin/event-categories/:id
+ * Solo sin subcategorías ni eventos asignados; si no, desactivarla con isActive=false.
+ */
+export async function deleteEventCategory(req: Request, res: Response) {
+  const id = Number(req.params.id);
+  const existing = Number.isInteger(id)
+    ? await prisma.eventCategory.findUnique({
+        where: { id },
+        include: { _count: { select: { children: true, events: true } } },
+      })
+    : null;
+  if (!existing) return res.status(404).json({ error: 'Categoría no encontrada' });
+
+  if (existing._count.children > 0 || existing._count.events > 0) {
+    return res.status(409).json({
+      error: 'La categoría tiene subcategorías o eventos asignados; desactívala con isActive=false en lugar de eliminarla',
+      children: existing._count.children,
+      events: existing._count.events,
+    });
+  }
+
+  await prisma.eventCategory.delete({ where: { id } });
+  await recordAudit(req, {
+    action: 'event_category.delete',
+    entityType: 'EventCategory',
+    entityId: id,
+    before: { name: existing.name, slug: existing.slug, parentId: existing.parentId },
+  });
+  res.status(204).send();
+}
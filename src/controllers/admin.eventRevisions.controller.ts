@@ -0,0 +1,150 @@
+// src/controllers/admin.eventRevisions.controller.ts
+// Cambios sensibles pendientes de eventos ya aprobados (eventRevision.service.ts). Mientras una
+// revisión está PENDING el público ve la versión aprobada; aprobarla aplica los cambios al evento.
+import { Request, Response } from 'express';
+import type { EventRevisionStatus } from '@prisma/client';
+import prisma from '../prisma/client';
+import { recordAudit } from '../services/audit.service';
+import {
+  approveEventRevision,
+  mapRevision,
+  rejectEventRevision,
+  REVISION_COLUMNS_SELECT,
+  revisionErrorResponse,
+} from '../services/eventRevision.service';
+
+const REVISION_STATUSES: readonly EventRevisionStatus[] = ['PENDING', 'APPROVED', 'REJECTED', 'WITHDRAWN'];
+const MAX_NOTE_LENGTH = 1000;
+
+function toStr(v: unknown) {
+  return String(v ?? '').trim();
+}
+
+function toInt(val: unknown, def: number) {
+  const n = Number(val);
+  return Number.isFinite(n) && n > 0 ? Math.floor(n) : def;
+}
+
+const EVENT_SELECT = {
+  id: true,
+  reviewStatus: true,
+  organizer: { select: { id: true, name: true, email: true } },
+  ...REVISION_COLUMNS_SELECT,
+} as const;
+
+async function loadRevision(id: number) {
+  return prisma.eventRevision.findUnique({ where: { id }, include: { event: { select: EVENT_SELECT } } });
+}
+
+function mapRevisionWithEvent(revision: NonNullable<Awaited<ReturnType<typeof loadRevision>>>) {
+  const { event } = revision;
+  return {
+    ...mapRevision(revision, event),
+    event: { id: event.id, title: event.title, reviewStatus: event.reviewStatus, organizer: event.organizer },
+  };
+}
+
+/**
+ * GET /api/admin/event-revisions
+ * Query: status (PENDING por defecto), page, pageSize. Las más antiguas primero.
+ */
+export async function listEventRevisions(req: Request, res: Response) {
+  const status = (toStr(req.query.status).toUpperCase() || 'PENDING') as EventRevisionStatus;
+  if (!REVISION_STATUSES.includes(status)) {
+    return res.status(400).json({ error: `status inválido (${REVISION_STATUSES.join(', ')})` });
+  }
+  const page = toInt(req.query.page, 1);
+  const pageSize = Math.min(toInt(req.query.pageSize, 20), 100);
+
+  const [total, revisions] = await Promise.all([
+    prisma.eventRevision.count({ where: { status } }),
+    prisma.eventRevision.findMany({
+      where: { status },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      skip: (page - 1) * pageSize,
+      take: pageSize,
+      include: { event: { select: EVENT_SELECT } },
+    }),
+  ]);
+
+  res.json({ items: revisions.map(mapRevisionWithEvent), total, page, pageSize });
+}
+
+/**
+ * GET /api/admin/event-revisions/:id
+ * Diff por campo: previous (vigente al proponer), proposed y current.
+ */
+export async function getEventRevision(req: Request, res: Response) {
+  const id = toInt(req.params.id, 0);
+  const revision = id ? await loadRevision(id) : null;
+  if (!revision) return res.status(404).json({ error: 'Revisión no encontrada' });
+  res.json(mapRevisionWithEvent(revision));
+}
+
+/**
+ * POST /api/admin/event-revisions/:id/approve
+ * Body: { note? }. Aplica los cambios al evento publicado.
+ */
+export async function approveRevision(req: Request, res: Response) {
+  const id = toInt(req.params.id, 0);
+  if (!id) return res.status(422).json({ error: 'ID inválido' });
+  const note = toStr(req.body?.note);
+  if (note.length > MAX_NOTE_LENGTH) {
+    return res.status(400).json({ error: 'Datos invalidos', details: [`note excede ${MAX_NOTE_LENGTH} caracteres`] });
+  }
+
+  const before = await loadRevision(id);
+  let result;
+  try {
+    result = await approveEventRevision(id, req.user!.id, note || null);
+  } catch (err) {
+    const translated = revisionErrorResponse(err);
+    if (translated) return res.status(translated.status).json(translated.body);
+    throw err;
+  }
+
+  await recordAudit(req, {
+    action: 'event_revision.approve',
+    entityType: 'Event',
+    entityId: result.eventId,
+    before: before ? (before.previous as Record<string, unknown>) : null,
+    after: before ? (before.changes as Record<string, unknown>) : null,
+    metadata: { revisionId: id, note: note || null },
+  });
+
+  const updated = await loadRevision(id);
+  res.json(updated ? mapRevisionWithEvent(updated) : null);
+}
+
+/**
+ * POST /api/admin/event-revisions/:id/reject
+ * Body: { note } (requerido, se muestra al organizador). El evento sigue con la versión aprobada.
+ */
+export async function rejectRevision(req: Request, res: Response) {
+  const id = toInt(req.params.id, 0);
+  if (!id) return res.status(422).json({ error: 'ID inválido' });
+  const note = toStr(req.body?.note);
+  const errors: string[] = [];
+  if (!note) errors.push('note es requerido');
+  else if (note.length > MAX_NOTE_LENGTH) errors.push(`note excede ${MAX_NOTE_LENGTH} caracteres`);
+  if (errors.length) return res.status(400).json({ error: 'Datos invalidos', details: errors });
+
+  let result;
+  try {
+    result = await rejectEventRevision(id, req.user!.id, note);
+  } catch (err) {
+    const translated = revisionErrorResponse(err);
+    if (translated) return res.status(translated.status).json(translated.body);
+    throw err;
+  }
+
+  await recordAudit(req, {
+    action: 'event_revision.reject',
+    entityType: 'Event',
+    entityId: result.eventId,
+    metadata: { revisionId: id, note },
+  });
+
+  const updated = await loadRevision(id);
+  res.json(updated ? mapRevisionWithEvent(updated) : null);
+}
@@ -1,6 +1,24 @@
 // src/controllers/admin.events.controller.ts
 import { Request, Response } from 'express';
 import prisma from '../prisma/client';
+import { recordAudit } from '../services/audit.service';
+import {
+  startEventCancellation,
+  queueEventCancellation,
+  retryEventCancellation,
+  getEventCancellationProgress,
+} from '../services/eventCancellation.service';
+import {
+  addReviewComment,
+  getReviewThreads,
+  parseReviewCommentBody,
+  parseReviewComments,
+  parseReviewMessage,
+  REVIEW_STATUSES,
+  reviewErrorResponse,
+  transitionEventReview,
+} from '../services/eventReview.service';
+import type { EventReviewStatus } from '@prisma/client';
 
 type AdminStatus = 'approved' | 'pending';
 const ALLOWED: Set<AdminStatus> = new Set(['approved', 'pending']);
@@ -45,7 +63,12 @@ function mapEvent(ev: any) {
     venue: ev.location,
     capacity: ev.capacity,
     status: ev.approved ? ('approved' as AdminStatus) : ('pending' as AdminStatus),
+    reviewStatus: ev.reviewStatus ?? null,
+    submittedAt: ev.submittedAt ?? null,
+    reviewedAt: ev.reviewedAt ?? null,
+    reviewRound: ev.reviewRound ?? 0,
     isActive: ev.isActive ?? true,
+    canceledAt: ev.canceledAt ?? null,
     eventType: ev.eventType,
     organizerId: ev.organizerId,
     organizer: ev.organizer
@@ -63,12 +86,13 @@ function mapEvent(ev: any) {
 
     // portada/miniatura
     coverImageUrl: ev.coverImageUrl ?? null,
+    coverImageVariants: ev.coverImageVariants ?? null,
   };
 }
 
 /**
  * GET /api/admin/events
- * Query: page, pageSize, q, status (approved|pending), organizerId
+ * Query: page, pageSize, q, status (approved|pending), reviewStatus, organizerId
  */
 export async function adminListEvents(req: Request, res: Response) {
   const page = toInt(req.query.page, 1);
@@ -76,6 +100,7 @@ export async function adminListEvents(req: Request, res: Response) {
   const q = toStr(req.query.q);
   const organizerId = toInt(req.query.organizerId, 0) || undefined;
   const statusQ = toStr(req.query.status) as AdminStatus;
+  const reviewStatus = toStr(req.query.reviewStatus).toUpperCase() as EventReviewStatus;
 
   const where: any = {
     ...(q ? { title: { contains: q, mode: 'insensitive' } } : {}),
@@ -83,6 +108,7 @@ export async function adminListEvents(req: Request, res: Response) {
     ...(statusQ && ALLOWED.has(statusQ)
       ? { approved: statusQ === 'approved' }
       : {}),
+    ...(REVIEW_STATUSES.includes(reviewStatus) ? { reviewStatus } : {}),
   };
 
   const [items, total] = await Promise.all([
@@ -227,7 +253,8 @@ export async function adminGetEvent(req: Request, res: Response) {
 /**
  * PATCH /api/admin/events/:id/status
  * Body: { status: "approved" | "pending" }
- * -> setea event.approved en consecuencia
+ * Atajo del flujo de revisión: "approved" → APPROVED, "pending" → vuelve a SUBMITTED (cola).
+ * Para pedir cambios o rechazar usar POST /:id/review.
  *
  * 🔒 Si el organizador está ELIMINADO o INACTIVO, no permite aprobar.
  */
@@ -241,34 +268,19 @@ export async function adminSetEventStatus(req: Request, res: Response) {
       .json({ error: 'Estado inválido (usa "approved" o "pending")' });
   }
 
-  // Traemos el evento con estado del organizador para validar reglas
-  const ev = await prisma.event.findUnique({
-    where: { id },
-    select: {
-      id: true,
-      approved: true,
-      organizer: {
-        select: {
-          id: true,
-          isActive: true,
-          deletedAt: true,
-        },
-      },
-    },
-  });
-
+  const ev = await prisma.event.findUnique({ where: { id }, select: { id: true, approved: true, reviewStatus: true } });
   if (!ev) return res.status(404).json({ error: 'Evento no encontrado' });
 
-  // ❌ No permitir APROBAR si el organizador está eliminado o inactivo
-  if (status === 'approved' && (!ev.organizer?.isActive || ev.organizer?.deletedAt)) {
-    return res.status(409).json({
-      error: 'No puedes aprobar eventos de cuentas eliminadas o inactivas.',
-    });
+  try {
+    await transitionEventReview(id, status === 'approved' ? 'APPROVED' : 'SUBMITTED', { id: req.user!.id, role: 'admin' });
+  } catch (err) {
+    const translated = reviewErrorResponse(err);
+    if (translated) return res.status(translated.status).json(translated.body);
+    throw err;
   }
 
-  const updated = await prisma.event.update({
+  const updated = await prisma.event.findUniqueOrThrow({
     where: { id },
-    data: { approved: status === 'approved' },
     include: {
       organizer: {
         select: {
@@ -282,6 +294,14 @@ export async function adminSetEventStatus(req: Request, res: Response) {
     },
   });
 
+  await recordAudit(req, {
+    action: 'event.status.update',
+    entityType: 'Event',
+    entityId: id,
+    before: { approved: ev.approved, reviewStatus: ev.reviewStatus },
+    after: { approved: updated.approved, reviewStatus: updated.reviewStatus },
+  });
+
   res.json(mapEvent(updated));
 }
 
@@ -325,6 +345,19 @@ export async function adminDeleteEvent(req: Request, res: Response) {
       where: { id },
     });
 
+    await recordAudit(req, {
+      action: 'event.delete',
+      entityType: 'Event',
+      entityId: id,
+      before: {
+        title: ev.title,
+        organizerId: ev.organizerId,
+        approved: ev.approved,
+        isActive: ev.isActive,
+        date: ev.date,
+      },
+    });
+
     res.json({ 
       success: true, 
       message: 'Evento eliminado correctamente',
@@ -362,6 +395,9 @@ export async function adminToggleEventActive(req: Request, res: Response) {
     });
 
     if (!event) return res.status(404).json({ error: 'Evento no encontrado' });
+    if (isActive && event.canceledAt) {
+      return res.status(409).json({ error: 'El evento fue cancelado y no puede reactivarse' });
+    }
 
     // Actualizar estado del evento
     const updated = await prisma.event.update({
@@ -369,6 +405,15 @@ export async function adminToggleEventActive(req: Request, res: Response) {
       data: { isActive },
     });
 
+    await recordAudit(req, {
+      action: 'event.active.update',
+      entityType: 'Event',
+      entityId: id,
+      before: { isActive: event.isActive },
+      after: { isActive: updated.isActive },
+      metadata: { paidReservations: event._count.reservations },
+    });
+
     res.json({
       success: true,
       message: isActive ? 'Evento activado correctamente' : 'Evento desactivado correctamente',
@@ -381,5 +426,241 @@ export async function adminToggleEventActive(req: Request, res: Response) {
   }
 }
 
+/**
+ * POST /api/admin/events/:id/cancel
+ * Body: { reason }
+ * Cancela el evento de forma definitiva y lanza en segundo plano:
+ * cancelación de payouts pendientes, anulación de QRs, reembolso de cada compra pagada
+ * y aviso por email a los compradores. Progreso en GET /:id/cancellation.
+ */
+export async function adminCancelEvent(req: Request, res: Response) {
+  try {
+    const id = toInt(req.params.id, 0);
+    if (!id) return res.status(422).json({ error: 'ID inválido' });
+
+    const reason = toStr(req.body?.reason);
+    if (reason.length < 10 || reason.length > 500) {
+      return res.status(400).json({ error: 'El motivo debe tener entre 10 y 500 caracteres' });
+    }
+
+    const event = await prisma.event.findUnique({
+      where: { id },
+      select: { id: true, title: true, isActive: true, canceledAt: true, eventType: true },
+    });
+    if (!event) return res.status(404).json({ error: 'Evento no encontrado' });
+    if (event.canceledAt) {
+      return res.status(409).json({ error: 'El evento ya fue cancelado' });
+    }
+
+    const cancellation = await startEventCancellation(id, req.user!.id, reason);
+    if (!cancellation) {
+      return res.status(409).json({ error: 'El evento ya fue cancelado' });
+    }
+
+    await recordAudit(req, {
+      action: 'event.cancel',
+      entityType: 'Event',
+      entityId: id,
+      before: { isActive: event.isActive, canceledAt: null },
+      after: { isActive: false, canceledAt: new Date() },
+      metadata: { reason, cancellationId: cancellation.id, paidReservations: cancellation.paidReservations },
+    });
+
+    queueEventCancellation(cancellation.id);
+
+    return res.status(202).json({
+      message: 'Evento cancelado. Los reembolsos y avisos se están procesando.',
+      cancellation,
+    });
+  } catch (err) {
+    console.error('adminCancelEvent error:', err);
+    return res.status(500).json({ error: 'No se pudo cancelar el evento' });
+  }
+}
+
+/**
+ * GET /api/admin/events/:id/cancellation
+ * Progreso de la cancelación (contadores + reservas por refundStatus)
+ */
+export async function adminGetEventCancellation(req: Request, res: Response) {
+  try {
+    const id = toInt(req.params.id, 0);
+    if (!id) return res.status(422).json({ error: 'ID inválido' });
+
+    const progress = await getEventCancellationProgress(id);
+    if (!progress) return res.status(404).json({ error: 'El evento no tiene una cancelación en curso' });
+
+    const requestedBy = await prisma.user.findUnique({
+      where: { id: progress.requestedById },
+      select: { id: true, name: true, email: true },
+    });
+
+    return res.json({ ...progress, requestedBy });
+  } catch (err) {
+    console.error('adminGetEventCancellation error:', err);
+    return res.status(500).json({ error: 'No se pudo obtener el progreso de la cancelación' });
+  }
+}
+
+/**
+ * POST /api/admin/events/:id/cancellation/retry
+ * Vuelve a intentar los reembolsos y avisos fallidos de una cancelación terminada.
+ */
+export async function adminRetryEventCancellation(req: Request, res: Response) {
+  try {
+    const id = toInt(req.params.id, 0);
+    if (!id) return res.status(422).json({ error: 'ID inválido' });
+
+    const cancellation = await prisma.eventCancellation.findUnique({ where: { eventId: id } });
+    if (!cancellation) return res.status(404).json({ error: 'El evento no tiene una cancelación en curso' });
+    if (cancellation.status === 'PENDING' || cancellation.status === 'RUNNING') {
+      return res.status(409).json({ error: 'La cancelación aún se está procesando' });
+    }
+    if (cancellation.status === 'COMPLETED') {
+      return res.status(409).json({ error: 'La cancelación terminó sin errores' });
+    }
+
+    const requeued = await retryEventCancellation(cancellation.id);
+
+    await recordAudit(req, {
+      action: 'event.cancellation.retry',
+      entityType: 'Event',
+      entityId: id,
+      metadata: { cancellationId: cancellation.id, requeuedReservations: requeued },
+    });
+
+    queueEventCancellation(cancellation.id);
+
+    return res.status(202).json({ message: 'Reintentando reembolsos y avisos fallidos', requeuedReservations: requeued });
+  } catch (err) {
+    console.error('adminRetryEventCancellation error:', err);
+    return res.status(500).json({ error: 'No se pudo reintentar la cancelación' });
+  }
+}
+
+/* ===================== Revisión ===================== */
 
+const REVIEW_DECISIONS = new Set<EventReviewStatus>(['APPROVED', 'CHANGES_REQUESTED', 'REJECTED']);
 
+/**
+ * GET /api/admin/events/review-queue
+ * Eventos en SUBMITTED, los que esperan hace más primero y a igual envío los más próximos.
+ * Query: page, pageSize, sort (submitted|date; date = los más próximos primero), organizerId
+ */
+export async function adminReviewQueue(req: Request, res: Response) {
+  const page = toInt(req.query.page, 1);
+  const pageSize = Math.min(50, Math.max(5, toInt(req.query.pageSize, 20)));
+  const organizerId = toInt(req.query.organizerId, 0) || undefined;
+  const byDate = toStr(req.query.sort) === 'date';
+
+  const where = { reviewStatus: 'SUBMITTED' as const, canceledAt: null, ...(organizerId ? { organizerId } : {}) };
+  const orderBy = byDate
+    ? [{ date: 'asc' as const }, { submittedAt: 'asc' as const }]
+    : [{ submittedAt: 'asc' as const }, { date: 'asc' as const }];
+
+  const [items, total] = await Promise.all([
+    prisma.event.findMany({
+      where,
+      orderBy,
+      skip: (page - 1) * pageSize,
+      take: pageSize,
+      include: {
+        organizer: { select: { id: true, name: true, email: true, isActive: true, deletedAt: true } },
+      },
+    }),
+    prisma.event.count({ where }),
+  ]);
+
+  res.json({
+    items: items.map((ev) => ({ ...mapEvent(ev), isResubmission: ev.reviewRound > 1 })),
+    total,
+    page,
+    pageSize,
+  });
+}
+
+/**
+ * GET /api/admin/events/:id/review
+ * Estado de revisión e historial en hilos
+ */
+export async function adminGetEventReview(req: Request, res: Response) {
+  const id = toInt(req.params.id, 0);
+  const event = id
+    ? await prisma.event.findUnique({
+        where: { id },
+        select: { id: true, title: true, reviewStatus: true, submittedAt: true, reviewedAt: true, reviewedById: true, reviewRound: true },
+      })
+    : null;
+  if (!event) return res.status(404).json({ error: 'Evento no encontrado' });
+
+  res.json({ ...event, threads: await getReviewThreads(id) });
+}
+
+/**
+ * POST /api/admin/events/:id/review
+ * Body: { decision: "APPROVED" | "CHANGES_REQUESTED" | "REJECTED", message?, comments?: [{ field, message }] }
+ * Pedir cambios o rechazar requiere message o al menos un comentario. Avisa al organizador por email.
+ */
+export async function adminReviewEvent(req: Request, res: Response) {
+  const id = toInt(req.params.id, 0);
+  if (!id) return res.status(422).json({ error: 'ID inválido' });
+
+  const decision = toStr(req.body?.decision).toUpperCase() as EventReviewStatus;
+  const errors: string[] = [];
+  if (!REVIEW_DECISIONS.has(decision)) errors.push('decision inválida (APPROVED, CHANGES_REQUESTED o REJECTED)');
+  const parsedMessage = parseReviewMessage(req.body?.message);
+  if (parsedMessage.error) errors.push(parsedMessage.error);
+  const parsedComments = parseReviewComments(req.body?.comments);
+  errors.push(...parsedComments.errors);
+  if (errors.length) return res.status(400).json({ error: 'Datos invalidos', details: errors });
+
+  let result;
+  try {
+    result = await transitionEventReview(id, decision, { id: req.user!.id, role: 'admin' }, {
+      message: parsedMessage.message,
+      comments: parsedComments.comments,
+    });
+  } catch (err) {
+    const translated = reviewErrorResponse(err);
+    if (translated) return res.status(translated.status).json(translated.body);
+    throw err;
+  }
+
+  await recordAudit(req, {
+    action: 'event.review',
+    entityType: 'Event',
+    entityId: id,
+    before: { reviewStatus: result.from },
+    after: { reviewStatus: result.to },
+    metadata: { round: result.round, comments: parsedComments.comments.length },
+  });
+
+  const updated = await prisma.event.findUniqueOrThrow({
+    where: { id },
+    include: {
+      organizer: { select: { id: true, name: true, email: true, isActive: true, deletedAt: true } },
+    },
+  });
+  res.json({ event: mapEvent(updated), threads: await getReviewThreads(id) });
+}
+
+/**
+ * POST /api/admin/events/:id/review/comments
+ * Body: { message, field?, parentId? }. Comentario sin cambiar el estado (o respuesta en un hilo).
+ */
+export async function adminCommentEventReview(req: Request, res: Response) {
+  const id = toInt(req.params.id, 0);
+  if (!id) return res.status(422).json({ error: 'ID inválido' });
+
+  const { errors, input } = parseReviewCommentBody(req.body);
+  if (errors.length) return res.status(400).json({ error: 'Datos invalidos', details: errors });
+
+  try {
+    const comment = await addReviewComment(id, { id: req.user!.id, role: 'admin' }, input);
+    res.status(201).json(comment);
+  } catch (err) {
+    const translated = reviewErrorResponse(err);
+    if (translated) return res.status(translated.status).json(translated.body);
+    throw err;
+  }
+}
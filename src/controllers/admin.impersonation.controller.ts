@@ -0,0 +1,220 @@
+// src/controllers/admin.impersonation.controller.ts
+import { Request, Response } from 'express';
+import type { Prisma } from '@prisma/client';
+import prisma from '../prisma/client';
+import { env } from '../config/env';
+import { coerceRole, generateImpersonationToken } from '../utils/auth';
+import { recordAudit } from '../services/audit.service';
+
+const MAX_PAGE_SIZE = 100;
+const REASON_MIN = 10;
+const REASON_MAX = 500;
+
+// Solo cuentas de cliente: suplantar staff o superadmins permitiría escalar permisos
+const IMPERSONABLE_ROLES = ['buyer', 'organizer'];
+
+function toStr(v: unknown) {
+  return String(v ?? '').trim();
+}
+
+function sessionStatus(s: { endedAt: Date | null; expiresAt: Date }) {
+  if (s.endedAt) return 'ENDED';
+  return s.expiresAt <= new Date() ? 'EXPIRED' : 'ACTIVE';
+}
+
+/** Nombre/email de los usuarios involucrados (la sesión solo guarda ids) */
+async function usersById(ids: number[]) {
+  const unique = [...new Set(ids)];
+  if (!unique.length) return new Map<number, { id: number; name: string; email: string; role: string }>();
+  const users = await prisma.user.findMany({
+    where: { id: { in: unique } },
+    select: { id: true, name: true, email: true, role: true },
+  });
+  return new Map(users.map((u) => [u.id, u]));
+}
+
+/**
+ * POST /api/admin/impersonation
+ * Body: { userId, reason, minutes?, readOnly? }
+ * Devuelve un access token de "ver como usuario" (sin refresh). Solo lectura por defecto.
+ * Una sesión activa por superadmin: iniciar otra cierra la anterior.
+ */
+export async function adminStartImpersonation(req: Request, res: Response) {
+  try {
+    const admin = req.user!;
+
+    const userId = Number(req.body?.userId);
+    if (!Number.isInteger(userId) || userId <= 0) {
+      return res.status(400).json({ error: 'userId inválido' });
+    }
+    if (userId === admin.id) {
+      return res.status(400).json({ error: 'No puedes suplantarte a ti mismo' });
+    }
+
+    const reason = toStr(req.body?.reason);
+    if (reason.length < REASON_MIN || reason.length > REASON_MAX) {
+      return res.status(400).json({ error: `El motivo debe tener entre ${REASON_MIN} y ${REASON_MAX} caracteres` });
+    }
+
+    const maxMinutes = Math.max(1, env.IMPERSONATION_MAX_MINUTES);
+    const minutes = req.body?.minutes != null ? Number(req.body.minutes) : env.IMPERSONATION_DEFAULT_MINUTES;
+    if (!Number.isInteger(minutes) || minutes < 1 || minutes > maxMinutes) {
+      return res.status(400).json({ error: `La duración debe estar entre 1 y ${maxMinutes} minutos` });
+    }
+
+    const readOnly = req.body?.readOnly !== false;
+
+    const target = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, name: true, email: true, role: true, tokenVersion: true, anonymizedAt: true },
+    });
+    if (!target) return res.status(404).json({ error: 'Usuario no encontrado' });
+    if (!IMPERSONABLE_ROLES.includes(target.role)) {
+      return res.status(403).json({ error: 'Solo se pueden suplantar cuentas de comprador u organizador' });
+    }
+    if (target.anonymizedAt) {
+      return res.status(409).json({ error: 'La cuenta fue anonimizada' });
+    }
+
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + minutes * 60 * 1000);
+
+    const { session, replaced } = await prisma.$transaction(async (tx) => {
+      const replaced = await tx.impersonationSession.updateMany({
+        where: { impersonatorId: admin.id, endedAt: null, expiresAt: { gt: now } },
+        data: { endedAt: now, endedReason: 'REPLACED' },
+      });
+      const session = await tx.impersonationSession.create({
+        data: {
+          impersonatorId: admin.id,
+          targetUserId: target.id,
+          reason,
+          readOnly,
+          expiresAt,
+          ip: req.ip ? String(req.ip).slice(0, 64) : null,
+          userAgent: req.get('user-agent')?.slice(0, 512) ?? null,
+        },
+      });
+      return { session, replaced: replaced.count };
+    });
+
+    const token = generateImpersonationToken(
+      { userId: target.id, role: coerceRole(target.role), tokenVersion: target.tokenVersion },
+      { id: session.id, by: admin.id, ro: readOnly },
+      expiresAt
+    );
+
+    await recordAudit(req, {
+      action: 'impersonation.start',
+      entityType: 'User',
+      entityId: target.id,
+      metadata: { impersonationId: session.id, reason, readOnly, expiresAt, replacedSessions: replaced },
+    });
+
+    return res.status(201).json({
+      token,
+      impersonation: {
+        id: session.id,
+        readOnly,
+        startedAt: session.startedAt,
+        expiresAt,
+        user: { id: target.id, name: target.name, email: target.email, role: target.role },
+      },
+    });
+  } catch (err) {
+    console.error('adminStartImpersonation error:', err);
+    return res.status(500).json({ error: 'No se pudo iniciar la suplantación' });
+  }
+}
+
+/**
+ * POST /api/admin/impersonation/:id/end
+ * Cierra una sesión de suplantación (el token deja de aceptarse de inmediato).
+ */
+export async function adminEndImpersonation(req: Request, res: Response) {
+  try {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id) || id <= 0) return res.status(400).json({ error: 'ID inválido' });
+
+    const session = await prisma.impersonationSession.findUnique({ where: { id } });
+    if (!session) return res.status(404).json({ error: 'Sesión de suplantación no encontrada' });
+    if (session.endedAt) {
+      return res.status(409).json({ error: 'La sesión de suplantación ya finalizó' });
+    }
+
+    const now = new Date();
+    const updated = await prisma.impersonationSession.update({
+      where: { id },
+      data: { endedAt: now, endedReason: 'ENDED' },
+    });
+
+    // Si ya había vencido, endedAt queda como el momento del cierre explícito
+    await recordAudit(req, {
+      action: 'impersonation.end',
+      entityType: 'User',
+      entityId: session.targetUserId,
+      metadata: {
+        impersonationId: session.id,
+        impersonatorId: session.impersonatorId,
+        durationSeconds: Math.round((Math.min(now.getTime(), session.expiresAt.getTime()) - session.startedAt.getTime()) / 1000),
+        expiredBeforeEnd: session.expiresAt <= now,
+      },
+    });
+
+    return res.json({ message: 'Suplantación finalizada', impersonation: { ...updated, status: sessionStatus(updated) } });
+  } catch (err) {
+    console.error('adminEndImpersonation error:', err);
+    return res.status(500).json({ error: 'No se pudo finalizar la suplantación' });
+  }
+}
+
+/**
+ * GET /api/admin/impersonation
+ * Query: impersonatorId, targetUserId, status (ACTIVE | ENDED | EXPIRED), page, pageSize
+ */
+export async function adminListImpersonations(req: Request, res: Response) {
+  try {
+    const page = Math.max(1, parseInt(toStr(req.query.page)) || 1);
+    const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(toStr(req.query.pageSize)) || 20));
+
+    const where: Prisma.ImpersonationSessionWhereInput = {};
+    const impersonatorId = Number(req.query.impersonatorId);
+    if (req.query.impersonatorId && Number.isInteger(impersonatorId)) where.impersonatorId = impersonatorId;
+    const targetUserId = Number(req.query.targetUserId);
+    if (req.query.targetUserId && Number.isInteger(targetUserId)) where.targetUserId = targetUserId;
+
+    const now = new Date();
+    const status = toStr(req.query.status).toUpperCase();
+    if (status === 'ACTIVE') Object.assign(where, { endedAt: null, expiresAt: { gt: now } });
+    else if (status === 'ENDED') where.endedAt = { not: null };
+    else if (status === 'EXPIRED') Object.assign(where, { endedAt: null, expiresAt: { lte: now } });
+
+    const [total, rows] = await Promise.all([
+      prisma.impersonationSession.count({ where }),
+      prisma.impersonationSession.findMany({
+        where,
+        orderBy: { startedAt: 'desc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+    ]);
+
+    const users = await usersById(rows.flatMap((r) => [r.impersonatorId, r.targetUserId]));
+
+    return res.json({
+      items: rows.map((r) => ({
+        ...r,
+        status: sessionStatus(r),
+        impersonator: users.get(r.impersonatorId) ?? null,
+        targetUser: users.get(r.targetUserId) ?? null,
+      })),
+      total,
+      page,
+      pageSize,
+      totalPages: Math.ceil(total / pageSize),
+    });
+  } catch (err) {
+    console.error('adminListImpersonations error:', err);
+    return res.status(500).json({ error: 'No se pudo obtener el historial de suplantaciones' });
+  }
+}
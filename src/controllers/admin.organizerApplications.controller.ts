@@ -1,6 +1,7 @@
 // src/controllers/admin.organizerApplications.controller.ts
 import { Request, Response } from "express";
 import prisma from "../prisma/client";
+import { recordAudit } from "../services/audit.service";
 
 type AppStatus = "PENDING" | "APPROVED" | "REJECTED";
 
@@ -176,6 +177,20 @@ export async function adminApproveOrganizerApplication(req: Request, res: Respon
     return { updatedApp, updatedUser, connectedAccount };
   });
 
+  await recordAudit(req, {
+    action: "organizer_application.approve",
+    entityType: "OrganizerApplication",
+    entityId: id,
+    before: { status: app.status },
+    after: { status: result.updatedApp.status },
+    metadata: {
+      userId: app.userId,
+      role: result.updatedUser.role,
+      canSell: result.updatedUser.canSell,
+      payoutsEnabled: result.connectedAccount.payoutsEnabled,
+    },
+  });
+
   res.json({
     ok: true,
     message: "Solicitud aprobada y cuenta de cobro configurada",
@@ -231,6 +246,15 @@ export async function adminRejectOrganizerApplication(req: Request, res: Respons
     }),
   ]);
 
+  await recordAudit(req, {
+    action: "organizer_application.reject",
+    entityType: "OrganizerApplication",
+    entityId: id,
+    before: { status: app.status },
+    after: { status: updatedApp.status },
+    metadata: { userId: app.userId, notes: notes || null },
+  });
+
   res.json({
     ok: true,
     message: "Solicitud rechazada",
@@ -282,6 +306,15 @@ export async function adminReopenOrganizerApplication(req: Request, res: Respons
     }),
   ]);
 
+  await recordAudit(req, {
+    action: "organizer_application.reopen",
+    entityType: "OrganizerApplication",
+    entityId: id,
+    before: { status: app.status },
+    after: { status: updatedApp.status },
+    metadata: { userId: app.userId },
+  });
+
   res.json({
     ok: true,
     message: "Solicitud reabierta a PENDING",
@@ -21,11 +21,14 @@ import path from "path";
 import crypto from "crypto";
 import prisma from "../prisma/client";
 import { env } from "../config/env";
+import { hasPermission, PERMISSIONS } from "../utils/permissions";
+import { recordAudit } from "../services/audit.service";
 
 const DEADLINE_HOURS = Number(env.TICKET_UPLOAD_DEADLINE_HOURS ?? 24);
 
-function isSuperadmin(req: Request) {
-  return (req as any).user?.role === "superadmin";
+/** Revisor de tickets (admin:tickets); ve reservas de cualquier evento */
+function isTicketReviewer(req: Request) {
+  return hasPermission((req as any).user?.role, PERMISSIONS.ADMIN_TICKETS);
 }
 
 function isOrganizer(req: Request) {
@@ -74,7 +77,7 @@ function computeDeadline(paidAt?: Date | null, createdAt?: Date | null): Date {
  * ==========================================================*/
 export async function adminListPendingTickets(req: Request, res: Response) {
   try {
-    if (!isSuperadmin(req)) {
+    if (!isTicketReviewer(req)) {
       return res.status(403).json({ error: "No autorizado" });
     }
 
@@ -153,7 +156,7 @@ export async function adminListPendingTickets(req: Request, res: Response) {
  * ==========================================================*/
 export async function adminApproveTicket(req: Request, res: Response) {
   try {
-    if (!isSuperadmin(req)) {
+    if (!isTicketReviewer(req)) {
       return res.status(403).json({ error: "No autorizado" });
     }
 
@@ -187,6 +190,14 @@ export async function adminApproveTicket(req: Request, res: Response) {
       },
     });
 
+    await recordAudit(req, {
+      action: "reservation.ticket.approve",
+      entityType: "Reservation",
+      entityId: reservationId,
+      before: { fulfillmentStatus: reservation.fulfillmentStatus },
+      after: { fulfillmentStatus: "TICKET_APPROVED" },
+    });
+
     return res.json({ ok: true, message: "Ticket aprobado" });
   } catch (err: any) {
     console.error("adminApproveTicket error:", err);
@@ -199,7 +210,7 @@ export async function adminApproveTicket(req: Request, res: Response) {
  * ==========================================================*/
 export async function adminRejectTicket(req: Request, res: Response) {
   try {
-    if (!isSuperadmin(req)) {
+    if (!isTicketReviewer(req)) {
       return res.status(403).json({ error: "No autorizado" });
     }
 
@@ -228,6 +239,15 @@ export async function adminRejectTicket(req: Request, res: Response) {
       },
     });
 
+    await recordAudit(req, {
+      action: "reservation.ticket.reject",
+      entityType: "Reservation",
+      entityId: reservationId,
+      before: { fulfillmentStatus: reservation.fulfillmentStatus },
+      after: { fulfillmentStatus: "TICKET_REJECTED" },
+      metadata: { reason },
+    });
+
     return res.json({ ok: true, message: "Ticket rechazado" });
   } catch (err: any) {
     console.error("adminRejectTicket error:", err);
@@ -240,7 +260,7 @@ export async function adminRejectTicket(req: Request, res: Response) {
  * ==========================================================*/
 export async function adminPreviewTicketFile(req: Request, res: Response) {
   try {
-    if (!isSuperadmin(req)) {
+    if (!isTicketReviewer(req)) {
       return res.status(403).json({ error: "No autorizado" });
     }
 
@@ -285,7 +305,7 @@ export async function adminPreviewTicketFile(req: Request, res: Response) {
  * ==========================================================*/
 export async function sweepOverdueReservations(req: Request, res: Response) {
   try {
-    if (!isSuperadmin(req)) {
+    if (!isTicketReviewer(req)) {
       return res.status(403).json({ error: "No autorizado" });
     }
 
@@ -358,6 +378,17 @@ export async function sweepOverdueReservations(req: Request, res: Response) {
       }
     }
 
+    await recordAudit(req, {
+      action: "reservations.sweep_overdue",
+      entityType: "Reservation",
+      metadata: {
+        limit,
+        processed: results.length,
+        refunded: results.filter((r) => r.ok).map((r) => r.reservationId),
+        failed: results.filter((r) => !r.ok).map((r) => r.reservationId),
+      },
+    });
+
     return res.json({ processed: results.length, results });
   } catch (err: any) {
     console.error("sweepOverdueReservations error:", err);
@@ -370,7 +401,7 @@ export async function sweepOverdueReservations(req: Request, res: Response) {
  * ==========================================================*/
 export async function organizerListReservations(req: Request, res: Response) {
   try {
-    if (!isOrganizer(req) && !isSuperadmin(req)) {
+    if (!isOrganizer(req) && !isTicketReviewer(req)) {
       return res.status(403).json({ error: "No autorizado" });
     }
 
@@ -403,7 +434,7 @@ export async function organizerListReservations(req: Request, res: Response) {
             ],
           }
         : {}),
-      ...(isSuperadmin(req) ? {} : { event: { organizerId } }),
+      ...(isTicketReviewer(req) ? {} : { event: { organizerId } }),
       // Solo LEGACY (con fulfillmentStatus no nulo)
       fulfillmentStatus: { notIn: [null] as any },
     };
@@ -515,7 +546,7 @@ export async function organizerUploadTicket(req: Request, res: Response) {
     if (!Number.isFinite(reservationId)) {
       return res.status(400).json({ error: "ID inválido" });
     }
-    if (!isOrganizer(req) && !isSuperadmin(req)) {
+    if (!isOrganizer(req) && !isTicketReviewer(req)) {
       return res.status(403).json({ error: "No autorizado" });
     }
     const file = (req as any).file as Express.Multer.File | undefined;
@@ -527,7 +558,7 @@ export async function organizerUploadTicket(req: Request, res: Response) {
     });
     if (!reservation) return res.status(404).json({ error: "Reserva no encontrada" });
 
-    if (!isSuperadmin(req)) {
+    if (!isTicketReviewer(req)) {
       const organizerId = (req as any).user?.id;
       if (!reservation.event || reservation.event.organizerId !== organizerId) {
         return res.status(403).json({ error: "No puedes subir para este evento" });
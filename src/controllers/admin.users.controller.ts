@@ -1,5 +1,9 @@
 import { Request, Response } from "express";
 import prisma from "../prisma/client";
+import { revokeAllUserSessions, revokeSession } from "../services/session.service";
+import { recordAudit } from "../services/audit.service";
+import { runAnonymizationOnce } from "../services/anonymization.service";
+import { withdrawPendingRevisions } from "../services/eventRevision.service";
 
 function toInt(v: unknown, def: number) {
   const n = Number(v);
@@ -289,7 +293,7 @@ export async function adminSetUserCanSell(req: Request, res: Response) {
 
   const user = await prisma.user.findUnique({
     where: { id },
-    select: { role: true, deletedAt: true, isActive: true },
+    select: { role: true, deletedAt: true, isActive: true, canSell: true },
   });
   if (!user) return res.status(404).json({ error: "Usuario no encontrado" });
   if (user.role !== "organizer") {
@@ -309,6 +313,14 @@ export async function adminSetUserCanSell(req: Request, res: Response) {
     },
   });
 
+  await recordAudit(req, {
+    action: "user.can_sell.update",
+    entityType: "User",
+    entityId: id,
+    before: { canSell: user.canSell },
+    after: { canSell: updated.canSell },
+  });
+
   const lastStatusMap = await getLatestOrganizerAppStatuses([id]);
   const latestOrganizerAppStatus = lastStatusMap.get(id) ?? null;
   const effectiveCanSell =
@@ -319,6 +331,9 @@ export async function adminSetUserCanSell(req: Request, res: Response) {
 
 export async function adminDeactivateUser(req: Request, res: Response) {
   const id = Number(req.params.id);
+  const before = await prisma.user.findUnique({ where: { id }, select: { isActive: true, canSell: true } });
+  if (!before) return res.status(404).json({ error: "Usuario no encontrado" });
+
   const updated = await prisma.user.update({
     where: { id },
     data: { isActive: false, canSell: false },
@@ -329,6 +344,14 @@ export async function adminDeactivateUser(req: Request, res: Response) {
     },
   });
 
+  await recordAudit(req, {
+    action: "user.deactivate",
+    entityType: "User",
+    entityId: id,
+    before,
+    after: { isActive: updated.isActive, canSell: updated.canSell },
+  });
+
   const lastStatusMap = await getLatestOrganizerAppStatuses([id]);
   res.json({
     ...updated,
@@ -339,6 +362,9 @@ export async function adminDeactivateUser(req: Request, res: Response) {
 
 export async function adminActivateUser(req: Request, res: Response) {
   const id = Number(req.params.id);
+  const before = await prisma.user.findUnique({ where: { id }, select: { isActive: true } });
+  if (!before) return res.status(404).json({ error: "Usuario no encontrado" });
+
   const updated = await prisma.user.update({
     where: { id },
     data: { isActive: true },
@@ -349,6 +375,14 @@ export async function adminActivateUser(req: Request, res: Response) {
     },
   });
 
+  await recordAudit(req, {
+    action: "user.activate",
+    entityType: "User",
+    entityId: id,
+    before,
+    after: { isActive: updated.isActive },
+  });
+
   const lastStatusMap = await getLatestOrganizerAppStatuses([id]);
   const latestOrganizerAppStatus = lastStatusMap.get(id) ?? null;
   const effectiveCanSell =
@@ -386,6 +420,10 @@ export async function adminSoftDeleteUser(req: Request, res: Response) {
 
   try {
     const result = await prisma.$transaction(async (tx) => {
+      const before = await tx.user.findUniqueOrThrow({
+        where: { id },
+        select: { isActive: true, canSell: true, deletedAt: true },
+      });
       const user = await tx.user.update({
         where: { id },
         data: {
@@ -408,12 +446,24 @@ export async function adminSoftDeleteUser(req: Request, res: Response) {
         data: { status: "REJECTED" },
       });
 
+      const events = await tx.event.findMany({ where: { organizerId: id }, select: { id: true } });
       const eventsRes = await tx.event.updateMany({
         where: { organizerId: id },
-        data: { approved: false },
+        data: { approved: false, reviewStatus: "REJECTED" },
       });
+      await withdrawPendingRevisions(events.map((e) => e.id), tx);
+
+      return { before, user, eventsDisabled: eventsRes.count };
+    });
 
-      return { user, eventsDisabled: eventsRes.count };
+    // Sin PII en el registro: el email/nombre originales no se guardan
+    await recordAudit(req, {
+      action: "user.soft_delete",
+      entityType: "User",
+      entityId: id,
+      before: result.before,
+      after: { isActive: false, canSell: false, deletedAt: now },
+      metadata: { eventsDisabled: result.eventsDisabled },
     });
 
     const lastStatusMap = await getLatestOrganizerAppStatuses([id]);
@@ -430,11 +480,75 @@ export async function adminSoftDeleteUser(req: Request, res: Response) {
   }
 }
 
+/**
+ * POST /api/admin/users/:id/revoke-sessions
+ * Body opcional: { sessionId } para revocar una sola sesión.
+ * Sin sessionId revoca todas y sube tokenVersion (invalida también tokens sin sesión).
+ */
+export async function adminRevokeUserSessions(req: Request, res: Response) {
+  try {
+    const id = Number(req.params.id);
+    if (!id || id <= 0) return res.status(400).json({ error: "ID de usuario inválido" });
 
+    const sessionId = req.body?.sessionId != null ? Number(req.body.sessionId) : null;
+    if (sessionId != null && !(Number.isInteger(sessionId) && sessionId > 0)) {
+      return res.status(400).json({ error: "ID de sesión inválido" });
+    }
 
+    const user = await prisma.user.findUnique({ where: { id }, select: { id: true } });
+    if (!user) return res.status(404).json({ error: "Usuario no encontrado" });
 
+    if (sessionId != null) {
+      const session = await prisma.session.findUnique({
+        where: { id: sessionId },
+        select: { userId: true },
+      });
+      if (!session || session.userId !== id) {
+        return res.status(404).json({ error: "Sesión no encontrada" });
+      }
+      const revoked = await revokeSession(sessionId, "ADMIN_REVOKED");
+      await recordAudit(req, {
+        action: "user.sessions.revoke",
+        entityType: "User",
+        entityId: id,
+        metadata: { sessionId, revoked: revoked ? 1 : 0 },
+      });
+      return res.json({ message: "Sesión revocada", revoked: revoked ? 1 : 0 });
+    }
+
+    await prisma.user.update({ where: { id }, data: { tokenVersion: { increment: 1 } } });
+    const revoked = await revokeAllUserSessions(id, "ADMIN_REVOKED");
+    await recordAudit(req, {
+      action: "user.sessions.revoke",
+      entityType: "User",
+      entityId: id,
+      metadata: { allSessions: true, revoked },
+    });
 
+    return res.json({ message: "Sesiones del usuario revocadas", revoked });
+  } catch (err) {
+    console.error("adminRevokeUserSessions error:", err);
+    return res.status(500).json({ error: "No se pudieron revocar las sesiones" });
+  }
+}
 
-
-
-
+/**
+ * GET /api/admin/users/anonymization/preview?limit=
+ * Dry-run del job de anonimización: cuentas que cumplieron el periodo de gracia,
+ * separadas en elegibles y bloqueadas (con el motivo). No modifica nada.
+ */
+export async function adminAnonymizationPreview(req: Request, res: Response) {
+  try {
+    const limit = Math.min(500, toInt(req.query.limit, 100));
+    const result = await runAnonymizationOnce({ dryRun: true, limit });
+    return res.json({
+      cutoff: result.cutoff,
+      eligible: result.eligible,
+      blocked: result.blocked,
+      counts: { eligible: result.eligible.length, blocked: result.blocked.length },
+    });
+  } catch (err) {
+    console.error("adminAnonymizationPreview error:", err);
+    return res.status(500).json({ error: "No se pudo obtener la vista previa de anonimización" });
+  }
+}
@@ -1,7 +1,31 @@
 // src/controllers/auth.controller.ts
 import { Request, Response } from 'express';
 import prisma from '../prisma/client';
-import { hashPassword, comparePassword, generateToken, coerceRole } from '../utils/auth';
+import { env } from '../config/env';
+import {
+  hashPassword,
+  comparePassword,
+  generateToken,
+  coerceRole,
+  twoFactorPolicyFor,
+  generateTwoFactorChallenge,
+  createPasswordResetToken,
+  passwordResetExpiry,
+  hashToken,
+  createEmailVerificationToken,
+  emailVerificationExpiry,
+} from '../utils/auth';
+import { permissionsFor } from '../utils/permissions';
+import { checkRut, normalizeRut, validateRut } from '../utils/rut';
+import { sendPasswordResetEmail, sendEmailVerificationEmail } from '../services/email.service';
+import {
+  issueSessionTokens,
+  sessionMetaFromRequest,
+  rotateRefreshToken,
+  revokeSession,
+  revokeAllUserSessions,
+  listActiveSessions,
+} from '../services/session.service';
 
 // === Config bloqueo login ===
 const MAX_FAILED_LOGINS = 5;   // intentos antes de bloquear
@@ -27,41 +51,6 @@ function isValidEmail(s: string) {
   return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(s);
 }
 
-/* ============================ Utilidades RUT ============================= */
-function normalizeRut(input: string): string {
-  const raw = String(input || '')
-    .replace(/\./g, '')
-    .replace(/-/g, '')
-    .toUpperCase();
-  const m = raw.match(/^(\d{7,8})([0-9K])$/);
-  if (!m) return '';
-  const body = m[1]!;
-  const dv = m[2]!;
-  return `${body}-${dv}`;
-}
-function calcRutDv(body: string): string {
-  let sum = 0;
-  let mul = 2;
-  for (let i = body.length - 1; i >= 0; i--) {
-    sum += parseInt(body[i]!, 10) * mul;
-    mul = mul === 7 ? 2 : mul + 1;
-  }
-  const res = 11 - (sum % 11);
-  if (res === 11) return '0';
-  if (res === 10) return 'K';
-  return String(res);
-}
-function validateRut(input: string): boolean {
-  const norm = normalizeRut(input);
-  if (!norm) return false;
-  const m = norm.match(/^(\d{7,8})-([0-9K])$/);
-  if (!m) return false;
-  const body = m[1]!;
-  const dv = m[2]!;
-  const dvCalc = calcRutDv(body);
-  return dv === dvCalc;
-}
-
 /* ==================== Política de contraseñas ==================== */
 function validatePasswordPolicy(
   password: string,
@@ -144,6 +133,43 @@ function calcAgeFrom(birth: Date) {
   return calcAge(birth);
 }
 
+/* ====================== Verificación de email ====================== */
+
+/**
+ * Genera un token de verificación (guarda solo el hash) y envía el enlace a `targetEmail`.
+ * Si `targetEmail` difiere del email actual queda como pendingEmail hasta confirmarse.
+ */
+async function issueEmailVerification(
+  user: { id: number; name: string; email: string },
+  targetEmail: string
+) {
+  const { raw, hash } = createEmailVerificationToken();
+  const expiresAt = emailVerificationExpiry(env.EMAIL_VERIFICATION_EXPIRES_HOURS);
+  const isChange = targetEmail !== user.email;
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      emailVerificationToken: hash,
+      emailVerificationExpires: expiresAt,
+      pendingEmail: isChange ? targetEmail : null,
+    },
+  });
+
+  try {
+    await sendEmailVerificationEmail({
+      email: targetEmail,
+      name: user.name,
+      verifyUrl: `${env.FRONTEND_URL}/verify-email?token=${raw}`,
+      expiresAt,
+      isChange,
+    });
+  } catch (emailError: any) {
+    console.error('❌ Error enviando email de verificación:', emailError.message);
+    // No fallar si el email falla (se puede reenviar)
+  }
+}
+
 /* ============================== Controladores ============================== */
 
 /**
@@ -196,14 +222,12 @@ export async function register(req: Request, res: Response) {
     return res.status(403).json({ error: 'No autorizado para rol superadmin' });
   }
 
-  // ✅ RUT
-  const normRut = normalizeRut(rut);
-  if (!validateRut(normRut)) {
-    return res.status(400).json({ error: 'RUT inválido' });
-  }
-  if (normRut.length > LIMITS.RUT) {
-    return res.status(400).json({ error: `El RUT excede ${LIMITS.RUT} caracteres` });
+  // ✅ RUT (se guarda en forma canónica: 12345678-5)
+  const rutCheck = checkRut(rut);
+  if (!rutCheck.ok) {
+    return res.status(400).json({ error: rutCheck.error });
   }
+  const normRut = rutCheck.rut;
 
   // ✅ Política de contraseña
   {
@@ -252,18 +276,25 @@ export async function register(req: Request, res: Response) {
         rut: true,
         role: true,
         isVerified: true,
+        emailVerified: true,
         canSell: true,
         tokenVersion: true,
       },
     });
 
-    const token = generateToken({
-      userId: user.id,
-      role: coerceRole(user.role),
-      tokenVersion: user.tokenVersion ?? 0,
-    });
+    await issueEmailVerification(user, user.email);
+
+    const { token, refreshToken } = await issueSessionTokens(
+      { id: user.id, role: user.role, tokenVersion: user.tokenVersion ?? 0 },
+      sessionMetaFromRequest(req)
+    );
 
-    return res.status(201).json({ message: 'Usuario creado', token, user });
+    return res.status(201).json({
+      message: 'Usuario creado. Revisa tu correo para confirmarlo.',
+      token,
+      refreshToken,
+      user,
+    });
   } catch (error) {
     console.error(error);
     return res.status(500).json({ error: 'Error en servidor' });
@@ -310,11 +341,13 @@ export async function login(req: Request, res: Response) {
         password: true,
         role: true,
         isVerified: true,
+        emailVerified: true,
         canSell: true,
         isActive: true,
         tokenVersion: true,
         failedLoginCount: true,
         lockUntil: true,
+        twoFactorEnabled: true,
       },
     });
 
@@ -355,14 +388,23 @@ export async function login(req: Request, res: Response) {
       await prisma.user.update({ where: { id: user.id }, data: { failedLoginCount: 0, lockUntil: null } });
     }
 
-    const token = generateToken({
-      userId: user.id,
-      role: coerceRole(user.role),
-      tokenVersion: user.tokenVersion,
-    });
+    // Login en dos pasos: con 2FA activo se entrega un challenge en vez de la sesión
+    if (user.twoFactorEnabled) {
+      const challengeToken = generateTwoFactorChallenge(user.id, user.tokenVersion);
+      return res.json({ twoFactorRequired: true, challengeToken });
+    }
+
+    const { token, refreshToken } = await issueSessionTokens(user, sessionMetaFromRequest(req));
 
     const { password: _omit, ...safeUser } = user;
-    return res.json({ token, user: safeUser });
+    // Si la política exige 2FA y aún no está enrolado, la sesión no podrá usar rutas de admin
+    const twoFactorSetupRequired = twoFactorPolicyFor(user.role) === 'required';
+    return res.json({
+      token,
+      refreshToken,
+      user: safeUser,
+      ...(twoFactorSetupRequired ? { twoFactorSetupRequired } : {}),
+    });
   } catch (error) {
     console.error(error);
     return res.status(500).json({ error: 'Error en servidor' });
@@ -387,6 +429,8 @@ export async function me(req: Request, res: Response) {
         isVerified: true,
         canSell: true,
         rut: true,
+        emailVerified: true,
+        pendingEmail: true,
         application: {
           select: {
             status: true,
@@ -405,6 +449,13 @@ export async function me(req: Request, res: Response) {
       rut: user.rut ?? null, 
       verifiedOrganizer,
       applicationStatus: user.application?.status ?? null,
+      emailVerified: user.emailVerified,
+      pendingEmail: user.pendingEmail ?? null,
+      permissions: permissionsFor(user.role),
+      // Sesión "ver como usuario": el front muestra el aviso y oculta acciones bloqueadas
+      impersonation: req.user?.impersonation
+        ? { id: req.user.impersonation.id, readOnly: req.user.impersonation.readOnly }
+        : null,
     });
   } catch (error) {
     console.error(error);
@@ -484,6 +535,7 @@ export async function logoutAll(req: Request, res: Response) {
     if (!userId) return res.status(401).json({ error: 'No autenticado' });
 
     await prisma.user.update({ where: { id: userId }, data: { tokenVersion: { increment: 1 } } });
+    await revokeAllUserSessions(userId, 'LOGOUT_ALL');
 
     return res.json({ message: 'Sesiones cerradas en todos los dispositivos' });
   } catch (e) {
@@ -505,7 +557,7 @@ export async function changeEmail(req: Request, res: Response) {
       return res.status(400).json({ error: `La contraseña no debe exceder ${LIMITS.RAW_PASSWORD_MAX} caracteres` });
     }
 
-    const user = await prisma.user.findUnique({ where: { id: userId }, select: { id: true, email: true, password: true, isActive: true } });
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { id: true, name: true, email: true, password: true, isActive: true } });
     if (!user || !user.isActive) return res.status(404).json({ error: 'Usuario no encontrado' });
 
     const ok = await comparePassword(password, user.password);
@@ -519,55 +571,314 @@ export async function changeEmail(req: Request, res: Response) {
     const exists = await prisma.user.findUnique({ where: { email: normalized } });
     if (exists) return res.status(409).json({ error: 'Email ya en uso' });
 
-    await prisma.user.update({ where: { id: user.id }, data: { email: normalized } });
+    // El correo actual sigue activo hasta que se confirme el nuevo
+    await issueEmailVerification(user, normalized);
 
-    return res.json({ message: 'Correo actualizado correctamente', email: normalized });
+    return res.json({
+      message: 'Te enviamos un enlace al nuevo correo. El cambio se aplicará cuando lo confirmes.',
+      email: user.email,
+      pendingEmail: normalized,
+    });
   } catch (e) {
     console.error('changeEmail error:', e);
     return res.status(500).json({ error: 'No se pudo actualizar el correo' });
   }
 }
 
-/* ===== Renovar token ===== */
+/* ===== Renovar token (rotación de refresh token) ===== */
 export async function refreshToken(req: Request, res: Response) {
   try {
-    const authUser = (req as any).user as { id?: number; userId?: number; role?: string; tokenVersion?: number } | undefined;
-    const userId = authUser?.id ?? authUser?.userId;
-    if (!userId) return res.status(401).json({ error: 'No autenticado' });
+    const raw = toStr((req.body as { refreshToken?: string })?.refreshToken);
+    if (!raw) return res.status(400).json({ error: 'refreshToken requerido' });
+
+    const rotated = await rotateRefreshToken(raw, sessionMetaFromRequest(req));
+    if (!rotated.ok) {
+      const message =
+        rotated.reason === 'REUSE_DETECTED'
+          ? 'Se detectó el reuso de una sesión. Por seguridad fue cerrada; inicia sesión nuevamente.'
+          : 'Sesión inválida o expirada. Inicia sesión nuevamente.';
+      return res.status(401).json({ error: message });
+    }
 
     // Obtener datos actualizados del usuario para validar que sigue activo
     const user = await prisma.user.findUnique({
-      where: { id: userId },
+      where: { id: rotated.userId },
       select: {
         id: true,
         role: true,
         tokenVersion: true,
         isActive: true,
+        deletedAt: true,
       },
     });
 
     if (!user) return res.status(404).json({ error: 'Usuario no encontrado' });
-    if (!user.isActive) return res.status(403).json({ error: 'Cuenta desactivada' });
+    if (!user.isActive || user.deletedAt) {
+      await revokeSession(rotated.sessionId, 'LOGOUT_ALL');
+      return res.status(403).json({ error: 'Cuenta desactivada' });
+    }
 
-    // Verificar que el tokenVersion coincida (si se hizo logout-all, el token actual es inválido)
-    if (authUser?.tokenVersion !== undefined && user.tokenVersion !== authUser.tokenVersion) {
+    // Si se hizo logout-all después de abrir la sesión, ésta ya no es válida
+    if (user.tokenVersion !== rotated.tokenVersion) {
+      await revokeSession(rotated.sessionId, 'LOGOUT_ALL');
       return res.status(401).json({ error: 'Token invalidado. Inicia sesión nuevamente.' });
     }
 
-    // Generar nuevo token con datos actualizados
     const newToken = generateToken({
       userId: user.id,
       role: coerceRole(user.role),
       tokenVersion: user.tokenVersion,
+      sid: rotated.sessionId,
+      mfa: rotated.mfaVerified,
     });
 
-    return res.json({ token: newToken });
+    return res.json({ token: newToken, refreshToken: rotated.refreshToken });
   } catch (e) {
     console.error('refreshToken error:', e);
     return res.status(500).json({ error: 'No se pudo renovar el token' });
   }
 }
 
+/* ===== Cerrar sesión en este dispositivo ===== */
+export async function logout(req: Request, res: Response) {
+  try {
+    const authUser = (req as any).user as { id?: number; sessionId?: number } | undefined;
+    if (!authUser?.id) return res.status(401).json({ error: 'No autenticado' });
+
+    if (authUser.sessionId != null) {
+      await revokeSession(authUser.sessionId, 'LOGOUT');
+    }
+
+    return res.json({ message: 'Sesión cerrada' });
+  } catch (e) {
+    console.error('logout error:', e);
+    return res.status(500).json({ error: 'No se pudo cerrar la sesión' });
+  }
+}
+
+/* ===== Mis sesiones activas ===== */
+export async function listMySessions(req: Request, res: Response) {
+  try {
+    const authUser = (req as any).user as { id?: number; sessionId?: number } | undefined;
+    if (!authUser?.id) return res.status(401).json({ error: 'No autenticado' });
+
+    const sessions = await listActiveSessions(authUser.id);
+
+    return res.json({
+      items: sessions.map((s) => ({ ...s, current: s.id === authUser.sessionId })),
+    });
+  } catch (e) {
+    console.error('listMySessions error:', e);
+    return res.status(500).json({ error: 'No se pudieron obtener las sesiones' });
+  }
+}
+
+/* ===== Revocar una sesión propia ===== */
+export async function revokeMySession(req: Request, res: Response) {
+  try {
+    const authUser = (req as any).user as { id?: number } | undefined;
+    if (!authUser?.id) return res.status(401).json({ error: 'No autenticado' });
 
+    const sessionId = Number(req.params.id);
+    if (!Number.isInteger(sessionId) || sessionId <= 0) {
+      return res.status(400).json({ error: 'ID de sesión inválido' });
+    }
+
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { userId: true },
+    });
+    if (!session || session.userId !== authUser.id) {
+      return res.status(404).json({ error: 'Sesión no encontrada' });
+    }
+
+    await revokeSession(sessionId, 'USER_REVOKED');
+
+    return res.json({ message: 'Sesión revocada' });
+  } catch (e) {
+    console.error('revokeMySession error:', e);
+    return res.status(500).json({ error: 'No se pudo revocar la sesión' });
+  }
+}
+
+/* ===== Olvidé mi contraseña ===== */
+export async function forgotPassword(req: Request, res: Response) {
+  // Respuesta genérica: no revelar si el email existe
+  const genericMessage = 'Si el correo está registrado, recibirás un enlace para restablecer tu contraseña.';
+
+  try {
+    const email = toStr((req.body as { email?: string })?.email).toLowerCase();
+    if (!email) return res.status(400).json({ error: 'Email requerido' });
+    if (email.length > LIMITS.EMAIL) {
+      return res.status(400).json({ error: `El email excede ${LIMITS.EMAIL} caracteres` });
+    }
+    if (!isValidEmail(email)) return res.status(400).json({ error: 'Email inválido' });
+
+    const user = await prisma.user.findUnique({
+      where: { email },
+      select: { id: true, name: true, email: true, isActive: true, deletedAt: true },
+    });
+    if (!user || !user.isActive || user.deletedAt) {
+      return res.json({ message: genericMessage });
+    }
 
+    // Solo se guarda el hash; el token plano viaja únicamente en el email
+    const { raw, hash } = createPasswordResetToken();
+    const expiresAt = passwordResetExpiry(env.PASSWORD_RESET_EXPIRES_HOURS);
 
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { resetPasswordToken: hash, resetPasswordExpires: expiresAt },
+    });
+
+    try {
+      await sendPasswordResetEmail({
+        email: user.email,
+        name: user.name,
+        resetUrl: `${env.FRONTEND_URL}/reset-password?token=${raw}`,
+        expiresAt,
+      });
+    } catch (emailError: any) {
+      console.error('❌ Error enviando email de reseteo:', emailError.message);
+      // No fallar si el email falla
+    }
+
+    return res.json({ message: genericMessage });
+  } catch (e) {
+    console.error('forgotPassword error:', e);
+    return res.status(500).json({ error: 'No se pudo procesar la solicitud' });
+  }
+}
+
+/* ===== Restablecer contraseña con token ===== */
+export async function resetPassword(req: Request, res: Response) {
+  try {
+    const { token, newPassword } = req.body as { token?: string; newPassword?: string };
+    const rawToken = toStr(token);
+    if (!rawToken || !newPassword) return res.status(400).json({ error: 'Datos incompletos' });
+    if (rawToken.length > 128 || newPassword.length > LIMITS.RAW_PASSWORD_MAX) {
+      return res.status(400).json({ error: 'Token o contraseña inválidos' });
+    }
+
+    const hash = hashToken(rawToken);
+    const now = new Date();
+
+    const user = await prisma.user.findFirst({
+      where: { resetPasswordToken: hash, resetPasswordExpires: { gt: now } },
+      select: { id: true, email: true, name: true, isActive: true, deletedAt: true },
+    });
+    if (!user || !user.isActive || user.deletedAt) {
+      return res.status(400).json({ error: 'El enlace es inválido o ha expirado' });
+    }
+
+    {
+      const policyError = validatePasswordPolicy(newPassword, { email: user.email, name: user.name });
+      if (policyError) return res.status(400).json({ error: policyError });
+    }
+
+    const newHash = await hashPassword(newPassword);
+
+    // updateMany condicionado al hash: si dos requests usan el mismo token, solo una gana
+    const result = await prisma.user.updateMany({
+      where: { id: user.id, resetPasswordToken: hash },
+      data: {
+        password: newHash,
+        resetPasswordToken: null,
+        resetPasswordExpires: null,
+        tokenVersion: { increment: 1 }, // invalida sesiones abiertas
+        failedLoginCount: 0,
+        lockUntil: null,
+      },
+    });
+    if (result.count === 0) {
+      return res.status(400).json({ error: 'El enlace es inválido o ha expirado' });
+    }
+    await revokeAllUserSessions(user.id, 'PASSWORD_RESET');
+
+    return res.json({ message: 'Contraseña restablecida correctamente. Inicia sesión con tu nueva contraseña.' });
+  } catch (e) {
+    console.error('resetPassword error:', e);
+    return res.status(500).json({ error: 'No se pudo restablecer la contraseña' });
+  }
+}
+
+/* ===== Confirmar email (registro o cambio de correo) ===== */
+export async function verifyEmail(req: Request, res: Response) {
+  try {
+    const rawToken = toStr((req.body as { token?: string })?.token);
+    if (!rawToken || rawToken.length > 128) {
+      return res.status(400).json({ error: 'Token inválido' });
+    }
+
+    const hash = hashToken(rawToken);
+    const now = new Date();
+
+    const user = await prisma.user.findFirst({
+      where: { emailVerificationToken: hash, emailVerificationExpires: { gt: now } },
+      select: { id: true, email: true, pendingEmail: true, isActive: true, deletedAt: true },
+    });
+    if (!user || !user.isActive || user.deletedAt) {
+      return res.status(400).json({ error: 'El enlace es inválido o ha expirado' });
+    }
+
+    const newEmail = user.pendingEmail ?? user.email;
+    if (user.pendingEmail) {
+      const taken = await prisma.user.findUnique({ where: { email: user.pendingEmail }, select: { id: true } });
+      if (taken && taken.id !== user.id) {
+        return res.status(409).json({ error: 'Email ya en uso' });
+      }
+    }
+
+    try {
+      const result = await prisma.user.updateMany({
+        where: { id: user.id, emailVerificationToken: hash },
+        data: {
+          email: newEmail,
+          pendingEmail: null,
+          emailVerified: true,
+          emailVerifiedAt: now,
+          emailVerificationToken: null,
+          emailVerificationExpires: null,
+        },
+      });
+      if (result.count === 0) {
+        return res.status(400).json({ error: 'El enlace es inválido o ha expirado' });
+      }
+    } catch (e: any) {
+      if (e?.code === 'P2002') return res.status(409).json({ error: 'Email ya en uso' });
+      throw e;
+    }
+
+    return res.json({ message: 'Correo confirmado correctamente', email: newEmail });
+  } catch (e) {
+    console.error('verifyEmail error:', e);
+    return res.status(500).json({ error: 'No se pudo confirmar el correo' });
+  }
+}
+
+/* ===== Reenviar enlace de verificación ===== */
+export async function resendEmailVerification(req: Request, res: Response) {
+  try {
+    const authUser = (req as any).user as { id?: number; userId?: number } | undefined;
+    const userId = authUser?.id ?? authUser?.userId;
+    if (!userId) return res.status(401).json({ error: 'No autenticado' });
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, name: true, email: true, emailVerified: true, pendingEmail: true, isActive: true },
+    });
+    if (!user || !user.isActive) return res.status(404).json({ error: 'Usuario no encontrado' });
+
+    if (!user.pendingEmail && user.emailVerified) {
+      return res.status(400).json({ error: 'Tu correo ya está verificado' });
+    }
+
+    const target = user.pendingEmail ?? user.email;
+    await issueEmailVerification(user, target);
+
+    return res.json({ message: 'Enlace de verificación reenviado', email: target });
+  } catch (e) {
+    console.error('resendEmailVerification error:', e);
+    return res.status(500).json({ error: 'No se pudo reenviar la verificación' });
+  }
+}
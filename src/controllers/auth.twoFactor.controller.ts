@@ -0,0 +1,392 @@
+// src/controllers/auth.twoFactor.controller.ts
+// Segundo factor (TOTP) para superadmin (obligatorio) y organizer (opcional)
+import { Request, Response } from 'express';
+import QRCode from 'qrcode';
+import prisma from '../prisma/client';
+import {
+  comparePassword,
+  generateToken,
+  coerceRole,
+  hashToken,
+  twoFactorPolicyFor,
+  verifyTwoFactorChallenge,
+} from '../utils/auth';
+import {
+  generateTotpSecret,
+  buildOtpAuthUrl,
+  verifyTotp,
+  generateRecoveryCodes,
+  normalizeRecoveryCode,
+  encryptTotpSecret,
+  decryptTotpSecret,
+} from '../utils/totp';
+import {
+  issueSessionTokens,
+  sessionMetaFromRequest,
+  markSessionMfaVerified,
+} from '../services/session.service';
+
+const RECOVERY_CODES_COUNT = 10;
+
+function toStr(v: unknown) {
+  return String(v ?? '').trim();
+}
+
+function getUserId(req: Request): number | undefined {
+  return req.user?.id;
+}
+
+/**
+ * Valida un código TOTP (con anti-replay) o consume un código de recuperación.
+ * Devuelve el método usado o null si ninguno es válido.
+ */
+async function checkSecondFactor(
+  user: { id: number; twoFactorSecret: string | null; twoFactorLastUsedStep: number | null },
+  code?: string,
+  recoveryCode?: string
+): Promise<'totp' | 'recovery' | null> {
+  if (code && user.twoFactorSecret) {
+    const step = verifyTotp(decryptTotpSecret(user.twoFactorSecret), code);
+    if (step === null) return null;
+    if (user.twoFactorLastUsedStep != null && step <= user.twoFactorLastUsedStep) return null;
+
+    // Condicional al último paso: el mismo código no sirve dos veces aunque llegue en paralelo
+    const result = await prisma.user.updateMany({
+      where: {
+        id: user.id,
+        OR: [{ twoFactorLastUsedStep: null }, { twoFactorLastUsedStep: { lt: step } }],
+      },
+      data: { twoFactorLastUsedStep: step },
+    });
+    return result.count > 0 ? 'totp' : null;
+  }
+
+  if (recoveryCode) {
+    const normalized = normalizeRecoveryCode(recoveryCode);
+    if (!normalized) return null;
+    const result = await prisma.twoFactorRecoveryCode.updateMany({
+      where: { userId: user.id, codeHash: hashToken(normalized), usedAt: null },
+      data: { usedAt: new Date() },
+    });
+    return result.count > 0 ? 'recovery' : null;
+  }
+
+  return null;
+}
+
+/** Reemplaza los códigos de recuperación del usuario; devuelve los nuevos en claro */
+async function replaceRecoveryCodes(userId: number): Promise<string[]> {
+  const codes = generateRecoveryCodes(RECOVERY_CODES_COUNT);
+  await prisma.$transaction([
+    prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+    prisma.twoFactorRecoveryCode.createMany({
+      data: codes.map((c) => ({ userId, codeHash: hashToken(normalizeRecoveryCode(c)) })),
+    }),
+  ]);
+  return codes;
+}
+
+/* ============================== Controladores ============================== */
+
+/**
+ * POST /api/auth/2fa/verify
+ * Segundo paso del login. Body: { challengeToken, code } o { challengeToken, recoveryCode }
+ */
+export async function verifyTwoFactorLogin(req: Request, res: Response) {
+  try {
+    const { challengeToken, code, recoveryCode } = req.body as {
+      challengeToken?: string;
+      code?: string;
+      recoveryCode?: string;
+    };
+    if (!challengeToken || (!code && !recoveryCode)) {
+      return res.status(400).json({ error: 'Datos incompletos' });
+    }
+
+    const challenge = verifyTwoFactorChallenge(toStr(challengeToken));
+    if (!challenge) {
+      return res.status(401).json({ error: 'El desafío 2FA expiró. Inicia sesión nuevamente.' });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: challenge.userId },
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        role: true,
+        isVerified: true,
+        emailVerified: true,
+        canSell: true,
+        isActive: true,
+        deletedAt: true,
+        tokenVersion: true,
+        twoFactorEnabled: true,
+        twoFactorSecret: true,
+        twoFactorLastUsedStep: true,
+      },
+    });
+    if (!user || !user.isActive || user.deletedAt) {
+      return res.status(401).json({ error: 'No autenticado' });
+    }
+    if (user.tokenVersion !== challenge.tokenVersion || !user.twoFactorEnabled) {
+      return res.status(401).json({ error: 'El desafío 2FA ya no es válido. Inicia sesión nuevamente.' });
+    }
+
+    const method = await checkSecondFactor(user, toStr(code) || undefined, toStr(recoveryCode) || undefined);
+    if (!method) return res.status(401).json({ error: 'Código de verificación inválido' });
+
+    const { token, refreshToken } = await issueSessionTokens(user, sessionMetaFromRequest(req), { mfa: true });
+
+    const remainingRecoveryCodes =
+      method === 'recovery'
+        ? await prisma.twoFactorRecoveryCode.count({ where: { userId: user.id, usedAt: null } })
+        : undefined;
+
+    const safeUser = {
+      id: user.id,
+      name: user.name,
+      email: user.email,
+      role: user.role,
+      isVerified: user.isVerified,
+      emailVerified: user.emailVerified,
+      canSell: user.canSell,
+      isActive: user.isActive,
+      tokenVersion: user.tokenVersion,
+      twoFactorEnabled: user.twoFactorEnabled,
+    };
+    return res.json({
+      token,
+      refreshToken,
+      user: safeUser,
+      ...(remainingRecoveryCodes !== undefined ? { remainingRecoveryCodes } : {}),
+    });
+  } catch (e) {
+    console.error('verifyTwoFactorLogin error:', e);
+    return res.status(500).json({ error: 'No se pudo verificar el código' });
+  }
+}
+
+/**
+ * GET /api/auth/2fa/status
+ */
+export async function getTwoFactorStatus(req: Request, res: Response) {
+  try {
+    const userId = getUserId(req);
+    if (!userId) return res.status(401).json({ error: 'No autenticado' });
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { role: true, twoFactorEnabled: true, twoFactorEnabledAt: true },
+    });
+    if (!user) return res.status(404).json({ error: 'Usuario no encontrado' });
+
+    const remainingRecoveryCodes = user.twoFactorEnabled
+      ? await prisma.twoFactorRecoveryCode.count({ where: { userId, usedAt: null } })
+      : 0;
+
+    return res.json({
+      enabled: user.twoFactorEnabled,
+      enabledAt: user.twoFactorEnabledAt,
+      policy: twoFactorPolicyFor(user.role),
+      sessionVerified: req.user?.mfa === true,
+      remainingRecoveryCodes,
+    });
+  } catch (e) {
+    console.error('getTwoFactorStatus error:', e);
+    return res.status(500).json({ error: 'No se pudo obtener el estado de 2FA' });
+  }
+}
+
+/**
+ * POST /api/auth/2fa/setup
+ * Genera un secreto pendiente y devuelve el QR de aprovisionamiento.
+ * El 2FA no queda activo hasta confirmar un código en /2fa/enable.
+ */
+export async function setupTwoFactor(req: Request, res: Response) {
+  try {
+    const userId = getUserId(req);
+    if (!userId) return res.status(401).json({ error: 'No autenticado' });
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, email: true, role: true, twoFactorEnabled: true },
+    });
+    if (!user) return res.status(404).json({ error: 'Usuario no encontrado' });
+
+    if (twoFactorPolicyFor(user.role) === 'unavailable') {
+      return res.status(403).json({ error: '2FA no disponible para este tipo de cuenta' });
+    }
+    if (user.twoFactorEnabled) {
+      return res.status(409).json({ error: '2FA ya está activado' });
+    }
+
+    const secret = generateTotpSecret();
+    const otpauthUrl = buildOtpAuthUrl(secret, user.email);
+    const qrDataUrl = await QRCode.toDataURL(otpauthUrl, { errorCorrectionLevel: 'M', margin: 1, width: 240 });
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { twoFactorSecret: encryptTotpSecret(secret), twoFactorLastUsedStep: null },
+    });
+
+    return res.json({ secret, otpauthUrl, qrDataUrl });
+  } catch (e) {
+    console.error('setupTwoFactor error:', e);
+    return res.status(500).json({ error: 'No se pudo iniciar la configuración de 2FA' });
+  }
+}
+
+/**
+ * POST /api/auth/2fa/enable
+ * Body: { code }. Activa 2FA, entrega códigos de recuperación y
+ * marca la sesión actual como verificada (nuevo access token con mfa=true).
+ */
+export async function enableTwoFactor(req: Request, res: Response) {
+  try {
+    const authUser = req.user;
+    const userId = authUser?.id;
+    if (!userId) return res.status(401).json({ error: 'No autenticado' });
+
+    const code = toStr((req.body as { code?: string })?.code);
+    if (!code) return res.status(400).json({ error: 'Código requerido' });
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        role: true,
+        tokenVersion: true,
+        twoFactorEnabled: true,
+        twoFactorSecret: true,
+        twoFactorLastUsedStep: true,
+      },
+    });
+    if (!user) return res.status(404).json({ error: 'Usuario no encontrado' });
+    if (user.twoFactorEnabled) return res.status(409).json({ error: '2FA ya está activado' });
+    if (!user.twoFactorSecret) {
+      return res.status(400).json({ error: 'Primero inicia la configuración de 2FA' });
+    }
+
+    const method = await checkSecondFactor(user, code);
+    if (method !== 'totp') return res.status(400).json({ error: 'Código de verificación inválido' });
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { twoFactorEnabled: true, twoFactorEnabledAt: new Date() },
+    });
+    const recoveryCodes = await replaceRecoveryCodes(user.id);
+
+    let token: string | undefined;
+    if (authUser?.sessionId != null) {
+      await markSessionMfaVerified(authUser.sessionId);
+      token = generateToken({
+        userId: user.id,
+        role: coerceRole(user.role),
+        tokenVersion: user.tokenVersion,
+        sid: authUser.sessionId,
+        mfa: true,
+      });
+    }
+
+    return res.json({
+      message: '2FA activado. Guarda tus códigos de recuperación en un lugar seguro.',
+      recoveryCodes,
+      ...(token ? { token } : {}),
+    });
+  } catch (e) {
+    console.error('enableTwoFactor error:', e);
+    return res.status(500).json({ error: 'No se pudo activar 2FA' });
+  }
+}
+
+/**
+ * POST /api/auth/2fa/disable
+ * Body: { password, code }. No permitido cuando la política del rol lo exige.
+ */
+export async function disableTwoFactor(req: Request, res: Response) {
+  try {
+    const userId = getUserId(req);
+    if (!userId) return res.status(401).json({ error: 'No autenticado' });
+
+    const { password, code, recoveryCode } = req.body as {
+      password?: string;
+      code?: string;
+      recoveryCode?: string;
+    };
+    if (!password || (!code && !recoveryCode)) {
+      return res.status(400).json({ error: 'Datos incompletos' });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        role: true,
+        password: true,
+        twoFactorEnabled: true,
+        twoFactorSecret: true,
+        twoFactorLastUsedStep: true,
+      },
+    });
+    if (!user) return res.status(404).json({ error: 'Usuario no encontrado' });
+    if (!user.twoFactorEnabled) return res.status(400).json({ error: '2FA no está activado' });
+    if (twoFactorPolicyFor(user.role) === 'required') {
+      return res.status(403).json({ error: '2FA es obligatorio para este tipo de cuenta' });
+    }
+
+    const ok = await comparePassword(String(password), user.password);
+    if (!ok) return res.status(400).json({ error: 'Contraseña incorrecta' });
+
+    const method = await checkSecondFactor(user, toStr(code) || undefined, toStr(recoveryCode) || undefined);
+    if (!method) return res.status(400).json({ error: 'Código de verificación inválido' });
+
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: user.id },
+        data: {
+          twoFactorEnabled: false,
+          twoFactorSecret: null,
+          twoFactorEnabledAt: null,
+          twoFactorLastUsedStep: null,
+        },
+      }),
+      prisma.twoFactorRecoveryCode.deleteMany({ where: { userId: user.id } }),
+    ]);
+
+    return res.json({ message: '2FA desactivado' });
+  } catch (e) {
+    console.error('disableTwoFactor error:', e);
+    return res.status(500).json({ error: 'No se pudo desactivar 2FA' });
+  }
+}
+
+/**
+ * POST /api/auth/2fa/recovery-codes
+ * Body: { code }. Regenera los códigos de recuperación (invalida los anteriores).
+ */
+export async function regenerateRecoveryCodes(req: Request, res: Response) {
+  try {
+    const userId = getUserId(req);
+    if (!userId) return res.status(401).json({ error: 'No autenticado' });
+
+    const code = toStr((req.body as { code?: string })?.code);
+    if (!code) return res.status(400).json({ error: 'Código requerido' });
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, twoFactorEnabled: true, twoFactorSecret: true, twoFactorLastUsedStep: true },
+    });
+    if (!user) return res.status(404).json({ error: 'Usuario no encontrado' });
+    if (!user.twoFactorEnabled) return res.status(400).json({ error: '2FA no está activado' });
+
+    const method = await checkSecondFactor(user, code);
+    if (method !== 'totp') return res.status(400).json({ error: 'Código de verificación inválido' });
+
+    const recoveryCodes = await replaceRecoveryCodes(user.id);
+    return res.json({ recoveryCodes });
+  } catch (e) {
+    console.error('regenerateRecoveryCodes error:', e);
+    return res.status(500).json({ error: 'No se pudieron regenerar los códigos' });
+  }
+}
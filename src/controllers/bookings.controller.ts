@@ -5,6 +5,12 @@ import { Prisma } from "@prisma/client";
 import { queueTicketGeneration } from "../services/ticketGeneration.service";
 import { getRemainingStock, validateEventAvailable, validateNotOwnEvent, validateStockAvailability } from "../services/stock.service";
 import { getTicketLimits, getPlatformFeeBps, getReservationHoldMinutes } from "../services/config.service";
+import { resolveSectionPrice } from "../services/pricing.service";
+import { applyPromoCode, normalizePromoCode, recordPromoRedemptions } from "../services/promoCode.service";
+import { calculatePlatformFee } from "../services/payment.service";
+import { findActiveChangeNotice, refundForChangeNotice } from "../services/eventChange.service";
+import { sectionSalesWindow } from "../services/salesWindow.service";
+import { assertWaitlistAllows, offerFreedStock } from "../services/waitlist.service";
 import crypto from "crypto";
 
 type Authed = Request & { user?: { id: number; role: string; verifiedOrganizer?: boolean } };
@@ -15,13 +21,31 @@ function parseIntSafe(v: unknown, def = 0) {
   return Number.isFinite(n) ? Math.floor(n) : def;
 }
 
+const RESERVATION_HOLD_SELECT = {
+  id: true,
+  code: true,
+  quantity: true,
+  amount: true,
+  unitPrice: true,
+  discountAmount: true,
+  promoCodeId: true,
+  expiresAt: true,
+  sectionId: true,
+  ticketTypeId: true,
+  ticketTypeName: true,
+  pricePhaseId: true,
+  seatAssignment: true,
+} satisfies Prisma.ReservationSelect;
+
 /* ===================== HOLD ===================== */
 /** 
  * POST /api/bookings/hold (auth) – crea reserva(s) temporal(es)
  * 
  * Body puede ser:
- * - Simple: { eventId, quantity, sectionId?, seats? }
- * - Múltiple: { eventId, sections: [{ sectionId, quantity, seats }] }
+ * - Simple: { eventId, quantity, sectionId?, ticketTypeId?, seats?, promoCode? }
+ * - Múltiple: { eventId, sections: [{ sectionId, ticketTypeId?, quantity, seats }], promoCode? }
+ *   (una misma sección puede repetirse con distintos tipos de entrada)
+ * promoCode (solo OWN): el descuento queda en cada reserva (discountAmount) y amount ya lo incluye.
  */
 export async function holdReservation(req: Authed, res: Response) {
   try {
@@ -31,6 +55,7 @@ export async function holdReservation(req: Authed, res: Response) {
     const body = req.body as any;
     const eventId = parseIntSafe(body?.eventId);
     const ticketId = parseIntSafe(body?.ticketId); // Para eventos RESALE
+    const promoCode = body?.promoCode ? normalizePromoCode(body.promoCode) : null;
     
     if (!eventId) {
       return res.status(422).json({ ok: false, error: "INVALID_INPUT: eventId required" });
@@ -39,6 +64,7 @@ export async function holdReservation(req: Authed, res: Response) {
     // Determinar si es compra simple o múltiple
     let sectionsToReserve: Array<{
       sectionId?: number;
+      ticketTypeId?: number;
       quantity: number;
       seats?: string[];
     }> = [];
@@ -47,6 +73,7 @@ export async function holdReservation(req: Authed, res: Response) {
       // Modo múltiple secciones
       sectionsToReserve = body.sections.map((s: any) => ({
         sectionId: parseIntSafe(s.sectionId),
+        ticketTypeId: parseIntSafe(s.ticketTypeId) || undefined,
         quantity: parseIntSafe(s.quantity),
         seats: Array.isArray(s.seats) ? s.seats : undefined,
       }));
@@ -59,6 +86,7 @@ export async function holdReservation(req: Authed, res: Response) {
       
       sectionsToReserve = [{
         sectionId: parseIntSafe(body.sectionId),
+        ticketTypeId: parseIntSafe(body.ticketTypeId) || undefined,
         quantity,
         seats: Array.isArray(body.seats) ? body.seats : undefined,
       }];
@@ -142,6 +170,20 @@ export async function holdReservation(req: Authed, res: Response) {
                 throw e;
               }
 
+              // Ventana de venta propia de la sección (acota la del evento)
+              const sectionWindow = sectionSalesWindow(eventSection, ev);
+              if (!sectionWindow.onSale) {
+                const e = new Error(
+                  sectionWindow.status === "CLOSED" ? "SECTION_SALES_CLOSED" : "SECTION_SALES_NOT_OPEN"
+                ) as any;
+                e.status = 409;
+                e.sectionId = eventSection.id;
+                e.sectionName = eventSection.name;
+                e.salesOpenAt = sectionWindow.salesOpenAt;
+                e.salesCloseAt = sectionWindow.salesCloseAt;
+                throw e;
+              }
+
               // Validar asientos específicos si se proporcionaron
               if (section.seats && section.seats.length > 0) {
                 if (section.seats.length !== section.quantity) {
@@ -195,14 +237,18 @@ export async function holdReservation(req: Authed, res: Response) {
 
                 const sectionReserved = reservedInSection._sum.quantity || 0;
                 const sectionAvailable = eventSection.totalCapacity - sectionReserved;
+                // La sección puede venir repetida (un item por tipo de entrada)
+                const requestedInSection = sectionsToReserve
+                  .filter((s) => s.sectionId === section.sectionId)
+                  .reduce((sum, s) => sum + s.quantity, 0);
 
-                if (sectionAvailable < section.quantity) {
+                if (sectionAvailable < requestedInSection) {
                   const e = new Error("SECTION_INSUFFICIENT_STOCK") as any;
                   e.status = 409;
                   e.sectionId = section.sectionId;
                   e.sectionName = eventSection.name;
                   e.available = sectionAvailable;
-                  e.requested = section.quantity;
+                  e.requested = requestedInSection;
                   throw e;
                 }
               }
@@ -210,6 +256,11 @@ export async function holdReservation(req: Authed, res: Response) {
           }
         }
 
+        // El cupo liberado es primero para la lista de espera (si alguien de la fila cabe en él)
+        if (ev.eventType === 'OWN') {
+          await assertWaitlistAllows(eventId, sectionsToReserve, tx);
+        }
+
         // Validar ticket RESALE si se proporcionó ticketId
         if (ticketId) {
           const ticket = await tx.ticket.findFirst({
@@ -243,14 +294,27 @@ export async function holdReservation(req: Authed, res: Response) {
         const platformFeeBps = await getPlatformFeeBps();
 
         // Crear una reserva por cada sección
-        const reservations = [];
+        const reservations: Prisma.ReservationGetPayload<{ select: typeof RESERVATION_HOLD_SELECT }>[] = [];
         
         for (const section of sectionsToReserve) {
-          // Calcular subtotal (precio base * cantidad)
-          const subtotal = (ev.price ?? 0) * section.quantity;
+          // Precio unitario: tipo de entrada > fase de precio activa > sección > evento
+          // (la fase se bloquea hasta el commit: dos holds simultáneos no comparten el último cupo)
+          const price = await resolveSectionPrice(
+            {
+              eventId,
+              eventPrice: ev.price,
+              sectionId: ev.eventType === 'OWN' ? section.sectionId : null,
+              ticketTypeId: section.ticketTypeId,
+              quantity: section.quantity,
+            },
+            tx
+          );
+
+          // Calcular subtotal (precio unitario * cantidad)
+          const subtotal = price.unitPrice * section.quantity;
           
           // Calcular comisión de la plataforma
-          const platformFee = Math.round(subtotal * platformFeeBps / 10000);
+          const platformFee = calculatePlatformFee(subtotal, platformFeeBps);
           
           // Total = subtotal + comisión
           const amount = subtotal + platformFee;
@@ -269,22 +333,62 @@ export async function holdReservation(req: Authed, res: Response) {
               status: "PENDING_PAYMENT" as any,
               expiresAt,
               amount,
+              unitPrice: price.unitPrice,
+              ticketTypeId: price.ticketTypeId,
+              ticketTypeName: price.ticketTypeName,
+              pricePhaseId: price.pricePhaseId,
               seatAssignment,
             },
-            select: { 
-              id: true, 
-              code: true, 
-              quantity: true, 
-              amount: true, 
-              expiresAt: true,
-              sectionId: true,
-              seatAssignment: true,
-            },
+            select: RESERVATION_HOLD_SELECT,
           });
 
           reservations.push(r);
         }
 
+        // Código promocional: descuento sobre el subtotal; la comisión se calcula sobre el monto con descuento
+        let promo: { id: number; code: string; discountAmount: number } | null = null;
+        if (promoCode) {
+          if (ev.eventType !== 'OWN') {
+            const e = new Error("PROMO_CODE_NOT_APPLICABLE") as any;
+            e.status = 422;
+            throw e;
+          }
+          const applied = await applyPromoCode(
+            {
+              eventId,
+              buyerId: userId,
+              code: promoCode,
+              items: reservations.map((r) => ({
+                sectionId: r.sectionId,
+                quantity: r.quantity,
+                subtotal: (r.unitPrice ?? 0) * r.quantity,
+              })),
+            },
+            tx
+          );
+
+          for (let i = 0; i < reservations.length; i++) {
+            const r = reservations[i];
+            const discountAmount = applied.discounts[i] ?? 0;
+            if (!r || !applied.inScope[i]) continue;
+            const net = (r.unitPrice ?? 0) * r.quantity - discountAmount;
+            reservations[i] = await tx.reservation.update({
+              where: { id: r.id },
+              data: {
+                promoCodeId: applied.promo.id,
+                discountAmount,
+                amount: net + calculatePlatformFee(net, platformFeeBps),
+              },
+              select: RESERVATION_HOLD_SELECT,
+            });
+          }
+          promo = {
+            id: applied.promo.id,
+            code: applied.promo.code,
+            discountAmount: applied.discounts.reduce((sum, d) => sum + d, 0),
+          };
+        }
+
         // Vincular ticket RESALE a la primera reserva si se proporcionó ticketId
         if (ticketId && reservations.length > 0 && reservations[0]) {
           await tx.ticket.update({
@@ -300,6 +404,7 @@ export async function holdReservation(req: Authed, res: Response) {
           reservations,
           totalAmount: reservations.reduce((sum, r) => sum + r.amount, 0),
           totalQuantity,
+          promo,
         };
       },
       { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
@@ -313,6 +418,7 @@ export async function holdReservation(req: Authed, res: Response) {
       reservations: result.reservations,
       totalAmount: result.totalAmount,
       totalQuantity: result.totalQuantity,
+      promoCode: result.promo,
       holdMinutes: holdMinutes,
       // Compatibilidad con frontend antiguo
       booking: result.reservations[0],
@@ -325,14 +431,34 @@ export async function holdReservation(req: Authed, res: Response) {
         "INSUFFICIENT_STOCK",
         "EVENT_HAS_STARTED",
         "EVENT_NOT_APPROVED",
+        "SALES_NOT_OPEN",
+        "SALES_CLOSED",
+        "SECTION_SALES_NOT_OPEN",
+        "SECTION_SALES_CLOSED",
         "CANNOT_BUY_OWN_EVENT",
         "SECTION_NOT_FOUND",
         "SECTION_INSUFFICIENT_STOCK",
+        "RESERVED_FOR_WAITLIST",
         "SEATS_ALREADY_RESERVED",
         "SEATS_QUANTITY_MISMATCH",
+        "TICKET_TYPE_REQUIRED",
+        "TICKET_TYPE_NOT_FOUND",
+        "PROMO_CODE_NOT_FOUND",
+        "PROMO_CODE_NOT_STARTED",
+        "PROMO_CODE_EXPIRED",
+        "PROMO_CODE_NOT_APPLICABLE",
+        "PROMO_CODE_MIN_QUANTITY",
+        "PROMO_CODE_EXHAUSTED",
+        "PROMO_CODE_BUYER_LIMIT",
+        "PROMO_CODE_BELOW_MIN_TOTAL",
       ].includes(err?.message)
     ) {
       const body: any = { ok: false, error: err.message };
+      if (err.minQuantity != null) body.minQuantity = err.minQuantity;
+      if (err.minTotal != null) body.minTotal = err.minTotal;
+      if (err.salesOpenAt != null) body.salesOpenAt = err.salesOpenAt;
+      if (err.salesCloseAt != null) body.salesCloseAt = err.salesCloseAt;
+      if (err.ticketTypeId != null) body.ticketTypeId = err.ticketTypeId;
       if (err.remaining != null) body.remaining = err.remaining;
       if (err.sectionId != null) body.sectionId = err.sectionId;
       if (err.sectionName != null) body.sectionName = err.sectionName;
@@ -343,6 +469,10 @@ export async function holdReservation(req: Authed, res: Response) {
       if (err.quantityRequested != null) body.quantityRequested = err.quantityRequested;
       return res.status(status).json(body);
     }
+    // Conflicto de serialización con otra compra simultánea: el cliente puede reintentar
+    if (err?.code === "P2034") {
+      return res.status(409).json({ ok: false, error: "CONCURRENT_PURCHASE" });
+    }
     console.error("holdReservation error:", err);
     return res.status(500).json({ ok: false, error: "SERVER_ERROR" });
   }
@@ -433,6 +563,11 @@ export async function payTestReservation(req: Authed, res: Response) {
         }
       }
 
+      await recordPromoRedemptions(
+        b.purchaseGroupId ? { purchaseGroupId: b.purchaseGroupId } : { reservationId: b.id },
+        tx
+      );
+
       return {
         reservations: updatedReservations,
         purchaseGroupId: b.purchaseGroupId,
@@ -535,11 +670,15 @@ export async function createBooking(req: Authed, res: Response) {
         "NO_CAPACITY",
         "EVENT_HAS_STARTED",
         "EVENT_NOT_APPROVED",
+        "SALES_NOT_OPEN",
+        "SALES_CLOSED",
         "CANNOT_BUY_OWN_EVENT",
       ].includes(err?.message)
     ) {
       const body: any = { error: err.message };
       if (err.remaining != null) body.remaining = err.remaining;
+      if (err.salesOpenAt != null) body.salesOpenAt = err.salesOpenAt;
+      if (err.salesCloseAt != null) body.salesCloseAt = err.salesCloseAt;
       return res.status(status).json(body);
     }
     return res.status(500).json({ error: "Error creando reserva", details: err?.message });
@@ -706,6 +845,7 @@ export async function cancelBooking(req: Authed, res: Response) {
       where: { id: reservation.id },
       data: { status: "CANCELED" as any },
     });
+    void offerFreedStock([reservation.eventId]);
 
     return res.json({ cancelled: true, reservation: updated });
   } catch (err: any) {
@@ -1313,5 +1453,133 @@ export async function refreshBookingTicket(req: Authed, res: Response) {
   }
 }
 
+/* ===================== Reembolso por cambio de fecha/lugar ===================== */
+
+/** Reserva del comprador + aviso de cambio con ventana abierta (si lo hay) */
+async function loadChangeRefundContext(req: Authed, res: Response) {
+  const user = req.user;
+  if (!user) {
+    res.status(401).json({ error: "Token requerido" });
+    return null;
+  }
+
+  const id = parseIntSafe(req.params.id);
+  if (!id) {
+    res.status(400).json({ error: "ID inválido" });
+    return null;
+  }
+
+  const reservation = await prisma.reservation.findUnique({
+    where: { id },
+    select: {
+      id: true,
+      eventId: true,
+      buyerId: true,
+      status: true,
+      paidAt: true,
+      amount: true,
+      purchaseGroupId: true,
+      refundStatus: true,
+      event: { select: { title: true, canceledAt: true } },
+    },
+  });
+  // Solo el comprador: los reembolsos de soporte van por admin/compras
+  if (!reservation || reservation.buyerId !== user.id) {
+    res.status(404).json({ error: "Reserva no encontrada" });
+    return null;
+  }
+
+  const notice = await findActiveChangeNotice(reservation);
+  return { reservation, notice };
+}
+
+/**
+ * GET /api/bookings/:id/change-refund
+ * Indica si la reserva puede pedir reembolso por un aviso de cambio y hasta cuándo.
+ */
+export async function getChangeRefundOptions(req: Authed, res: Response) {
+  try {
+    const ctx = await loadChangeRefundContext(req, res);
+    if (!ctx) return;
+    const { reservation, notice } = ctx;
+
+    const group = reservation.purchaseGroupId
+      ? await prisma.reservation.findMany({
+          where: { purchaseGroupId: reservation.purchaseGroupId, status: "PAID", refundStatus: "NONE" },
+          select: { id: true, code: true, amount: true, quantity: true },
+        })
+      : [];
+
+    return res.json({
+      eligible:
+        !!notice && reservation.status === "PAID" && reservation.refundStatus === "NONE" && !reservation.event.canceledAt,
+      reservationId: reservation.id,
+      status: reservation.status,
+      refundStatus: reservation.refundStatus,
+      notice: notice
+        ? {
+            id: notice.id,
+            reason: notice.reason,
+            previousDate: notice.previousDate,
+            newDate: notice.newDate,
+            previousLocation: notice.previousLocation,
+            newLocation: notice.newLocation,
+            refundWindowEndsAt: notice.refundWindowEndsAt,
+          }
+        : null,
+      // En compras multi-sección se reembolsa el grupo completo
+      groupReservations: group,
+      refundAmount: group.length ? group.reduce((sum, r) => sum + r.amount, 0) : reservation.amount,
+    });
+  } catch (err: any) {
+    console.error("getChangeRefundOptions error:", err);
+    return res.status(500).json({ error: "Error al consultar el reembolso" });
+  }
+}
 
+/**
+ * POST /api/bookings/:id/change-refund
+ * Reembolso en un click dentro de la ventana de un aviso de cambio de fecha/lugar.
+ * Anula las entradas de la compra.
+ */
+export async function requestChangeRefund(req: Authed, res: Response) {
+  try {
+    const ctx = await loadChangeRefundContext(req, res);
+    if (!ctx) return;
+    const { reservation, notice } = ctx;
 
+    if (reservation.event.canceledAt) {
+      return res.status(409).json({ error: "El evento fue cancelado; el reembolso se procesa automáticamente" });
+    }
+    if (reservation.status !== "PAID") {
+      return res.status(409).json({ error: "La reserva no está pagada" });
+    }
+    if (reservation.refundStatus !== "NONE") {
+      return res.status(409).json({ error: "La reserva ya tiene un reembolso en curso o procesado", refundStatus: reservation.refundStatus });
+    }
+    if (!notice) {
+      return res.status(409).json({ error: "No hay un cambio de fecha/lugar con ventana de reembolso abierta para esta reserva" });
+    }
+
+    const result = await refundForChangeNotice(reservation, notice);
+    if (!result) {
+      return res.status(409).json({ error: "La reserva ya tiene un reembolso en curso o procesado" });
+    }
+    if (!result.ok) {
+      return res.status(502).json({
+        error: "No se pudo procesar el reembolso automáticamente. Nuestro equipo lo gestionará y te contactaremos.",
+        reservationIds: result.reservationIds,
+      });
+    }
+
+    return res.json({
+      refunded: true,
+      reservationIds: result.reservationIds,
+      amount: result.amount,
+      ticketsInvalidated: result.ticketsInvalidated,
+    });
+  } catch (err: any) {
+    console.error("requestChangeRefund error:", err);
+    return res.status(500).json({ error: "Error al procesar el reembolso" });
+  }
+}
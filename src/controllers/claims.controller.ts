@@ -7,6 +7,7 @@ import {
   sendClaimStatusUpdateEmail 
 } from '../services/email.service';
 import { getClaimDeadlineHours } from '../services/config.service';
+import { recordAudit } from '../services/audit.service';
 
 type Authed = { id: number; role: string };
 
@@ -488,6 +489,14 @@ export async function adminUpdateClaimStatus(req: Request, res: Response) {
     },
   });
 
+  await recordAudit(req, {
+    action: 'claim.status.update',
+    entityType: 'Claim',
+    entityId: claimId,
+    before: { status: claim.status, canReopen: claim.canReopen },
+    after: { status: updated.status, canReopen: updated.canReopen },
+  });
+
   // Enviar email de notificación al comprador
   try {
     await sendClaimStatusUpdateEmail({
@@ -519,11 +528,28 @@ export async function adminUpdateClaimPriority(req: Request, res: Response) {
     return res.status(400).json({ error: 'Prioridad inválida' });
   }
 
+  const claim = await prisma.claim.findUnique({
+    where: { id: claimId },
+    select: { priority: true },
+  });
+
+  if (!claim) {
+    return res.status(404).json({ error: 'Reclamo no encontrado' });
+  }
+
   const updated = await prisma.claim.update({
     where: { id: claimId },
     data: { priority: priority as any },
   });
 
+  await recordAudit(req, {
+    action: 'claim.priority.update',
+    entityType: 'Claim',
+    entityId: claimId,
+    before: { priority: claim.priority },
+    after: { priority: updated.priority },
+  });
+
   res.json(updated);
 }
 
@@ -671,7 +697,7 @@ export async function adminAddClaimMessage(req: Request, res: Response) {
       type: 'ADMIN_RESPONSE',
       message: message.trim(),
       authorId: user.id,
-      authorRole: 'superadmin',
+      authorRole: user.role, // superadmin o support
     },
   });
 
@@ -0,0 +1,146 @@
+// src/controllers/dataExport.controller.ts
+import { Request, Response } from 'express';
+import prisma from '../prisma/client';
+import { env } from '../config/env';
+import { hashToken } from '../utils/auth';
+import { queueDataExport } from '../services/dataExport.service';
+
+type Authed = { id: number; role: string };
+
+const publicSelect = {
+  id: true,
+  status: true,
+  fileSize: true,
+  expiresAt: true,
+  downloadCount: true,
+  lastDownloadedAt: true,
+  createdAt: true,
+  completedAt: true,
+} as const;
+
+/**
+ * POST /api/account/data-export
+ * Solicita una copia de los datos personales. Se arma en segundo plano y al terminar
+ * se envía un email con el link de descarga (vence en DATA_EXPORT_EXPIRES_HOURS).
+ */
+export async function requestMyDataExport(req: Request, res: Response) {
+  try {
+    const user = req.user as Authed;
+
+    const inProgress = await prisma.dataExportRequest.findFirst({
+      where: { userId: user.id, status: { in: ['PENDING', 'PROCESSING'] } },
+      select: publicSelect,
+    });
+    if (inProgress) {
+      return res.status(409).json({ error: 'Ya tienes una exportación en curso', request: inProgress });
+    }
+
+    // Una solicitud por ventana (las fallidas no cuentan)
+    const since = new Date(Date.now() - env.DATA_EXPORT_COOLDOWN_HOURS * 60 * 60 * 1000);
+    const recent = await prisma.dataExportRequest.findFirst({
+      where: { userId: user.id, createdAt: { gte: since }, status: { not: 'FAILED' } },
+      orderBy: { createdAt: 'desc' },
+      select: { createdAt: true },
+    });
+    if (recent) {
+      const retryAt = new Date(recent.createdAt.getTime() + env.DATA_EXPORT_COOLDOWN_HOURS * 60 * 60 * 1000);
+      return res.status(429).json({
+        error: `Solo puedes solicitar una exportación cada ${env.DATA_EXPORT_COOLDOWN_HOURS} horas`,
+        retryAt,
+      });
+    }
+
+    const created = await prisma.dataExportRequest.create({
+      data: { userId: user.id },
+      select: publicSelect,
+    });
+
+    queueDataExport(created.id);
+
+    return res.status(202).json({
+      message: 'Estamos preparando tus datos. Te enviaremos un email con el link de descarga.',
+      request: created,
+    });
+  } catch (err) {
+    console.error('requestMyDataExport error:', err);
+    return res.status(500).json({ error: 'No se pudo solicitar la exportación' });
+  }
+}
+
+/**
+ * GET /api/account/data-export
+ * Historial de exportaciones del usuario (sin links: el link solo viaja por email)
+ */
+export async function listMyDataExports(req: Request, res: Response) {
+  try {
+    const user = req.user as Authed;
+    const items = await prisma.dataExportRequest.findMany({
+      where: { userId: user.id },
+      orderBy: { createdAt: 'desc' },
+      take: 20,
+      select: publicSelect,
+    });
+    return res.json({ items });
+  } catch (err) {
+    console.error('listMyDataExports error:', err);
+    return res.status(500).json({ error: 'No se pudo obtener el historial de exportaciones' });
+  }
+}
+
+/**
+ * GET /api/account/data-export/download/:token
+ * Descarga el ZIP con el token del email (sin JWT: el link se abre desde el correo).
+ */
+export async function downloadDataExport(req: Request, res: Response) {
+  try {
+    const token = String(req.params.token ?? '').trim();
+    if (!/^[a-f0-9]{64}$/.test(token)) {
+      return res.status(404).json({ error: 'Link de descarga inválido' });
+    }
+
+    const request = await prisma.dataExportRequest.findUnique({
+      where: { downloadTokenHash: hashToken(token) },
+      select: { id: true, status: true, filePath: true, expiresAt: true, completedAt: true },
+    });
+    if (!request || request.status !== 'READY' || !request.filePath) {
+      return res.status(404).json({ error: 'Link de descarga inválido o vencido' });
+    }
+    if (!request.expiresAt || request.expiresAt <= new Date()) {
+      return res.status(410).json({ error: 'El link de descarga venció. Solicita una nueva exportación.' });
+    }
+    // Sin existsSync previo: el job de vencimiento o la anonimización pueden borrar el archivo
+    // en cualquier momento, así que la ausencia se detecta al abrirlo (callback de res.download)
+    const stamp = (request.completedAt ?? new Date()).toISOString().slice(0, 10);
+    res.download(
+      request.filePath,
+      `mis-datos-confiaticket-${stamp}.zip`,
+      { headers: { 'Content-Type': 'application/zip', 'Cache-Control': 'no-store' } },
+      (err) => {
+        if (err) {
+          if (res.headersSent) {
+            console.error('downloadDataExport stream error:', err);
+            return;
+          }
+          if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+            res.status(410).json({ error: 'El archivo ya no está disponible. Solicita una nueva exportación.' });
+            return;
+          }
+          console.error('downloadDataExport error:', err);
+          res.status(500).json({ error: 'No se pudo descargar la exportación' });
+          return;
+        }
+        prisma.dataExportRequest
+          .update({
+            where: { id: request.id },
+            data: { downloadCount: { increment: 1 }, lastDownloadedAt: new Date() },
+          })
+          .catch((e) => console.error('downloadDataExport count error:', e));
+      }
+    );
+  } catch (err) {
+    console.error('downloadDataExport error:', err);
+    if (!res.headersSent) {
+      return res.status(500).json({ error: 'No se pudo descargar la exportación' });
+    }
+  }
+}
@@ -5,10 +5,11 @@ import fs from 'fs';
 import { Prisma } from '@prisma/client';
 import prisma from '../prisma/client';
 import { env } from '../config/env';
+import { hasPermission, PERMISSIONS } from '../utils/permissions';
 
 interface Authed {
   id: number;
-  role: 'buyer' | 'organizer' | 'superadmin';
+  role: string;
 }
 
 /**
@@ -48,8 +49,9 @@ export async function serveDocument(req: Request, res: Response) {
     return res.status(404).json({ error: 'Archivo no encontrado' });
   }
 
-  // Si es superadmin, permitir acceso directo a todo
-  if (user.role === 'superadmin') {
+  // Staff con el permiso correspondiente (superadmin: todo; support: evidencia de reclamos)
+  const staffPermission = type === 'identity' ? PERMISSIONS.ADMIN_DOCUMENTS : PERMISSIONS.CLAIMS_MANAGE;
+  if (hasPermission(user.role, staffPermission)) {
     return res.sendFile(filePath);
   }
 
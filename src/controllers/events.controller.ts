@@ -1,12 +1,16 @@
 import { Request, Response } from 'express';
 import prisma from '../prisma/client';
 import { getTicketLimits } from '../services/config.service';
-
-/* ============ Config de cierre de ventas (por defecto 24 h) ============ */
-const SALES_CUTOFF_MINUTES = Number(process.env.SALES_CUTOFF_MINUTES ?? 1440);
-function getSalesCloseAt(startsAt: Date): Date {
-  return new Date(startsAt.getTime() - SALES_CUTOFF_MINUTES * 60_000);
-}
+import { PUBLIC_CHANGE_NOTICE_SELECT } from '../services/eventChange.service';
+import { findActivePricePhase, publicPricePhase, publicSectionPricing } from '../services/pricing.service';
+import { buildEventFacets, matchPublicEvents } from '../services/eventSearch.service';
+import { DEFAULT_RADIUS_KM, MAX_RADIUS_KM, nearbyPublicEvents, parseCoordinates } from '../services/eventGeo.service';
+import { EVENT_CATEGORY_SELECT, publicCategoryTree, resolveCategoryFilter } from '../services/eventCategory.service';
+import { eventSalesWindow, publishedWhere, SALES_CUTOFF_MINUTES, type SalesWindowStatus } from '../services/salesWindow.service';
+import { reviewStatusData } from '../services/eventReview.service';
+import { pruneRevisionCovers, withdrawPendingRevisions } from '../services/eventRevision.service';
+
+/* ============ Cierre de ventas por defecto (ver salesWindow.service.ts) ============ */
 function cutoffLabel(min: number): string {
   if (min % 1440 === 0) {
     const d = min / 1440;
@@ -35,6 +39,11 @@ function parseBool(val: unknown, def = false): boolean {
   return def;
 }
 
+// Funciones de una serie visibles al público (aprobadas, activas, no canceladas y ya publicadas)
+function publicPerformanceWhere(now: Date) {
+  return { approved: true, isActive: true, canceledAt: null, AND: [publishedWhere(now)] };
+}
+
 const ALLOWED_ORDER_FIELDS = new Set([
   'date',
   'createdAt',
@@ -135,6 +144,8 @@ export async function createEvent(req: Request, res: Response) {
         capacity: capacityNumber,
         price: priceNumber,
         organizerId,
+        submittedAt: new Date(),
+        reviewRound: 1,
         ...(coverImageUrl ? { coverImageUrl: String(coverImageUrl) } : {}),
       },
     });
@@ -164,10 +175,14 @@ export async function approveEvent(req: Request, res: Response) {
       return res.status(404).json({ error: 'Evento no encontrado' });
     }
 
+    // Mantiene el flujo de revisión sincronizado (aprobar / devolver a la cola)
     const event = await prisma.event.update({
       where: { id: eventId },
-      data: { approved },
+      data: reviewStatusData(approved ? 'APPROVED' : 'SUBMITTED', { id: req.user?.id ?? null, role: 'admin' }),
     });
+    if (!approved && existing.reviewStatus === 'APPROVED' && (await withdrawPendingRevisions([eventId]))) {
+      await pruneRevisionCovers(eventId);
+    }
 
     return res.json(event);
   } catch (error) {
@@ -176,11 +191,61 @@ export async function approveEvent(req: Request, res: Response) {
   }
 }
 
+/**
+ * Agrupa las funciones de una misma serie en una sola entrada (conserva el orden del listado).
+ * series.performances cuenta solo las funciones que pasaron los filtros.
+ */
+function groupEventsBySeries<T extends { id: number; seriesId: number | null; date: Date }>(list: T[]) {
+  const groups = new Map<number, T[]>();
+  for (const ev of list) {
+    if (ev.seriesId == null) continue;
+    const group = groups.get(ev.seriesId) ?? [];
+    group.push(ev);
+    groups.set(ev.seriesId, group);
+  }
+
+  const out: Array<T & { series: { id: number; performances: number; firstDate: Date; lastDate: Date; eventIds: number[] } | null }> = [];
+  for (const ev of list) {
+    if (ev.seriesId == null) {
+      out.push({ ...ev, series: null });
+      continue;
+    }
+    const group = groups.get(ev.seriesId);
+    if (!group) continue; // ya agregada
+    groups.delete(ev.seriesId);
+    const times = group.map((g) => g.date.getTime());
+    out.push({
+      ...ev,
+      series: {
+        id: ev.seriesId,
+        performances: group.length,
+        firstDate: new Date(Math.min(...times)),
+        lastDate: new Date(Math.max(...times)),
+        eventIds: group.map((g) => g.id),
+      },
+    });
+  }
+  return out;
+}
+
 /* ============= Listar eventos públicos (aprobados) ============= */
 export async function listPublicEvents(req: Request, res: Response) {
   try {
     const page = parseIntSafe(req.query.page, 1);
     const limit = parseIntSafe(req.query.limit, 10);
+    const q = (req.query.q as string | undefined)?.trim();
+
+    // Cerca de un punto: lat, lng y radiusKm (por defecto 25 km)
+    const geo = parseCoordinates(req.query.lat, req.query.lng, ['lat', 'lng']);
+    if (geo.error) return res.status(400).json({ error: geo.error });
+    const radiusKm = req.query.radiusKm !== undefined ? Number(req.query.radiusKm) : DEFAULT_RADIUS_KM;
+    if (!Number.isFinite(radiusKm) || radiusKm <= 0 || radiusKm > MAX_RADIUS_KM) {
+      return res.status(400).json({ error: `radiusKm debe ser mayor a 0 y hasta ${MAX_RADIUS_KM}` });
+    }
+
+    // Con punto el orden por defecto es por distancia; con texto de búsqueda, por relevancia
+    const byDistance = !!geo.point && (!req.query.orderBy || req.query.orderBy === 'distance');
+    const byRelevance = !!q && !byDistance && (!req.query.orderBy || req.query.orderBy === 'relevance');
     const orderBy = parseOrderBy(req.query.orderBy);
     const orderDir = parseOrderDir(req.query.orderDir);
 
@@ -188,28 +253,86 @@ export async function listPublicEvents(req: Request, res: Response) {
       parseBool(req.query.includePast, false) ||
       parseBool((req.query as any).showPast, false);
     const includeSoldOut = parseBool(req.query.includeSoldOut, false);
+    // Vista agrupada: una entrada por serie (la primera función según el orden pedido)
+    const groupSeries = parseBool(req.query.groupSeries, false);
 
-    const q = (req.query.q as string | undefined)?.trim();
     const location = (req.query.location as string | undefined)?.trim();
     const dateFrom = req.query.dateFrom as string | undefined;
     const dateTo = req.query.dateTo as string | undefined;
 
     const now = new Date();
 
-    const whereCommon: any = { approved: true, isActive: true };
-    if (q) {
-      const contains: any = { contains: q };
-      whereCommon.OR = [{ title: contains }, { description: contains }, { location: contains }];
-    }
-    if (location) {
-      whereCommon.location = { contains: location } as any;
-    }
+    // Solo eventos ya publicados (publishAt vencido o sin programar)
+    const whereCommon: any = { approved: true, isActive: true, AND: [publishedWhere(now)] };
+
+    // Texto y ubicación: full-text / trigramas sin acentos (eventSearch.service.ts)
+    const matches = await matchPublicEvents({ q, location });
+    // Distancia en km a los eventos ubicados dentro del radio (eventGeo.service.ts)
+    const nearby = geo.point ? await nearbyPublicEvents(geo.point, radiusKm) : null;
+    const candidateIds = [...(matches ?? nearby ?? new Map<number, number>()).keys()].filter((id) => !nearby || nearby.has(id));
+    if (matches || nearby) whereCommon.id = { in: candidateIds };
+
+    // Filtros de facets
+    const city = (req.query.city as string | undefined)?.trim();
+    const commune = (req.query.commune as string | undefined)?.trim();
+    const eventType = String(req.query.eventType ?? '').trim().toUpperCase();
+    if (city) whereCommon.city = { equals: city, mode: 'insensitive' };
+    if (commune) whereCommon.commune = { equals: commune, mode: 'insensitive' };
+    if (eventType === 'OWN' || eventType === 'RESALE') whereCommon.eventType = eventType;
+    // category: ids o slugs separados por coma (incluye subcategorías); tag: alguna de las etiquetas
+    const category = String(req.query.category ?? '').trim();
+    const categoryIds = category ? await resolveCategoryFilter(category) : null;
+    if (categoryIds) whereCommon.categories = { some: { categoryId: { in: categoryIds } } };
+    const tags = String(req.query.tag ?? '').split(',').map((t) => t.trim().toLowerCase()).filter(Boolean);
+    if (tags.length) whereCommon.tags = { hasSome: tags };
+    // salesStatus=UPCOMING: publicados con la venta por abrir (páginas "pronto a la venta")
+    const salesStatus = String(req.query.salesStatus ?? '').trim().toUpperCase() as SalesWindowStatus;
+    const filterBySalesStatus = ['UPCOMING', 'ON_SALE', 'CLOSED'].includes(salesStatus);
+    const priceMin = Number(req.query.priceMin);
+    const priceMax = Number(req.query.priceMax);
+    if (req.query.priceMin !== undefined && Number.isFinite(priceMin)) whereCommon.price = { ...whereCommon.price, gte: priceMin };
+    if (req.query.priceMax !== undefined && Number.isFinite(priceMax)) whereCommon.price = { ...whereCommon.price, lte: priceMax };
+
+    // Ordena por relevancia (si corresponde), agrupa series y arma la respuesta paginada con facets
+    type Listed = {
+      id: number; seriesId: number | null; date: Date; city: string | null; commune: string | null; eventType: string; price: number;
+      publishAt: Date | null; salesOpenAt: Date | null; salesCloseAt: Date | null;
+      categories: Array<{ category: { id: number; name: string; slug: string; parentId: number | null } }>;
+    };
+    const respond = <T extends Listed>(all: T[]) => {
+      const list = filterBySalesStatus ? all.filter((ev) => eventSalesWindow(ev, now).status === salesStatus) : all;
+      const ranked = byDistance && nearby
+        ? [...list].sort((a, b) => (nearby.get(a.id) ?? 0) - (nearby.get(b.id) ?? 0))
+        : byRelevance && matches
+          ? [...list].sort((a, b) => (matches.get(b.id) ?? 0) - (matches.get(a.id) ?? 0))
+          : list;
+      const listed = groupSeries ? groupEventsBySeries(ranked) : ranked;
+      const total = listed.length;
+      const start = (page - 1) * limit;
+      const events = listed.slice(start, start + limit);
+      return res.json({
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+        events: events.map(({ categories, ...ev }) => ({
+          ...ev,
+          categories: categories.map((c) => c.category),
+          // Estado de venta y cuenta regresiva
+          salesWindow: eventSalesWindow(ev, now),
+          ...(matches ? { relevance: matches.get(ev.id) ?? 0 } : {}),
+          ...(nearby ? { distanceKm: nearby.get(ev.id) ?? null } : {}),
+        })),
+        facets: buildEventFacets(ranked),
+      });
+    };
 
     /* ===== Caso combinado: includePast && includeSoldOut ===== */
     if (includePast && includeSoldOut) {
       const pastWhere = { ...whereCommon, date: { lt: now } };
       const futureWhere = { ...whereCommon, date: { gte: now } };
-      const BASE_CAP = Math.min(Math.max(limit * 10, 100), 1000);
+      // Con búsqueda se traen todas las coincidencias (ya acotadas) para no cortar por relevancia/distancia
+      const BASE_CAP = matches || nearby ? Math.max(candidateIds.length, 1) : Math.min(Math.max(limit * 10, 100), 1000);
 
       const [pastList, futureList] = await Promise.all([
         prisma.event.findMany({
@@ -219,7 +342,10 @@ export async function listPublicEvents(req: Request, res: Response) {
           select: {
             id: true, title: true, description: true, date: true, location: true,
             capacity: true, price: true, organizerId: true, approved: true,
-            createdAt: true, coverImageUrl: true, eventType: true,
+            createdAt: true, coverImageUrl: true, coverImageVariants: true, eventType: true, seriesId: true,
+            city: true, commune: true, latitude: true, longitude: true, tags: true,
+            publishAt: true, salesOpenAt: true, salesCloseAt: true,
+            categories: { select: EVENT_CATEGORY_SELECT },
           },
         }),
         prisma.event.findMany({
@@ -229,7 +355,10 @@ export async function listPublicEvents(req: Request, res: Response) {
           select: {
             id: true, title: true, description: true, date: true, location: true,
             capacity: true, price: true, organizerId: true, approved: true,
-            createdAt: true, coverImageUrl: true, eventType: true,
+            createdAt: true, coverImageUrl: true, coverImageVariants: true, eventType: true, seriesId: true,
+            city: true, commune: true, latitude: true, longitude: true, tags: true,
+            publishAt: true, salesOpenAt: true, salesCloseAt: true,
+            categories: { select: EVENT_CATEGORY_SELECT },
           },
         }),
       ]);
@@ -258,7 +387,7 @@ export async function listPublicEvents(req: Request, res: Response) {
         futureSoldOut = futureList.filter(ev => {
           const sold = soldMap.get(ev.id) ?? 0;
           const remaining = Math.max(0, ev.capacity - sold);
-          const salesClosed = now >= getSalesCloseAt(ev.date as Date);
+          const salesClosed = eventSalesWindow(ev, now).status === 'CLOSED';
           return remaining <= 0 || salesClosed;
         });
       }
@@ -277,10 +406,7 @@ export async function listPublicEvents(req: Request, res: Response) {
         return orderDir === 'desc' ? -cmp : cmp;
       });
 
-      const total = merged.length;
-      const start = (page - 1) * limit;
-      const events = merged.slice(start, start + limit);
-      return res.json({ page, limit, total, pages: Math.ceil(total / limit), events });
+      return respond(merged);
     }
     /* =================== FIN caso combinado =================== */
 
@@ -302,7 +428,7 @@ export async function listPublicEvents(req: Request, res: Response) {
       where.date.gte = now;
     }
 
-    const BASE_CAP = Math.min(Math.max(limit * 10, 100), 1000);
+    const BASE_CAP = matches || nearby ? Math.max(candidateIds.length, 1) : Math.min(Math.max(limit * 10, 100), 1000);
     const baseList = await prisma.event.findMany({
       where,
       orderBy: { [orderBy]: orderDir },
@@ -310,15 +436,15 @@ export async function listPublicEvents(req: Request, res: Response) {
       select: {
         id: true, title: true, description: true, date: true, location: true,
         capacity: true, price: true, organizerId: true, approved: true,
-        createdAt: true, coverImageUrl: true, eventType: true,
+        createdAt: true, coverImageUrl: true, coverImageVariants: true, eventType: true, seriesId: true,
+        city: true, commune: true, latitude: true, longitude: true, tags: true,
+        publishAt: true, salesOpenAt: true, salesCloseAt: true,
+        categories: { select: EVENT_CATEGORY_SELECT },
       },
     });
 
     if (includeSoldOut) {
-      const total = baseList.length;
-      const start = (page - 1) * limit;
-      const events = baseList.slice(start, start + limit);
-      return res.json({ page, limit, total, pages: Math.ceil(total / limit), events });
+      return respond(baseList);
     }
 
     const ids = baseList.map(e => e.id);
@@ -340,15 +466,12 @@ export async function listPublicEvents(req: Request, res: Response) {
       filtered = baseList.filter(ev => {
         const paid = paidMap.get(ev.id) ?? 0;
         const remainingPaidOnly = Math.max(0, ev.capacity - paid);
-        const salesClosed = now >= getSalesCloseAt(ev.date as Date);
+        const salesClosed = eventSalesWindow(ev, now).status === 'CLOSED';
         return remainingPaidOnly > 0 && !salesClosed;
       });
     }
 
-    const total = filtered.length;
-    const start = (page - 1) * limit;
-    const events = filtered.slice(start, start + limit);
-    return res.json({ page, limit, total, pages: Math.ceil(total / limit), events });
+    return respond(filtered);
   } catch (error) {
     console.error(error);
     return res.status(500).json({ error: 'Error al obtener eventos públicos' });
@@ -432,8 +555,8 @@ export async function listOrganizerEvents(req: Request, res: Response) {
 export async function listPendingEvents(_req: Request, res: Response) {
   try {
     const events = await prisma.event.findMany({
-      where: { approved: false },
-      orderBy: { date: 'asc' },
+      where: { reviewStatus: 'SUBMITTED' },
+      orderBy: [{ submittedAt: 'asc' }, { date: 'asc' }],
       select: {
         id: true,
         title: true,
@@ -476,34 +599,63 @@ export async function getEventDetails(req: Request, res: Response) {
         price: true,
         approved: true,
         coverImageUrl: true,
+        coverImageVariants: true,
         organizerId: true,
         eventType: true,
         isActive: true,
+        seriesId: true,
+        tags: true,
+        publishAt: true,
+        salesOpenAt: true,
+        salesCloseAt: true,
+        categories: { select: EVENT_CATEGORY_SELECT },
         organizer: { select: { id: true, name: true, email: true } },
+        changeNotices: { select: PUBLIC_CHANGE_NOTICE_SELECT, orderBy: { createdAt: 'desc' } },
       },
     });
 
-    if (!event) {
+    const now = new Date();
+    // Publicación programada: no existe para el público hasta publishAt
+    if (!event || (event.publishAt && event.publishAt > now)) {
       return res.status(404).json({ error: 'Evento no encontrado' });
     }
 
-    const now = new Date();
     const startsAt = event.date instanceof Date ? event.date : new Date(event.date);
-    const salesCloseAt = getSalesCloseAt(startsAt);
-    const salesClosed = now >= salesCloseAt;
+    const salesWindow = eventSalesWindow(event, now);
+    const salesCloseAt = salesWindow.salesCloseAt;
+    const salesClosed = salesWindow.status === 'CLOSED';
 
     // Determinar la capacidad real del evento
     let totalCapacity = event.capacity;
+    // Fase de precio vigente a nivel evento (early bird, preventa...)
+    const activePhase = event.eventType === 'OWN' ? await findActivePricePhase({ eventId }) : null;
+    const currentPrice = activePhase ? activePhase.phase.price : event.price;
+    // Rango de precios (con precios por sección / tipo de entrada / fase puede variar)
+    let priceRange = { min: currentPrice, max: currentPrice };
     
     // Si el evento tiene secciones, usar la suma de capacidades de las secciones
     if (event.eventType === 'OWN') {
       const sections = await prisma.eventSection.findMany({
         where: { eventId },
-        select: { totalCapacity: true },
+        select: {
+          id: true,
+          totalCapacity: true,
+          price: true,
+          ticketTypes: { select: { id: true, name: true, price: true, eligibilityNote: true, isActive: true, sortOrder: true } },
+        },
       });
       
       if (sections.length > 0) {
         totalCapacity = sections.reduce((sum, section) => sum + section.totalCapacity, 0);
+        const pricing = await Promise.all(
+          sections.map(async (section) =>
+            publicSectionPricing(section, event.price, await findActivePricePhase({ eventId, sectionId: section.id }))
+          )
+        );
+        priceRange = {
+          min: Math.min(...pricing.map((p) => p.minPrice)),
+          max: Math.max(...pricing.map((p) => p.maxPrice)),
+        };
       }
     }
 
@@ -531,11 +683,27 @@ export async function getEventDetails(req: Request, res: Response) {
     const remaining = Math.max(0, totalCapacity - (paid + pendingActive));
 
     const hasStarted = now >= startsAt;
-    const canBuy = event.approved && event.isActive && !hasStarted && !salesClosed && remaining > 0;
+    const canBuy = event.approved && event.isActive && !hasStarted && salesWindow.onSale && remaining > 0;
+
+    const { changeNotices, categories, ...eventData } = event;
+
+    // Otras fechas del mismo espectáculo (serie)
+    const seriesPerformances = event.seriesId
+      ? await prisma.event.findMany({
+          where: { seriesId: event.seriesId, ...publicPerformanceWhere(now), date: { gte: now } },
+          orderBy: { date: 'asc' },
+          select: { id: true, date: true },
+        })
+      : [];
 
     return res.json({
-      ...event,
+      ...eventData,
+      categories: categories.map((c) => c.category),
       capacity: totalCapacity, // Capacidad real (suma de secciones si existen)
+      price: currentPrice,
+      basePrice: event.price,
+      pricePhase: publicPricePhase(activePhase),
+      priceRange,
       remaining,
       remainingPaidOnly,
       pendingActive,
@@ -545,7 +713,12 @@ export async function getEventDetails(req: Request, res: Response) {
       salesCloseAt: salesCloseAt.toISOString(),
       startsAt: startsAt.toISOString(),
       salesCutoffMinutes: SALES_CUTOFF_MINUTES,
+      // Estado de venta (SCHEDULED / UPCOMING / ON_SALE / CLOSED) y cuenta regresiva
+      salesWindow,
       holdMinutes: HOLD_MINUTES,
+      // Historial de cambios de fecha/lugar publicados por el organizador
+      changeHistory: changeNotices,
+      series: event.seriesId ? { id: event.seriesId, performances: seriesPerformances } : null,
     });
   } catch (error) {
     console.error(error);
@@ -553,6 +726,83 @@ export async function getEventDetails(req: Request, res: Response) {
   }
 }
 
+/* ============= Categorías públicas ============= */
+/**
+ * GET /api/events/categories
+ * Árbol de categorías activas con la cantidad de eventos próximos (incluye subcategorías)
+ */
+export async function listPublicCategories(_req: Request, res: Response) {
+  try {
+    return res.json({ items: await publicCategoryTree() });
+  } catch (error) {
+    console.error(error);
+    return res.status(500).json({ error: 'Error al obtener categorías' });
+  }
+}
+
+/* ============= Serie pública (todas las funciones) ============= */
+/**
+ * GET /api/events/series/:id
+ * Contenido compartido y funciones próximas (aprobadas, activas y no canceladas) con su disponibilidad.
+ */
+export async function getPublicSeries(req: Request, res: Response) {
+  try {
+    const seriesId = Number(req.params.id);
+    if (!Number.isInteger(seriesId) || seriesId <= 0) {
+      return res.status(400).json({ error: 'ID de serie inválido' });
+    }
+
+    const series = await prisma.eventSeries.findUnique({
+      where: { id: seriesId },
+      select: {
+        id: true,
+        title: true,
+        description: true,
+        coverImageUrl: true,
+        location: true,
+        city: true,
+        commune: true,
+        organizer: { select: { id: true, name: true } },
+      },
+    });
+    if (!series) return res.status(404).json({ error: 'Serie no encontrada' });
+
+    const now = new Date();
+    const performances = await prisma.event.findMany({
+      where: { seriesId, ...publicPerformanceWhere(now), date: { gte: now } },
+      orderBy: { date: 'asc' },
+      select: {
+        id: true, date: true, location: true, capacity: true, price: true,
+        publishAt: true, salesOpenAt: true, salesCloseAt: true,
+      },
+    });
+    if (!performances.length) return res.status(404).json({ error: 'La serie no tiene funciones disponibles' });
+
+    const taken = await prisma.reservation.groupBy({
+      by: ['eventId'],
+      where: {
+        eventId: { in: performances.map((p) => p.id) },
+        OR: [{ status: 'PAID' }, { status: 'PENDING_PAYMENT', expiresAt: { gt: now } }],
+      },
+      _sum: { quantity: true },
+    });
+    const takenMap = new Map(taken.map((t) => [t.eventId, t._sum.quantity ?? 0]));
+
+    return res.json({
+      ...series,
+      performances: performances.map((p) => {
+        const salesWindow = eventSalesWindow(p, now);
+        const salesClosed = salesWindow.status === 'CLOSED';
+        const remaining = Math.max(0, p.capacity - (takenMap.get(p.id) ?? 0));
+        return { ...p, remaining, salesClosed, salesWindow, canBuy: salesWindow.onSale && remaining > 0 };
+      }),
+    });
+  } catch (error) {
+    console.error(error);
+    return res.status(500).json({ error: 'Error al obtener la serie' });
+  }
+}
+
 /* ================= Comprar entradas (directa) ================= */
 export async function purchaseTickets(req: Request, res: Response) {
   const auth = (req as any).user as { id: number; role: string } | undefined;
@@ -572,7 +822,10 @@ export async function purchaseTickets(req: Request, res: Response) {
     const txResult = await prisma.$transaction(async (tx) => {
       const ev = await tx.event.findUnique({
         where: { id: eventId },
-        select: { id: true, capacity: true, price: true, organizerId: true, approved: true, date: true, isActive: true },
+        select: {
+          id: true, capacity: true, price: true, organizerId: true, approved: true, date: true, isActive: true,
+          publishAt: true, salesOpenAt: true, salesCloseAt: true,
+        },
       });
       if (!ev) return { status: 404, payload: { error: 'Evento no encontrado' } };
 
@@ -583,11 +836,17 @@ export async function purchaseTickets(req: Request, res: Response) {
       const now = new Date();
       const startsAt = ev.date instanceof Date ? ev.date : new Date(ev.date);
 
-      const closeAt = getSalesCloseAt(startsAt);
-      if (now >= closeAt) {
+      const salesWindow = eventSalesWindow(ev, now);
+      if (salesWindow.status === 'CLOSED') {
+        const error = ev.salesCloseAt
+          ? 'Las ventas de este evento ya cerraron.'
+          : `Las ventas se cierran ${cutoffLabel(SALES_CUTOFF_MINUTES)} antes del inicio.`;
+        return { status: 400, payload: { error } };
+      }
+      if (!salesWindow.onSale) {
         return {
           status: 400,
-          payload: { error: `Las ventas se cierran ${cutoffLabel(SALES_CUTOFF_MINUTES)} antes del inicio.` },
+          payload: { error: 'Las ventas de este evento aún no comienzan.', salesOpenAt: salesWindow.salesOpenAt },
         };
       }
 
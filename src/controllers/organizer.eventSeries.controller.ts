@@ -0,0 +1,465 @@
+// src/controllers/organizer.eventSeries.controller.ts
+// Series de eventos OWN (mismo espectáculo, varias funciones) y acciones masivas sobre sus funciones.
+// La lógica de funciones vive en eventSeries.service.ts.
+import { Request, Response } from 'express';
+import type { EventSeries, Prisma } from '@prisma/client';
+import prisma from '../prisma/client';
+import { loadAllLimits } from '../utils/config-loader';
+import { checkPrice } from '../services/pricing.service';
+import { recordAudit } from '../services/audit.service';
+import {
+  cancelPerformances,
+  createPerformances,
+  movePerformances,
+  parseSectionsTemplate,
+  readSectionsTemplate,
+  seriesPerformanceSummary,
+  syncSeriesContent,
+  templateCapacity,
+  templateFromSections,
+  type SectionTemplate,
+} from '../services/eventSeries.service';
+
+const MAX_PERFORMANCES_PER_REQUEST = 100;
+const REASON_MIN = 10;
+const REASON_MAX = 500;
+
+function toStr(v: unknown) {
+  return String(v ?? '').trim();
+}
+
+function parseId(v: unknown) {
+  const n = Number(v);
+  return Number.isInteger(n) && n > 0 ? n : null;
+}
+
+/** Serie del organizador autenticado */
+async function findOwnSeries(req: Request) {
+  const id = parseId(req.params.id);
+  if (!id) return null;
+  return prisma.eventSeries.findFirst({ where: { id, organizerId: req.user!.id } });
+}
+
+type SeriesData = {
+  title?: string;
+  description?: string;
+  coverImageUrl?: string | null;
+  location?: string;
+  city?: string | null;
+  commune?: string | null;
+  price?: number;
+  capacity?: number;
+  sectionsTemplate?: SectionTemplate[];
+};
+
+/**
+ * Valida el contenido de la serie. Con partial=true solo valida los campos presentes;
+ * la plantilla se valida contra la capacidad resultante.
+ */
+async function parseSeriesBody(body: Record<string, unknown> | undefined, partial: boolean, current?: EventSeries) {
+  const { TICKET_LIMITS, FIELD_LIMITS } = await loadAllLimits();
+  const errors: string[] = [];
+  const data: SeriesData = {};
+
+  if (body?.title !== undefined || !partial) {
+    const v = toStr(body?.title);
+    if (!v) errors.push('title es requerido');
+    else if (v.length > FIELD_LIMITS.TITLE) errors.push(`title excede ${FIELD_LIMITS.TITLE} caracteres`);
+    data.title = v;
+  }
+  if (body?.description !== undefined) {
+    const v = toStr(body.description);
+    if (v.length > FIELD_LIMITS.DESCRIPTION) errors.push(`description excede ${FIELD_LIMITS.DESCRIPTION} caracteres`);
+    data.description = v;
+  }
+  if (body?.coverImageUrl !== undefined) {
+    const v = toStr(body.coverImageUrl);
+    if (v.length > FIELD_LIMITS.COVER_URL) errors.push(`coverImageUrl excede ${FIELD_LIMITS.COVER_URL} caracteres`);
+    data.coverImageUrl = v || null;
+  }
+  if (body?.venue !== undefined || !partial) {
+    const v = toStr(body?.venue);
+    if (!v) errors.push('venue es requerido');
+    else if (v.length > FIELD_LIMITS.VENUE) errors.push(`venue excede ${FIELD_LIMITS.VENUE} caracteres`);
+    data.location = v;
+  }
+  for (const [field, limit] of [['city', FIELD_LIMITS.CITY], ['commune', FIELD_LIMITS.COMMUNE]] as const) {
+    if (body?.[field] !== undefined) {
+      const v = toStr(body[field]);
+      if (v.length > limit) errors.push(`${field} excede ${limit} caracteres`);
+      data[field] = v || null;
+    }
+  }
+  if (body?.price !== undefined) {
+    const priceError = await checkPrice(body.price, 'price');
+    if (priceError) errors.push(priceError);
+    else data.price = Number(body.price);
+  }
+  if (body?.capacity !== undefined || !partial) {
+    const cap = Number(body?.capacity);
+    if (!Number.isInteger(cap) || cap < TICKET_LIMITS.OWN.MIN) {
+      errors.push(`capacity debe ser un entero de al menos ${TICKET_LIMITS.OWN.MIN}`);
+    } else if (TICKET_LIMITS.OWN.MAX !== null && cap > TICKET_LIMITS.OWN.MAX) {
+      errors.push(`capacity no puede exceder ${TICKET_LIMITS.OWN.MAX}`);
+    } else {
+      data.capacity = cap;
+    }
+  }
+
+  const capacity = data.capacity ?? current?.capacity;
+  if (body?.sectionsTemplate !== undefined && capacity !== undefined) {
+    const parsed = await parseSectionsTemplate(body.sectionsTemplate, capacity);
+    errors.push(...parsed.errors);
+    data.sectionsTemplate = parsed.sections;
+  } else if (current && data.capacity !== undefined && templateCapacity(readSectionsTemplate(current)) > data.capacity) {
+    errors.push('La capacidad no puede ser menor que la suma de capacidades de la plantilla de secciones');
+  }
+
+  return { errors, data };
+}
+
+/**
+ * Funciones a crear: [{ startAt, capacity? }]. La capacidad por defecto es la de la serie
+ * y nunca puede ser menor que la plantilla de secciones.
+ */
+async function parsePerformances(value: unknown, series: Pick<EventSeries, 'capacity' | 'sectionsTemplate'>) {
+  const errors: string[] = [];
+  const performances: Array<{ date: Date; capacity: number }> = [];
+  if (!Array.isArray(value) || value.length === 0) {
+    return { errors: ['performances debe ser un arreglo con al menos una función'], performances };
+  }
+  if (value.length > MAX_PERFORMANCES_PER_REQUEST) {
+    return { errors: [`Máximo ${MAX_PERFORMANCES_PER_REQUEST} funciones por solicitud`], performances };
+  }
+
+  const { TICKET_LIMITS } = await loadAllLimits();
+  const minCapacity = Math.max(TICKET_LIMITS.OWN.MIN, templateCapacity(readSectionsTemplate(series)));
+  const now = new Date();
+  for (const [i, raw] of value.entries()) {
+    const item = (raw ?? {}) as Record<string, unknown>;
+    const date = new Date(toStr(item.startAt));
+    if (Number.isNaN(date.getTime())) errors.push(`performances[${i}].startAt inválido`);
+    else if (date <= now) errors.push(`performances[${i}].startAt debe ser una fecha futura`);
+
+    const capacity = item.capacity != null ? Number(item.capacity) : series.capacity;
+    if (!Number.isInteger(capacity) || capacity < minCapacity) {
+      errors.push(`performances[${i}].capacity debe ser un entero de al menos ${minCapacity}`);
+    } else if (TICKET_LIMITS.OWN.MAX !== null && capacity > TICKET_LIMITS.OWN.MAX) {
+      errors.push(`performances[${i}].capacity no puede exceder ${TICKET_LIMITS.OWN.MAX}`);
+    }
+    performances.push({ date, capacity });
+  }
+  return { errors, performances };
+}
+
+/** Titular de payouts por defecto para las funciones nuevas (igual que createMyEvent) */
+async function payoutHolderFor(userId: number) {
+  const organizer = await prisma.user.findUnique({ where: { id: userId }, select: { name: true, rut: true } });
+  return { name: organizer?.name || null, rut: organizer?.rut || null };
+}
+
+/** Funciones de la serie con su venta (pagadas + holds vigentes) */
+async function performancesWithStock(seriesId: number) {
+  const events = await prisma.event.findMany({
+    where: { seriesId },
+    orderBy: { date: 'asc' },
+    select: { id: true, date: true, capacity: true, approved: true, isActive: true, canceledAt: true, location: true },
+  });
+  const now = new Date();
+  const sold = events.length
+    ? await prisma.reservation.groupBy({
+        by: ['eventId'],
+        where: {
+          eventId: { in: events.map((e) => e.id) },
+          OR: [{ status: 'PAID' }, { status: 'PENDING_PAYMENT', expiresAt: { gt: now } }],
+        },
+        _sum: { quantity: true },
+      })
+    : [];
+  const soldMap = new Map(sold.map((s) => [s.eventId, s._sum.quantity ?? 0]));
+  return events.map((e) => {
+    const taken = soldMap.get(e.id) ?? 0;
+    return { ...e, sold: taken, remaining: Math.max(0, e.capacity - taken) };
+  });
+}
+
+/**
+ * GET /api/organizer/event-series
+ * Series del organizador con cantidad de funciones y próxima fecha
+ */
+export async function listMySeries(req: Request, res: Response) {
+  const series = await prisma.eventSeries.findMany({
+    where: { organizerId: req.user!.id },
+    orderBy: { updatedAt: 'desc' },
+  });
+  const summary = await seriesPerformanceSummary(
+    series.map((s) => s.id),
+    { canceledAt: null }
+  );
+  res.json({
+    items: series.map((s) => ({
+      ...s,
+      ...(summary.get(s.id) ?? { performances: 0, nextDate: null, lastDate: null }),
+    })),
+  });
+}
+
+/**
+ * POST /api/organizer/event-series
+ * Body: { title, description?, venue, city?, commune?, coverImageUrl?, price?, capacity,
+ *         sectionsTemplate?, fromEventId?, performances?: [{ startAt, capacity? }] }
+ * Con fromEventId se toman de ese evento el contenido y las secciones que no vengan en el body,
+ * y el evento pasa a ser la primera función de la serie.
+ */
+export async function createSeries(req: Request, res: Response) {
+  const user = req.user!;
+  let body = (req.body ?? {}) as Record<string, unknown>;
+
+  let fromEvent: Prisma.EventGetPayload<{ include: { sections: true } }> | null = null;
+  if (body.fromEventId !== undefined) {
+    const fromEventId = parseId(body.fromEventId);
+    fromEvent = fromEventId
+      ? await prisma.event.findFirst({
+          where: { id: fromEventId, organizerId: user.id, eventType: 'OWN' },
+          include: { sections: { orderBy: { createdAt: 'asc' } } },
+        })
+      : null;
+    if (!fromEvent) return res.status(404).json({ error: 'Evento no encontrado o no es de tipo OWN' });
+    if (fromEvent.seriesId) return res.status(409).json({ error: 'El evento ya pertenece a una serie' });
+
+    body = {
+      title: fromEvent.title,
+      description: fromEvent.description,
+      coverImageUrl: fromEvent.coverImageUrl,
+      venue: fromEvent.location,
+      city: fromEvent.city,
+      commune: fromEvent.commune,
+      price: fromEvent.price,
+      capacity: fromEvent.capacity,
+      ...body,
+    };
+  }
+
+  const { errors, data } = await parseSeriesBody(body, false);
+  if (errors.length) {
+    return res.status(400).json({ error: 'Datos inválidos', details: errors });
+  }
+
+  const sectionsTemplate = data.sectionsTemplate ?? (fromEvent ? templateFromSections(fromEvent.sections) : []);
+  if (templateCapacity(sectionsTemplate) > data.capacity!) {
+    return res.status(400).json({
+      error: 'Datos inválidos',
+      details: ['La capacidad no puede ser menor que la suma de capacidades de la plantilla de secciones'],
+    });
+  }
+
+  const parsed =
+    body.performances !== undefined
+      ? await parsePerformances(body.performances, {
+          capacity: data.capacity!,
+          sectionsTemplate: sectionsTemplate as unknown as Prisma.JsonValue,
+        })
+      : null;
+  if (parsed?.errors.length) {
+    return res.status(400).json({ error: 'Datos inválidos', details: parsed.errors });
+  }
+
+  const series = await prisma.eventSeries.create({
+    data: {
+      organizerId: user.id,
+      title: data.title!,
+      description: data.description ?? '',
+      coverImageUrl: data.coverImageUrl ?? null,
+      location: data.location!,
+      city: data.city ?? null,
+      commune: data.commune ?? null,
+      price: data.price ?? 0,
+      capacity: data.capacity!,
+      sectionsTemplate: sectionsTemplate as unknown as Prisma.InputJsonValue,
+    },
+  });
+
+  if (fromEvent) {
+    await prisma.event.update({ where: { id: fromEvent.id }, data: { seriesId: series.id } });
+  }
+
+  const performances = parsed
+    ? await createPerformances(series, parsed.performances, await payoutHolderFor(user.id))
+    : [];
+
+  res.status(201).json({ series, performances });
+}
+
+/**
+ * GET /api/organizer/event-series/:id
+ * Serie con todas sus funciones (vendidas / disponibles)
+ */
+export async function getMySeries(req: Request, res: Response) {
+  const series = await findOwnSeries(req);
+  if (!series) return res.status(404).json({ error: 'Serie no encontrada' });
+
+  res.json({ ...series, performances: await performancesWithStock(series.id) });
+}
+
+/**
+ * PUT /api/organizer/event-series/:id
+ * Título, descripción y portada se replican en las funciones no canceladas
+ * (en las aprobadas, los campos sensibles quedan en una revisión pendiente por función).
+ * Lugar, precio, capacidad y plantilla de secciones solo aplican a funciones nuevas
+ * (cambiar el lugar de una función con ventas usa los avisos de cambio).
+ */
+export async function updateSeries(req: Request, res: Response) {
+  const series = await findOwnSeries(req);
+  if (!series) return res.status(404).json({ error: 'Serie no encontrada' });
+
+  const { errors, data } = await parseSeriesBody(req.body, true, series);
+  if (errors.length) {
+    return res.status(400).json({ error: 'Datos inválidos', details: errors });
+  }
+
+  const { sectionsTemplate, ...rest } = data;
+  const updated = await prisma.eventSeries.update({
+    where: { id: series.id },
+    data: {
+      ...rest,
+      ...(sectionsTemplate !== undefined ? { sectionsTemplate: sectionsTemplate as unknown as Prisma.InputJsonValue } : {}),
+    },
+  });
+
+  const shared: { title?: string; description?: string; coverImageUrl?: string | null } = {};
+  if (data.title !== undefined) shared.title = data.title;
+  if (data.description !== undefined) shared.description = data.description;
+  if (data.coverImageUrl !== undefined) shared.coverImageUrl = data.coverImageUrl;
+  const sync = await syncSeriesContent(series.id, shared, req.user!.id);
+
+  res.json({ series: updated, performancesUpdated: sync.updated, performancesPendingReview: sync.pendingReview });
+}
+
+/**
+ * DELETE /api/organizer/event-series/:id
+ * Solo series sin funciones (las funciones se cancelan, no se borran).
+ */
+export async function deleteSeries(req: Request, res: Response) {
+  const series = await findOwnSeries(req);
+  if (!series) return res.status(404).json({ error: 'Serie no encontrada' });
+
+  const performances = await prisma.event.count({ where: { seriesId: series.id } });
+  if (performances > 0) {
+    return res.status(409).json({ error: 'La serie tiene funciones; cancélalas en lugar de eliminar la serie', performances });
+  }
+
+  await prisma.eventSeries.delete({ where: { id: series.id } });
+  res.status(204).send();
+}
+
+/**
+ * POST /api/organizer/event-series/:id/performances
+ * Body: { performances: [{ startAt, capacity? }] }
+ */
+export async function addPerformances(req: Request, res: Response) {
+  const series = await findOwnSeries(req);
+  if (!series) return res.status(404).json({ error: 'Serie no encontrada' });
+
+  const { errors, performances } = await parsePerformances(req.body?.performances, series);
+  if (errors.length) {
+    return res.status(400).json({ error: 'Datos inválidos', details: errors });
+  }
+
+  const created = await createPerformances(series, performances, await payoutHolderFor(req.user!.id));
+  res.status(201).json({ performances: created });
+}
+
+/**
+ * POST /api/organizer/event-series/:id/performances/cancel
+ * Body: { eventIds: number[], reason }
+ * Cada función se cancela con el flujo completo (reembolsos y avisos en segundo plano).
+ */
+export async function cancelSeriesPerformances(req: Request, res: Response) {
+  const series = await findOwnSeries(req);
+  if (!series) return res.status(404).json({ error: 'Serie no encontrada' });
+
+  const eventIds = Array.isArray(req.body?.eventIds) ? req.body.eventIds.map(parseId) : [];
+  if (!eventIds.length || eventIds.some((id: number | null) => id === null)) {
+    return res.status(400).json({ error: 'eventIds debe ser un arreglo de IDs de funciones' });
+  }
+  if (eventIds.length > MAX_PERFORMANCES_PER_REQUEST) {
+    return res.status(400).json({ error: `Máximo ${MAX_PERFORMANCES_PER_REQUEST} funciones por solicitud` });
+  }
+  const reason = toStr(req.body?.reason);
+  if (reason.length < REASON_MIN || reason.length > REASON_MAX) {
+    return res.status(400).json({ error: `El motivo debe tener entre ${REASON_MIN} y ${REASON_MAX} caracteres` });
+  }
+
+  const results = await cancelPerformances(series.id, [...new Set<number>(eventIds)], req.user!.id, reason);
+
+  for (const r of results.filter((x) => x.ok)) {
+    await recordAudit(req, {
+      action: 'event.cancel',
+      entityType: 'Event',
+      entityId: r.eventId,
+      after: { isActive: false, canceledAt: new Date() },
+      metadata: { reason, seriesId: series.id, cancellationId: r.cancellationId, paidReservations: r.paidReservations },
+    });
+  }
+
+  res.status(202).json({ results });
+}
+
+/**
+ * POST /api/organizer/event-series/:id/performances/move
+ * Body: { moves: [{ eventId, startAt }], reason? }  o  { eventIds, shiftMinutes, reason? }
+ * reason es obligatorio si alguna función tiene entradas vendidas (se publica un aviso de cambio).
+ * pendingReview: funciones aprobadas sin ventas cuya nueva fecha quedó en revisión.
+ */
+export async function moveSeriesPerformances(req: Request, res: Response) {
+  const series = await findOwnSeries(req);
+  if (!series) return res.status(404).json({ error: 'Serie no encontrada' });
+
+  const errors: string[] = [];
+  const moves: Array<{ eventId: number; date: Date }> = [];
+  const now = new Date();
+
+  if (Array.isArray(req.body?.moves)) {
+    for (const [i, raw] of (req.body.moves as unknown[]).entries()) {
+      const item = (raw ?? {}) as Record<string, unknown>;
+      const eventId = parseId(item.eventId);
+      const date = new Date(toStr(item.startAt));
+      if (!eventId) errors.push(`moves[${i}].eventId inválido`);
+      if (Number.isNaN(date.getTime())) errors.push(`moves[${i}].startAt inválido`);
+      else if (date <= now) errors.push(`moves[${i}].startAt debe ser una fecha futura`);
+      if (eventId) moves.push({ eventId, date });
+    }
+  } else {
+    const shiftMinutes = Number(req.body?.shiftMinutes);
+    const eventIds: Array<number | null> = Array.isArray(req.body?.eventIds) ? req.body.eventIds.map(parseId) : [];
+    if (!Number.isInteger(shiftMinutes) || shiftMinutes === 0) errors.push('shiftMinutes debe ser un entero distinto de 0');
+    if (!eventIds.length || eventIds.some((id) => id === null)) errors.push('eventIds debe ser un arreglo de IDs de funciones');
+    if (!errors.length) {
+      const events = await prisma.event.findMany({
+        where: { id: { in: eventIds as number[] }, seriesId: series.id },
+        select: { id: true, date: true },
+      });
+      const dates = new Map(events.map((e) => [e.id, e.date]));
+      for (const eventId of eventIds as number[]) {
+        const current = dates.get(eventId);
+        // Las que no son de la serie se informan en los resultados
+        const date = new Date((current ?? now).getTime() + shiftMinutes * 60_000);
+        if (current && date <= now) errors.push(`La función ${eventId} quedaría en el pasado`);
+        moves.push({ eventId, date });
+      }
+    }
+  }
+
+  if (!errors.length && moves.length === 0) errors.push('Debes indicar al menos una función');
+  if (moves.length > MAX_PERFORMANCES_PER_REQUEST) errors.push(`Máximo ${MAX_PERFORMANCES_PER_REQUEST} funciones por solicitud`);
+  const reason = toStr(req.body?.reason) || null;
+  if (reason && (reason.length < REASON_MIN || reason.length > REASON_MAX)) {
+    errors.push(`El motivo debe tener entre ${REASON_MIN} y ${REASON_MAX} caracteres`);
+  }
+  if (errors.length) {
+    return res.status(400).json({ error: 'Datos inválidos', details: errors });
+  }
+
+  const { results, pendingReview } = await movePerformances(series.id, moves, req.user!.id, reason);
+  res.json({ results, pendingReview });
+}
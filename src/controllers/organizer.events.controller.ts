@@ -1,8 +1,40 @@
 // src/controllers/organizer.events.controller.ts
 import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
 import prisma from '../prisma/client';
 import { calculateMaxResalePrice } from '../services/config.service';
 import { loadAllLimits } from '../utils/config-loader';
+import { checkRut } from '../utils/rut';
+import { publishEventChange, queueEventChangeNotice, type EventChangeInput } from '../services/eventChange.service';
+import { nextEventGeo, parseCoordinates, resolveEventGeo } from '../services/eventGeo.service';
+import { EVENT_CATEGORY_SELECT, parseCategoryIds, parseTags } from '../services/eventCategory.service';
+import { checkSalesWindow, parseSalesWindowBody, SALES_WINDOW_FIELDS } from '../services/salesWindow.service';
+import {
+  COVER_MAX_PIXELS,
+  COVER_MIN_HEIGHT,
+  COVER_MIN_WIDTH,
+  primaryCoverUrl,
+  processCoverImage,
+  pruneCoverFiles,
+} from '../services/coverImage.service';
+import {
+  getSensitiveColumns,
+  mapRevision,
+  queueEventRevision,
+  REVISION_COLUMNS_SELECT,
+  splitSensitiveChanges,
+} from '../services/eventRevision.service';
+import {
+  addReviewComment,
+  getReviewThreads,
+  parseReviewCommentBody,
+  parseReviewMessage,
+  REVIEW_STATUSES,
+  reviewErrorResponse,
+  transitionEventReview,
+} from '../services/eventReview.service';
+import { getWaitlistDemand } from '../services/waitlist.service';
+import type { EventReviewStatus, EventRevision } from '@prisma/client';
 
 type Authed = { id: number; role: string };
 
@@ -14,39 +46,6 @@ function toStr(v: unknown) {
   return String(v ?? '').trim();
 }
 
-function normalizeRut(input: string): string {
-  const raw = String(input || '')
-    .replace(/\./g, '')
-    .replace(/-/g, '')
-    .toUpperCase();
-  const m = raw.match(/^(\d{7,8})([0-9K])$/);
-  if (!m) return '';
-  const body = m[1]!;
-  const dv = m[2]!;
-  return `${body}-${dv}`;
-}
-function calcRutDv(body: string): string {
-  let sum = 0;
-  let mul = 2;
-  for (let i = body.length - 1; i >= 0; i--) {
-    sum += parseInt(body[i]!, 10) * mul;
-    mul = mul === 7 ? 2 : mul + 1;
-  }
-  const res = 11 - (sum % 11);
-  if (res === 11) return '0';
-  if (res === 10) return 'K';
-  return String(res);
-}
-function validateRut(input: string): boolean {
-  const norm = normalizeRut(input);
-  if (!norm) return false;
-  const m = norm.match(/^(\d{7,8})-([0-9K])$/);
-  if (!m) return false;
-  const body = m[1]!;
-  const dv = m[2]!;
-  return calcRutDv(body) === dv;
-}
-
 function mapEvent(ev: any) {
   return {
     id: ev.id,
@@ -57,11 +56,24 @@ function mapEvent(ev: any) {
     venue: ev.location,
     city: ev.city ?? null,       
     commune: ev.commune ?? null, 
+    latitude: ev.latitude ?? null,
+    longitude: ev.longitude ?? null,
+    geoSource: ev.geoSource ?? null,
+    categories: (ev.categories ?? []).map((c: { category: unknown }) => c.category),
+    tags: ev.tags ?? [],
+    publishAt: ev.publishAt ?? null,
+    salesOpenAt: ev.salesOpenAt ?? null,
+    salesCloseAt: ev.salesCloseAt ?? null,
     capacity: ev.capacity,
     status: ev.approved ? 'approved' : 'pending',
+    reviewStatus: ev.reviewStatus ?? null,
+    submittedAt: ev.submittedAt ?? null,
+    reviewedAt: ev.reviewedAt ?? null,
+    reviewRound: ev.reviewRound ?? 0,
     updatedAt:
       (ev.updatedAt instanceof Date ? ev.updatedAt : new Date(ev.updatedAt)).toISOString(),
     coverImageUrl: ev.coverImageUrl ?? null,
+    coverImageVariants: ev.coverImageVariants ?? null,
     price: typeof ev.price === 'number' ? ev.price : 0,
     priceBase: typeof ev.priceBase === 'number' ? ev.priceBase : null,
     eventType: ev.eventType ?? 'OWN',
@@ -83,11 +95,13 @@ export async function listMyEvents(req: Request, res: Response) {
   const pageSize = Math.min(50, Math.max(5, toInt(req.query.pageSize, 10)));
   const q = toStr(req.query.q);
   const status = toStr(req.query.status); // 'approved' | 'pending' | ''
+  const reviewStatus = toStr(req.query.reviewStatus).toUpperCase() as EventReviewStatus;
 
   const where: any = {
     organizerId: user.id,
     ...(q ? { title: { contains: q, mode: 'insensitive' } } : {}),
     ...(status ? { approved: status === 'approved' } : {}),
+    ...(REVIEW_STATUSES.includes(reviewStatus) ? { reviewStatus } : {}),
   };
 
   const [items, total] = await Promise.all([
@@ -96,6 +110,7 @@ export async function listMyEvents(req: Request, res: Response) {
       orderBy: { updatedAt: 'asc' },
       skip: (page - 1) * pageSize,
       take: pageSize,
+      include: { categories: { select: EVENT_CATEGORY_SELECT } },
     }),
     prisma.event.count({ where }),
   ]);
@@ -113,6 +128,10 @@ export async function createMyEvent(req: Request, res: Response) {
     venue,
     city,       
     commune,    
+    latitude,
+    longitude,
+    categoryIds,
+    tags,
     capacity,
     coverImageUrl,
     price,
@@ -130,6 +149,10 @@ export async function createMyEvent(req: Request, res: Response) {
     venue: string;
     city?: string;       
     commune?: string;    
+    latitude?: number | string | null;
+    longitude?: number | string | null;
+    categoryIds?: unknown;
+    tags?: unknown;
     capacity: number | string;
     coverImageUrl?: string | null;
     price?: number | string;
@@ -202,6 +225,33 @@ export async function createMyEvent(req: Request, res: Response) {
   const _commune = toStr(commune);
   if (_commune && _commune.length > FIELD_LIMITS.COMMUNE) errors.push(`commune excede ${FIELD_LIMITS.COMMUNE} caracteres`);
 
+  // Coordenadas exactas opcionales; sin ellas se usa el centroide de la comuna
+  const _coords = parseCoordinates(latitude, longitude);
+  if (_coords.error) errors.push(_coords.error);
+
+  // Clasificación: categorías activas del árbol y etiquetas libres
+  const _categories = await parseCategoryIds(categoryIds);
+  errors.push(..._categories.errors);
+  const _tags = parseTags(tags);
+  errors.push(..._tags.errors);
+
+  // Publicación y venta programadas (opcionales; ver salesWindow.service.ts)
+  const _window = parseSalesWindowBody(req.body, SALES_WINDOW_FIELDS);
+  errors.push(..._window.errors);
+  const _startDate = new Date(_startAt);
+  if (!_window.errors.length && !Number.isNaN(_startDate.getTime())) {
+    errors.push(
+      ...checkSalesWindow(
+        {
+          publishAt: _window.data.publishAt ?? null,
+          salesOpenAt: _window.data.salesOpenAt ?? null,
+          salesCloseAt: _window.data.salesCloseAt ?? null,
+        },
+        _startDate
+      )
+    );
+  }
+
   let _price: number | undefined = undefined;
   if (price !== undefined) {
     const p = Number(price);
@@ -246,8 +296,9 @@ export async function createMyEvent(req: Request, res: Response) {
 
   let _holderRut = toStr(payoutHolderRut);
   if (_holderRut) {
-    _holderRut = normalizeRut(_holderRut);
-    if (!validateRut(_holderRut)) errors.push('payoutHolderRut invalido');
+    const r = checkRut(_holderRut, 'payoutHolderRut');
+    if (r.ok) _holderRut = r.rut;
+    else errors.push(r.error);
   }
 
   if (errors.length) {
@@ -269,8 +320,13 @@ export async function createMyEvent(req: Request, res: Response) {
       location: _venue,
       city: _city || null,       
       commune: _commune || null, 
+      ...resolveEventGeo(_coords.point, { commune: _commune, city: _city }),
+      tags: _tags.tags,
+      ..._window.data,
+      categories: { create: _categories.ids.map((categoryId) => ({ categoryId })) },
       capacity: Math.trunc(_capacityRaw), // ya validado
       approved: false,
+      reviewStatus: 'DRAFT',
       eventType: finalEventType,
       organizerId: organizer.id,
       ...(!!_cover ? { coverImageUrl: _cover } : {}),
@@ -282,9 +338,18 @@ export async function createMyEvent(req: Request, res: Response) {
       payoutHolderName: _holderName || null,
       payoutHolderRut: _holderRut || null,
     },
+    include: { categories: { select: EVENT_CATEGORY_SELECT } },
   });
 
-  res.status(201).json(mapEvent(created));
+  // draft=true lo deja como borrador; si no, entra directo a la cola de revisión
+  if (req.body?.draft === true) return res.status(201).json(mapEvent(created));
+
+  await transitionEventReview(created.id, 'SUBMITTED', { id: organizer.id, role: 'organizer' });
+  const submitted = await prisma.event.findUniqueOrThrow({
+    where: { id: created.id },
+    include: { categories: { select: EVENT_CATEGORY_SELECT } },
+  });
+  res.status(201).json(mapEvent(submitted));
 }
 
 export async function getMyEvent(req: Request, res: Response) {
@@ -293,6 +358,7 @@ export async function getMyEvent(req: Request, res: Response) {
 
   const ev = await prisma.event.findFirst({
     where: { id, organizerId: user.id },
+    include: { categories: { select: EVENT_CATEGORY_SELECT } },
   });
 
   if (!ev) return res.status(404).json({ error: 'No encontrado' });
@@ -329,9 +395,12 @@ export async function getMyEvent(req: Request, res: Response) {
     sectionsComplete = ticketsCount === ev.capacity;
   }
 
+  const pendingRevision = await prisma.eventRevision.findFirst({ where: { eventId: id, status: 'PENDING' } });
+
   const mappedEvent = mapEvent(ev);
   res.json({
     ...mappedEvent,
+    pendingRevision: pendingRevision ? mapRevision(pendingRevision, ev) : null,
     hasSoldTickets: paidReservationsCount > 0,
     soldTicketsCount: paidReservationsCount,
     sectionsComplete,
@@ -340,15 +409,29 @@ export async function getMyEvent(req: Request, res: Response) {
   });
 }
 
+const REJECTED_MESSAGE = 'El evento fue rechazado en revisión y ya no se puede editar';
+
+/** Mensaje para el organizador cuando parte de la edición quedó en una revisión pendiente */
+function pendingRevisionMessage(revision: EventRevision | null) {
+  if (!revision) return 'Cambios guardados. El evento sigue publicado.';
+  const fields = Object.keys(revision.changes as Record<string, unknown>).filter((c) => c !== 'coverImageVariants');
+  return `Cambios guardados. Los cambios en ${fields.join(', ')} quedan pendientes de aprobación; ` +
+    'el evento sigue publicado con la versión aprobada.';
+}
+
 export async function updateMyEvent(req: Request, res: Response) {
   const user = (req as any).user as Authed;
   const id = Number(req.params.id);
 
   const exists = await prisma.event.findFirst({
     where: { id, organizerId: user.id },
-    select: { id: true, approved: true, eventType: true },
+    select: {
+      id: true, approved: true, eventType: true, geoSource: true, publishAt: true, salesOpenAt: true,
+      salesCloseAt: true, reviewStatus: true, ...REVISION_COLUMNS_SELECT,
+    },
   });
   if (!exists) return res.status(404).json({ error: 'No encontrado' });
+  if (exists.reviewStatus === 'REJECTED') return res.status(409).json({ error: REJECTED_MESSAGE });
 
   // Verificar si hay reservas pagadas (tickets vendidos)
   const paidReservationsCount = await prisma.reservation.count({
@@ -371,6 +454,10 @@ export async function updateMyEvent(req: Request, res: Response) {
     venue,
     city,       
     commune,    
+    latitude,
+    longitude,
+    categoryIds,
+    tags,
     capacity,
     coverImageUrl,
     price,
@@ -387,6 +474,10 @@ export async function updateMyEvent(req: Request, res: Response) {
     venue: string;
     city: string;       
     commune: string;    
+    latitude: number | string | null;
+    longitude: number | string | null;
+    categoryIds: unknown;
+    tags: unknown;
     capacity: number | string;
     coverImageUrl: string | null;
     price: number | string;
@@ -407,9 +498,14 @@ export async function updateMyEvent(req: Request, res: Response) {
   if (hasSoldTickets) {
     const attemptedCriticalFields = criticalFields.filter(field => req.body[field] !== undefined);
     if (attemptedCriticalFields.length > 0) {
+      const locationOrDate = ['startAt', 'venue', 'city', 'commune'];
+      const details = [`No puedes modificar: ${attemptedCriticalFields.join(', ')}`];
+      if (attemptedCriticalFields.some((f) => locationOrDate.includes(f))) {
+        details.push('Para cambiar fecha o lugar publica un aviso de cambio (POST /api/organizer/events/:id/change-notices)');
+      }
       return res.status(400).json({ 
         error: 'No se puede editar este evento porque ya tiene entradas vendidas',
-        details: [`No puedes modificar: ${attemptedCriticalFields.join(', ')}`],
+        details,
         soldTicketsCount: paidReservationsCount,
       });
     }
@@ -479,6 +575,8 @@ export async function updateMyEvent(req: Request, res: Response) {
     const v = toStr(coverImageUrl);
     if (v && v.length > FIELD_LIMITS.COVER_URL) errors.push(`coverImageUrl excede ${FIELD_LIMITS.COVER_URL} caracteres`);
     data.coverImageUrl = v || null;
+    // Una URL externa (o quitar la portada) deja obsoletas las variantes procesadas
+    if (data.coverImageUrl !== exists.coverImageUrl) data.coverImageVariants = Prisma.DbNull;
   }
 
   let _price: number | undefined = undefined;
@@ -535,24 +633,158 @@ export async function updateMyEvent(req: Request, res: Response) {
   if (payoutHolderRut !== undefined) {
     let v = toStr(payoutHolderRut);
     if (v) {
-      v = normalizeRut(v);
-      if (!validateRut(v)) errors.push('payoutHolderRut invalido');
+      const r = checkRut(v, 'payoutHolderRut');
+      if (r.ok) v = r.rut;
+      else errors.push(r.error);
     }
     data.payoutHolderRut = v || null;
   }
 
+  // latitude/longitude: coordenadas exactas (ambas null = volver al centroide de la comuna)
+  const coordsSent = latitude !== undefined || longitude !== undefined;
+  const coords = parseCoordinates(latitude, longitude);
+  if (coords.error) errors.push(coords.error);
+
+  // categoryIds / tags reemplazan la clasificación completa ([] = quitar todas)
+  if (categoryIds !== undefined) {
+    const parsed = await parseCategoryIds(categoryIds ?? []);
+    errors.push(...parsed.errors);
+    data.categories = { deleteMany: {}, create: parsed.ids.map((categoryId) => ({ categoryId })) };
+  }
+  if (tags !== undefined) {
+    const parsed = parseTags(tags ?? []);
+    errors.push(...parsed.errors);
+    data.tags = parsed.tags;
+  }
+
+  // Ventanas de publicación y venta: se validan contra la fecha resultante (también si solo cambia startAt)
+  const window = parseSalesWindowBody(req.body, SALES_WINDOW_FIELDS);
+  errors.push(...window.errors);
+  Object.assign(data, window.data);
+  const nextDate: Date = data.date ?? exists.date;
+  if ((Object.keys(window.data).length || data.date) && !window.errors.length && !Number.isNaN(nextDate.getTime())) {
+    const current = (field: typeof SALES_WINDOW_FIELDS[number]) =>
+      window.data[field] !== undefined ? window.data[field] ?? null : exists[field];
+    errors.push(
+      ...checkSalesWindow(
+        { publishAt: current('publishAt'), salesOpenAt: current('salesOpenAt'), salesCloseAt: current('salesCloseAt') },
+        nextDate
+      )
+    );
+  }
+
   if (errors.length) {
     return res.status(400).json({ error: 'Datos inválidos', details: errors });
   }
 
+  // Evento aprobado: sigue publicado; los campos sensibles esperan la aprobación de un admin
+  const gated = exists.reviewStatus === 'APPROVED';
+  let revisionSplit: ReturnType<typeof splitSensitiveChanges> | null = null;
+  if (gated) {
+    delete data.approved;
+    revisionSplit = splitSensitiveChanges(data, exists, await getSensitiveColumns());
+  }
+
+  const geo = nextEventGeo(
+    exists,
+    {
+      location: data.location ?? exists.location,
+      city: data.city !== undefined ? data.city : exists.city,
+      commune: data.commune !== undefined ? data.commune : exists.commune,
+    },
+    coordsSent ? coords.point ?? null : undefined
+  );
+  if (geo) Object.assign(data, geo);
+
   const updated = await prisma.event.update({
     where: { id },
     data,
+    include: { categories: { select: EVENT_CATEGORY_SELECT } },
   });
 
-  const systemMessage = exists.approved
-    ? 'Tu evento fue actualizado y quedo PENDIENTE de aprobación.'
-    : 'Cambios guardados. El evento continua PENDIENTE de aprobación.';
+  if (data.coverImageVariants === Prisma.DbNull) await pruneCoverFiles(id);
+
+  if (revisionSplit) {
+    const pendingRevision = await queueEventRevision(id, user.id, revisionSplit);
+    return res.json({
+      ...mapEvent(updated),
+      pendingRevision: pendingRevision ? mapRevision(pendingRevision, updated) : null,
+      _message: pendingRevisionMessage(pendingRevision),
+    });
+  }
+
+  res.json({ ...mapEvent(updated), _message: 'Cambios guardados. El evento continua PENDIENTE de aprobación.' });
+}
+
+const COVER_ERRORS: Record<string, string> = {
+  COVER_INVALID_IMAGE: 'El archivo no es una imagen válida o está dañado',
+  COVER_UNSUPPORTED_FORMAT: 'Formato de portada no soportado. Usa JPG, PNG o WebP',
+  COVER_TOO_SMALL: `La portada debe medir al menos ${COVER_MIN_WIDTH}x${COVER_MIN_HEIGHT} px`,
+  COVER_TOO_LARGE: `La portada excede ${COVER_MAX_PIXELS / 1_000_000} megapíxeles`,
+};
+
+/**
+ * POST /api/organizer/events/:id/cover
+ * multipart/form-data, campo "cover" (JPG, PNG o WebP). Genera las variantes 16:9 (WebP y JPEG),
+ * deja coverImageUrl apuntando al JPEG más grande y, como cualquier edición, el evento queda PENDIENTE.
+ * En un evento aprobado con la portada como campo sensible, la nueva queda en la revisión pendiente.
+ */
+export async function uploadMyEventCover(req: Request, res: Response) {
+  const user = req.user!;
+  const id = Number(req.params.id);
+
+  const exists = Number.isInteger(id)
+    ? await prisma.event.findFirst({
+        where: { id, organizerId: user.id },
+        select: { id: true, approved: true, reviewStatus: true, ...REVISION_COLUMNS_SELECT },
+      })
+    : null;
+  if (!exists) return res.status(404).json({ error: 'No encontrado' });
+  if (exists.reviewStatus === 'REJECTED') return res.status(409).json({ error: REJECTED_MESSAGE });
+
+  const file = (req as Request & { file?: { buffer?: Buffer } }).file;
+  if (!file?.buffer) return res.status(400).json({ error: 'Adjunta la imagen en el campo "cover"' });
+
+  let variants;
+  try {
+    variants = await processCoverImage(id, file.buffer);
+  } catch (err) {
+    const code = (err as Error)?.message;
+    const message = code ? COVER_ERRORS[code] : undefined;
+    if (message) return res.status(400).json({ error: message, code });
+    throw err;
+  }
+
+  const data: Record<string, unknown> = { coverImageUrl: primaryCoverUrl(variants), coverImageVariants: variants };
+
+  // Evento aprobado con la portada como campo sensible: la nueva queda en la revisión pendiente
+  if (exists.reviewStatus === 'APPROVED') {
+    const split = splitSensitiveChanges(data, exists, await getSensitiveColumns());
+    if (!Object.keys(data).length) {
+      const pendingRevision = await queueEventRevision(id, user.id, split);
+      const event = await prisma.event.findUniqueOrThrow({
+        where: { id },
+        include: { categories: { select: EVENT_CATEGORY_SELECT } },
+      });
+      return res.json({
+        ...mapEvent(event),
+        pendingRevision: pendingRevision ? mapRevision(pendingRevision, event) : null,
+        _message: pendingRevisionMessage(pendingRevision),
+      });
+    }
+  }
+
+  const updated = await prisma.event.update({
+    where: { id },
+    data: { ...data, ...(exists.reviewStatus === 'APPROVED' ? {} : { approved: false }) },
+    include: { categories: { select: EVENT_CATEGORY_SELECT } },
+  });
+  // Las variantes anteriores (y restos de subidas fallidas) se eliminan recién con el cambio guardado
+  await pruneCoverFiles(id, variants.version);
+
+  const systemMessage = exists.reviewStatus === 'APPROVED'
+    ? 'Portada actualizada. El evento sigue publicado.'
+    : 'Portada guardada. El evento continua PENDIENTE de aprobación.';
 
   res.json({ ...mapEvent(updated), _message: systemMessage });
 }
@@ -605,11 +837,15 @@ export async function toggleEventActive(req: Request, res: Response) {
     if (!event) {
       return res.status(404).json({ error: 'Evento no encontrado' });
     }
+    if (isActive && event.canceledAt) {
+      return res.status(409).json({ error: 'El evento fue cancelado y no puede reactivarse' });
+    }
 
     // Actualizar estado del evento
     const updated = await prisma.event.update({
       where: { id },
       data: { isActive },
+      include: { categories: { select: EVENT_CATEGORY_SELECT } },
     });
 
     return res.json({
@@ -624,12 +860,229 @@ export async function toggleEventActive(req: Request, res: Response) {
   }
 }
 
+/**
+ * POST /api/organizer/events/:id/change-notices
+ * Body: { startAt?, venue?, city?, commune?, reason }
+ * Cambio formal de fecha/lugar de un evento con entradas vendidas: se aplica al evento,
+ * se avisa por email a los compradores y se abre la ventana de reembolso voluntario.
+ * Sin ventas no hay a quién avisar: el cambio se edita con PUT (y en un evento aprobado
+ * pasa por la revisión), así este aviso no se salta la puerta de re-aprobación.
+ */
+export async function createEventChangeNotice(req: Request, res: Response) {
+  const user = (req as any).user as Authed;
+  const id = Number(req.params.id);
+  if (!Number.isInteger(id) || id <= 0) {
+    return res.status(400).json({ error: 'ID de evento inválido' });
+  }
+
+  try {
+    const event = await prisma.event.findFirst({
+      where: { id, organizerId: user.id },
+      select: {
+        id: true, date: true, location: true, city: true, commune: true, canceledAt: true,
+        publishAt: true, salesOpenAt: true, salesCloseAt: true,
+      },
+    });
+    if (!event) return res.status(404).json({ error: 'Evento no encontrado' });
+    if (event.canceledAt) {
+      return res.status(409).json({ error: 'El evento fue cancelado' });
+    }
+
+    const soldTicketsCount = await prisma.reservation.count({ where: { eventId: id, status: 'PAID' } });
+    if (soldTicketsCount === 0) {
+      return res.status(409).json({
+        error: 'El evento no tiene entradas vendidas: cambia la fecha o el lugar editando el evento',
+        details: ['Usa PUT /api/organizer/events/:id'],
+      });
+    }
+
+    const { FIELD_LIMITS } = await loadAllLimits();
+    const { startAt, venue, city, commune } = req.body as Partial<{
+      startAt: string;
+      venue: string;
+      city: string | null;
+      commune: string | null;
+    }>;
+
+    const errors: string[] = [];
+    const change: EventChangeInput = {};
+
+    const reason = toStr(req.body?.reason);
+    if (reason.length < 10 || reason.length > 500) {
+      errors.push('reason debe tener entre 10 y 500 caracteres');
+    }
+    if (startAt !== undefined) {
+      const d = new Date(toStr(startAt));
+      if (Number.isNaN(d.getTime())) errors.push('startAt inválido');
+      else if (d <= new Date()) errors.push('startAt debe ser una fecha futura');
+      else if (d.getTime() !== event.date.getTime()) {
+        change.date = d;
+        errors.push(...checkSalesWindow(event, d));
+      }
+    }
+    if (venue !== undefined) {
+      const v = toStr(venue);
+      if (!v) errors.push('venue no puede estar vacio');
+      if (v.length > FIELD_LIMITS.VENUE) errors.push(`venue excede ${FIELD_LIMITS.VENUE} caracteres`);
+      if (v !== event.location) change.location = v;
+    }
+    if (city !== undefined) {
+      const v = toStr(city);
+      if (v && v.length > FIELD_LIMITS.CITY) errors.push(`city excede ${FIELD_LIMITS.CITY} caracteres`);
+      if ((v || null) !== event.city) change.city = v || null;
+    }
+    if (commune !== undefined) {
+      const v = toStr(commune);
+      if (v && v.length > FIELD_LIMITS.COMMUNE) errors.push(`commune excede ${FIELD_LIMITS.COMMUNE} caracteres`);
+      if ((v || null) !== event.commune) change.commune = v || null;
+    }
+
+    if (errors.length) {
+      return res.status(400).json({ error: 'Datos inválidos', details: errors });
+    }
+    if (Object.keys(change).length === 0) {
+      return res.status(400).json({ error: 'El aviso debe cambiar la fecha o el lugar del evento' });
+    }
+
+    const notice = await publishEventChange(id, user.id, change, reason);
+    if (!notice) {
+      return res.status(409).json({ error: 'El evento fue cancelado' });
+    }
+
+    queueEventChangeNotice(notice.id);
+
+    return res.status(201).json({
+      message: 'Cambio publicado. Los compradores serán avisados por email.',
+      notice,
+    });
+  } catch (error) {
+    console.error('createEventChangeNotice error:', error);
+    return res.status(500).json({ error: 'Error al publicar el cambio' });
+  }
+}
+
+/**
+ * GET /api/organizer/events/:id/change-notices
+ * Historial de avisos con el avance de los emails y los reembolsos pedidos por cada uno
+ */
+export async function listEventChangeNotices(req: Request, res: Response) {
+  const user = (req as any).user as Authed;
+  const id = Number(req.params.id);
+  if (!Number.isInteger(id) || id <= 0) {
+    return res.status(400).json({ error: 'ID de evento inválido' });
+  }
 
+  try {
+    const event = await prisma.event.findFirst({ where: { id, organizerId: user.id }, select: { id: true } });
+    if (!event) return res.status(404).json({ error: 'Evento no encontrado' });
 
+    const notices = await prisma.eventChangeNotice.findMany({
+      where: { eventId: id },
+      orderBy: { createdAt: 'desc' },
+      include: { _count: { select: { refundedReservations: true } } },
+    });
 
+    const now = new Date();
+    return res.json({
+      items: notices.map(({ _count, ...n }) => ({
+        ...n,
+        refundWindowOpen: n.refundWindowEndsAt > now,
+        refundRequests: _count.refundedReservations,
+      })),
+    });
+  } catch (error) {
+    console.error('listEventChangeNotices error:', error);
+    return res.status(500).json({ error: 'Error al obtener el historial de cambios' });
+  }
+}
 
+/* ===================== Revisión ===================== */
 
+/**
+ * POST /api/organizer/events/:id/submit
+ * Body: { message? }. Envía a revisión un borrador o reenvía tras CHANGES_REQUESTED.
+ */
+export async function submitMyEvent(req: Request, res: Response) {
+  const user = req.user!;
+  const id = Number(req.params.id);
+  const event = Number.isInteger(id)
+    ? await prisma.event.findFirst({ where: { id, organizerId: user.id }, select: { id: true } })
+    : null;
+  if (!event) return res.status(404).json({ error: 'No encontrado' });
 
+  const parsed = parseReviewMessage(req.body?.message);
+  if (parsed.error) return res.status(400).json({ error: 'Datos inválidos', details: [parsed.error] });
 
+  try {
+    await transitionEventReview(id, 'SUBMITTED', { id: user.id, role: 'organizer' }, { message: parsed.message });
+  } catch (err) {
+    const translated = reviewErrorResponse(err);
+    if (translated) return res.status(translated.status).json(translated.body);
+    throw err;
+  }
 
+  const updated = await prisma.event.findUniqueOrThrow({
+    where: { id },
+    include: { categories: { select: EVENT_CATEGORY_SELECT } },
+  });
+  res.json({ ...mapEvent(updated), _message: 'Evento enviado a revisión.' });
+}
 
+/**
+ * GET /api/organizer/events/:id/review
+ * Estado de revisión e historial en hilos (decisiones, comentarios por campo y respuestas)
+ */
+export async function getMyEventReview(req: Request, res: Response) {
+  const user = req.user!;
+  const id = Number(req.params.id);
+  const event = Number.isInteger(id)
+    ? await prisma.event.findFirst({
+        where: { id, organizerId: user.id },
+        select: { id: true, reviewStatus: true, submittedAt: true, reviewedAt: true, reviewRound: true },
+      })
+    : null;
+  if (!event) return res.status(404).json({ error: 'No encontrado' });
+
+  res.json({ ...event, threads: await getReviewThreads(id) });
+}
+
+/**
+ * POST /api/organizer/events/:id/review/comments
+ * Body: { message, field?, parentId? }. Responde a un comentario del revisor (o deja una nota).
+ */
+export async function commentMyEventReview(req: Request, res: Response) {
+  const user = req.user!;
+  const id = Number(req.params.id);
+  const event = Number.isInteger(id)
+    ? await prisma.event.findFirst({ where: { id, organizerId: user.id }, select: { id: true } })
+    : null;
+  if (!event) return res.status(404).json({ error: 'No encontrado' });
+
+  const { errors, input } = parseReviewCommentBody(req.body);
+  if (errors.length) return res.status(400).json({ error: 'Datos inválidos', details: errors });
+
+  try {
+    const comment = await addReviewComment(id, { id: user.id, role: 'organizer' }, input);
+    res.status(201).json(comment);
+  } catch (err) {
+    const translated = reviewErrorResponse(err);
+    if (translated) return res.status(translated.status).json(translated.body);
+    throw err;
+  }
+}
+
+/**
+ * GET /api/organizer/events/:id/waitlist
+ * Demanda en lista de espera: personas y entradas esperando por sección, ofertas vigentes,
+ * reclamadas y vencidas (conversionRate = reclamadas / resueltas)
+ */
+export async function getMyEventWaitlist(req: Request, res: Response) {
+  const user = req.user!;
+  const id = Number(req.params.id);
+  const event = Number.isInteger(id)
+    ? await prisma.event.findFirst({ where: { id, organizerId: user.id }, select: { id: true } })
+    : null;
+  if (!event) return res.status(404).json({ error: 'No encontrado' });
+
+  res.json(await getWaitlistDemand(id));
+}
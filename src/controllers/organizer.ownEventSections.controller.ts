@@ -10,55 +10,24 @@
 // 3. Reservas por sección ≤ capacidad de la sección
 //    (Validado en bookings.controller.ts)
 //
+// PRECIOS: price de la sección (null = usa el del evento); si la sección tiene
+// tipos de entrada activos, cada tipo define su precio (ver pricing.service.ts).
+// Con entradas vendidas en el evento ninguno de los dos se puede cambiar, y en un evento
+// aprobado tampoco si están en EVENT_SENSITIVE_FIELDS (sectionPrice / ticketTypePrice).
+//
+// VENTA: salesOpenAt / salesCloseAt de la sección solo acotan la ventana del evento
+// (ver salesWindow.service.ts)
+//
 import { Request, Response } from 'express';
 import prisma from '../prisma/client';
 import { getFieldLimits } from '../services/config.service';
+import { checkPrice } from '../services/pricing.service';
+import { calculateRowCount } from '../utils/sections';
+import { checkSalesWindow, parseSalesWindowBody, SECTION_SALES_WINDOW_FIELDS } from '../services/salesWindow.service';
+import { approvedPriceLock } from '../services/eventRevision.service';
 
 type Authed = { id: number; role: string };
 
-/**
- * Calcula el número de filas entre rowStart y rowEnd
- * Soporta tanto números (1, 2, 3) como letras (A, B, C)
- */
-function calculateRowCount(rowStart: string, rowEnd: string): number | null {
-  const start = rowStart.trim().toUpperCase();
-  const end = rowEnd.trim().toUpperCase();
-  
-  // Intentar como números
-  const startNum = parseInt(start);
-  const endNum = parseInt(end);
-  
-  if (!isNaN(startNum) && !isNaN(endNum)) {
-    if (endNum >= startNum) {
-      return endNum - startNum + 1;
-    }
-    return null; // Rango inválido
-  }
-  
-  // Intentar como letras (A-Z, AA-ZZ, etc.)
-  if (/^[A-Z]+$/.test(start) && /^[A-Z]+$/.test(end)) {
-    // Convertir letras a número (A=1, B=2, ..., Z=26, AA=27, etc.)
-    const letterToNumber = (str: string): number => {
-      let result = 0;
-      for (let i = 0; i < str.length; i++) {
-        result = result * 26 + (str.charCodeAt(i) - 64);
-      }
-      return result;
-    };
-    
-    const startValue = letterToNumber(start);
-    const endValue = letterToNumber(end);
-    
-    if (endValue >= startValue) {
-      return endValue - startValue + 1;
-    }
-    return null; // Rango inválido
-  }
-  
-  // Si no se puede calcular, retornar null
-  return null;
-}
-
 // Helper functions
 function toStr(v: unknown) {
   return String(v ?? '').trim();
@@ -126,6 +95,22 @@ async function validateEventCapacity(
   return { valid: true };
 }
 
+/**
+ * Con entradas vendidas el precio queda fijo (misma regla que price/priceBase del evento).
+ * Devuelve el cuerpo del 400 o null si el evento aún no tiene ventas.
+ */
+async function soldTicketsPriceLock(eventId: number) {
+  const soldTicketsCount = await prisma.reservation.count({
+    where: { eventId, status: 'PAID' },
+  });
+  if (soldTicketsCount === 0) return null;
+  return {
+    error: 'No se puede editar este evento porque ya tiene entradas vendidas',
+    details: ['No puedes modificar: price'],
+    soldTicketsCount,
+  };
+}
+
 /**
  * POST /api/organizer/events/:eventId/sections
  * Crear sección para evento OWN
@@ -136,7 +121,7 @@ export async function createSection(req: Request, res: Response) {
 
   const event = await prisma.event.findFirst({
     where: { id: eventId, organizerId: user.id, eventType: 'OWN' },
-    select: { id: true, capacity: true },
+    select: { id: true, capacity: true, date: true },
   });
 
   if (!event) {
@@ -151,6 +136,7 @@ export async function createSection(req: Request, res: Response) {
     seatStart,
     seatEnd,
     description,
+    price,
   } = req.body as {
     name: string;
     rowStart?: string;
@@ -159,6 +145,7 @@ export async function createSection(req: Request, res: Response) {
     seatStart?: number;
     seatEnd?: number;
     description?: string;
+    price?: number | null;
   };
 
   const FIELD_LIMITS = await getFieldLimits();
@@ -203,6 +190,25 @@ export async function createSection(req: Request, res: Response) {
     errors.push('No se pudo calcular la capacidad total de la sección');
   }
 
+  if (price != null) {
+    const reviewLock = await approvedPriceLock(eventId, 'sectionPrice');
+    if (reviewLock) return res.status(409).json(reviewLock);
+
+    const priceError = await checkPrice(price, 'price');
+    if (priceError) errors.push(priceError);
+  }
+
+  const salesWindow = parseSalesWindowBody(req.body, SECTION_SALES_WINDOW_FIELDS);
+  errors.push(...salesWindow.errors);
+  if (!salesWindow.errors.length) {
+    errors.push(
+      ...checkSalesWindow(
+        { salesOpenAt: salesWindow.data.salesOpenAt ?? null, salesCloseAt: salesWindow.data.salesCloseAt ?? null },
+        event.date
+      )
+    );
+  }
+
   if (errors.length) {
     return res.status(400).json({ error: 'Datos invalidos', details: errors });
   }
@@ -224,7 +230,10 @@ export async function createSection(req: Request, res: Response) {
       seatEnd: _seatEnd || null,
       totalCapacity,
       description: toStr(description) || null,
+      price: price != null ? Number(price) : null,
+      ...salesWindow.data,
     },
+    include: { ticketTypes: true },
   });
 
   return res.status(201).json(section);
@@ -249,6 +258,7 @@ export async function listSections(req: Request, res: Response) {
   const sections = await prisma.eventSection.findMany({
     where: { eventId },
     orderBy: { createdAt: 'asc' },
+    include: { ticketTypes: { orderBy: [{ sortOrder: 'asc' }, { id: 'asc' }] } },
   });
 
   res.json(sections);
@@ -269,7 +279,7 @@ export async function getSection(req: Request, res: Response) {
       eventId,
       event: { organizerId: user.id },
     },
-    include: { event: true },
+    include: { event: true, ticketTypes: { orderBy: [{ sortOrder: 'asc' }, { id: 'asc' }] } },
   });
 
   if (!section) {
@@ -294,6 +304,7 @@ export async function updateSection(req: Request, res: Response) {
       eventId,
       event: { organizerId: user.id },
     },
+    include: { event: { select: { date: true } } },
   });
 
   if (!section) {
@@ -309,6 +320,7 @@ export async function updateSection(req: Request, res: Response) {
     seatStart,
     seatEnd,
     description,
+    price,
   } = req.body as Partial<{
     name: string;
     rowStart: string;
@@ -317,6 +329,7 @@ export async function updateSection(req: Request, res: Response) {
     seatStart: number;
     seatEnd: number;
     description: string;
+    price: number | null;
   }>;
 
   const errors: string[] = [];
@@ -344,6 +357,22 @@ export async function updateSection(req: Request, res: Response) {
     data.description = v || null;
   }
 
+  // Cambiar el precio no afecta reservas ya hechas (guardan su unitPrice)
+  if (price !== undefined) {
+    const reviewLock = await approvedPriceLock(eventId, 'sectionPrice');
+    if (reviewLock) return res.status(409).json(reviewLock);
+    const locked = await soldTicketsPriceLock(eventId);
+    if (locked) return res.status(400).json(locked);
+
+    if (price === null) {
+      data.price = null;
+    } else {
+      const priceError = await checkPrice(price, 'price');
+      if (priceError) errors.push(priceError);
+      else data.price = Number(price);
+    }
+  }
+
   // Recalcular capacidad si cambió algo relevante
   // Regla: Capacidad de sección = suma de capacidades de sus filas
   if (
@@ -388,6 +417,21 @@ export async function updateSection(req: Request, res: Response) {
     }
   }
 
+  const salesWindow = parseSalesWindowBody(req.body, SECTION_SALES_WINDOW_FIELDS);
+  errors.push(...salesWindow.errors);
+  if (Object.keys(salesWindow.data).length && !salesWindow.errors.length) {
+    Object.assign(data, salesWindow.data);
+    errors.push(
+      ...checkSalesWindow(
+        {
+          salesOpenAt: salesWindow.data.salesOpenAt !== undefined ? salesWindow.data.salesOpenAt : section.salesOpenAt,
+          salesCloseAt: salesWindow.data.salesCloseAt !== undefined ? salesWindow.data.salesCloseAt : section.salesCloseAt,
+        },
+        section.event.date
+      )
+    );
+  }
+
   if (errors.length) {
     return res.status(400).json({ error: 'Datos invalidos', details: errors });
   }
@@ -395,6 +439,7 @@ export async function updateSection(req: Request, res: Response) {
   const updated = await prisma.eventSection.update({
     where: { id: sectionId },
     data,
+    include: { ticketTypes: { orderBy: [{ sortOrder: 'asc' }, { id: 'asc' }] } },
   });
 
   res.json(updated);
@@ -496,3 +541,194 @@ export async function getSectionsStatus(req: Request, res: Response) {
 
   res.json(status);
 }
+
+/* ===================== Tipos de entrada por sección ===================== */
+
+const TICKET_TYPE_NAME_MAX = 60;
+const ELIGIBILITY_NOTE_MAX = 200;
+
+/** Sección de un evento OWN del organizador autenticado */
+async function findOwnSection(req: Request) {
+  const user = (req as any).user as Authed;
+  const eventId = Number(req.params.eventId);
+  const sectionId = Number(req.params.sectionId);
+
+  return prisma.eventSection.findFirst({
+    where: { id: sectionId, eventId, event: { organizerId: user.id, eventType: 'OWN' } },
+    select: { id: true },
+  });
+}
+
+/**
+ * Valida los campos de un tipo de entrada. Con partial=true solo valida los presentes.
+ */
+async function parseTicketTypeBody(body: any, partial: boolean) {
+  const errors: string[] = [];
+  const data: {
+    name?: string;
+    price?: number;
+    eligibilityNote?: string | null;
+    sortOrder?: number;
+    isActive?: boolean;
+  } = {};
+
+  if (body?.name !== undefined || !partial) {
+    const v = toStr(body?.name);
+    if (!v) errors.push('name es requerido');
+    else if (v.length > TICKET_TYPE_NAME_MAX) errors.push(`name excede ${TICKET_TYPE_NAME_MAX} caracteres`);
+    data.name = v;
+  }
+  if (body?.price !== undefined || !partial) {
+    const priceError = await checkPrice(body?.price, 'price');
+    if (priceError) errors.push(priceError);
+    else data.price = Number(body.price);
+  }
+  if (body?.eligibilityNote !== undefined) {
+    const v = toStr(body.eligibilityNote);
+    if (v.length > ELIGIBILITY_NOTE_MAX) errors.push(`eligibilityNote excede ${ELIGIBILITY_NOTE_MAX} caracteres`);
+    data.eligibilityNote = v || null;
+  }
+  if (body?.sortOrder !== undefined) {
+    const n = toInt(body.sortOrder);
+    if (n === undefined) errors.push('sortOrder debe ser un entero');
+    else data.sortOrder = n;
+  }
+  if (body?.isActive !== undefined) {
+    if (typeof body.isActive !== 'boolean') errors.push('isActive debe ser boolean');
+    else data.isActive = body.isActive;
+  }
+
+  return { errors, data };
+}
+
+function isUniqueViolation(err: unknown) {
+  return (err as { code?: string })?.code === 'P2002';
+}
+
+/**
+ * POST /api/organizer/events/:eventId/sections/:sectionId/ticket-types
+ * Body: { name, price, eligibilityNote?, sortOrder?, isActive? }
+ */
+export async function createTicketType(req: Request, res: Response) {
+  const section = await findOwnSection(req);
+  if (!section) {
+    return res.status(404).json({ error: 'Sección no encontrada' });
+  }
+
+  const reviewLock = await approvedPriceLock(Number(req.params.eventId), 'ticketTypePrice');
+  if (reviewLock) return res.status(409).json(reviewLock);
+
+  const { errors, data } = await parseTicketTypeBody(req.body, false);
+  if (errors.length) {
+    return res.status(400).json({ error: 'Datos invalidos', details: errors });
+  }
+
+  try {
+    const ticketType = await prisma.sectionTicketType.create({
+      data: {
+        sectionId: section.id,
+        name: data.name!,
+        price: data.price!,
+        eligibilityNote: data.eligibilityNote ?? null,
+        sortOrder: data.sortOrder ?? 0,
+        isActive: data.isActive ?? true,
+      },
+    });
+    return res.status(201).json(ticketType);
+  } catch (err) {
+    if (isUniqueViolation(err)) {
+      return res.status(409).json({ error: 'Ya existe un tipo de entrada con ese nombre en la sección' });
+    }
+    throw err;
+  }
+}
+
+/**
+ * GET /api/organizer/events/:eventId/sections/:sectionId/ticket-types
+ */
+export async function listTicketTypes(req: Request, res: Response) {
+  const section = await findOwnSection(req);
+  if (!section) {
+    return res.status(404).json({ error: 'Sección no encontrada' });
+  }
+
+  const ticketTypes = await prisma.sectionTicketType.findMany({
+    where: { sectionId: section.id },
+    orderBy: [{ sortOrder: 'asc' }, { id: 'asc' }],
+    include: { _count: { select: { reservations: { where: { status: 'PAID' } } } } },
+  });
+
+  res.json(
+    ticketTypes.map(({ _count, ...t }) => ({ ...t, paidReservations: _count.reservations }))
+  );
+}
+
+/**
+ * PUT /api/organizer/events/:eventId/sections/:sectionId/ticket-types/:typeId
+ * El cambio de precio solo aplica a nuevas reservas y se bloquea cuando el evento ya tiene ventas.
+ */
+export async function updateTicketType(req: Request, res: Response) {
+  const section = await findOwnSection(req);
+  if (!section) {
+    return res.status(404).json({ error: 'Sección no encontrada' });
+  }
+
+  const typeId = Number(req.params.typeId);
+  const existing = await prisma.sectionTicketType.findFirst({
+    where: { id: typeId, sectionId: section.id },
+    select: { id: true },
+  });
+  if (!existing) {
+    return res.status(404).json({ error: 'Tipo de entrada no encontrado' });
+  }
+
+  if (req.body?.price !== undefined) {
+    const reviewLock = await approvedPriceLock(Number(req.params.eventId), 'ticketTypePrice');
+    if (reviewLock) return res.status(409).json(reviewLock);
+    const locked = await soldTicketsPriceLock(Number(req.params.eventId));
+    if (locked) return res.status(400).json(locked);
+  }
+
+  const { errors, data } = await parseTicketTypeBody(req.body, true);
+  if (errors.length) {
+    return res.status(400).json({ error: 'Datos invalidos', details: errors });
+  }
+
+  try {
+    const updated = await prisma.sectionTicketType.update({ where: { id: typeId }, data });
+    return res.json(updated);
+  } catch (err) {
+    if (isUniqueViolation(err)) {
+      return res.status(409).json({ error: 'Ya existe un tipo de entrada con ese nombre en la sección' });
+    }
+    throw err;
+  }
+}
+
+/**
+ * DELETE /api/organizer/events/:eventId/sections/:sectionId/ticket-types/:typeId
+ * Con reservas asociadas no se borra: se desactiva (deja de venderse).
+ */
+export async function deleteTicketType(req: Request, res: Response) {
+  const section = await findOwnSection(req);
+  if (!section) {
+    return res.status(404).json({ error: 'Sección no encontrada' });
+  }
+
+  const typeId = Number(req.params.typeId);
+  const existing = await prisma.sectionTicketType.findFirst({
+    where: { id: typeId, sectionId: section.id },
+    include: { _count: { select: { reservations: true } } },
+  });
+  if (!existing) {
+    return res.status(404).json({ error: 'Tipo de entrada no encontrado' });
+  }
+
+  if (existing._count.reservations > 0) {
+    const updated = await prisma.sectionTicketType.update({ where: { id: typeId }, data: { isActive: false } });
+    return res.json({ deactivated: true, ticketType: updated });
+  }
+
+  await prisma.sectionTicketType.delete({ where: { id: typeId } });
+  res.status(204).send();
+}
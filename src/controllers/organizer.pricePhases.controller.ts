@@ -0,0 +1,251 @@
+// src/controllers/organizer.pricePhases.controller.ts
+// Fases de precio de eventos OWN (early bird, preventa, precio en puerta).
+// La fase activa se resuelve en pricing.service.ts al reservar.
+// En un evento aprobado con pricePhases en EVENT_SENSITIVE_FIELDS las fases no se pueden
+// crear, modificar (salvo el nombre) ni borrar: cambian lo que se cobra sin pasar por revisión.
+import { Request, Response } from 'express';
+import prisma from '../prisma/client';
+import { checkPrice, findActivePricePhase } from '../services/pricing.service';
+import { approvedPriceLock } from '../services/eventRevision.service';
+
+const NAME_MAX = 60;
+
+function toStr(v: unknown) {
+  return String(v ?? '').trim();
+}
+
+/** Evento OWN del organizador autenticado */
+async function findOwnEvent(req: Request) {
+  const user = req.user!;
+  const id = Number(req.params.id);
+  if (!Number.isInteger(id) || id <= 0) return null;
+  return prisma.event.findFirst({
+    where: { id, organizerId: user.id, eventType: 'OWN' },
+    select: { id: true },
+  });
+}
+
+function parseDate(v: unknown) {
+  if (v === null || v === '') return null;
+  const d = new Date(toStr(v));
+  return Number.isNaN(d.getTime()) ? undefined : d;
+}
+
+type PhaseData = {
+  name?: string;
+  price?: number;
+  sectionId?: number | null;
+  startsAt?: Date | null;
+  endsAt?: Date | null;
+  quantityCap?: number | null;
+  sortOrder?: number;
+};
+
+/**
+ * Valida el body de una fase. Con partial=true solo valida los campos presentes;
+ * las fechas se validan contra los valores resultantes (current + cambios).
+ */
+async function parsePhaseBody(
+  body: Record<string, unknown> | undefined,
+  eventId: number,
+  partial: boolean,
+  current?: { startsAt: Date | null; endsAt: Date | null }
+) {
+  const errors: string[] = [];
+  const data: PhaseData = {};
+
+  if (body?.name !== undefined || !partial) {
+    const v = toStr(body?.name);
+    if (!v) errors.push('name es requerido');
+    else if (v.length > NAME_MAX) errors.push(`name excede ${NAME_MAX} caracteres`);
+    data.name = v;
+  }
+  if (body?.price !== undefined || !partial) {
+    const priceError = await checkPrice(body?.price, 'price');
+    if (priceError) errors.push(priceError);
+    else data.price = Number(body?.price);
+  }
+  if (body?.sectionId !== undefined) {
+    if (body.sectionId === null) {
+      data.sectionId = null;
+    } else {
+      const sectionId = Number(body.sectionId);
+      const section = Number.isInteger(sectionId)
+        ? await prisma.eventSection.findFirst({ where: { id: sectionId, eventId }, select: { id: true } })
+        : null;
+      if (!section) errors.push('sectionId no pertenece al evento');
+      else data.sectionId = section.id;
+    }
+  }
+  for (const field of ['startsAt', 'endsAt'] as const) {
+    if (body?.[field] !== undefined) {
+      const d = parseDate(body[field]);
+      if (d === undefined) errors.push(`${field} inválido`);
+      else data[field] = d;
+    }
+  }
+  if (body?.quantityCap !== undefined) {
+    if (body.quantityCap === null) {
+      data.quantityCap = null;
+    } else {
+      const n = Number(body.quantityCap);
+      if (!Number.isInteger(n) || n < 1) errors.push('quantityCap debe ser un entero mayor a 0');
+      else data.quantityCap = n;
+    }
+  }
+  if (body?.sortOrder !== undefined) {
+    const n = Number(body.sortOrder);
+    if (!Number.isInteger(n)) errors.push('sortOrder debe ser un entero');
+    else data.sortOrder = n;
+  }
+
+  const startsAt = data.startsAt !== undefined ? data.startsAt : current?.startsAt ?? null;
+  const endsAt = data.endsAt !== undefined ? data.endsAt : current?.endsAt ?? null;
+  if (startsAt && endsAt && endsAt <= startsAt) {
+    errors.push('endsAt debe ser posterior a startsAt');
+  }
+
+  return { errors, data };
+}
+
+/** Entradas vendidas / en hold por fase */
+async function usageByPhase(phaseIds: number[]) {
+  if (!phaseIds.length) return new Map<number, { paid: number; held: number }>();
+  const now = new Date();
+  const rows = await prisma.reservation.groupBy({
+    by: ['pricePhaseId', 'status'],
+    where: {
+      pricePhaseId: { in: phaseIds },
+      OR: [{ status: 'PAID' }, { status: 'PENDING_PAYMENT', expiresAt: { gt: now } }],
+    },
+    _sum: { quantity: true },
+  });
+  const map = new Map<number, { paid: number; held: number }>();
+  for (const r of rows) {
+    const entry = map.get(r.pricePhaseId!) ?? { paid: 0, held: 0 };
+    if (r.status === 'PAID') entry.paid += r._sum.quantity ?? 0;
+    else entry.held += r._sum.quantity ?? 0;
+    map.set(r.pricePhaseId!, entry);
+  }
+  return map;
+}
+
+/**
+ * GET /api/organizer/events/:id/price-phases
+ * Fases del evento con su consumo y la fase activa a nivel evento
+ */
+export async function listPricePhases(req: Request, res: Response) {
+  const event = await findOwnEvent(req);
+  if (!event) return res.status(404).json({ error: 'Evento no encontrado o no es de tipo OWN' });
+
+  const phases = await prisma.pricePhase.findMany({
+    where: { eventId: event.id },
+    orderBy: [{ sectionId: 'asc' }, { sortOrder: 'asc' }, { id: 'asc' }],
+    include: { section: { select: { id: true, name: true } } },
+  });
+  const usage = await usageByPhase(phases.map((p) => p.id));
+  const active = await findActivePricePhase({ eventId: event.id });
+
+  res.json({
+    activeEventPhaseId: active?.phase.id ?? null,
+    items: phases.map((p) => {
+      const u = usage.get(p.id) ?? { paid: 0, held: 0 };
+      return {
+        ...p,
+        sold: u.paid,
+        held: u.held,
+        remaining: p.quantityCap != null ? Math.max(0, p.quantityCap - u.paid - u.held) : null,
+      };
+    }),
+  });
+}
+
+/**
+ * POST /api/organizer/events/:id/price-phases
+ * Body: { name, price, sectionId?, startsAt?, endsAt?, quantityCap?, sortOrder? }
+ */
+export async function createPricePhase(req: Request, res: Response) {
+  const event = await findOwnEvent(req);
+  if (!event) return res.status(404).json({ error: 'Evento no encontrado o no es de tipo OWN' });
+
+  const reviewLock = await approvedPriceLock(event.id, 'pricePhases');
+  if (reviewLock) return res.status(409).json(reviewLock);
+
+  const { errors, data } = await parsePhaseBody(req.body, event.id, false);
+  if (errors.length) {
+    return res.status(400).json({ error: 'Datos invalidos', details: errors });
+  }
+
+  const phase = await prisma.pricePhase.create({
+    data: {
+      eventId: event.id,
+      sectionId: data.sectionId ?? null,
+      name: data.name!,
+      price: data.price!,
+      startsAt: data.startsAt ?? null,
+      endsAt: data.endsAt ?? null,
+      quantityCap: data.quantityCap ?? null,
+      sortOrder: data.sortOrder ?? 0,
+    },
+  });
+
+  res.status(201).json(phase);
+}
+
+/**
+ * PUT /api/organizer/events/:id/price-phases/:phaseId
+ * Los cambios solo afectan reservas nuevas (las existentes guardan su unitPrice).
+ */
+export async function updatePricePhase(req: Request, res: Response) {
+  const event = await findOwnEvent(req);
+  if (!event) return res.status(404).json({ error: 'Evento no encontrado o no es de tipo OWN' });
+
+  const phaseId = Number(req.params.phaseId);
+  const existing = await prisma.pricePhase.findFirst({
+    where: { id: phaseId, eventId: event.id },
+    select: { id: true, startsAt: true, endsAt: true },
+  });
+  if (!existing) return res.status(404).json({ error: 'Fase de precio no encontrada' });
+
+  const { errors, data } = await parsePhaseBody(req.body, event.id, true, existing);
+  if (errors.length) {
+    return res.status(400).json({ error: 'Datos invalidos', details: errors });
+  }
+
+  if (Object.keys(data).some((k) => k !== 'name')) {
+    const reviewLock = await approvedPriceLock(event.id, 'pricePhases');
+    if (reviewLock) return res.status(409).json(reviewLock);
+  }
+
+  const updated = await prisma.pricePhase.update({ where: { id: phaseId }, data });
+  res.json(updated);
+}
+
+/**
+ * DELETE /api/organizer/events/:id/price-phases/:phaseId
+ * Con reservas asociadas no se borra (perdería el historial): cerrarla con endsAt.
+ */
+export async function deletePricePhase(req: Request, res: Response) {
+  const event = await findOwnEvent(req);
+  if (!event) return res.status(404).json({ error: 'Evento no encontrado o no es de tipo OWN' });
+
+  const phaseId = Number(req.params.phaseId);
+  const existing = await prisma.pricePhase.findFirst({
+    where: { id: phaseId, eventId: event.id },
+    include: { _count: { select: { reservations: true } } },
+  });
+  if (!existing) return res.status(404).json({ error: 'Fase de precio no encontrada' });
+
+  const reviewLock = await approvedPriceLock(event.id, 'pricePhases');
+  if (reviewLock) return res.status(409).json(reviewLock);
+
+  if (existing._count.reservations > 0) {
+    return res.status(409).json({
+      error: 'La fase tiene reservas asociadas; ciérrala con endsAt en lugar de eliminarla',
+      reservations: existing._count.reservations,
+    });
+  }
+
+  await prisma.pricePhase.delete({ where: { id: phaseId } });
+  res.status(204).send();
+}
@@ -0,0 +1,280 @@
+// src/controllers/organizer.promoCodes.controller.ts
+// Códigos promocionales de eventos OWN. El descuento se aplica en /bookings/hold
+// (promoCode.service.ts) y los usos se cuentan al confirmar el pago.
+import { Request, Response } from 'express';
+import type { PromoDiscountType } from '@prisma/client';
+import prisma from '../prisma/client';
+import { normalizePromoCode, PROMO_CODE_PATTERN } from '../services/promoCode.service';
+
+const DISCOUNT_TYPES: PromoDiscountType[] = ['PERCENTAGE', 'FIXED_AMOUNT'];
+
+function toStr(v: unknown) {
+  return String(v ?? '').trim();
+}
+
+/** Evento OWN del organizador autenticado */
+async function findOwnEvent(req: Request) {
+  const user = req.user!;
+  const id = Number(req.params.id);
+  if (!Number.isInteger(id) || id <= 0) return null;
+  return prisma.event.findFirst({
+    where: { id, organizerId: user.id, eventType: 'OWN' },
+    select: { id: true },
+  });
+}
+
+function parseDate(v: unknown) {
+  if (v === null || v === '') return null;
+  const d = new Date(toStr(v));
+  return Number.isNaN(d.getTime()) ? undefined : d;
+}
+
+function isUniqueViolation(err: unknown) {
+  return (err as { code?: string })?.code === 'P2002';
+}
+
+type PromoData = {
+  code?: string;
+  discountType?: PromoDiscountType;
+  discountValue?: number;
+  sectionId?: number | null;
+  startsAt?: Date | null;
+  endsAt?: Date | null;
+  maxUses?: number | null;
+  maxUsesPerBuyer?: number | null;
+  minQuantity?: number;
+  isActive?: boolean;
+};
+
+/**
+ * Valida el body de un código. Con partial=true solo valida los campos presentes;
+ * fechas y valor del descuento se validan contra los valores resultantes (current + cambios).
+ */
+async function parsePromoBody(
+  body: Record<string, unknown> | undefined,
+  eventId: number,
+  partial: boolean,
+  current?: { discountType: PromoDiscountType; discountValue: number; startsAt: Date | null; endsAt: Date | null }
+) {
+  const errors: string[] = [];
+  const data: PromoData = {};
+
+  if (body?.code !== undefined || !partial) {
+    const v = normalizePromoCode(body?.code);
+    if (!PROMO_CODE_PATTERN.test(v)) errors.push('code debe tener entre 3 y 40 caracteres (letras, números, - o _)');
+    else data.code = v;
+  }
+  if (body?.discountType !== undefined || !partial) {
+    const v = toStr(body?.discountType).toUpperCase() as PromoDiscountType;
+    if (!DISCOUNT_TYPES.includes(v)) errors.push(`discountType debe ser ${DISCOUNT_TYPES.join(' o ')}`);
+    else data.discountType = v;
+  }
+  if (body?.discountValue !== undefined || !partial) {
+    const n = Number(body?.discountValue);
+    if (!Number.isInteger(n) || n < 1) errors.push('discountValue debe ser un entero mayor a 0');
+    else data.discountValue = n;
+  }
+  if (body?.sectionId !== undefined) {
+    if (body.sectionId === null) {
+      data.sectionId = null;
+    } else {
+      const sectionId = Number(body.sectionId);
+      const section = Number.isInteger(sectionId)
+        ? await prisma.eventSection.findFirst({ where: { id: sectionId, eventId }, select: { id: true } })
+        : null;
+      if (!section) errors.push('sectionId no pertenece al evento');
+      else data.sectionId = section.id;
+    }
+  }
+  for (const field of ['startsAt', 'endsAt'] as const) {
+    if (body?.[field] !== undefined) {
+      const d = parseDate(body[field]);
+      if (d === undefined) errors.push(`${field} inválido`);
+      else data[field] = d;
+    }
+  }
+  for (const field of ['maxUses', 'maxUsesPerBuyer'] as const) {
+    if (body?.[field] !== undefined) {
+      if (body[field] === null) {
+        data[field] = null;
+      } else {
+        const n = Number(body[field]);
+        if (!Number.isInteger(n) || n < 1) errors.push(`${field} debe ser un entero mayor a 0`);
+        else data[field] = n;
+      }
+    }
+  }
+  if (body?.minQuantity !== undefined) {
+    const n = Number(body.minQuantity);
+    if (!Number.isInteger(n) || n < 1) errors.push('minQuantity debe ser un entero mayor a 0');
+    else data.minQuantity = n;
+  }
+  if (body?.isActive !== undefined) {
+    if (typeof body.isActive !== 'boolean') errors.push('isActive debe ser booleano');
+    else data.isActive = body.isActive;
+  }
+
+  const discountType = data.discountType ?? current?.discountType;
+  const discountValue = data.discountValue ?? current?.discountValue;
+  if (discountType === 'PERCENTAGE' && discountValue != null && discountValue >= 100) {
+    errors.push('Un descuento porcentual debe ser menor a 100');
+  }
+
+  const startsAt = data.startsAt !== undefined ? data.startsAt : current?.startsAt ?? null;
+  const endsAt = data.endsAt !== undefined ? data.endsAt : current?.endsAt ?? null;
+  if (startsAt && endsAt && endsAt <= startsAt) {
+    errors.push('endsAt debe ser posterior a startsAt');
+  }
+
+  return { errors, data };
+}
+
+/** Usos confirmados, descuento otorgado y holds vigentes por código */
+async function usageByPromo(promoIds: number[]) {
+  const usage = new Map<number, { redeemed: number; discountTotal: number; held: number }>();
+  if (!promoIds.length) return usage;
+
+  const [redemptions, held] = await Promise.all([
+    prisma.promoRedemption.groupBy({
+      by: ['promoCodeId'],
+      where: { promoCodeId: { in: promoIds } },
+      _count: { _all: true },
+      _sum: { discountAmount: true },
+    }),
+    prisma.reservation.findMany({
+      where: { promoCodeId: { in: promoIds }, status: 'PENDING_PAYMENT', expiresAt: { gt: new Date() } },
+      distinct: ['promoCodeId', 'purchaseGroupId'],
+      select: { promoCodeId: true },
+    }),
+  ]);
+
+  for (const id of promoIds) usage.set(id, { redeemed: 0, discountTotal: 0, held: 0 });
+  for (const r of redemptions) {
+    const entry = usage.get(r.promoCodeId)!;
+    entry.redeemed = r._count._all;
+    entry.discountTotal = r._sum.discountAmount ?? 0;
+  }
+  for (const r of held) usage.get(r.promoCodeId!)!.held += 1;
+  return usage;
+}
+
+/**
+ * GET /api/organizer/events/:id/promo-codes
+ * Códigos del evento con sus usos (confirmados y en hold)
+ */
+export async function listPromoCodes(req: Request, res: Response) {
+  const event = await findOwnEvent(req);
+  if (!event) return res.status(404).json({ error: 'Evento no encontrado o no es de tipo OWN' });
+
+  const codes = await prisma.promoCode.findMany({
+    where: { eventId: event.id },
+    orderBy: { createdAt: 'desc' },
+    include: { section: { select: { id: true, name: true } } },
+  });
+  const usage = await usageByPromo(codes.map((c) => c.id));
+
+  res.json({
+    items: codes.map((c) => {
+      const u = usage.get(c.id) ?? { redeemed: 0, discountTotal: 0, held: 0 };
+      return {
+        ...c,
+        ...u,
+        remainingUses: c.maxUses != null ? Math.max(0, c.maxUses - u.redeemed - u.held) : null,
+      };
+    }),
+  });
+}
+
+/**
+ * POST /api/organizer/events/:id/promo-codes
+ * Body: { code, discountType, discountValue, sectionId?, startsAt?, endsAt?,
+ *         maxUses?, maxUsesPerBuyer?, minQuantity?, isActive? }
+ */
+export async function createPromoCode(req: Request, res: Response) {
+  const event = await findOwnEvent(req);
+  if (!event) return res.status(404).json({ error: 'Evento no encontrado o no es de tipo OWN' });
+
+  const { errors, data } = await parsePromoBody(req.body, event.id, false);
+  if (errors.length) {
+    return res.status(400).json({ error: 'Datos invalidos', details: errors });
+  }
+
+  try {
+    const promo = await prisma.promoCode.create({
+      data: {
+        eventId: event.id,
+        sectionId: data.sectionId ?? null,
+        code: data.code!,
+        discountType: data.discountType!,
+        discountValue: data.discountValue!,
+        startsAt: data.startsAt ?? null,
+        endsAt: data.endsAt ?? null,
+        maxUses: data.maxUses ?? null,
+        maxUsesPerBuyer: data.maxUsesPerBuyer ?? null,
+        minQuantity: data.minQuantity ?? 1,
+        isActive: data.isActive ?? true,
+        createdById: req.user!.id,
+      },
+    });
+    res.status(201).json(promo);
+  } catch (err) {
+    if (isUniqueViolation(err)) return res.status(409).json({ error: 'Ya existe un código con ese nombre en el evento' });
+    throw err;
+  }
+}
+
+/**
+ * PUT /api/organizer/events/:id/promo-codes/:promoId
+ * Los cambios solo afectan holds nuevos (las reservas existentes guardan su descuento).
+ */
+export async function updatePromoCode(req: Request, res: Response) {
+  const event = await findOwnEvent(req);
+  if (!event) return res.status(404).json({ error: 'Evento no encontrado o no es de tipo OWN' });
+
+  const promoId = Number(req.params.promoId);
+  const existing = await prisma.promoCode.findFirst({
+    where: { id: promoId, eventId: event.id },
+    select: { id: true, discountType: true, discountValue: true, startsAt: true, endsAt: true },
+  });
+  if (!existing) return res.status(404).json({ error: 'Código promocional no encontrado' });
+
+  const { errors, data } = await parsePromoBody(req.body, event.id, true, existing);
+  if (errors.length) {
+    return res.status(400).json({ error: 'Datos invalidos', details: errors });
+  }
+
+  try {
+    const updated = await prisma.promoCode.update({ where: { id: promoId }, data });
+    res.json(updated);
+  } catch (err) {
+    if (isUniqueViolation(err)) return res.status(409).json({ error: 'Ya existe un código con ese nombre en el evento' });
+    throw err;
+  }
+}
+
+/**
+ * DELETE /api/organizer/events/:id/promo-codes/:promoId
+ * Con reservas asociadas no se borra (perdería el historial): desactivarlo con isActive=false.
+ */
+export async function deletePromoCode(req: Request, res: Response) {
+  const event = await findOwnEvent(req);
+  if (!event) return res.status(404).json({ error: 'Evento no encontrado o no es de tipo OWN' });
+
+  const promoId = Number(req.params.promoId);
+  const existing = await prisma.promoCode.findFirst({
+    where: { id: promoId, eventId: event.id },
+    include: { _count: { select: { reservations: true, redemptions: true } } },
+  });
+  if (!existing) return res.status(404).json({ error: 'Código promocional no encontrado' });
+
+  if (existing._count.reservations > 0 || existing._count.redemptions > 0) {
+    return res.status(409).json({
+      error: 'El código tiene reservas asociadas; desactívalo con isActive=false en lugar de eliminarlo',
+      reservations: existing._count.reservations,
+      redemptions: existing._count.redemptions,
+    });
+  }
+
+  await prisma.promoCode.delete({ where: { id: promoId } });
+  res.status(204).send();
+}
@@ -0,0 +1,362 @@
+// src/controllers/organizer.team.controller.ts
+// Equipo del organizador: invitaciones por email con rol y acceso por evento
+import { Request, Response } from 'express';
+import type { Prisma, TeamMemberRole } from '@prisma/client';
+import prisma from '../prisma/client';
+import { env } from '../config/env';
+import { createTeamInviteToken, hashToken, passwordResetExpiry } from '../utils/auth';
+import { sendTeamInvitationEmail } from '../services/email.service';
+import { TEAM_ROLE_LABELS } from '../services/team.service';
+
+type Authed = { id: number; role: string };
+
+const TEAM_ROLES = Object.keys(TEAM_ROLE_LABELS) as TeamMemberRole[];
+const MAX_EVENTS_PER_MEMBER = 200;
+
+function isValidEmail(s: string) {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(s);
+}
+
+function parseRole(v: unknown): TeamMemberRole | null {
+  const role = String(v ?? '').trim().toUpperCase();
+  return (TEAM_ROLES as string[]).includes(role) ? (role as TeamMemberRole) : null;
+}
+
+/** Valida que todos los eventos existan y sean del organizador; devuelve ids únicos o null */
+async function ownEventIds(organizerId: number, raw: unknown): Promise<number[] | null> {
+  if (!Array.isArray(raw)) return null;
+  const ids = [...new Set(raw.map(Number))];
+  if (ids.some((id) => !Number.isInteger(id) || id <= 0)) return null;
+  if (ids.length > MAX_EVENTS_PER_MEMBER) return null;
+  if (!ids.length) return [];
+
+  const count = await prisma.event.count({ where: { id: { in: ids }, organizerId } });
+  return count === ids.length ? ids : null;
+}
+
+const memberSelect = {
+  id: true,
+  email: true,
+  role: true,
+  acceptedAt: true,
+  revokedAt: true,
+  inviteExpiresAt: true,
+  createdAt: true,
+  user: { select: { id: true, name: true } },
+  events: { select: { event: { select: { id: true, title: true, date: true } } } },
+} satisfies Prisma.OrganizerTeamMemberSelect;
+
+type MemberRow = Prisma.OrganizerTeamMemberGetPayload<{ select: typeof memberSelect }>;
+
+function serializeMember(m: MemberRow) {
+  const status = m.revokedAt ? 'REVOKED' : m.acceptedAt ? 'ACTIVE' : 'PENDING';
+  return {
+    id: m.id,
+    email: m.email,
+    role: m.role,
+    roleLabel: TEAM_ROLE_LABELS[m.role],
+    status,
+    user: m.user ?? null,
+    events: m.events.map((e) => e.event),
+    acceptedAt: m.acceptedAt,
+    revokedAt: m.revokedAt,
+    inviteExpiresAt: m.acceptedAt ? null : m.inviteExpiresAt,
+    createdAt: m.createdAt,
+  };
+}
+
+/** Genera un nuevo token de invitación y envía el correo (no falla si el email falla) */
+async function sendInvitation(memberId: number, organizerName: string) {
+  const { raw, hash } = createTeamInviteToken();
+  const expiresAt = passwordResetExpiry(env.TEAM_INVITE_EXPIRES_HOURS);
+
+  const member = await prisma.organizerTeamMember.update({
+    where: { id: memberId },
+    data: { inviteTokenHash: hash, inviteExpiresAt: expiresAt },
+    select: memberSelect,
+  });
+
+  try {
+    await sendTeamInvitationEmail({
+      email: member.email,
+      organizerName,
+      roleLabel: TEAM_ROLE_LABELS[member.role],
+      eventTitles: member.events.map((e) => e.event.title),
+      acceptUrl: `${env.FRONTEND_URL}/team-invite?token=${raw}`,
+      expiresAt,
+    });
+  } catch (emailError) {
+    console.error('❌ Error enviando invitación de equipo:', (emailError as Error).message);
+  }
+
+  return member;
+}
+
+/* ===================== Organizer: gestión del equipo ===================== */
+
+/**
+ * GET /api/organizer/team
+ * Lista los miembros del equipo (pendientes, activos y revocados)
+ */
+export async function listTeamMembers(req: Request, res: Response) {
+  try {
+    const user = req.user as Authed;
+    const members = await prisma.organizerTeamMember.findMany({
+      where: { organizerId: user.id },
+      orderBy: { createdAt: 'desc' },
+      select: memberSelect,
+    });
+    return res.json({ items: members.map(serializeMember) });
+  } catch (err) {
+    console.error('listTeamMembers error:', err);
+    return res.status(500).json({ error: 'Error al listar el equipo' });
+  }
+}
+
+/**
+ * POST /api/organizer/team
+ * Body: { email, role: 'MANAGER'|'BOX_OFFICE'|'SCANNER', eventIds: number[] }
+ * Invita a un miembro por email. Reinvitar a un miembro revocado reactiva la invitación.
+ */
+export async function inviteTeamMember(req: Request, res: Response) {
+  try {
+    const user = req.user as Authed;
+    const email = String(req.body?.email ?? '').trim().toLowerCase();
+    const role = parseRole(req.body?.role);
+
+    if (!isValidEmail(email) || email.length > 254) {
+      return res.status(400).json({ error: 'Email inválido' });
+    }
+    if (!role) {
+      return res.status(400).json({ error: `Rol inválido. Valores permitidos: ${TEAM_ROLES.join(', ')}` });
+    }
+
+    const eventIds = await ownEventIds(user.id, req.body?.eventIds ?? []);
+    if (!eventIds) {
+      return res.status(400).json({ error: 'eventIds debe ser una lista de eventos propios' });
+    }
+
+    const organizer = await prisma.user.findUnique({
+      where: { id: user.id },
+      select: { name: true, email: true },
+    });
+    if (!organizer) return res.status(404).json({ error: 'Usuario no encontrado' });
+    if (organizer.email.toLowerCase() === email) {
+      return res.status(400).json({ error: 'No puedes invitarte a tu propio equipo' });
+    }
+
+    const existing = await prisma.organizerTeamMember.findUnique({
+      where: { organizerId_email: { organizerId: user.id, email } },
+      select: { id: true, revokedAt: true },
+    });
+    if (existing && !existing.revokedAt) {
+      return res.status(409).json({ error: 'Este email ya es parte del equipo o tiene una invitación pendiente' });
+    }
+
+    const eventsData = { create: eventIds.map((eventId) => ({ eventId })) };
+    const saved = existing
+      ? await prisma.organizerTeamMember.update({
+          where: { id: existing.id },
+          data: {
+            role,
+            userId: null,
+            acceptedAt: null,
+            revokedAt: null,
+            events: { deleteMany: {}, ...eventsData },
+          },
+          select: { id: true },
+        })
+      : await prisma.organizerTeamMember.create({
+          data: { organizerId: user.id, email, role, events: eventsData },
+          select: { id: true },
+        });
+
+    const member = await sendInvitation(saved.id, organizer.name);
+    return res.status(201).json(serializeMember(member));
+  } catch (err) {
+    console.error('inviteTeamMember error:', err);
+    return res.status(500).json({ error: 'Error al invitar al miembro' });
+  }
+}
+
+/**
+ * PATCH /api/organizer/team/:id
+ * Body: { role?, eventIds? } — eventIds reemplaza la lista completa de eventos asignados
+ */
+export async function updateTeamMember(req: Request, res: Response) {
+  try {
+    const user = req.user as Authed;
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id) || id <= 0) return res.status(400).json({ error: 'ID inválido' });
+
+    const member = await prisma.organizerTeamMember.findFirst({
+      where: { id, organizerId: user.id },
+      select: { id: true, revokedAt: true },
+    });
+    if (!member) return res.status(404).json({ error: 'Miembro no encontrado' });
+    if (member.revokedAt) return res.status(409).json({ error: 'El acceso de este miembro fue revocado' });
+
+    const data: Prisma.OrganizerTeamMemberUpdateInput = {};
+    if (req.body?.role !== undefined) {
+      const role = parseRole(req.body.role);
+      if (!role) {
+        return res.status(400).json({ error: `Rol inválido. Valores permitidos: ${TEAM_ROLES.join(', ')}` });
+      }
+      data.role = role;
+    }
+    if (req.body?.eventIds !== undefined) {
+      const eventIds = await ownEventIds(user.id, req.body.eventIds);
+      if (!eventIds) {
+        return res.status(400).json({ error: 'eventIds debe ser una lista de eventos propios' });
+      }
+      data.events = { deleteMany: {}, create: eventIds.map((eventId) => ({ eventId })) };
+    }
+    if (!Object.keys(data).length) {
+      return res.status(400).json({ error: 'Nada que actualizar (role o eventIds)' });
+    }
+
+    const updated = await prisma.organizerTeamMember.update({
+      where: { id },
+      data,
+      select: memberSelect,
+    });
+    return res.json(serializeMember(updated));
+  } catch (err) {
+    console.error('updateTeamMember error:', err);
+    return res.status(500).json({ error: 'Error al actualizar el miembro' });
+  }
+}
+
+/**
+ * POST /api/organizer/team/:id/resend
+ * Reenvía la invitación (nuevo token; el anterior deja de servir)
+ */
+export async function resendTeamInvitation(req: Request, res: Response) {
+  try {
+    const user = req.user as Authed;
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id) || id <= 0) return res.status(400).json({ error: 'ID inválido' });
+
+    const member = await prisma.organizerTeamMember.findFirst({
+      where: { id, organizerId: user.id },
+      select: { id: true, acceptedAt: true, revokedAt: true, organizer: { select: { name: true } } },
+    });
+    if (!member) return res.status(404).json({ error: 'Miembro no encontrado' });
+    if (member.revokedAt) return res.status(409).json({ error: 'El acceso de este miembro fue revocado' });
+    if (member.acceptedAt) return res.status(409).json({ error: 'La invitación ya fue aceptada' });
+
+    const updated = await sendInvitation(member.id, member.organizer.name);
+    return res.json(serializeMember(updated));
+  } catch (err) {
+    console.error('resendTeamInvitation error:', err);
+    return res.status(500).json({ error: 'Error al reenviar la invitación' });
+  }
+}
+
+/**
+ * DELETE /api/organizer/team/:id
+ * Revoca el acceso del miembro de inmediato (y anula la invitación si estaba pendiente)
+ */
+export async function revokeTeamMember(req: Request, res: Response) {
+  try {
+    const user = req.user as Authed;
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id) || id <= 0) return res.status(400).json({ error: 'ID inválido' });
+
+    const result = await prisma.organizerTeamMember.updateMany({
+      where: { id, organizerId: user.id, revokedAt: null },
+      data: { revokedAt: new Date(), inviteTokenHash: null, inviteExpiresAt: null },
+    });
+    if (result.count === 0) {
+      const exists = await prisma.organizerTeamMember.count({ where: { id, organizerId: user.id } });
+      if (!exists) return res.status(404).json({ error: 'Miembro no encontrado' });
+    }
+
+    return res.json({ ok: true, message: 'Acceso revocado' });
+  } catch (err) {
+    console.error('revokeTeamMember error:', err);
+    return res.status(500).json({ error: 'Error al revocar el acceso' });
+  }
+}
+
+/* ===================== Miembro: invitaciones y membresías ===================== */
+
+/**
+ * POST /api/team/invitations/accept
+ * Body: { token }
+ * El usuario autenticado debe tener el mismo email al que se envió la invitación.
+ */
+export async function acceptTeamInvitation(req: Request, res: Response) {
+  try {
+    const user = req.user as Authed;
+    const token = String(req.body?.token ?? '').trim();
+    if (!token) return res.status(400).json({ error: 'Token requerido' });
+
+    const member = await prisma.organizerTeamMember.findFirst({
+      where: { inviteTokenHash: hashToken(token), revokedAt: null, acceptedAt: null },
+      select: { id: true, email: true, organizerId: true, inviteExpiresAt: true },
+    });
+    if (!member || !member.inviteExpiresAt || member.inviteExpiresAt <= new Date()) {
+      return res.status(400).json({ error: 'Invitación inválida o expirada' });
+    }
+
+    const account = await prisma.user.findUnique({
+      where: { id: user.id },
+      select: { email: true, emailVerified: true },
+    });
+    if (!account) return res.status(401).json({ error: 'No autenticado' });
+    if (account.email.toLowerCase() !== member.email) {
+      return res.status(403).json({ error: 'La invitación fue enviada a otro email' });
+    }
+    if (member.organizerId === user.id) {
+      return res.status(400).json({ error: 'No puedes unirte a tu propio equipo' });
+    }
+
+    // Condicional al token: dos aceptaciones concurrentes no pueden ganar ambas
+    const result = await prisma.organizerTeamMember.updateMany({
+      where: { id: member.id, inviteTokenHash: hashToken(token), revokedAt: null },
+      data: { userId: user.id, acceptedAt: new Date(), inviteTokenHash: null, inviteExpiresAt: null },
+    });
+    if (result.count === 0) {
+      return res.status(400).json({ error: 'Invitación inválida o expirada' });
+    }
+
+    // El enlace llegó a este email: cuenta como verificación de propiedad
+    if (!account.emailVerified) {
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { emailVerified: true, emailVerifiedAt: new Date() },
+      });
+    }
+
+    const accepted = await prisma.organizerTeamMember.findUniqueOrThrow({
+      where: { id: member.id },
+      select: { ...memberSelect, organizer: { select: { id: true, name: true } } },
+    });
+    return res.json({ ...serializeMember(accepted), organizer: accepted.organizer });
+  } catch (err) {
+    console.error('acceptTeamInvitation error:', err);
+    return res.status(500).json({ error: 'Error al aceptar la invitación' });
+  }
+}
+
+/**
+ * GET /api/team/memberships
+ * Equipos de los que el usuario es miembro activo, con rol y eventos asignados
+ */
+export async function listMyTeamMemberships(req: Request, res: Response) {
+  try {
+    const user = req.user as Authed;
+    const memberships = await prisma.organizerTeamMember.findMany({
+      where: { userId: user.id, acceptedAt: { not: null }, revokedAt: null },
+      orderBy: { acceptedAt: 'desc' },
+      select: { ...memberSelect, organizer: { select: { id: true, name: true } } },
+    });
+    return res.json({
+      items: memberships.map((m) => ({ ...serializeMember(m), organizer: m.organizer })),
+    });
+  } catch (err) {
+    console.error('listMyTeamMemberships error:', err);
+    return res.status(500).json({ error: 'Error al listar tus equipos' });
+  }
+}
@@ -1,6 +1,8 @@
 // src/controllers/organizer.ticketValidation.controller.ts
 import { Request, Response } from 'express';
 import prisma from '../prisma/client';
+import { PERMISSIONS } from '../utils/permissions';
+import { canAccessEvent, eventAccessFilter } from '../services/team.service';
 
 type Authed = { id: number; role: string };
 
@@ -10,7 +12,9 @@ type Authed = { id: number; role: string };
  * 
  * Valida un ticket QR para uno de los eventos del organizador
  * - Marca el ticket como escaneado
- * - Solo permite validar tickets de eventos propios
+ * - Solo permite validar tickets de eventos propios o asignados como miembro del equipo
+ *   (el staff scanner de plataforma valida cualquier evento)
+ * - scannedBy registra el id del usuario que escaneó (organizer o miembro del equipo)
  * - Verifica que la reserva esté pagada
  */
 export async function validateTicket(req: Request, res: Response) {
@@ -70,8 +74,8 @@ export async function validateTicket(req: Request, res: Response) {
     });
   }
 
-  // Verificar que el evento pertenece al organizador
-  if (ticket.reservation.event.organizerId !== user.id) {
+  // Verificar que el evento pertenece al organizador (o está asignado al miembro del equipo)
+  if (!(await canAccessEvent(user, ticket.reservation.event, PERMISSIONS.TICKETS_VALIDATE))) {
     return res.status(403).json({ 
       error: 'No tienes permiso para validar este ticket',
       valid: false,
@@ -92,6 +96,16 @@ export async function validateTicket(req: Request, res: Response) {
     });
   }
 
+  // QR anulado (evento cancelado)
+  if (ticket.invalidatedAt) {
+    return res.status(200).json({ 
+      error: 'Ticket anulado: el evento fue cancelado',
+      valid: false,
+      reason: 'ticket_invalidated',
+      invalidatedAt: ticket.invalidatedAt,
+    });
+  }
+
   // Verificar que la reserva está pagada
   if (ticket.reservation.status !== 'PAID') {
     return res.status(200).json({ 
@@ -131,6 +145,7 @@ export async function validateTicket(req: Request, res: Response) {
       ticketNumber: ticket.ticketNumber,
       seatNumber: ticket.seatNumber,
       scannedAt: updated.scannedAt,
+      scannedBy: updated.scannedBy,
     },
     event: {
       id: ticket.reservation.event.id,
@@ -201,7 +216,7 @@ export async function checkTicket(req: Request, res: Response) {
     });
   }
 
-  if (ticket.reservation.event.organizerId !== user.id) {
+  if (!(await canAccessEvent(user, ticket.reservation.event, PERMISSIONS.TICKETS_VALIDATE))) {
     return res.status(403).json({ 
       valid: false,
       reason: 'not_your_event',
@@ -209,8 +224,9 @@ export async function checkTicket(req: Request, res: Response) {
   }
 
   return res.json({
-    valid: ticket.reservation.status === 'PAID' && !ticket.scanned,
+    valid: ticket.reservation.status === 'PAID' && !ticket.scanned && !ticket.invalidatedAt,
     scanned: ticket.scanned,
+    invalidatedAt: ticket.invalidatedAt,
     scannedAt: ticket.scannedAt,
     paymentStatus: ticket.reservation.status,
     event: {
@@ -235,9 +251,10 @@ export async function getValidationStats(req: Request, res: Response) {
   const user = (req as any).user as Authed;
   const eventId = Number(req.params.eventId);
 
-  // Verificar que el evento pertenece al organizador
+  // Verificar que el evento pertenece al organizador (o está asignado al miembro del equipo)
+  const scope = await eventAccessFilter(user, PERMISSIONS.TICKETS_VALIDATION_STATS);
   const event = await prisma.event.findFirst({
-    where: { id: eventId, organizerId: user.id },
+    where: { AND: [{ id: eventId }, scope] },
     select: {
       id: true,
       title: true,
@@ -301,13 +318,11 @@ export async function getValidatedTickets(req: Request, res: Response) {
   const pageSizeNum = Math.min(100, Math.max(1, parseInt(pageSize as string)));
   const skip = (pageNum - 1) * pageSizeNum;
 
-  // Construir filtros
+  // Construir filtros (eventos propios o asignados como miembro del equipo)
   const where: any = {
     scanned: true,
     reservation: {
-      event: {
-        organizerId: user.id,
-      },
+      event: await eventAccessFilter(user, PERMISSIONS.TICKETS_VALIDATION_REPORTS),
     },
   };
 
@@ -1,6 +1,8 @@
 // src/controllers/organizer.ticketValidations.controller.ts
 import { Request, Response } from 'express';
 import prisma from '../prisma/client';
+import { PERMISSIONS } from '../utils/permissions';
+import { canAccessEvent, eventAccessFilter } from '../services/team.service';
 
 type Authed = { id: number; role: string };
 
@@ -21,6 +23,9 @@ export async function listOrganizerValidations(req: Request, res: Response) {
     const user = (req as any).user as Authed;
     const { eventId, eventType, dateFrom, dateTo, page = '1', limit = '50' } = req.query;
 
+    // Eventos propios o asignados como miembro del equipo
+    const scope = await eventAccessFilter(user, PERMISSIONS.TICKETS_VALIDATION_REPORTS);
+
     const pageNum = Math.max(1, parseInt(page as string) || 1);
     const limitNum = Math.min(100, Math.max(1, parseInt(limit as string) || 50));
     const skip = (pageNum - 1) * limitNum;
@@ -40,7 +45,7 @@ export async function listOrganizerValidations(req: Request, res: Response) {
         scanned: true,
         reservation: {
           event: {
-            organizerId: user.id,
+            AND: [scope],
             eventType: 'OWN',
             ...(eventId && { id: parseInt(eventId as string) }),
           },
@@ -122,7 +127,7 @@ export async function listOrganizerValidations(req: Request, res: Response) {
         },
         sold: true,
         event: {
-          organizerId: user.id,
+          AND: [scope],
           eventType: 'RESALE',
           ...(eventId && { id: parseInt(eventId as string) }),
         },
@@ -220,7 +225,7 @@ export async function listOrganizerValidations(req: Request, res: Response) {
             scanned: true,
             reservation: {
               event: {
-                organizerId: user.id,
+                AND: [scope],
                 eventType: 'OWN',
                 ...(eventId && { id: parseInt(eventId as string) }),
               },
@@ -235,7 +240,7 @@ export async function listOrganizerValidations(req: Request, res: Response) {
             scannedCount: { gt: 0 },
             sold: true,
             event: {
-              organizerId: user.id,
+              AND: [scope],
               eventType: 'RESALE',
               ...(eventId && { id: parseInt(eventId as string) }),
             },
@@ -310,8 +315,8 @@ export async function getOrganizerValidationDetails(req: Request, res: Response)
         return res.status(404).json({ error: 'Ticket no encontrado' });
       }
 
-      // Verificar que el evento pertenece al organizador
-      if (ticket.reservation.event.organizerId !== user.id) {
+      // Verificar que el evento pertenece al organizador (o está asignado al miembro del equipo)
+      if (!(await canAccessEvent(user, ticket.reservation.event, PERMISSIONS.TICKETS_VALIDATION_REPORTS))) {
         return res.status(403).json({ error: 'No tienes permiso para ver este ticket' });
       }
 
@@ -372,8 +377,8 @@ export async function getOrganizerValidationDetails(req: Request, res: Response)
         return res.status(404).json({ error: 'Ticket no encontrado' });
       }
 
-      // Verificar que el evento pertenece al organizador
-      if (ticket.event.organizerId !== user.id) {
+      // Verificar que el evento pertenece al organizador (o está asignado al miembro del equipo)
+      if (!(await canAccessEvent(user, ticket.event, PERMISSIONS.TICKETS_VALIDATION_REPORTS))) {
         return res.status(403).json({ error: 'No tienes permiso para ver este ticket' });
       }
 
@@ -3,6 +3,7 @@ import { Request, Response } from 'express';
 import prisma from '../prisma/client';
 import path from 'path';
 import fs from 'fs';
+import { checkRut } from '../utils/rut';
 
 type UploadedFile = {
   path: string;
@@ -78,6 +79,13 @@ export async function applyOrganizer(req: Request, res: Response) {
       return res.status(400).json({ error: 'Usuario no tiene RUT registrado. Por favor, actualiza tu perfil con tu RUT.' });
     }
 
+    // taxId y payoutHolderRut se guardan en forma canónica
+    const rutCheck = checkRut(user.rut, 'El RUT registrado en tu perfil');
+    if (!rutCheck.ok) {
+      return res.status(400).json({ error: `${rutCheck.error}. Por favor, actualiza tu perfil con un RUT válido.` });
+    }
+    const holderRut = rutCheck.rut;
+
     // extraer solo el nombre de los archivos
     const frontFilename = path.basename(frontFile.path);
     const backFilename = path.basename(backFile.path);
@@ -111,7 +119,7 @@ export async function applyOrganizer(req: Request, res: Response) {
           where: { userId: authUser.id },
           data: {
             legalName: legalName.trim(),
-            taxId: user.rut,
+            taxId: holderRut,
             phone: phone.trim(),
             notes: notes?.trim() || null,
             idCardImage: frontFilename,
@@ -120,7 +128,7 @@ export async function applyOrganizer(req: Request, res: Response) {
             payoutAccountType,
             payoutAccountNumber,
             payoutHolderName: legalName.trim(),
-            payoutHolderRut: user.rut,
+            payoutHolderRut: holderRut,
             status: 'PENDING',
           },
         }).then(async (app) => {
@@ -154,7 +162,7 @@ export async function applyOrganizer(req: Request, res: Response) {
           data: {
             userId: authUser.id,
             legalName: legalName.trim(),
-            taxId: user.rut,
+            taxId: holderRut,
             phone: phone.trim(),
             notes: notes?.trim() || null,
             idCardImage: frontFilename,
@@ -163,7 +171,7 @@ export async function applyOrganizer(req: Request, res: Response) {
             payoutAccountType,
             payoutAccountNumber,
             payoutHolderName: legalName.trim(),
-            payoutHolderRut: user.rut,
+            payoutHolderRut: holderRut,
             status: 'PENDING',
           },
         });
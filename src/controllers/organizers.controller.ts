@@ -1,5 +1,7 @@
 import { Request, Response } from 'express';
 import prisma from '../prisma/client';
+import { recordAudit } from '../services/audit.service';
+import { checkRut } from '../utils/rut';
 import path from 'path';
 import fs from 'fs';
 
@@ -54,6 +56,14 @@ export async function toggleOrganizerPermission(req: Request, res: Response) {
       return res.status(400).json({ error: 'Campo canSell debe ser booleano' });
     }
 
+    const before = await prisma.user.findUnique({
+      where: { id: organizerId },
+      select: { canSell: true },
+    });
+    if (!before) {
+      return res.status(404).json({ error: 'Organizador no encontrado' });
+    }
+
     const organizer = await prisma.user.update({
       where: { id: organizerId },
       data: { canSell },
@@ -68,6 +78,14 @@ export async function toggleOrganizerPermission(req: Request, res: Response) {
       },
     });
 
+    await recordAudit(req, {
+      action: 'organizer.permission.update',
+      entityType: 'User',
+      entityId: organizerId,
+      before: { canSell: before.canSell },
+      after: { canSell: organizer.canSell },
+    });
+
     res.json(organizer);
   } catch (error) {
     console.error(error);
@@ -165,6 +183,14 @@ export async function verifyOrganizer(req: Request, res: Response) {
       select: { id: true, name: true, email: true, isVerified: true, updatedAt: true },
     });
 
+    await recordAudit(req, {
+      action: 'organizer.verify',
+      entityType: 'User',
+      entityId: organizerId,
+      before: { isVerified: target.isVerified },
+      after: { isVerified: updated.isVerified },
+    });
+
     res.json({ message: 'Estado de verificación actualizado', organizer: updated });
   } catch (error) {
     console.error(error);
@@ -235,13 +261,19 @@ export async function applyOrganizer(req: Request, res: Response) {
       return res.status(400).json({ error: 'Archivo requerido (campo: idCardImage)' });
     }
 
-    const { legalName, taxId, phone, notes } = req.body as {
+    const { legalName, taxId: taxIdRaw, phone, notes } = req.body as {
       legalName?: string; taxId?: string; phone?: string; notes?: string;
     };
-    if (!legalName || !taxId) {
+    if (!legalName || !taxIdRaw) {
       return res.status(400).json({ error: 'legalName y taxId son requeridos' });
     }
 
+    const taxIdCheck = checkRut(taxIdRaw, 'taxId');
+    if (!taxIdCheck.ok) {
+      return res.status(400).json({ error: taxIdCheck.error });
+    }
+    const taxId = taxIdCheck.rut;
+
     const normalizedPath = (file.path || '').replace(/\\/g, '/');
 
     // Intentar usar una tabla de aplicaciones si existe.
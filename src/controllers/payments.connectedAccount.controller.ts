@@ -1,6 +1,7 @@
 // src/controllers/payments.connectedAccount.controller.ts
 import { Request, Response } from "express";
 import prisma from "../prisma/client";
+import { checkRut, validateRut } from "../utils/rut";
 
 /**
  * Asumimos que el middleware de auth inyecta:
@@ -52,22 +53,6 @@ function normalizeBankName(v: string) {
   return s;
 }
 
-function cleanRut(v: string) {
-  return (v || "").replace(/[.\-]/g, "").trim().toUpperCase();
-}
-function isValidRut(v: string) {
-  const s = cleanRut(v);
-  if (!/^\d{1,8}[0-9K]$/.test(s)) return false;
-  const cuerpo = s.slice(0, -1);
-  const dv = s.slice(-1);
-  let m = 0,
-    r = 1;
-  for (let i = cuerpo.length - 1; i >= 0; i--) {
-    r = (r + Number(cuerpo[i]) * (9 - (m++ % 6))) % 11;
-  }
-  const dvCalc = r ? String(r - 1) : "K";
-  return dv === dvCalc;
-}
 function parseAccountType(v: unknown): AccountType | null {
   const s = String(v ?? "").trim().toUpperCase();
   if (s === "VISTA" || s === "CORRIENTE" || s === "AHORRO" || s === "RUT") return s as AccountType;
@@ -133,7 +118,7 @@ function isAccountComplete(acc: AccountShape): boolean {
   if (!acc.payoutAccountNumber || !/^\d{7,14}$/.test(acc.payoutAccountNumber)) return false;
   if (!acc.payoutHolderName || !/^[A-ZÁÉÍÓÚÜÑa-záéíóúüñ ]{2,60}$/.test(acc.payoutHolderName.trim()))
     return false;
-  if (!acc.payoutHolderRut || !isValidRut(acc.payoutHolderRut)) return false;
+  if (!acc.payoutHolderRut || !validateRut(acc.payoutHolderRut)) return false;
   return true;
 }
 
@@ -244,8 +229,9 @@ export async function updateMyConnectedAccount(req: Request, res: Response) {
     const payoutHolderRutRaw = req.body.hasOwnProperty("payoutHolderRut")
       ? toStr(req.body.payoutHolderRut)
       : undefined;
-    const payoutHolderRut =
-      payoutHolderRutRaw === undefined ? undefined : cleanRut(payoutHolderRutRaw);
+    const holderRutCheck =
+      payoutHolderRutRaw === undefined ? undefined : checkRut(payoutHolderRutRaw, "El RUT del titular");
+    const payoutHolderRut = holderRutCheck?.ok ? holderRutCheck.rut : undefined;
 
     // Validaciones
     const errors: Record<string, string> = {};
@@ -290,9 +276,9 @@ export async function updateMyConnectedAccount(req: Request, res: Response) {
     }
 
     // RUT
-    if (payoutHolderRut !== undefined) {
-      if (!isValidRut(payoutHolderRut)) {
-        errors.payoutHolderRut = "RUT inválido.";
+    if (holderRutCheck !== undefined) {
+      if (!holderRutCheck.ok) {
+        errors.payoutHolderRut = `${holderRutCheck.error}.`;
       }
     } else {
       requireIfEnabled("payoutHolderRut", true, "Campo obligatorio.");
@@ -26,6 +26,10 @@ import {
 } from '../services/payment.service';
 // Payout service
 import { createPayout } from '../services/payout.service';
+import { recordPromoRedemptions } from '../services/promoCode.service';
+import { recordAudit } from '../services/audit.service';
+import { offerFreedStock } from '../services/waitlist.service';
+import { formatRut, normalizeRut, validateRut } from '../utils/rut';
 
 /* ===================== Helpers generales ===================== */
 
@@ -356,6 +360,7 @@ export async function commitPayment(req: Request, res: Response) {
             ]);
             
             console.log(`[COMMIT] Reserva #${abortedPayment.reservationId} cancelada y tickets liberados`);
+            if (eventIdForRedirect) void offerFreedStock([eventIdForRedirect]);
           } else {
             // Solo marcar payment como ABORTED si no hay reserva asociada
             await prisma.payment.updateMany({
@@ -417,6 +422,7 @@ export async function commitPayment(req: Request, res: Response) {
             ]);
             
             console.log(`[COMMIT] Reserva #${timeoutPayment.reservationId} cancelada por timeout y tickets liberados`);
+            if (eventIdForRedirect) void offerFreedStock([eventIdForRedirect]);
           } else {
             // Solo marcar payment como ABORTED si no hay reserva asociada
             await prisma.payment.updateMany({
@@ -598,6 +604,16 @@ export async function commitPayment(req: Request, res: Response) {
         });
       }
 
+      // Uso del código promocional: se cuenta recién con el pago confirmado
+      if (isApproved && !buyerIsOrganizer && payment.reservationId) {
+        await recordPromoRedemptions(
+          payment.reservation?.purchaseGroupId
+            ? { purchaseGroupId: payment.reservation.purchaseGroupId }
+            : { reservationId: payment.reservationId },
+          txp
+        );
+      }
+
       // Crear Payout PENDING si hay cuenta conectada (OWN y RESALE)
       if (isApproved && !buyerIsOrganizer && finalDestAccountId && payment.reservationId) {
         await createPayout({
@@ -619,6 +635,11 @@ export async function commitPayment(req: Request, res: Response) {
       logPayment.failed(payment.reservationId || 0, payment.id, 'Payment not approved by PSP');
     }
 
+    // Pago rechazado: la(s) reserva(s) quedaron CANCELED y su cupo vuelve a la lista de espera
+    if (!(isApproved && !buyerIsOrganizer) && payment.reservation?.eventId) {
+      void offerFreedStock([payment.reservation.eventId]);
+    }
+
     // Procesar reserva(s): generar PDFs (OWN) o marcar vendido (RESALE)
     // Si hay grupo de compra, procesar TODAS las reservas del grupo
     if (isApproved && !buyerIsOrganizer && payment.reservationId) {
@@ -840,6 +861,15 @@ export async function capturePayment(req: Request, res: Response) {
 
     // LOG: Capture success
     logPayment.capture(updated.resv.id, updated.pay.id, captureAmount);
+
+    await recordAudit(req, {
+      action: 'payment.capture',
+      entityType: 'Payment',
+      entityId: updated.pay.id,
+      before: { status: payment.status },
+      after: { status: updated.pay.status, capturedAmount: captureAmount },
+      metadata: { reservationId: updated.resv.id, payoutId: updated.payout?.id ?? null },
+    });
     
     // Procesar reserva con sistema de cola con retry
     queueTicketGeneration(updated.resv.id);
@@ -1166,6 +1196,15 @@ export async function refundPayment(req: Request, res: Response) {
       },
     });
 
+    await recordAudit(req, {
+      action: 'payment.refund',
+      entityType: 'Payment',
+      entityId: updated.id,
+      before: { status: payment.status, refundedAmount: already },
+      after: { status: updated.status, refundedAmount: newRefunded },
+      metadata: { amount, fullyRefunded, reservationId: payment.reservationId ?? null },
+    });
+
     return res.status(200).json({
       ok: true,
       refundedAmount: amount,
@@ -1319,6 +1358,15 @@ export async function adminMarkPayoutPaid(req: Request, res: Response) {
       },
     });
 
+    await recordAudit(req, {
+      action: 'payout.mark_paid',
+      entityType: 'Payout',
+      entityId: payoutId,
+      before: { status: p.status },
+      after: { status: upd.status, pspPayoutId: upd.pspPayoutId },
+      metadata: { amount: upd.amount },
+    });
+
     return res.status(200).json({ ok: true, payout: upd });
   } catch (err: any) {
     console.error('adminMarkPayoutPaid error:', err);
@@ -1485,7 +1533,7 @@ export async function adminListPayouts(req: Request, res: Response) {
         accountType: (p as any).account.payoutAccountType,
         accountNumber: (p as any).account.payoutAccountNumber,
         holderName: (p as any).account.payoutHolderName,
-        holderRut: (p as any).account.payoutHolderRut,
+        holderRut: formatRut((p as any).account.payoutHolderRut) || null,
         payoutsEnabled: (p as any).account.payoutsEnabled,
       } : null,
     }));
@@ -1544,7 +1592,7 @@ export async function adminRunPayoutsNow(req: Request, res: Response) {
       !!acc?.payoutAccountType &&
       !!acc?.payoutAccountNumber &&
       !!acc?.payoutHolderName &&
-      !!acc?.payoutHolderRut;
+      validateRut(acc?.payoutHolderRut);
 
     for (const p of pendings) {
       try {
@@ -1584,7 +1632,7 @@ export async function adminRunPayoutsNow(req: Request, res: Response) {
           accountType: String(p.account.payoutAccountType!) as any, // "VISTA"|"CORRIENTE"|"AHORRO"|"RUT"
           accountNumber: p.account.payoutAccountNumber!,
           holderName: p.account.payoutHolderName!,
-          holderRut: p.account.payoutHolderRut!,
+          holderRut: normalizeRut(p.account.payoutHolderRut),
         };
 
         const idempotencyKey = `payout-${p.id}`; // idempotente por payout
@@ -1658,6 +1706,16 @@ export async function adminRunPayoutsNow(req: Request, res: Response) {
         r.status === 'SCHEDULED'
     ).length;
 
+    await recordAudit(req, {
+      action: 'payouts.run',
+      entityType: 'Payout',
+      metadata: {
+        limit,
+        processed,
+        results: results.map((r) => ({ payoutId: r.payoutId, status: r.status ?? 'FAILED' })),
+      },
+    });
+
     return res.status(200).json({ ok: true, processed, results });
   } catch (err: any) {
     console.error('adminRunPayoutsNow error:', err);
@@ -1872,6 +1930,15 @@ export async function adminApproveAndCapture(req: Request, res: Response) {
       return { pay, resv, payout };
     });
 
+    await recordAudit(req, {
+      action: 'reservation.approve_and_capture',
+      entityType: 'Reservation',
+      entityId: r.id,
+      before: { fulfillmentStatus: r.fulfillmentStatus, paymentStatus: payment.status },
+      after: { fulfillmentStatus: updated.resv.fulfillmentStatus, paymentStatus: updated.pay.status },
+      metadata: { paymentId: updated.pay.id, capturedAmount: captureAmount, payoutId: updated.payout?.id ?? null },
+    });
+
     // 5) Disparo en caliente del payout (si existe)
     let payoutExec: any = null;
     if (updated.payout) {
@@ -1894,7 +1961,7 @@ export async function adminApproveAndCapture(req: Request, res: Response) {
         !!account?.payoutAccountType &&
         !!account?.payoutAccountNumber &&
         !!account?.payoutHolderName &&
-        !!account?.payoutHolderRut;
+        validateRut(account?.payoutHolderRut);
 
       if (!isAccountReady) {
         await prisma.payout.update({
@@ -1918,7 +1985,7 @@ export async function adminApproveAndCapture(req: Request, res: Response) {
             accountType: account.payoutAccountType as any,
             accountNumber: account.payoutAccountNumber!,
             holderName: account.payoutHolderName!,
-            holderRut: account.payoutHolderRut!,
+            holderRut: normalizeRut(account.payoutHolderRut),
           },
           idempotencyKey,
         });
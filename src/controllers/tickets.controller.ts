@@ -27,6 +27,7 @@ import { addHours, isExpired, now } from "../utils/date.utils";
 
 // ⬇️ PSP (Webpay) para capturar en aprobación
 import { env } from "../config/env";
+import { normalizeRut } from "../utils/rut";
 import {
   captureWebpayPayment,
   getWebpayStatus,
@@ -98,7 +99,7 @@ async function triggerPayout(payoutId: number) {
       accountType: (acc.payoutAccountType as any) || undefined, // "VISTA" | "CORRIENTE" | "AHORRO" | "RUT"
       accountNumber: acc.payoutAccountNumber || undefined,
       holderName: acc.payoutHolderName || undefined,
-      holderRut: acc.payoutHolderRut || undefined,
+      holderRut: normalizeRut(acc.payoutHolderRut) || undefined,
     },
     idempotencyKey: payout.idempotencyKey,
     requestId: `payout:${payout.id}`,
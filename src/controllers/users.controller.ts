@@ -1,6 +1,8 @@
 // src/controllers/users.controller.ts
 import { Request, Response } from 'express';
 import prisma from '../prisma/client';
+import { ROLES } from '../utils/auth';
+import { recordAudit } from '../services/audit.service';
 
 // Listar todos los usuarios (solo superadmin)
 export async function listUsers(req: Request, res: Response) {
@@ -62,8 +64,7 @@ export async function updateUserRole(req: Request, res: Response) {
       return res.status(400).json({ error: 'ID inválido' });
     }
 
-    const validRoles = ['superadmin', 'organizer', 'buyer'];
-    if (!validRoles.includes(role)) {
+    if (!(ROLES as readonly string[]).includes(role)) {
       return res.status(400).json({ error: 'Rol inválido' });
     }
 
@@ -74,7 +75,8 @@ export async function updateUserRole(req: Request, res: Response) {
 
     const updatedUser = await prisma.user.update({
       where: { id: userId },
-      data: { role },
+      // El rol viaja en el JWT: invalidar tokens emitidos con el rol anterior
+      data: { role, tokenVersion: { increment: 1 } },
       select: {
         id: true,
         name: true,
@@ -84,6 +86,14 @@ export async function updateUserRole(req: Request, res: Response) {
       },
     });
 
+    await recordAudit(req, {
+      action: 'user.role.update',
+      entityType: 'User',
+      entityId: userId,
+      before: { role: user.role },
+      after: { role: updatedUser.role },
+    });
+
     res.json(updatedUser);
   } catch (error) {
     console.error(error);
@@ -107,6 +117,13 @@ export async function deleteUser(req: Request, res: Response) {
 
     await prisma.user.delete({ where: { id: userId } });
 
+    await recordAudit(req, {
+      action: 'user.delete',
+      entityType: 'User',
+      entityId: userId,
+      before: { role: user.role, isActive: user.isActive, deletedAt: user.deletedAt },
+    });
+
     res.json({ message: 'Usuario eliminado correctamente' });
   } catch (error) {
     console.error(error);
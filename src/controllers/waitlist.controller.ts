@@ -0,0 +1,118 @@
+// src/controllers/waitlist.controller.ts
+// Lista de espera del comprador (waitlist.service.ts): inscribirse cuando no hay cupo,
+// ver su lugar en la fila y responder a la oferta que llega por email.
+import { Request, Response } from 'express';
+import prisma from '../prisma/client';
+import {
+  declineWaitlistOffer,
+  getWaitlistOffer,
+  joinWaitlist,
+  leaveWaitlist,
+  WAITLIST_ENTRY_SELECT,
+  waitlistErrorResponse,
+  waitlistPosition,
+} from '../services/waitlist.service';
+
+function toOptionalId(v: unknown) {
+  if (v == null || v === '') return null;
+  const n = Number(v);
+  return Number.isInteger(n) && n > 0 ? n : NaN;
+}
+
+function sendWaitlistError(res: Response, err: unknown) {
+  const translated = waitlistErrorResponse(err);
+  if (translated) return res.status(translated.status).json(translated.body);
+  throw err;
+}
+
+/**
+ * POST /api/waitlist
+ * Body: { eventId, sectionId?, ticketTypeId?, quantity }. Solo con el evento (o la sección) agotado.
+ */
+export async function joinEventWaitlist(req: Request, res: Response) {
+  const user = req.user!;
+  const eventId = toOptionalId(req.body?.eventId);
+  const sectionId = toOptionalId(req.body?.sectionId);
+  const ticketTypeId = toOptionalId(req.body?.ticketTypeId);
+  const quantity = Number(req.body?.quantity ?? 1);
+
+  const errors: string[] = [];
+  if (!eventId) errors.push('eventId es requerido');
+  if (Number.isNaN(sectionId)) errors.push('sectionId inválido');
+  if (Number.isNaN(ticketTypeId)) errors.push('ticketTypeId inválido');
+  if (!Number.isInteger(quantity) || quantity < 1) errors.push('quantity debe ser un entero mayor a 0');
+  if (errors.length) return res.status(400).json({ error: 'Datos inválidos', details: errors });
+
+  try {
+    const { entry, position } = await joinWaitlist(user.id, { eventId: eventId!, sectionId, ticketTypeId, quantity });
+    res.status(201).json({
+      message: 'Te avisaremos por email cuando se libere cupo para ti.',
+      entry: { ...entry, position },
+    });
+  } catch (err) {
+    sendWaitlistError(res, err);
+  }
+}
+
+/**
+ * GET /api/waitlist/my
+ * Inscripciones del usuario; las que siguen en la fila incluyen su lugar (position)
+ */
+export async function listMyWaitlist(req: Request, res: Response) {
+  const user = req.user!;
+  const entries = await prisma.waitlistEntry.findMany({
+    where: { userId: user.id },
+    orderBy: { createdAt: 'desc' },
+    take: 100,
+    select: WAITLIST_ENTRY_SELECT,
+  });
+
+  const items = await Promise.all(
+    entries.map(async (e) => ({
+      ...e,
+      position: e.status === 'WAITING' ? await waitlistPosition(e) : null,
+    }))
+  );
+  res.json({ items });
+}
+
+/**
+ * DELETE /api/waitlist/:id
+ * Salir de la fila (si había una oferta vigente, su hold se libera)
+ */
+export async function leaveEventWaitlist(req: Request, res: Response) {
+  const id = Number(req.params.id);
+  if (!Number.isInteger(id) || id <= 0) return res.status(404).json({ error: 'Inscripción no encontrada' });
+  try {
+    await leaveWaitlist(id, req.user!.id);
+    res.json({ ok: true });
+  } catch (err) {
+    sendWaitlistError(res, err);
+  }
+}
+
+/**
+ * GET /api/waitlist/offers/:token
+ * Oferta del link del email. Para reclamarla se paga la reserva por POST /api/payments/create
+ * (purchaseGroupId) antes de offerExpiresAt.
+ */
+export async function getMyWaitlistOffer(req: Request, res: Response) {
+  try {
+    res.json(await getWaitlistOffer(String(req.params.token), req.user!.id));
+  } catch (err) {
+    sendWaitlistError(res, err);
+  }
+}
+
+/**
+ * POST /api/waitlist/offers/:token/decline
+ * Rechazar la oferta: el cupo pasa al siguiente en la fila
+ */
+export async function declineMyWaitlistOffer(req: Request, res: Response) {
+  try {
+    await declineWaitlistOffer(String(req.params.token), req.user!.id);
+    res.json({ ok: true });
+  } catch (err) {
+    sendWaitlistError(res, err);
+  }
+}
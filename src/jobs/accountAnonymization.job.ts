@@ -0,0 +1,39 @@
+// src/jobs/accountAnonymization.job.ts
+import { env } from '../config/env';
+import { runAnonymizationOnce } from '../services/anonymization.service';
+
+/**
+ * Job de anonimización de cuentas eliminadas
+ * - Anonimiza las cuentas con deletedAt anterior al periodo de gracia (ACCOUNT_ANONYMIZE_GRACE_DAYS)
+ * - Salta las cuentas con reclamos abiertos, payouts pendientes o tickets pagados para eventos futuros
+ *   (se reintentan en la siguiente corrida)
+ */
+export function startAccountAnonymizationJob() {
+  if (!env.ACCOUNT_ANONYMIZE_JOB_ENABLED) {
+    console.log('[Anonymize] Job deshabilitado por env ACCOUNT_ANONYMIZE_JOB_ENABLED');
+    return;
+  }
+
+  const intervalMin = Math.max(1, Number(env.ACCOUNT_ANONYMIZE_INTERVAL_MINUTES || 360));
+  let running = false;
+
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const { anonymized, blocked } = await runAnonymizationOnce();
+      if (anonymized || blocked.length) {
+        console.log(`[Anonymize] Anonimizadas ${anonymized}, bloqueadas ${blocked.length}`);
+      }
+    } catch (error) {
+      console.error('[Anonymize] Error en ejecución periódica:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  run();
+  setInterval(run, intervalMin * 60 * 1000);
+
+  console.log(`[Anonymize] Job iniciado - se ejecutará cada ${intervalMin} minutos (gracia: ${env.ACCOUNT_ANONYMIZE_GRACE_DAYS} días)`);
+}
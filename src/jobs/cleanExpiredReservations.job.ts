@@ -1,10 +1,11 @@
 // src/jobs/cleanExpiredReservations.job.ts
 import prisma from '../prisma/client';
+import { offerFreedStock } from '../services/waitlist.service';
 
 /**
  * Job para limpiar reservas expiradas
  * Marca como EXPIRED las reservas PENDING_PAYMENT cuyo expiresAt ya pasó
- * Esto libera el stock para que otros puedan comprar
+ * Esto libera el stock para que otros puedan comprar (primero la lista de espera del evento)
  */
 export async function cleanExpiredReservations(): Promise<number> {
   try {
@@ -20,6 +21,7 @@ export async function cleanExpiredReservations(): Promise<number> {
       },
       select: {
         id: true,
+        eventId: true,
       }
     });
 
@@ -53,6 +55,8 @@ export async function cleanExpiredReservations(): Promise<number> {
       console.log(`[CleanExpiredReservations] Marcadas ${result.count} reservas como EXPIRED y liberados sus tickets`);
     }
 
+    await offerFreedStock(expiredReservations.map(r => r.eventId));
+
     return result.count;
   } catch (error) {
     console.error('[CleanExpiredReservations] Error:', error);
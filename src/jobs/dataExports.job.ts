@@ -0,0 +1,25 @@
+// src/jobs/dataExports.job.ts
+import { runDataExportsOnce } from '../services/dataExport.service';
+
+/**
+ * Job de exportaciones de datos personales
+ * - Procesa solicitudes pendientes (las que no alcanzaron a procesarse en caliente o se reintentan)
+ * - Elimina los archivos cuyo link de descarga venció
+ */
+export function startDataExportsJob(intervalMinutes: number = 10) {
+  console.log(`[DataExports] Job iniciado - se ejecutará cada ${intervalMinutes} minutos`);
+
+  const run = async () => {
+    try {
+      const { processed, expired } = await runDataExportsOnce();
+      if (processed || expired) {
+        console.log(`[DataExports] Procesadas ${processed}, expiradas ${expired}`);
+      }
+    } catch (error) {
+      console.error('[DataExports] Error en ejecución periódica:', error);
+    }
+  };
+
+  run();
+  setInterval(run, intervalMinutes * 60 * 1000);
+}
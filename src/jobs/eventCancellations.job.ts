@@ -0,0 +1,31 @@
+// src/jobs/eventCancellations.job.ts
+import { resumeEventCancellationsOnce } from '../services/eventCancellation.service';
+
+/**
+ * Job de cancelaciones de eventos
+ * - Reanuda cancelaciones interrumpidas (reinicio del server, error transitorio de DB)
+ * - Las que se inician desde el admin ya corren en caliente; aquí solo se retoman
+ */
+export function startEventCancellationsJob(intervalMinutes: number = 5) {
+  console.log(`[EventCancel] Job iniciado - se ejecutará cada ${intervalMinutes} minutos`);
+
+  let running = false;
+
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const { resumed } = await resumeEventCancellationsOnce();
+      if (resumed) {
+        console.log(`[EventCancel] Reanudadas ${resumed} cancelaciones`);
+      }
+    } catch (error) {
+      console.error('[EventCancel] Error en ejecución periódica:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  run();
+  setInterval(run, intervalMinutes * 60 * 1000);
+}
@@ -0,0 +1,31 @@
+// src/jobs/eventChangeNotices.job.ts
+import { resumeEventChangeNoticesOnce } from '../services/eventChange.service';
+
+/**
+ * Job de avisos de cambio de fecha/lugar
+ * - Reanuda envíos de emails interrumpidos (reinicio del server, error transitorio de SMTP/DB)
+ * - Los avisos recién publicados ya se envían en caliente; aquí solo se retoman
+ */
+export function startEventChangeNoticesJob(intervalMinutes: number = 5) {
+  console.log(`[EventChange] Job iniciado - se ejecutará cada ${intervalMinutes} minutos`);
+
+  let running = false;
+
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const { resumed } = await resumeEventChangeNoticesOnce();
+      if (resumed) {
+        console.log(`[EventChange] Reanudados ${resumed} avisos`);
+      }
+    } catch (error) {
+      console.error('[EventChange] Error en ejecución periódica:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  run();
+  setInterval(run, intervalMinutes * 60 * 1000);
+}
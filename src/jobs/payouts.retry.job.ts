@@ -3,6 +3,7 @@ import prisma from "../prisma/client";
 import { getPayoutProvider } from "../services/payouts/provider";
 import { generateIdempotencyKey } from "../services/payment.service";
 import { env } from "../config/env";
+import { normalizeRut, validateRut } from "../utils/rut";
 import crypto from "crypto";
 import { request as httpsRequest } from "https";
 import { URL } from "url";
@@ -57,6 +58,7 @@ function assertAccountReady(acc: {
 }) {
   if (!acc.payoutsEnabled) throw new Error("Payouts deshabilitados para la cuenta destino.");
   if (!acc.payoutHolderName || !acc.payoutHolderRut) throw new Error("Titular/RUT incompletos.");
+  if (!validateRut(acc.payoutHolderRut)) throw new Error("RUT del titular inválido.");
   if (!acc.payoutBankName || !acc.payoutAccountNumber || !acc.payoutAccountType)
     throw new Error("Datos bancarios incompletos (banco/tipo/número).");
 }
@@ -166,7 +168,7 @@ export async function runPayoutsRetryOnce(limitArg?: number) {
           accountType: (p.account.payoutAccountType as any) || undefined,
           accountNumber: p.account.payoutAccountNumber || undefined,
           holderName: p.account.payoutHolderName || undefined,
-          holderRut: p.account.payoutHolderRut || undefined,
+          holderRut: normalizeRut(p.account.payoutHolderRut) || undefined,
         },
         idempotencyKey: idem,
       });
@@ -0,0 +1,31 @@
+// src/jobs/waitlist.job.ts
+import { runWaitlistOnce } from '../services/waitlist.service';
+
+/**
+ * Job de la lista de espera
+ * - Cierra ofertas pagadas (CLAIMED) o vencidas (EXPIRED) y pasa su cupo al siguiente en la fila
+ * - Retoma cupo liberado que no se ofreció en caliente (error transitorio, reinicio del server)
+ */
+export function startWaitlistJob(intervalMinutes: number = 2) {
+  console.log(`[Waitlist] Job iniciado - se ejecutará cada ${intervalMinutes} minutos`);
+
+  let running = false;
+
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const { claimed, expired, offered } = await runWaitlistOnce();
+      if (claimed || expired || offered) {
+        console.log(`[Waitlist] Ofertas reclamadas: ${claimed}, vencidas: ${expired}, nuevas: ${offered}`);
+      }
+    } catch (error) {
+      console.error('[Waitlist] Error en ejecución periódica:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  run();
+  setInterval(run, intervalMinutes * 60 * 1000);
+}
@@ -3,20 +3,36 @@ import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { env } from '../config/env';
 import prisma from '../prisma/client';
+import { twoFactorPolicyFor, type AppRole, type ImpersonationClaim } from '../utils/auth';
+import { hasPermission, type Permission } from '../utils/permissions';
+import { hasTeamPermission } from '../services/team.service';
 
 export interface JwtPayload {
   userId: number;
-  role: 'superadmin' | 'organizer' | 'buyer';
+  role: AppRole;
   tokenVersion?: number;
+  sid?: number;
+  mfa?: boolean;
+  imp?: ImpersonationClaim;
   iat?: number;
   exp?: number;
 }
 
 export interface AuthUser {
   id: number;
-  role: 'superadmin' | 'organizer' | 'buyer';
+  role: AppRole;
+  sessionId?: number;
+  mfa?: boolean;
+  /** Presente si un superadmin está viendo la cuenta como este usuario */
+  impersonation?: {
+    id: number;
+    impersonatorId: number;
+    readOnly: boolean;
+  };
 }
 
+const SAFE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
 /** Augmentación TS para que req.user sea reconocido en todo el proyecto */
 declare global {
   namespace Express {
@@ -37,7 +53,10 @@ export function getAuthUser(req: Request): AuthUser | undefined {
  * Autenticación por JWT (Bearer)
  * - Valida el token.
  * - Compara tokenVersion con DB (invalida tokens viejos tras logout-all).
- * - Adjunta { id, role } en req.user.
+ * - Si el token trae sid, exige que la sesión siga vigente (no revocada ni expirada).
+ * - Si es un token de suplantación (imp), exige que la ImpersonationSession siga abierta
+ *   y, si es de solo lectura, rechaza métodos que no sean GET/HEAD.
+ * - Adjunta { id, role, sessionId, mfa, impersonation } en req.user.
  * - IMPORTANTE: devuelve 401 en cualquier problema de autenticación.
  */
 export async function authenticateToken(req: Request, res: Response, next: NextFunction) {
@@ -51,11 +70,25 @@ export async function authenticateToken(req: Request, res: Response, next: NextF
   try {
     const payload = jwt.verify(token, env.JWT_SECRET) as JwtPayload;
 
-    // Validar tokenVersion contra DB (logout-all)
-    const dbUser = await prisma.user.findUnique({
-      where: { id: payload.userId },
-      select: { tokenVersion: true },
-    });
+    // Validar tokenVersion contra DB (logout-all) y la sesión del dispositivo
+    const [dbUser, session, impSession] = await Promise.all([
+      prisma.user.findUnique({
+        where: { id: payload.userId },
+        select: { tokenVersion: true },
+      }),
+      payload.sid != null
+        ? prisma.session.findUnique({
+            where: { id: payload.sid },
+            select: { userId: true, revokedAt: true, expiresAt: true },
+          })
+        : Promise.resolve(null),
+      payload.imp != null
+        ? prisma.impersonationSession.findUnique({
+            where: { id: payload.imp.id },
+            select: { impersonatorId: true, targetUserId: true, readOnly: true, endedAt: true, expiresAt: true },
+          })
+        : Promise.resolve(null),
+    ]);
     if (!dbUser) {
       return res.status(401).json({ error: 'No autenticado' });
     }
@@ -65,7 +98,40 @@ export async function authenticateToken(req: Request, res: Response, next: NextF
       return res.status(401).json({ error: 'Sesión inválida. Vuelve a iniciar sesión.' });
     }
 
-    req.user = { id: payload.userId, role: payload.role } as AuthUser;
+    if (payload.sid != null) {
+      if (!session || session.userId !== payload.userId || session.revokedAt || session.expiresAt <= new Date()) {
+        return res.status(401).json({ error: 'Sesión revocada. Vuelve a iniciar sesión.' });
+      }
+    }
+
+    let impersonation: AuthUser['impersonation'];
+    if (payload.imp != null) {
+      if (
+        !impSession ||
+        impSession.targetUserId !== payload.userId ||
+        impSession.impersonatorId !== payload.imp.by ||
+        impSession.endedAt ||
+        impSession.expiresAt <= new Date()
+      ) {
+        return res.status(401).json({ error: 'La sesión de suplantación finalizó o venció', impersonation: true });
+      }
+      if (impSession.readOnly && !SAFE_METHODS.has(req.method)) {
+        return res.status(403).json({ error: 'Sesión de suplantación de solo lectura', impersonation: true });
+      }
+      impersonation = {
+        id: payload.imp.id,
+        impersonatorId: impSession.impersonatorId,
+        readOnly: impSession.readOnly,
+      };
+    }
+
+    req.user = {
+      id: payload.userId,
+      role: payload.role,
+      sessionId: payload.sid,
+      mfa: payload.mfa === true,
+      impersonation,
+    } as AuthUser;
     next();
   } catch {
     // Antes devolvía 403; ahora 401 para que el front fuerce re-login
@@ -74,7 +140,8 @@ export async function authenticateToken(req: Request, res: Response, next: NextF
 }
 
 /**
- * Rechaza si la cuenta está desactivada o eliminada (soft-delete).
+ * Rechaza si la cuenta está desactivada o eliminada (soft-delete),
+ * o si el usuario aún no confirma su email (bloquea compras a correos mal escritos).
  * Úsalo después de authenticateToken:
  *   router.use(authenticateToken, ensureActiveAccount, ...rutas)
  */
@@ -85,7 +152,7 @@ export async function ensureActiveAccount(req: Request, res: Response, next: Nex
 
     const db = await prisma.user.findUnique({
       where: { id: user.id },
-      select: { isActive: true, deletedAt: true },
+      select: { isActive: true, deletedAt: true, emailVerified: true },
     });
 
     if (!db) return res.status(401).json({ error: 'No autenticado' });
@@ -94,6 +161,13 @@ export async function ensureActiveAccount(req: Request, res: Response, next: Nex
       return res.status(401).json({ error: 'Cuenta desactivada o eliminada' });
     }
 
+    if (!db.emailVerified) {
+      return res.status(403).json({
+        error: 'Debes confirmar tu correo electrónico antes de continuar',
+        emailVerified: false,
+      });
+    }
+
     return next();
   } catch (err) {
     console.error('Error en ensureActiveAccount:', err);
@@ -102,7 +176,32 @@ export async function ensureActiveAccount(req: Request, res: Response, next: Nex
 }
 
 /**
- * Autorización por rol (uno o varios)
+ * Bloquea la ruta durante una suplantación, aunque la sesión no sea de solo lectura
+ * (pagos, contraseña, email, 2FA, sesiones). Úsalo después de authenticateToken.
+ */
+export function blockDuringImpersonation(req: Request, res: Response, next: NextFunction) {
+  if (getAuthUser(req)?.impersonation) {
+    return res.status(403).json({ error: 'Acción no permitida durante una suplantación', impersonation: true });
+  }
+  return next();
+}
+
+/**
+ * Rol con 2FA obligatorio sin segundo factor verificado en esta sesión.
+ */
+function missingRequiredTwoFactor(user: AuthUser) {
+  return twoFactorPolicyFor(user.role) === 'required' && user.mfa !== true;
+}
+
+const TWO_FACTOR_REQUIRED_ERROR = {
+  error: 'Debes completar la verificación en dos pasos (2FA) para acceder a funciones de administración',
+  twoFactorRequired: true,
+};
+
+/**
+ * Autorización por rol (uno o varios).
+ * Solo para chequeos de identidad (p.ej. "solo buyer puede postular");
+ * las funciones de administración/organizador usan requirePermission.
  */
 export function authorizeRoles(...roles: AuthUser['role'][]) {
   return (req: Request, res: Response, next: NextFunction) => {
@@ -111,18 +210,53 @@ export function authorizeRoles(...roles: AuthUser['role'][]) {
     if (!roles.includes(user.role)) {
       return res.status(403).json({ error: 'Acceso no autorizado' });
     }
+    if (missingRequiredTwoFactor(user)) return res.status(403).json(TWO_FACTOR_REQUIRED_ERROR);
     next();
   };
 }
 
 /**
- * Atajo: requiere superadmin
+ * Autorización por permiso (RBAC, ver utils/permissions.ts).
+ * - Exige TODOS los permisos indicados.
+ * - Roles con 2FA obligatorio (superadmin, finance) deben haberlo pasado en la sesión actual.
  */
-export function requireSuperadmin(req: Request, res: Response, next: NextFunction) {
-  const user = getAuthUser(req);
-  if (!user) return res.status(401).json({ error: 'No autenticado' });
-  if (user.role !== 'superadmin') return res.status(403).json({ error: 'Acceso no autorizado' });
-  next();
+export function requirePermission(...permissions: Permission[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const user = getAuthUser(req);
+    if (!user) return res.status(401).json({ error: 'No autenticado' });
+    if (!permissions.every((p) => hasPermission(user.role, p))) {
+      return res.status(403).json({ error: 'Acceso no autorizado' });
+    }
+    if (missingRequiredTwoFactor(user)) return res.status(403).json(TWO_FACTOR_REQUIRED_ERROR);
+    next();
+  };
+}
+
+/**
+ * Autorización para funciones acotadas a eventos (validación de tickets y sus reportes).
+ * - Pasa si el rol tiene el permiso, o si el usuario es miembro vigente del equipo
+ *   de algún organizador con un rol que lo otorga.
+ * - El controlador acota luego a los eventos accesibles (services/team.service.ts).
+ */
+export function requireEventPermission(permission: Permission) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const user = getAuthUser(req);
+      if (!user) return res.status(401).json({ error: 'No autenticado' });
+
+      if (hasPermission(user.role, permission)) {
+        if (missingRequiredTwoFactor(user)) return res.status(403).json(TWO_FACTOR_REQUIRED_ERROR);
+        return next();
+      }
+
+      if (await hasTeamPermission(user.id, permission)) return next();
+
+      return res.status(403).json({ error: 'Acceso no autorizado' });
+    } catch (err) {
+      console.error('Error en requireEventPermission:', err);
+      return res.status(500).json({ error: 'Error validando permisos' });
+    }
+  };
 }
 
 /**
@@ -138,8 +272,11 @@ export async function requireVerifiedOrganizer(req: Request, res: Response, next
     const user = getAuthUser(req);
     if (!user) return res.status(401).json({ error: 'No autenticado' });
 
-    // Superadmin bypass
-    if (user.role === 'superadmin') return next();
+    // Superadmin bypass (con 2FA verificado)
+    if (user.role === 'superadmin') {
+      if (missingRequiredTwoFactor(user)) return res.status(403).json(TWO_FACTOR_REQUIRED_ERROR);
+      return next();
+    }
 
     if (user.role !== 'organizer') {
       return res.status(403).json({ error: 'Solo organizadores pueden realizar esta acción' });
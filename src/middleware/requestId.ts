@@ -0,0 +1,17 @@
+// src/middleware/requestId.ts
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+
+// Solo se acepta un X-Request-Id entrante "razonable" (lo puede mandar un proxy o el front)
+const VALID_REQUEST_ID = /^[A-Za-z0-9._:-]{8,64}$/;
+
+/**
+ * Asigna un id a cada request (req.requestId) y lo devuelve en el header X-Request-Id.
+ * Permite correlacionar logs y registros de auditoría con una request concreta.
+ */
+export function requestId(req: Request, res: Response, next: NextFunction) {
+  const incoming = String(req.get('x-request-id') ?? '').trim();
+  req.requestId = VALID_REQUEST_ID.test(incoming) ? incoming : crypto.randomUUID();
+  res.setHeader('X-Request-Id', req.requestId);
+  next();
+}
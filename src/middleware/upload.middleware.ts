@@ -55,6 +55,10 @@ const BASE_MAX_BYTES = Math.max(1, env.UPLOAD_MAX_MB) * 1024 * 1024;
  * Si quieres un límite distinto, cambia UPLOAD_MAX_MB en .env.
  */
 const TICKET_MAX_BYTES = Math.max(BASE_MAX_BYTES, 20 * 1024 * 1024);
+/** Portadas de eventos: fotos de cámara suelen superar 5 MB, mínimo 10 MB */
+const COVER_MAX_BYTES = Math.max(BASE_MAX_BYTES, 10 * 1024 * 1024);
+/** Formatos de portada que procesa coverImage.service (se re-codifican a WebP/JPEG) */
+const COVER_ALLOWED = new Set(['image/jpeg', 'image/png', 'image/webp']);
 
 /** Fábrica de filtros por MIME */
 function makeMimeFilter(allowed: Set<string>, errorMsg: string) {
@@ -76,6 +80,11 @@ const allowTicketMimes = makeMimeFilter(
   'Archivo de ticket no permitido. Usa JPG, PNG, WebP, PDF o PKPASS'
 );
 
+const allowCoverMimes = makeMimeFilter(
+  COVER_ALLOWED,
+  'Portada no permitida. Usa JPG, PNG o WebP'
+);
+
 /** ====== Uploaders ====== */
 
 /** Uploader para DOCUMENTOS DE IDENTIDAD (verificación/KYC) */
@@ -111,6 +120,20 @@ export const uploadTickets = multer({
   fileFilter: allowTicketMimes,
 });
 
+/**
+ * Uploader para PORTADAS DE EVENTOS: queda en memoria (req.file.buffer) porque el original
+ * no se guarda; coverImage.service escribe solo las variantes procesadas.
+ */
+export const uploadEventCover = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: COVER_MAX_BYTES,
+    files: 1,
+    fields: 5,
+  },
+  fileFilter: allowCoverMimes,
+});
+
 /** Helper opcional por si quieres inspeccionar rutas desde otros módulos */
 export function getUploadsPaths() {
   return {
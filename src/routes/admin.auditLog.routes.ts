@@ -0,0 +1,18 @@
+// src/routes/admin.auditLog.routes.ts
+import { Router } from 'express';
+import { authenticateToken, requirePermission } from '../middleware/authMiddleware';
+import { PERMISSIONS } from '../utils/permissions';
+import { adminListAuditLog, adminExportAuditLogCsv } from '../controllers/admin.auditLog.controller';
+
+const router = Router();
+
+// Registro de auditoría (admin:audit-log)
+router.use(authenticateToken, requirePermission(PERMISSIONS.ADMIN_AUDIT_LOG));
+
+// GET /api/admin/audit-log/export.csv - Exportación CSV con los mismos filtros
+router.get('/export.csv', adminExportAuditLogCsv);
+
+// GET /api/admin/audit-log - Listado con filtros y paginación
+router.get('/', adminListAuditLog);
+
+export default router;
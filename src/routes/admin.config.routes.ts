@@ -1,6 +1,7 @@
 // src/routes/admin.config.routes.ts
 import { Router } from 'express';
-import { authenticateToken, requireSuperadmin } from '../middleware/authMiddleware';
+import { authenticateToken, requirePermission } from '../middleware/authMiddleware';
+import { PERMISSIONS } from '../utils/permissions';
 import {
   listTicketLimits,
   updateTicketLimit,
@@ -18,22 +19,24 @@ import {
 
 const router = Router();
 
-router.get('/ticket-limits', authenticateToken, requireSuperadmin, listTicketLimits);
-router.put('/ticket-limits/:eventType', authenticateToken, requireSuperadmin, updateTicketLimit);
+router.use(authenticateToken, requirePermission(PERMISSIONS.ADMIN_CONFIG));
 
-router.get('/price-limit', authenticateToken, requireSuperadmin, getPriceLimit);
-router.put('/price-limit', authenticateToken, requireSuperadmin, updatePriceLimit);
+router.get('/ticket-limits', listTicketLimits);
+router.put('/ticket-limits/:eventType', updateTicketLimit);
 
-router.get('/platform-fee', authenticateToken, requireSuperadmin, getPlatformFee);
-router.put('/platform-fee', authenticateToken, requireSuperadmin, updatePlatformFee);
+router.get('/price-limit', getPriceLimit);
+router.put('/price-limit', updatePriceLimit);
 
-router.get('/reservation-hold', authenticateToken, requireSuperadmin, getReservationHold);
-router.put('/reservation-hold', authenticateToken, requireSuperadmin, updateReservationHold);
+router.get('/platform-fee', getPlatformFee);
+router.put('/platform-fee', updatePlatformFee);
 
-router.get('/field-limits', authenticateToken, requireSuperadmin, listFieldLimits);
-router.put('/field-limits/:fieldName', authenticateToken, requireSuperadmin, updateFieldLimit);
+router.get('/reservation-hold', getReservationHold);
+router.put('/reservation-hold', updateReservationHold);
 
-router.get('/system-configs', authenticateToken, requireSuperadmin, listSystemConfigs);
-router.put('/system-configs/:key', authenticateToken, requireSuperadmin, updateSystemConfig);
+router.get('/field-limits', listFieldLimits);
+router.put('/field-limits/:fieldName', updateFieldLimit);
+
+router.get('/system-configs', listSystemConfigs);
+router.put('/system-configs/:key', updateSystemConfig);
 
 export default router;
@@ -1,17 +1,18 @@
 // src/routes/admin.documents.routes.ts
 import { Router } from 'express';
-import { authenticateToken, authorizeRoles } from '../middleware/authMiddleware';
+import { authenticateToken, requirePermission } from '../middleware/authMiddleware';
+import { PERMISSIONS } from '../utils/permissions';
 import { getDocument } from '../controllers/admin.documents.controller';
 
 const router = Router();
 
 /**
  * GET /api/admin/documents/*
- * Para acceder a documentos protegidos (como idCardImage) solo como superadmin
+ * Para acceder a documentos protegidos (como idCardImage); requiere admin:documents
  */
 router.use(
   authenticateToken,
-  authorizeRoles('superadmin'),
+  requirePermission(PERMISSIONS.ADMIN_DOCUMENTS),
   getDocument
 );
 
@@ -0,0 +1,21 @@
+// src/routes/admin.eventCategories.routes.ts
+import { Router } from 'express';
+import { authenticateToken, requirePermission } from '../middleware/authMiddleware';
+import { PERMISSIONS } from '../utils/permissions';
+import {
+  listEventCategories,
+  createEventCategory,
+  updateEventCategory,
+  deleteEventCategory,
+} from '../controllers/admin.eventCategories.controller';
+
+const router = Router();
+
+router.use(authenticateToken, requirePermission(PERMISSIONS.ADMIN_CONFIG));
+
+router.get('/', listEventCategories);
+router.post('/', createEventCategory);
+router.put('/:id', updateEventCategory);
+router.delete('/:id', deleteEventCategory);
+
+export default router;
@@ -0,0 +1,21 @@
+// src/routes/admin.eventRevisions.routes.ts
+import { Router } from 'express';
+import { authenticateToken, requirePermission } from '../middleware/authMiddleware';
+import { PERMISSIONS } from '../utils/permissions';
+import {
+  listEventRevisions,
+  getEventRevision,
+  approveRevision,
+  rejectRevision,
+} from '../controllers/admin.eventRevisions.controller';
+
+const router = Router();
+
+router.use(authenticateToken, requirePermission(PERMISSIONS.ADMIN_EVENTS));
+
+router.get('/', listEventRevisions);
+router.get('/:id', getEventRevision);
+router.post('/:id/approve', approveRevision);
+router.post('/:id/reject', rejectRevision);
+
+export default router;
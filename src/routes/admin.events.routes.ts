@@ -6,19 +6,38 @@ import {
   adminSetEventStatus,
   adminDeleteEvent,
   adminToggleEventActive,
+  adminCancelEvent,
+  adminGetEventCancellation,
+  adminRetryEventCancellation,
+  adminReviewQueue,
+  adminGetEventReview,
+  adminReviewEvent,
+  adminCommentEventReview,
 } from '../controllers/admin.events.controller';
-import { authenticateToken, authorizeRoles } from '../middleware/authMiddleware'; // 👈 aquí
+import { authenticateToken, requirePermission } from '../middleware/authMiddleware';
+import { PERMISSIONS } from '../utils/permissions';
 
 const router = Router();
 
-// Sólo superadmin
-router.use(authenticateToken, authorizeRoles('superadmin'));
+// Moderación de eventos (admin:events)
+router.use(authenticateToken, requirePermission(PERMISSIONS.ADMIN_EVENTS));
 
 router.get('/', adminListEvents);
+router.get('/review-queue', adminReviewQueue);
 router.get('/:id', adminGetEvent);
 router.patch('/:id/status', adminSetEventStatus);
+
+// Revisión: decisión con comentarios por campo e hilos con el organizador
+router.get('/:id/review', adminGetEventReview);
+router.post('/:id/review', adminReviewEvent);
+router.post('/:id/review/comments', adminCommentEventReview);
 router.patch('/:id/toggle-active', adminToggleEventActive);
 router.delete('/:id', adminDeleteEvent);
 
+// Cancelación definitiva con reembolsos masivos (además requiere payments:refund)
+router.post('/:id/cancel', requirePermission(PERMISSIONS.PAYMENTS_REFUND), adminCancelEvent);
+router.get('/:id/cancellation', adminGetEventCancellation);
+router.post('/:id/cancellation/retry', requirePermission(PERMISSIONS.PAYMENTS_REFUND), adminRetryEventCancellation);
+
 export default router;
 
@@ -0,0 +1,25 @@
+// src/routes/admin.impersonation.routes.ts
+import { Router } from 'express';
+import { authenticateToken, requirePermission } from '../middleware/authMiddleware';
+import { PERMISSIONS } from '../utils/permissions';
+import {
+  adminStartImpersonation,
+  adminEndImpersonation,
+  adminListImpersonations,
+} from '../controllers/admin.impersonation.controller';
+
+const router = Router();
+
+// "Ver como usuario" (admin:impersonate, solo superadmin con 2FA)
+router.use(authenticateToken, requirePermission(PERMISSIONS.ADMIN_IMPERSONATE));
+
+// GET /api/admin/impersonation - Historial de sesiones (inicio, fin, motivo)
+router.get('/', adminListImpersonations);
+
+// POST /api/admin/impersonation - Inicia una sesión y devuelve el token
+router.post('/', adminStartImpersonation);
+
+// POST /api/admin/impersonation/:id/end - Cierra la sesión
+router.post('/:id/end', adminEndImpersonation);
+
+export default router;
@@ -6,12 +6,13 @@ import {
   adminRejectOrganizerApplication,
   adminReopenOrganizerApplication,
 } from "../controllers/admin.organizerApplications.controller";
-import { authenticateToken, authorizeRoles } from "../middleware/authMiddleware";
+import { authenticateToken, requirePermission } from "../middleware/authMiddleware";
+import { PERMISSIONS } from "../utils/permissions";
 
 const router = Router();
 
-// Solo SUPERADMIN
-router.use(authenticateToken, authorizeRoles("superadmin"));
+// Revisión de organizadores (admin:organizers)
+router.use(authenticateToken, requirePermission(PERMISSIONS.ADMIN_ORGANIZERS));
 
 // (Opcional) guard sencillo para validar :id numérico
 router.param("id", (req, res, next, rawId) => {
@@ -15,12 +15,15 @@ import {
   adminMarkPayoutPaid,
   adminRunPayoutsNow,
 } from "../controllers/payments.controller";
-import { authenticateToken, requireSuperadmin } from "../middleware/authMiddleware";
+import { authenticateToken, requirePermission } from "../middleware/authMiddleware";
+import { PERMISSIONS } from "../utils/permissions";
+import { normalizeRut, validateRut } from "../utils/rut";
+import { recordAudit } from "../services/audit.service";
 
 const router = Router();
 
-// Aplica auth + superadmin a todo el router
-router.use(authenticateToken, requireSuperadmin);
+// Aplica auth + permiso de payouts (superadmin, finance) a todo el router
+router.use(authenticateToken, requirePermission(PERMISSIONS.PAYOUTS_MANAGE));
 
 type PayoutStatus =
   | "PENDING"
@@ -42,6 +45,7 @@ function assertAccountReady(acc: {
 }) {
   if (!acc.payoutsEnabled) throw new Error("La cuenta del organizador no tiene payouts habilitados.");
   if (!acc.payoutHolderName || !acc.payoutHolderRut) throw new Error("Titular/RUT del destinatario incompleto.");
+  if (!validateRut(acc.payoutHolderRut)) throw new Error("RUT del titular inválido.");
   if (!acc.payoutBankName || !acc.payoutAccountNumber || !acc.payoutAccountType)
     throw new Error("Datos bancarios incompletos (banco/tipo/número).");
 }
@@ -153,7 +157,7 @@ router.post("/:id/retry", async (req: Request, res: Response) => {
         accountType: (payout.account.payoutAccountType as any) || undefined,
         accountNumber: payout.account.payoutAccountNumber || undefined,
         holderName: payout.account.payoutHolderName || undefined,
-        holderRut: payout.account.payoutHolderRut || undefined,
+        holderRut: normalizeRut(payout.account.payoutHolderRut) || undefined,
       },
       idempotencyKey: idem,
     });
@@ -175,6 +179,15 @@ router.post("/:id/retry", async (req: Request, res: Response) => {
 
     const updated = await prisma.payout.update({ where: { id: payout.id }, data });
 
+    await recordAudit(req, {
+      action: "payout.retry",
+      entityType: "Payout",
+      entityId: payout.id,
+      before: { status: payout.status, retries: payout.retries },
+      after: { status: updated.status, retries: updated.retries },
+      metadata: { ok: !!resp.ok, error: resp.ok ? null : resp.error ?? null },
+    });
+
     return res.json({
       ok: !!resp.ok,
       payout: updated,
@@ -251,6 +264,12 @@ router.post("/reconcile", async (req: Request, res: Response) => {
       updated++;
     }
 
+    await recordAudit(req, {
+      action: "payouts.reconcile",
+      entityType: "Payout",
+      metadata: { limit, scanned: pending.length, updated },
+    });
+
     return res.json({ ok: true, scanned: pending.length, updated });
   } catch (err: any) {
     console.error("admin.payouts.reconcile error:", err);
@@ -267,6 +286,11 @@ router.post("/run-retry", async (req: Request, res: Response) => {
   try {
     const limit = Number((req.body as any)?.limit);
     const result = await runPayoutsRetryOnce(Number.isFinite(limit) ? limit : undefined);
+    await recordAudit(req, {
+      action: "payouts.retry",
+      entityType: "Payout",
+      metadata: { limit: Number.isFinite(limit) ? limit : null, ...result },
+    });
     return res.json({ ok: true, ...result });
   } catch (err: any) {
     console.error("admin.payouts.run-retry error:", err);
@@ -283,6 +307,11 @@ router.post("/run-reconcile", async (req: Request, res: Response) => {
   try {
     const limit = Number((req.body as any)?.limit);
     const result = await runPayoutsReconcileOnce(Number.isFinite(limit) ? limit : undefined);
+    await recordAudit(req, {
+      action: "payouts.reconcile",
+      entityType: "Payout",
+      metadata: { limit: Number.isFinite(limit) ? limit : null, job: true, ...result },
+    });
     return res.json({ ok: true, ...result });
   } catch (err: any) {
     console.error("admin.payouts.run-reconcile error:", err);
@@ -1,6 +1,7 @@
 // src/routes/admin.purchases.routes.ts
 import { Router } from 'express';
-import { authenticateToken, requireSuperadmin } from '../middleware/authMiddleware';
+import { authenticateToken, requirePermission } from '../middleware/authMiddleware';
+import { PERMISSIONS } from '../utils/permissions';
 import {
   adminListPurchases,
   adminGetPurchaseDetail,
@@ -8,8 +9,8 @@ import {
 
 const router = Router();
 
-// Todas las rutas requieren autenticación y rol superadmin
-router.use(authenticateToken, requireSuperadmin);
+// Todas las rutas requieren autenticación y permiso admin:purchases
+router.use(authenticateToken, requirePermission(PERMISSIONS.ADMIN_PURCHASES));
 
 // GET /api/admin/purchases - Lista de compras con filtros
 router.get('/', adminListPurchases);
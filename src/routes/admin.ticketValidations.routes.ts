@@ -4,12 +4,13 @@ import {
   listAllValidations,
   getValidationDetails,
 } from '../controllers/admin.ticketValidations.controller';
-import { authenticateToken, authorizeRoles } from '../middleware/authMiddleware';
+import { authenticateToken, requirePermission } from '../middleware/authMiddleware';
+import { PERMISSIONS } from '../utils/permissions';
 
 const router = Router();
 
-// Sólo superadmin
-router.use(authenticateToken, authorizeRoles('superadmin'));
+// Historial global de validaciones (admin:ticket-validations)
+router.use(authenticateToken, requirePermission(PERMISSIONS.ADMIN_TICKET_VALIDATIONS));
 
 // GET /api/admin/ticket-validations
 // Lista todas las validaciones con filtros
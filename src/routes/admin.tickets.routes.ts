@@ -7,7 +7,8 @@ import {
   adminPreviewTicketFile,
   sweepOverdueReservations,
 } from "../controllers/admin.tickets.controller";
-import { authenticateToken, requireSuperadmin } from "../middleware/authMiddleware";
+import { authenticateToken, requirePermission } from "../middleware/authMiddleware";
+import { PERMISSIONS } from "../utils/permissions";
 
 // NUEVO: importamos el controlador todo-en-uno desde payments.controller
 import { adminApproveAndCapture } from "../controllers/payments.controller";
@@ -18,7 +19,7 @@ const router = Router();
 router.get(
   "/tickets/pending",
   authenticateToken,
-  requireSuperadmin,
+  requirePermission(PERMISSIONS.ADMIN_TICKETS),
   adminListPendingTickets
 );
 
@@ -26,7 +27,7 @@ router.get(
 router.get(
   "/reservations/:id/ticket-file",
   authenticateToken,
-  requireSuperadmin,
+  requirePermission(PERMISSIONS.ADMIN_TICKETS),
   adminPreviewTicketFile
 );
 
@@ -34,7 +35,7 @@ router.get(
 router.post(
   "/reservations/:id/approve-ticket",
   authenticateToken,
-  requireSuperadmin,
+  requirePermission(PERMISSIONS.ADMIN_TICKETS),
   adminApproveTicket
 );
 
@@ -42,7 +43,7 @@ router.post(
 router.post(
   "/reservations/:id/reject-ticket",
   authenticateToken,
-  requireSuperadmin,
+  requirePermission(PERMISSIONS.ADMIN_TICKETS),
   adminRejectTicket
 );
 
@@ -50,7 +51,7 @@ router.post(
 router.post(
   "/reservations/:id/approve-and-capture",
   authenticateToken,
-  requireSuperadmin,
+  requirePermission(PERMISSIONS.ADMIN_TICKETS, PERMISSIONS.PAYMENTS_CAPTURE),
   adminApproveAndCapture
 );
 
@@ -58,7 +59,7 @@ router.post(
 router.post(
   "/tickets/sweep-overdue",
   authenticateToken,
-  requireSuperadmin,
+  requirePermission(PERMISSIONS.ADMIN_TICKETS, PERMISSIONS.PAYMENTS_REFUND),
   sweepOverdueReservations
 );
 
@@ -1,5 +1,7 @@
 // src/routes/admin.users.routes.ts
 import { Router } from "express";
+import { authenticateToken, requirePermission } from "../middleware/authMiddleware";
+import { PERMISSIONS } from "../utils/permissions";
 import {
   adminListUsers,
   adminGetUser,
@@ -8,6 +10,8 @@ import {
   adminDeactivateUser,
   adminDeleteUserPreview,
   adminSoftDeleteUser,
+  adminRevokeUserSessions,
+  adminAnonymizationPreview,
 } from "../controllers/admin.users.controller";
 
 const router = Router();
@@ -17,9 +21,15 @@ const router = Router();
  * app.use("/api/admin/users", router)
  */
 
+// Gestión de usuarios (admin:users)
+router.use(authenticateToken, requirePermission(PERMISSIONS.ADMIN_USERS));
+
 // Listado
 router.get("/", adminListUsers);
 
+// Dry-run de la anonimización diferida (cuentas eliminadas con gracia vencida)
+router.get("/anonymization/preview", adminAnonymizationPreview);
+
 // Detalle de un usuario específico
 router.get("/:id", adminGetUser);
 
@@ -34,6 +44,9 @@ router.post("/:id/deactivate", adminDeactivateUser);
 router.get("/:id/delete-preview", adminDeleteUserPreview);
 router.post("/:id/soft-delete", adminSoftDeleteUser);
 
+// Revocar sesiones (todas o una específica con body { sessionId })
+router.post("/:id/revoke-sessions", adminRevokeUserSessions);
+
 export default router;
 
 
@@ -1,6 +1,6 @@
 // src/routes/auth.routes.ts
 import { Router } from 'express';
-import { authenticateToken } from '../middleware/authMiddleware';
+import { authenticateToken, blockDuringImpersonation } from '../middleware/authMiddleware';
 import {
   register,
   login,
@@ -10,7 +10,22 @@ import {
   logoutAll,
   changeEmail,
   refreshToken,
+  forgotPassword,
+  resetPassword,
+  verifyEmail,
+  resendEmailVerification,
+  logout,
+  listMySessions,
+  revokeMySession,
 } from '../controllers/auth.controller';
+import {
+  verifyTwoFactorLogin,
+  getTwoFactorStatus,
+  setupTwoFactor,
+  enableTwoFactor,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+} from '../controllers/auth.twoFactor.controller';
 import { authLimiter, strictAuthLimiter } from '../middleware/rateLimit'; // Rate limiters diferenciados
 
 const router = Router();
@@ -24,11 +39,33 @@ router.post('/register', authLimiter, register);
 router.post('/login', strictAuthLimiter, login); // ⭐ Limiter más estricto para login
 
 /**
- * Renovar token (requiere token válido aunque esté cerca de expirar)
- * - Usa authenticateToken para validar token actual
- * - Retorna nuevo token con tiempo extendido
+ * 2FA (TOTP)
+ * - verify (público): segundo paso del login, body { challengeToken, code | recoveryCode }
+ * - status/setup/enable/disable/recovery-codes: requieren JWT
+ * - Obligatorio para superadmin (sin 2FA no accede a rutas de admin), opcional para organizer
+ */
+router.post('/2fa/verify', strictAuthLimiter, verifyTwoFactorLogin);
+router.get('/2fa/status', authenticateToken, getTwoFactorStatus);
+router.post('/2fa/setup', authenticateToken, blockDuringImpersonation, setupTwoFactor);
+router.post('/2fa/enable', authenticateToken, blockDuringImpersonation, strictAuthLimiter, enableTwoFactor);
+router.post('/2fa/disable', authenticateToken, blockDuringImpersonation, strictAuthLimiter, disableTwoFactor);
+router.post('/2fa/recovery-codes', authenticateToken, blockDuringImpersonation, strictAuthLimiter, regenerateRecoveryCodes);
+
+/**
+ * Recuperación de contraseña (públicos, con rate limit)
+ * - forgot-password: body { email } → envía enlace de un solo uso (respuesta genérica)
+ * - reset-password: body { token, newPassword } → cambia la contraseña e invalida sesiones
+ */
+router.post('/forgot-password', authLimiter, forgotPassword);
+router.post('/reset-password', authLimiter, resetPassword);
+
+/**
+ * Renovar token con refresh token rotativo
+ * - body: { refreshToken } (entregado por login/register/refresh)
+ * - Retorna nuevo access token + nuevo refreshToken (el anterior queda inválido)
+ * - Reusar un refresh token ya rotado revoca la sesión completa
  */
-router.post('/refresh', authenticateToken, refreshToken);
+router.post('/refresh', authLimiter, refreshToken);
 
 /**
  * Perfil actual del usuario autenticado
@@ -38,30 +75,49 @@ router.get('/me', authenticateToken, me);
 
 /**
  * Cambio de contraseña desde sesión activa (sin email)
- * - Requiere JWT
+ * - Requiere JWT (no disponible durante una suplantación)
  * - body: { currentPassword, newPassword }
  */
-router.post('/change-password', authenticateToken, changePassword);
+router.post('/change-password', authenticateToken, blockDuringImpersonation, changePassword);
 
 /**
  * Eliminar mi cuenta (borrado suave)
  * - Requiere JWT
  * - body: { password }
  */
-router.post('/delete-account', authenticateToken, deleteAccount);
+router.post('/delete-account', authenticateToken, blockDuringImpersonation, deleteAccount);
 
 /**
  * Cerrar sesión en todos los dispositivos (invalida tokens previos)
  * - Requiere JWT
  */
-router.post('/logout-all', authenticateToken, logoutAll);
+router.post('/logout-all', authenticateToken, blockDuringImpersonation, logoutAll);
+
+/**
+ * Sesiones por dispositivo
+ * - logout: revoca la sesión actual
+ * - GET /sessions: lista sesiones activas (marca la actual con current=true)
+ * - DELETE /sessions/:id: revoca una sesión propia
+ */
+router.post('/logout', authenticateToken, blockDuringImpersonation, logout);
+router.get('/sessions', authenticateToken, listMySessions);
+router.delete('/sessions/:id', authenticateToken, blockDuringImpersonation, revokeMySession);
 
 /**
  * Cambiar correo (requiere contraseña)
  * - Requiere JWT
  * - body: { password, newEmail }
+ * - El nuevo correo queda pendiente hasta confirmarlo por email
+ */
+router.post('/change-email', authenticateToken, blockDuringImpersonation, changeEmail); // 👈 NUEVO
+
+/**
+ * Verificación de email
+ * - verify-email (público): body { token } → confirma registro o cambio de correo
+ * - resend-verification: reenvía el enlace al correo pendiente (o al actual si no está verificado)
  */
-router.post('/change-email', authenticateToken, changeEmail); // 👈 NUEVO
+router.post('/verify-email', authLimiter, verifyEmail);
+router.post('/resend-verification', authenticateToken, blockDuringImpersonation, authLimiter, resendEmailVerification);
 
 export default router;
 
@@ -2,9 +2,12 @@
 import { Router } from "express";
 import {
   authenticateToken,
-  authorizeRoles,
+  ensureActiveAccount,
+  requirePermission,
   requireVerifiedOrganizer,
+  blockDuringImpersonation,
 } from "../middleware/authMiddleware";
+import { PERMISSIONS } from "../utils/permissions";
 import {
   holdReservation,
   payTestReservation,
@@ -22,20 +25,22 @@ import {
   getBookingStatus,
   refreshBookingPayment,
   refreshBookingTicket,
+  getChangeRefundOptions,
+  requestChangeRefund,
 } from "../controllers/bookings.controller";
 
 const router = Router();
 
-/** HOLD (reserva temporal) */
-router.post("/hold", authenticateToken, holdReservation);
+/** HOLD (reserva temporal) — requiere cuenta activa y email verificado; no durante una suplantación */
+router.post("/hold", authenticateToken, blockDuringImpersonation, ensureActiveAccount, holdReservation);
 
 /** Confirmación de pago (solo DEV / modo prueba)
  *  Requiere ALLOW_TEST_PAYMENTS != "false" en el .env
  */
-router.post("/:id/pay-test", authenticateToken, payTestReservation);
+router.post("/:id/pay-test", authenticateToken, blockDuringImpersonation, payTestReservation);
 
 /** (Opcional) Compra directa para backoffice/soporte */
-router.post("/", authenticateToken, createBooking);
+router.post("/", authenticateToken, blockDuringImpersonation, createBooking);
 
 /** Mis reservas */
 router.get("/my", authenticateToken, listMyBookings);
@@ -58,7 +63,7 @@ router.get("/:id", authenticateToken, getBooking);
 router.get(
   "/organizer",
   authenticateToken,
-  authorizeRoles("organizer", "superadmin"),
+  requirePermission(PERMISSIONS.ORGANIZER_EVENTS),
   (req, res, next) => {
     // Si es superadmin, no exigimos verificación de organizer
     const user = (req as any).user as { id: number; role: string } | undefined;
@@ -71,6 +76,10 @@ router.get(
 /** Cancelar (dueño / organizer dueño / superadmin) */
 router.post("/:id/cancel", authenticateToken, cancelBooking);
 
+/** Reembolso voluntario tras un cambio de fecha/lugar (solo el comprador) */
+router.get("/:id/change-refund", authenticateToken, getChangeRefundOptions);
+router.post("/:id/change-refund", authenticateToken, blockDuringImpersonation, requestChangeRefund);
+
 /** Tickets individuales (OWN events) */
 router.get("/:id/tickets", authenticateToken, listReservationTickets);
 router.get("/:id/tickets/:ticketId/download", authenticateToken, downloadIndividualTicket);
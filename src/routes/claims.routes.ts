@@ -2,8 +2,9 @@
 import { Router } from 'express';
 import {
   authenticateToken,
-  authorizeRoles,
+  requirePermission,
 } from '../middleware/authMiddleware';
+import { PERMISSIONS } from '../utils/permissions';
 import { uploadClaims } from '../middleware/upload.middleware';
 import {
   createClaim,
@@ -116,7 +117,7 @@ router.post(
 router.get(
   '/admin/all',
   authenticateToken,
-  authorizeRoles('superadmin'),
+  requirePermission(PERMISSIONS.CLAIMS_MANAGE),
   adminListClaims
 );
 
@@ -127,7 +128,7 @@ router.get(
 router.get(
   '/admin/:id',
   authenticateToken,
-  authorizeRoles('superadmin'),
+  requirePermission(PERMISSIONS.CLAIMS_MANAGE),
   adminGetClaim
 );
 
@@ -138,7 +139,7 @@ router.get(
 router.put(
   '/admin/:id/status',
   authenticateToken,
-  authorizeRoles('superadmin'),
+  requirePermission(PERMISSIONS.CLAIMS_MANAGE),
   adminUpdateClaimStatus
 );
 
@@ -149,7 +150,7 @@ router.put(
 router.put(
   '/admin/:id/priority',
   authenticateToken,
-  authorizeRoles('superadmin'),
+  requirePermission(PERMISSIONS.CLAIMS_MANAGE),
   adminUpdateClaimPriority
 );
 
@@ -160,7 +161,7 @@ router.put(
 router.get(
   '/admin/:id/messages',
   authenticateToken,
-  authorizeRoles('superadmin'),
+  requirePermission(PERMISSIONS.CLAIMS_MANAGE),
   adminGetClaimMessages
 );
 
@@ -171,7 +172,7 @@ router.get(
 router.post(
   '/admin/:id/messages',
   authenticateToken,
-  authorizeRoles('superadmin'),
+  requirePermission(PERMISSIONS.CLAIMS_MANAGE),
   adminAddClaimMessage
 );
 
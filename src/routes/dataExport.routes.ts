@@ -0,0 +1,23 @@
+// src/routes/dataExport.routes.ts
+// "Descargar mis datos": exportación de datos personales del usuario autenticado
+import { Router } from 'express';
+import { authenticateToken, ensureActiveAccount } from '../middleware/authMiddleware';
+import { authLimiter } from '../middleware/rateLimit';
+import {
+  requestMyDataExport,
+  listMyDataExports,
+  downloadDataExport,
+} from '../controllers/dataExport.controller';
+
+const router = Router();
+
+// GET /api/account/data-export/download/:token  (link del email, sin JWT)
+router.get('/download/:token', authLimiter, downloadDataExport);
+
+// POST /api/account/data-export
+router.post('/', authenticateToken, ensureActiveAccount, requestMyDataExport);
+
+// GET /api/account/data-export
+router.get('/', authenticateToken, listMyDataExports);
+
+export default router;
@@ -2,6 +2,7 @@ import { Router } from 'express';
 import {
   authenticateToken,
   authorizeRoles,
+  requirePermission,
   requireVerifiedOrganizer,
   ensureActiveAccount,
 } from '../middleware/authMiddleware';
@@ -15,7 +16,12 @@ import {
   deleteEvent,
   purchaseTickets,
   listPendingEvents,
+  getPublicSeries,
+  listPublicCategories,
 } from '../controllers/events.controller';
+import { PERMISSIONS } from '../utils/permissions';
+import { findActivePricePhase, publicSectionPricing } from '../services/pricing.service';
+import { sectionSalesWindow } from '../services/salesWindow.service';
 
 const router = Router();
 
@@ -24,6 +30,8 @@ const router = Router();
  */
 router.get('/public', listPublicEvents);        // alias nuevo
 router.get('/public-events', listPublicEvents); // compatibilidad
+router.get('/series/:id', getPublicSeries);      // funciones de una serie
+router.get('/categories', listPublicCategories);  // árbol de categorías con eventos próximos
 
 /**
  * Rutas de administración dentro de este router
@@ -34,13 +42,13 @@ router.get('/public-events', listPublicEvents); // compatibilidad
 router.get(
   '/pending-events',
   authenticateToken,
-  authorizeRoles('superadmin'),
+  requirePermission(PERMISSIONS.ADMIN_EVENTS),
   listPendingEvents
 );
 router.patch(
   '/:id/approve',
   authenticateToken,
-  authorizeRoles('superadmin'),
+  requirePermission(PERMISSIONS.ADMIN_EVENTS),
   approveEvent
 );
 
@@ -76,7 +84,10 @@ router.get('/:id/sections', async (req, res) => {
     // Verificar que el evento exista y su tipo
     const event = await prismaClient.event.findUnique({
       where: { id: eventId },
-      select: { id: true, title: true, eventType: true }
+      select: {
+        id: true, title: true, eventType: true, price: true,
+        date: true, publishAt: true, salesOpenAt: true, salesCloseAt: true,
+      }
     });
     
     console.log('🔍 [DEBUG] Evento encontrado:', event);
@@ -84,6 +95,7 @@ router.get('/:id/sections', async (req, res) => {
     const sections = await prismaClient.eventSection.findMany({
       where: { eventId },
       orderBy: { createdAt: 'asc' },
+      include: { ticketTypes: true },
     });
     
     console.log('🔍 [DEBUG] Secciones encontradas:', sections.length);
@@ -116,10 +128,15 @@ router.get('/:id/sections', async (req, res) => {
         const reserved = reservedInSection._sum.quantity || 0;
         const available = Math.max(0, section.totalCapacity - reserved);
         
+        // Precio efectivo (fase activa, sección o evento) y solo los tipos de entrada activos
+        const activePhase = await findActivePricePhase({ eventId, sectionId: section.id });
         return {
           ...section,
+          ...publicSectionPricing(section, event?.price ?? null, activePhase),
           reserved,
           available,
+          // Ventana de venta efectiva de la sección (cuenta regresiva si aún no abre)
+          salesWindow: event ? sectionSalesWindow(section, event, now) : null,
         };
       })
     );
@@ -0,0 +1,36 @@
+// src/routes/organizer.eventSeries.routes.ts
+import { Router } from 'express';
+import {
+  listMySeries,
+  createSeries,
+  getMySeries,
+  updateSeries,
+  deleteSeries,
+  addPerformances,
+  cancelSeriesPerformances,
+  moveSeriesPerformances,
+} from '../controllers/organizer.eventSeries.controller';
+import {
+  authenticateToken,
+  requirePermission,
+  requireVerifiedOrganizer,
+} from '../middleware/authMiddleware';
+import { PERMISSIONS } from '../utils/permissions';
+
+const router = Router();
+
+// Mismos requisitos que /api/organizer/events
+router.use(authenticateToken, requirePermission(PERMISSIONS.ORGANIZER_EVENTS), requireVerifiedOrganizer);
+
+router.get('/', listMySeries);
+router.post('/', createSeries);
+router.get('/:id', getMySeries);
+router.put('/:id', updateSeries);
+router.delete('/:id', deleteSeries);
+
+// Acciones masivas sobre funciones
+router.post('/:id/performances', addPerformances);
+router.post('/:id/performances/cancel', cancelSeriesPerformances);
+router.post('/:id/performances/move', moveSeriesPerformances);
+
+export default router;
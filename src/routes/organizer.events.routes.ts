@@ -7,19 +7,67 @@ import {
   updateMyEvent,
   deleteMyEvent,
   toggleEventActive,
+  uploadMyEventCover,
+  submitMyEvent,
+  getMyEventReview,
+  commentMyEventReview,
+  getMyEventWaitlist,
+  createEventChangeNotice,
+  listEventChangeNotices,
 } from '../controllers/organizer.events.controller';
-import { authenticateToken, requireVerifiedOrganizer } from '../middleware/authMiddleware';
+import {
+  listPricePhases,
+  createPricePhase,
+  updatePricePhase,
+  deletePricePhase,
+} from '../controllers/organizer.pricePhases.controller';
+import {
+  listPromoCodes,
+  createPromoCode,
+  updatePromoCode,
+  deletePromoCode,
+} from '../controllers/organizer.promoCodes.controller';
+import {
+  authenticateToken,
+  requirePermission,
+  requireVerifiedOrganizer,
+} from '../middleware/authMiddleware';
+import { uploadEventCover } from '../middleware/upload.middleware';
+import { PERMISSIONS } from '../utils/permissions';
 
 const router = Router();
 
-// Requiere login y ser organizer verificado (superadmin pasa también por tu middleware)
-router.use(authenticateToken, requireVerifiedOrganizer);
+// Requiere login, permiso organizer:events y ser organizer verificado (superadmin pasa también)
+router.use(authenticateToken, requirePermission(PERMISSIONS.ORGANIZER_EVENTS), requireVerifiedOrganizer);
 
 router.get('/', listMyEvents);
 router.post('/', createMyEvent);
 router.get('/:id', getMyEvent);
 router.put('/:id', updateMyEvent);
 router.patch('/:id/toggle-active', toggleEventActive);
+router.post('/:id/cover', uploadEventCover.single('cover'), uploadMyEventCover);
+
+// Revisión: envío/reenvío e hilos de comentarios con el revisor
+router.post('/:id/submit', submitMyEvent);
+router.get('/:id/review', getMyEventReview);
+router.post('/:id/review/comments', commentMyEventReview);
+
+// Demanda en lista de espera
+router.get('/:id/waitlist', getMyEventWaitlist);
+router.get('/:id/change-notices', listEventChangeNotices);
+router.post('/:id/change-notices', createEventChangeNotice);
+
+// Fases de precio (early bird, preventa, puerta)
+router.get('/:id/price-phases', listPricePhases);
+router.post('/:id/price-phases', createPricePhase);
+router.put('/:id/price-phases/:phaseId', updatePricePhase);
+router.delete('/:id/price-phases/:phaseId', deletePricePhase);
+
+// Códigos promocionales
+router.get('/:id/promo-codes', listPromoCodes);
+router.post('/:id/promo-codes', createPromoCode);
+router.put('/:id/promo-codes/:promoId', updatePromoCode);
+router.delete('/:id/promo-codes/:promoId', deletePromoCode);
 router.delete('/:id', deleteMyEvent);
 
 export default router;
@@ -2,15 +2,34 @@
 // Rutas para gestión de secciones de eventos propios (own)
 import { Router } from 'express';
 import * as sectionsCtrl from '../controllers/organizer.ownEventSections.controller';
+import {
+  authenticateToken,
+  requirePermission,
+  requireVerifiedOrganizer,
+} from '../middleware/authMiddleware';
+import { PERMISSIONS } from '../utils/permissions';
 
 const router = Router();
 
+// Se monta en /api/organizer junto a otros routers: el guard va por ruta, no con router.use
+const guard = [
+  authenticateToken,
+  requirePermission(PERMISSIONS.ORGANIZER_EVENTS),
+  requireVerifiedOrganizer,
+];
+
 // CRUD de secciones para eventos OWN
-router.post('/events/:eventId/sections', sectionsCtrl.createSection);
-router.get('/events/:eventId/sections', sectionsCtrl.listSections);
-router.get('/events/:eventId/sections/status', sectionsCtrl.getSectionsStatus); // Verificar completitud
-router.get('/events/:eventId/sections/:sectionId', sectionsCtrl.getSection);
-router.put('/events/:eventId/sections/:sectionId', sectionsCtrl.updateSection);
-router.delete('/events/:eventId/sections/:sectionId', sectionsCtrl.deleteSection);
+router.post('/events/:eventId/sections', ...guard, sectionsCtrl.createSection);
+router.get('/events/:eventId/sections', ...guard, sectionsCtrl.listSections);
+router.get('/events/:eventId/sections/status', ...guard, sectionsCtrl.getSectionsStatus); // Verificar completitud
+router.get('/events/:eventId/sections/:sectionId', ...guard, sectionsCtrl.getSection);
+router.put('/events/:eventId/sections/:sectionId', ...guard, sectionsCtrl.updateSection);
+router.delete('/events/:eventId/sections/:sectionId', ...guard, sectionsCtrl.deleteSection);
+
+// Tipos de entrada por sección (adulto, estudiante...) con precio propio
+router.get('/events/:eventId/sections/:sectionId/ticket-types', ...guard, sectionsCtrl.listTicketTypes);
+router.post('/events/:eventId/sections/:sectionId/ticket-types', ...guard, sectionsCtrl.createTicketType);
+router.put('/events/:eventId/sections/:sectionId/ticket-types/:typeId', ...guard, sectionsCtrl.updateTicketType);
+router.delete('/events/:eventId/sections/:sectionId/ticket-types/:typeId', ...guard, sectionsCtrl.deleteTicketType);
 
 export default router;
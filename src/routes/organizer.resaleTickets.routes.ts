@@ -6,8 +6,10 @@ import fs from "fs";
 import { Router } from "express";
 import {
   authenticateToken,
+  requirePermission,
   requireVerifiedOrganizer,
 } from "../middleware/authMiddleware";
+import { PERMISSIONS } from "../utils/permissions";
 import {
   organizerUploadTicket,
   organizerListReservations,
@@ -64,6 +66,7 @@ const upload = multer({
 router.get(
   "/reservations",
   authenticateToken,
+  requirePermission(PERMISSIONS.ORGANIZER_EVENTS),
   requireVerifiedOrganizer,
   organizerListReservations
 );
@@ -72,6 +75,7 @@ router.get(
 router.post(
   "/reservations/:id/ticket",
   authenticateToken,
+  requirePermission(PERMISSIONS.ORGANIZER_EVENTS),
   requireVerifiedOrganizer,
   upload.single("ticket"),
   organizerUploadTicket
@@ -80,6 +84,7 @@ router.post(
 router.post(
   "/events/:eventId/tickets",
   authenticateToken,
+  requirePermission(PERMISSIONS.ORGANIZER_EVENTS),
   requireVerifiedOrganizer,
   upload.single("file"),
   createTicket
@@ -88,6 +93,7 @@ router.post(
 router.get(
   "/events/:eventId/tickets",
   authenticateToken,
+  requirePermission(PERMISSIONS.ORGANIZER_EVENTS),
   requireVerifiedOrganizer,
   listTickets
 );
@@ -95,6 +101,7 @@ router.get(
 router.get(
   "/events/:eventId/tickets/:ticketId",
   authenticateToken,
+  requirePermission(PERMISSIONS.ORGANIZER_EVENTS),
   requireVerifiedOrganizer,
   getTicket
 );
@@ -102,6 +109,7 @@ router.get(
 router.put(
   "/events/:eventId/tickets/:ticketId",
   authenticateToken,
+  requirePermission(PERMISSIONS.ORGANIZER_EVENTS),
   requireVerifiedOrganizer,
   updateTicket
 );
@@ -109,6 +117,7 @@ router.put(
 router.delete(
   "/events/:eventId/tickets/:ticketId",
   authenticateToken,
+  requirePermission(PERMISSIONS.ORGANIZER_EVENTS),
   requireVerifiedOrganizer,
   deleteTicket
 );
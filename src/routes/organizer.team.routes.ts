@@ -0,0 +1,37 @@
+// src/routes/organizer.team.routes.ts
+import { Router } from 'express';
+import {
+  authenticateToken,
+  requirePermission,
+  requireVerifiedOrganizer,
+} from '../middleware/authMiddleware';
+import { PERMISSIONS } from '../utils/permissions';
+import {
+  listTeamMembers,
+  inviteTeamMember,
+  updateTeamMember,
+  resendTeamInvitation,
+  revokeTeamMember,
+} from '../controllers/organizer.team.controller';
+
+const router = Router();
+
+// Solo el organizador dueño gestiona su equipo
+router.use(authenticateToken, requirePermission(PERMISSIONS.ORGANIZER_EVENTS), requireVerifiedOrganizer);
+
+// GET /api/organizer/team
+router.get('/', listTeamMembers);
+
+// POST /api/organizer/team  { email, role, eventIds }
+router.post('/', inviteTeamMember);
+
+// PATCH /api/organizer/team/:id  { role?, eventIds? }
+router.patch('/:id', updateTeamMember);
+
+// POST /api/organizer/team/:id/resend
+router.post('/:id/resend', resendTeamInvitation);
+
+// DELETE /api/organizer/team/:id  (revoca el acceso)
+router.delete('/:id', revokeTeamMember);
+
+export default router;
@@ -1,7 +1,8 @@
 // src/routes/organizer.ticketValidation.routes.ts
 import { Router } from 'express';
-import { authenticateToken } from '../middleware/authMiddleware';
+import { authenticateToken, ensureActiveAccount, requireEventPermission } from '../middleware/authMiddleware';
 import { requireVerifiedOrganizer } from '../middleware/authMiddleware';
+import { PERMISSIONS } from '../utils/permissions';
 import {
   validateTicket,
   checkTicket,
@@ -11,24 +12,37 @@ import {
 
 const router = Router();
 
-// Todas las rutas requieren autenticación y ser organizador verificado
-router.use(authenticateToken);
-router.use(requireVerifiedOrganizer);
+// Organizer (sus eventos), staff de plataforma (scanner, superadmin) o miembros del
+// equipo de un organizador (solo los eventos asignados; ver services/team.service.ts)
+router.use(authenticateToken, ensureActiveAccount);
+// Si es organizer, además debe estar verificado; el staff no tiene cuenta de organizador
+router.use((req, res, next) => {
+  if (req.user?.role !== 'organizer') return next();
+  return requireVerifiedOrganizer(req, res, next);
+});
 
 // POST /api/organizer/ticket-validation/validate
 // Validar un ticket (marcarlo como escaneado)
-router.post('/validate', validateTicket);
+router.post('/validate', requireEventPermission(PERMISSIONS.TICKETS_VALIDATE), validateTicket);
 
 // GET /api/organizer/ticket-validation/check/:qrCode
 // Consultar estado de un ticket sin marcarlo
-router.get('/check/:qrCode', checkTicket);
+router.get('/check/:qrCode', requireEventPermission(PERMISSIONS.TICKETS_VALIDATE), checkTicket);
 
 // GET /api/organizer/ticket-validation/events/:eventId/stats
 // Obtener estadísticas de validación de un evento
-router.get('/events/:eventId/stats', getValidationStats);
+router.get(
+  '/events/:eventId/stats',
+  requireEventPermission(PERMISSIONS.TICKETS_VALIDATION_STATS),
+  getValidationStats
+);
 
 // GET /api/organizer/ticket-validation/validated-tickets
 // Listar tickets validados con filtros y paginación
-router.get('/validated-tickets', getValidatedTickets);
+router.get(
+  '/validated-tickets',
+  requireEventPermission(PERMISSIONS.TICKETS_VALIDATION_REPORTS),
+  getValidatedTickets
+);
 
 export default router;
@@ -4,13 +4,23 @@ import {
   listOrganizerValidations,
   getOrganizerValidationDetails,
 } from '../controllers/organizer.ticketValidations.controller';
-import { authenticateToken, requireVerifiedOrganizer } from '../middleware/authMiddleware';
+import {
+  authenticateToken,
+  ensureActiveAccount,
+  requireEventPermission,
+  requireVerifiedOrganizer,
+} from '../middleware/authMiddleware';
+import { PERMISSIONS } from '../utils/permissions';
 
 const router = Router();
 
-// Todas las rutas requieren autenticación y ser organizador verificado
-router.use(authenticateToken);
-router.use(requireVerifiedOrganizer);
+// Organizer verificado (sus eventos) o miembro de equipo con reportes (eventos asignados)
+router.use(authenticateToken, ensureActiveAccount);
+router.use((req, res, next) => {
+  if (req.user?.role !== 'organizer') return next();
+  return requireVerifiedOrganizer(req, res, next);
+});
+router.use(requireEventPermission(PERMISSIONS.TICKETS_VALIDATION_REPORTS));
 
 // GET /api/organizer/ticket-validations
 // Lista las validaciones del organizador con filtros
@@ -8,7 +8,8 @@ import {
   getOrganizerDocument,
   applyOrganizer, // <-- NUEVO
 } from '../controllers/organizers.controller';
-import { authenticateToken, authorizeRoles } from '../middleware/authMiddleware';
+import { authenticateToken, authorizeRoles, requirePermission } from '../middleware/authMiddleware';
+import { PERMISSIONS } from '../utils/permissions';
 import { upload } from '../middleware/upload.middleware';
 
 const router = Router();
@@ -27,7 +28,7 @@ router.post(
 router.get(
   '/',
   authenticateToken,
-  authorizeRoles('superadmin'),
+  requirePermission(PERMISSIONS.ADMIN_ORGANIZERS),
   listOrganizers
 );
 
@@ -35,7 +36,7 @@ router.get(
 router.patch(
   '/:id/permission',
   authenticateToken,
-  authorizeRoles('superadmin'),
+  requirePermission(PERMISSIONS.ADMIN_ORGANIZERS),
   toggleOrganizerPermission
 );
 
@@ -52,7 +53,7 @@ router.post(
 router.get(
   '/pending-verification',
   authenticateToken,
-  authorizeRoles('superadmin'),
+  requirePermission(PERMISSIONS.ADMIN_ORGANIZERS),
   listPendingVerification
 );
 
@@ -61,15 +62,15 @@ router.get(
 router.patch(
   '/:id/verify',
   authenticateToken,
-  authorizeRoles('superadmin'),
+  requirePermission(PERMISSIONS.ADMIN_ORGANIZERS),
   verifyOrganizer
 );
 
-// Ver/descargar documento del organizador (solo superadmin)
+// Ver/descargar documento del organizador (admin:documents)
 router.get(
   '/:id/document',
   authenticateToken,
-  authorizeRoles('superadmin'),
+  requirePermission(PERMISSIONS.ADMIN_DOCUMENTS),
   getOrganizerDocument
 );
 
@@ -21,16 +21,18 @@ import {
 import {
   authenticateToken,
   ensureActiveAccount,
-  requireSuperadmin,
+  requirePermission,
+  blockDuringImpersonation,
 } from "../middleware/authMiddleware";
+import { PERMISSIONS } from "../utils/permissions";
 
 const router = Router();
 
 /**
- * Crear transacción (requiere sesión válida y cuenta activa)
+ * Crear transacción (requiere sesión válida y cuenta activa; no durante una suplantación)
  * Body: { eventId: number, quantity: number }
  */
-router.post("/create", authenticateToken, ensureActiveAccount, createPayment);
+router.post("/create", authenticateToken, blockDuringImpersonation, ensureActiveAccount, createPayment);
 
 /**
  * Callback de Webpay (puede volver por POST o GET)
@@ -50,7 +52,7 @@ router.get("/my-pending", authenticateToken, ensureActiveAccount, getMyPending);
  * Reanuda pago reutilizando la MISMA reserva (si sigue vigente).
  * POST /api/payments/restart  { reservationId }
  */
-router.post("/restart", authenticateToken, ensureActiveAccount, restartPayment);
+router.post("/restart", authenticateToken, blockDuringImpersonation, ensureActiveAccount, restartPayment);
 
 /**
  * Estado por token (pública para pruebas)
@@ -65,14 +67,14 @@ router.get("/by-order/:buyOrder", getPaymentByBuyOrder);
 /**
  * Capturar una pre-autorización (cuando el admin aprueba el ticket)
  * Body: { reservationId: number }
- * Requiere superadmin.
+ * Requiere payments:capture.
  */
-router.post("/capture", authenticateToken, requireSuperadmin, capturePayment);
+router.post("/capture", authenticateToken, requirePermission(PERMISSIONS.PAYMENTS_CAPTURE), capturePayment);
 
 /**
- * Reembolso (sólo superadmin)
+ * Reembolso (superadmin, finance)
  */
-router.post("/refund", authenticateToken, requireSuperadmin, refundPayment);
+router.post("/refund", authenticateToken, requirePermission(PERMISSIONS.PAYMENTS_REFUND), refundPayment);
 
 /* ===================== Connected Account (organizador) ===================== */
 router.get(
@@ -85,6 +87,7 @@ router.get(
 router.patch(
   "/connected-account",
   authenticateToken,
+  blockDuringImpersonation,
   ensureActiveAccount,
   updateMyConnectedAccount
 );
@@ -5,6 +5,7 @@ import { request as httpsRequest } from "https";
 import { URL } from "url";
 import { createHmac, timingSafeEqual } from "crypto";
 import prisma from "../prisma/client";
+import { checkRut, compactRut } from "../utils/rut";
 
 /**
  * Adapter HTTP para Payouts vía Kushki.
@@ -44,9 +45,6 @@ type IncomingBody = {
 function bad(res: Response, code: number, msg: string) {
   return res.status(code).json({ ok: false, error: msg });
 }
-function cleanRut(v?: string | null) {
-  return (v ?? "").replace(/[.\-]/g, "").trim().toUpperCase();
-}
 /** Mapea el tipo local a uno genérico para el PSP */
 function mapAccountType(t?: string | null) {
   const s = String(t ?? "").toUpperCase();
@@ -193,13 +191,15 @@ router.post("/payouts", async (req: Request, res: Response) => {
 
     const dest = b.destination || {};
     const holderName = (dest.holderName || "").trim();
-    const holderRut = cleanRut(dest.holderRut);
+    const holderRutCheck = checkRut(dest.holderRut, "holderRut");
     const bankName = (dest.bankName || "").trim();
     const accountNumber = String(dest.accountNumber || "").replace(/\D/g, "");
     const accountType = mapAccountType(dest.accountType);
 
     if (!holderName) return bad(res, 400, "holderName requerido");
-    if (!holderRut) return bad(res, 400, "holderRut requerido");
+    if (!holderRutCheck.ok) return bad(res, 400, holderRutCheck.error);
+    // Kushki espera el documento sin puntos ni guion
+    const holderRut = compactRut(holderRutCheck.rut);
     if (!bankName) return bad(res, 400, "bankName requerido");
     if (!accountNumber) return bad(res, 400, "accountNumber requerido");
 
@@ -3,6 +3,7 @@ import express, { Router, Request, Response } from "express";
 import prisma from "../prisma/client";
 import { env } from "../config/env";
 import { getPspProvider } from "../services/psp/provider";
+import { recordPromoRedemptions } from "../services/promoCode.service";
 
 const router = Router();
 const psp = getPspProvider();
@@ -200,13 +201,17 @@ router.post(
 
               // Si CAPTURED → marcar reserva como pagada
               if (d.status === "CAPTURED" && payment.reservationId) {
-                await prisma.reservation.update({
+                const paid = await prisma.reservation.update({
                   where: { id: payment.reservationId },
                   data: {
                     status: "PAID",
                     paidAt: new Date(d.occurredAt ?? Date.now()),
                   },
+                  select: { id: true, purchaseGroupId: true },
                 });
+                await recordPromoRedemptions(
+                  paid.purchaseGroupId ? { purchaseGroupId: paid.purchaseGroupId } : { reservationId: paid.id }
+                );
               }
 
               results.push({ type: evt.type, paymentId: payment.id, updated: true });
@@ -0,0 +1,21 @@
+// src/routes/team.routes.ts
+// Lado del miembro invitado al equipo de un organizador
+import { Router } from 'express';
+import { authenticateToken } from '../middleware/authMiddleware';
+import { authLimiter } from '../middleware/rateLimit';
+import {
+  acceptTeamInvitation,
+  listMyTeamMemberships,
+} from '../controllers/organizer.team.controller';
+
+const router = Router();
+
+router.use(authenticateToken);
+
+// POST /api/team/invitations/accept  { token }
+router.post('/invitations/accept', authLimiter, acceptTeamInvitation);
+
+// GET /api/team/memberships
+router.get('/memberships', listMyTeamMemberships);
+
+export default router;
@@ -1,12 +1,13 @@
 // src/routes/users.routes.ts
 import { Router } from 'express';
-import { authenticateToken, authorizeRoles } from '../middleware/authMiddleware';
+import { authenticateToken, requirePermission } from '../middleware/authMiddleware';
+import { PERMISSIONS } from '../utils/permissions';
 import { listUsers, getUserDetails, updateUserRole, deleteUser } from '../controllers/users.controller';
 
 const router = Router();
 
-// Solo superadmin puede acceder
-router.use(authenticateToken, authorizeRoles('superadmin'));
+// Gestión de usuarios y roles (admin:users)
+router.use(authenticateToken, requirePermission(PERMISSIONS.ADMIN_USERS));
 
 router.get('/', listUsers);
 router.get('/:id', getUserDetails);
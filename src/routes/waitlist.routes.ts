@@ -0,0 +1,30 @@
+// src/routes/waitlist.routes.ts
+// Lista de espera de eventos agotados (comprador autenticado)
+import { Router } from 'express';
+import { authenticateToken, blockDuringImpersonation, ensureActiveAccount } from '../middleware/authMiddleware';
+import {
+  joinEventWaitlist,
+  listMyWaitlist,
+  leaveEventWaitlist,
+  getMyWaitlistOffer,
+  declineMyWaitlistOffer,
+} from '../controllers/waitlist.controller';
+
+const router = Router();
+
+// POST /api/waitlist
+router.post('/', authenticateToken, blockDuringImpersonation, ensureActiveAccount, joinEventWaitlist);
+
+// GET /api/waitlist/my
+router.get('/my', authenticateToken, listMyWaitlist);
+
+// GET /api/waitlist/offers/:token  (link del email; solo el destinatario)
+router.get('/offers/:token', authenticateToken, getMyWaitlistOffer);
+
+// POST /api/waitlist/offers/:token/decline
+router.post('/offers/:token/decline', authenticateToken, blockDuringImpersonation, declineMyWaitlistOffer);
+
+// DELETE /api/waitlist/:id
+router.delete('/:id', authenticateToken, blockDuringImpersonation, leaveEventWaitlist);
+
+export default router;
@@ -10,6 +10,7 @@ import morgan from 'morgan';
 import { env } from './config/env';
 import prisma from './prisma/client';
 import { dbHealthMiddleware, healthCheckEndpoint } from './middleware/dbHealthMiddleware';
+import { requestId } from './middleware/requestId';
 
 // Routers existentes
 import authRoutes from './routes/auth.routes';
@@ -20,6 +21,7 @@ import organizerApplicationRoutes from './routes/organizerApplication.routes';
 
 // Routers nuevos
 import organizerEventsRouter from './routes/organizer.events.routes';
+import organizerEventSeriesRouter from './routes/organizer.eventSeries.routes';
 import adminEventsRouter from './routes/admin.events.routes';
 import adminUsersRouter from './routes/admin.users.routes';
 import adminOrganizerAppsRouter from './routes/admin.organizerApplications.routes';
@@ -41,6 +43,8 @@ import adminPurchasesRoutes from './routes/admin.purchases.routes';
 
 import configRoutes from './routes/config.routes';
 import adminConfigRoutes from './routes/admin.config.routes';
+import adminEventCategoriesRoutes from './routes/admin.eventCategories.routes';
+import adminEventRevisionsRoutes from './routes/admin.eventRevisions.routes';
 import organizerTicketValidationRoutes from './routes/organizer.ticketValidation.routes';
 import resaleTicketValidationRoutes from './routes/resaleTicketValidation.routes';
 import claimsRoutes from './routes/claims.routes';
@@ -48,10 +52,21 @@ import documentsRoutes from './routes/documents.routes';
 import testRoutes from './routes/test.routes';
 import adminTicketValidationsRoutes from './routes/admin.ticketValidations.routes';
 import organizerTicketValidationsRoutes from './routes/organizer.ticketValidations.routes';
+import organizerTeamRoutes from './routes/organizer.team.routes';
+import teamRoutes from './routes/team.routes';
+import adminAuditLogRoutes from './routes/admin.auditLog.routes';
+import adminImpersonationRoutes from './routes/admin.impersonation.routes';
+import dataExportRoutes from './routes/dataExport.routes';
+import waitlistRoutes from './routes/waitlist.routes';
 
 import { startPayoutsReconcileJob } from './jobs/payouts.reconcile.job';
 import { startPayoutsRetryJob } from './jobs/payouts.retry.job';
 import { startCleanExpiredReservationsJob } from './jobs/cleanExpiredReservations.job';
+import { startDataExportsJob } from './jobs/dataExports.job';
+import { startAccountAnonymizationJob } from './jobs/accountAnonymization.job';
+import { startEventCancellationsJob } from './jobs/eventCancellations.job';
+import { startEventChangeNoticesJob } from './jobs/eventChangeNotices.job';
+import { startWaitlistJob } from './jobs/waitlist.job';
 
 const app = express();
 
@@ -140,6 +155,9 @@ const generalLimiter = rateLimit({
 
 app.use(generalLimiter);
 
+// Id de request (logs y auditoría)
+app.use(requestId);
+
 // Logs
 app.use(morgan(env.IS_PROD ? 'combined' : 'dev'));
 
@@ -232,14 +250,21 @@ app.use('/api/organizer-applications', organizerApplicationRoutes);
 app.use('/api/config', configRoutes);
 
 app.use('/api/organizer/events', organizerEventsRouter);
+app.use('/api/organizer/event-series', organizerEventSeriesRouter);
 app.use('/api/organizer/ticket-validation', organizerTicketValidationRoutes);
 app.use('/api/organizer/ticket-validations', organizerTicketValidationsRoutes);
+app.use('/api/organizer/team', organizerTeamRoutes);
+app.use('/api/team', teamRoutes);
+app.use('/api/account/data-export', dataExportRoutes);
+app.use('/api/waitlist', waitlistRoutes);
 app.use('/api/resale-tickets', resaleTicketValidationRoutes);
 app.use('/api/admin/events', adminEventsRouter);
 app.use('/api/admin/users', adminUsersRouter);
 app.use('/api/admin/organizer-applications', adminOrganizerAppsRouter);
 app.use('/api/admin/documents', adminDocumentsRouter);
 app.use('/api/admin/config', adminConfigRoutes);
+app.use('/api/admin/event-categories', adminEventCategoriesRoutes);
+app.use('/api/admin/event-revisions', adminEventRevisionsRoutes);
 app.use('/api/admin/ticket-validations', adminTicketValidationsRoutes);
 
 app.use('/api/payments', paymentsRoutes);
@@ -270,6 +295,12 @@ app.use('/api/admin/payouts', adminPayoutsRoutes);
 // Admin purchases (panel de compras)
 app.use('/api/admin/purchases', adminPurchasesRoutes);
 
+// ADMIN: Registro de auditoría
+app.use('/api/admin/audit-log', adminAuditLogRoutes);
+
+// "Ver como usuario" (superadmin)
+app.use('/api/admin/impersonation', adminImpersonationRoutes);
+
 /* ======================= Manejo de errores ======================= */
 
 app.use((_req, res) => {
@@ -294,6 +325,11 @@ if ((process.env.NODE_ENV ?? 'development') !== 'test') {
   startPayoutsReconcileJob();
   startPayoutsRetryJob();
   startCleanExpiredReservationsJob(5); // Ejecutar cada 5 minutos
+  startDataExportsJob(10);
+  startAccountAnonymizationJob();
+  startEventCancellationsJob(5);
+  startEventChangeNoticesJob(5);
+  startWaitlistJob(2);
 }
 
 let server: import('http').Server | undefined;
@@ -0,0 +1,306 @@
+// src/services/anonymization.service.ts
+// Anonimización diferida de cuentas eliminadas (soft-delete) una vez cumplido el periodo de gracia.
+// Se borran los datos personales y se conservan los registros financieros exigidos por ley
+// (Payment, Payout, LedgerEntry, ConnectedAccount, reservas y montos).
+import { promises as fsPromises } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import prisma from '../prisma/client';
+import { env } from '../config/env';
+import { recordAudit } from './audit.service';
+import { purgeUserDataExports } from './dataExport.service';
+
+const UPLOADS_BASE = env.UPLOAD_DIR
+  ? path.resolve(env.UPLOAD_DIR)
+  : path.join(process.cwd(), 'uploads');
+
+const DOCUMENTS_DIR = path.join(UPLOADS_BASE, 'documents');
+const CLAIMS_DIR = path.join(UPLOADS_BASE, 'claims');
+
+const OPEN_CLAIM_STATUSES = ['PENDING', 'IN_REVIEW', 'WAITING_INFO'] as const;
+// FAILED se considera pendiente: el job de reintentos aún puede pagarlo
+const PENDING_PAYOUT_STATUSES = ['PENDING', 'SCHEDULED', 'IN_TRANSIT', 'FAILED'] as const;
+
+export const ANONYMIZED_NAME = 'Cuenta eliminada';
+const ANONYMIZED_TEXT = '[Contenido eliminado]';
+
+export type AnonymizationBlockers = {
+  openClaims: number;
+  pendingPayouts: number;
+  upcomingPaidTickets: number;
+  dataExportsInProgress: number;
+};
+
+export type AnonymizationCandidate = {
+  userId: number;
+  role: string;
+  deletedAt: Date;
+  eligible: boolean;
+  blockers: AnonymizationBlockers;
+};
+
+/** Fecha de corte: cuentas con deletedAt anterior a esto ya cumplieron el periodo de gracia */
+export function anonymizationCutoff(now = new Date()) {
+  return new Date(now.getTime() - env.ACCOUNT_ANONYMIZE_GRACE_DAYS * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Motivos por los que aún no se puede anonimizar:
+ * - reclamos abiertos (como comprador o sobre eventos propios)
+ * - payouts pendientes hacia su cuenta de cobro
+ * - tickets pagados para eventos futuros (comprados o vendidos en eventos propios)
+ * - exportaciones de datos en curso
+ */
+export async function getAnonymizationBlockers(userId: number, now = new Date()): Promise<AnonymizationBlockers> {
+  const [openClaims, pendingPayouts, upcomingPaidTickets, dataExportsInProgress] = await Promise.all([
+    prisma.claim.count({
+      where: {
+        status: { in: [...OPEN_CLAIM_STATUSES] },
+        OR: [{ buyerId: userId }, { event: { organizerId: userId } }],
+      },
+    }),
+    prisma.payout.count({
+      where: { account: { userId }, status: { in: [...PENDING_PAYOUT_STATUSES] } },
+    }),
+    prisma.reservation.count({
+      where: {
+        status: 'PAID',
+        refundStatus: { not: 'SUCCEEDED' },
+        event: { date: { gt: now } },
+        OR: [{ buyerId: userId }, { event: { organizerId: userId } }],
+      },
+    }),
+    prisma.dataExportRequest.count({
+      where: { userId, status: { in: ['PENDING', 'PROCESSING'] } },
+    }),
+  ]);
+  return { openClaims, pendingPayouts, upcomingPaidTickets, dataExportsInProgress };
+}
+
+function isBlocked(b: AnonymizationBlockers) {
+  return b.openClaims + b.pendingPayouts + b.upcomingPaidTickets + b.dataExportsInProgress > 0;
+}
+
+/**
+ * Cuentas eliminadas, sin anonimizar, cuyo periodo de gracia ya venció (con sus bloqueos).
+ * Pagina con cursor hasta juntar `limit` elegibles: las bloqueadas no cuentan para el límite,
+ * así una cola de cuentas bloqueadas no deja sin procesar a las que sí se pueden anonimizar.
+ */
+export async function findAnonymizationCandidates(limit = env.ACCOUNT_ANONYMIZE_LIMIT, now = new Date()) {
+  const cutoff = anonymizationCutoff(now);
+  const candidates: AnonymizationCandidate[] = [];
+  let eligibleCount = 0;
+  let cursor: number | null = null;
+
+  while (eligibleCount < limit) {
+    const users: Array<{ id: number; role: string; deletedAt: Date | null }> = await prisma.user.findMany({
+      where: { deletedAt: { not: null, lte: cutoff }, anonymizedAt: null },
+      orderBy: [{ deletedAt: 'asc' }, { id: 'asc' }],
+      take: limit,
+      ...(cursor != null ? { cursor: { id: cursor }, skip: 1 } : {}),
+      select: { id: true, role: true, deletedAt: true },
+    });
+    if (users.length === 0) break;
+
+    for (const u of users) {
+      const blockers = await getAnonymizationBlockers(u.id, now);
+      const eligible = !isBlocked(blockers);
+      candidates.push({
+        userId: u.id,
+        role: u.role,
+        deletedAt: u.deletedAt!,
+        eligible,
+        blockers,
+      });
+      if (eligible && ++eligibleCount >= limit) break;
+    }
+
+    if (users.length < limit) break;
+    cursor = users[users.length - 1]!.id;
+  }
+  return candidates;
+}
+
+/** URLs de adjuntos guardadas en ClaimMessage.attachments (array JSON de strings) */
+function attachmentUrls(value: Prisma.JsonValue | null): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+}
+
+/** Borra un archivo subido; las rutas relativas se resuelven como en su controlador de origen */
+async function removeUpload(p: string | null | undefined, baseDir: string) {
+  if (!p) return false;
+  const abs = path.isAbsolute(p) ? p : path.join(baseDir, p);
+  try {
+    await fsPromises.rm(abs, { force: true });
+    return true;
+  } catch (err) {
+    console.error(`[Anonymize] No se pudo eliminar el archivo ${abs}:`, err);
+    return false;
+  }
+}
+
+/**
+ * Anonimiza una cuenta. Revalida los bloqueos justo antes de escribir.
+ * Devuelve false si la cuenta ya no es elegible.
+ */
+export async function anonymizeUser(userId: number): Promise<boolean> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      id: true,
+      email: true,
+      deletedAt: true,
+      anonymizedAt: true,
+      documentUrl: true,
+      application: { select: { id: true, idCardImage: true, idCardImageBack: true } },
+    },
+  });
+  if (!user || !user.deletedAt || user.anonymizedAt) return false;
+  if (user.deletedAt > anonymizationCutoff()) return false;
+
+  const blockers = await getAnonymizationBlockers(userId);
+  if (isBlocked(blockers)) return false;
+
+  // Reclamos: mensajes escritos por la cuenta o dentro de sus reclamos como comprador
+  const claimMessageWhere: Prisma.ClaimMessageWhereInput = {
+    OR: [{ authorId: user.id }, { claim: { buyerId: user.id } }],
+  };
+  const [claimMessages, claims] = await Promise.all([
+    prisma.claimMessage.findMany({ where: claimMessageWhere, select: { attachments: true } }),
+    prisma.claim.findMany({ where: { buyerId: user.id }, select: { attachmentUrl: true } }),
+  ]);
+  const claimFiles = [
+    ...claimMessages.flatMap((m) => attachmentUrls(m.attachments)),
+    ...claims.map((c) => c.attachmentUrl).filter((u): u is string => !!u),
+  ];
+
+  const now = new Date();
+  // Contraseña aleatoria no utilizable (no es un hash bcrypt válido)
+  const unusablePassword = `!anonymized!${crypto.randomBytes(16).toString('hex')}`;
+  const anonEmail = `anon-${user.id}@invalid.local`;
+
+  const counts = await prisma.$transaction(async (tx) => {
+    await tx.user.update({
+      where: { id: user.id },
+      data: {
+        name: ANONYMIZED_NAME,
+        email: anonEmail,
+        password: unusablePassword,
+        rut: null,
+        birthDate: null,
+        documentUrl: null,
+        isActive: false,
+        canSell: false,
+        resetPasswordToken: null,
+        resetPasswordExpires: null,
+        pendingEmail: null,
+        emailVerificationToken: null,
+        emailVerificationExpires: null,
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorEnabledAt: null,
+        twoFactorLastUsedStep: null,
+        tokenVersion: { increment: 1 },
+        anonymizedAt: now,
+      },
+    });
+
+    // Sesiones guardan IP / user-agent
+    const sessions = await tx.session.deleteMany({ where: { userId: user.id } });
+    await tx.twoFactorRecoveryCode.deleteMany({ where: { userId: user.id } });
+
+    // Membresías en equipos de otros organizadores + invitaciones pendientes a su email
+    const memberships = await tx.organizerTeamMember.updateMany({
+      where: { userId: user.id },
+      data: { email: anonEmail, inviteTokenHash: null, revokedAt: now },
+    });
+    await tx.organizerTeamMember.deleteMany({
+      where: { email: user.email, userId: null },
+    });
+
+    // La solicitud de organizador se conserva (estado/fechas) pero sin datos personales
+    if (user.application) {
+      await tx.organizerApplication.update({
+        where: { id: user.application.id },
+        data: {
+          legalName: ANONYMIZED_NAME,
+          taxId: '',
+          phone: null,
+          notes: null,
+          idCardImage: '',
+          idCardImageBack: '',
+          payoutBankName: '',
+          payoutAccountNumber: '',
+          payoutHolderName: '',
+          payoutHolderRut: '',
+        },
+      });
+    }
+
+    // El reclamo conserva estado, motivo y resolución; se borra el texto libre y la evidencia
+    const scrubbedMessages = await tx.claimMessage.updateMany({
+      where: claimMessageWhere,
+      data: { message: null, attachments: Prisma.DbNull },
+    });
+    await tx.claim.updateMany({
+      where: { buyerId: user.id },
+      data: { description: ANONYMIZED_TEXT, attachmentUrl: null },
+    });
+
+    return { sessions: sessions.count, memberships: memberships.count, claimMessages: scrubbedMessages.count };
+  });
+
+  // Archivos: fuera de la transacción (si fallan, se loguea y la cuenta igual queda anonimizada)
+  let filesRemoved = 0;
+  if (await removeUpload(user.documentUrl, process.cwd())) filesRemoved++;
+  if (user.application) {
+    if (await removeUpload(path.basename(user.application.idCardImage || ''), DOCUMENTS_DIR)) filesRemoved++;
+    if (await removeUpload(path.basename(user.application.idCardImageBack || ''), DOCUMENTS_DIR)) filesRemoved++;
+  }
+  for (const url of claimFiles) {
+    if (await removeUpload(path.basename(url), CLAIMS_DIR)) filesRemoved++;
+  }
+  const dataExportsPurged = await purgeUserDataExports(user.id);
+
+  // Sin PII: solo el id y conteos
+  await recordAudit(null, {
+    action: 'user.anonymize',
+    entityType: 'User',
+    entityId: user.id,
+    after: { anonymizedAt: now },
+    metadata: {
+      job: true,
+      sessionsDeleted: counts.sessions,
+      teamMembershipsRevoked: counts.memberships,
+      claimMessagesScrubbed: counts.claimMessages,
+      filesRemoved,
+      dataExportsPurged,
+    },
+  });
+
+  return true;
+}
+
+/**
+ * Corrida del job. Con dryRun=true no escribe nada y devuelve lo que haría.
+ */
+export async function runAnonymizationOnce(opts: { dryRun?: boolean; limit?: number } = {}) {
+  const candidates = await findAnonymizationCandidates(opts.limit);
+  const eligible = candidates.filter((c) => c.eligible);
+  const blocked = candidates.filter((c) => !c.eligible);
+
+  if (opts.dryRun) {
+    return { dryRun: true, cutoff: anonymizationCutoff(), anonymized: 0, eligible, blocked };
+  }
+
+  let anonymized = 0;
+  for (const c of eligible) {
+    try {
+      if (await anonymizeUser(c.userId)) anonymized++;
+    } catch (err) {
+      console.error(`[Anonymize] Error anonimizando usuario ${c.userId}:`, err);
+    }
+  }
+  return { dryRun: false, cutoff: anonymizationCutoff(), anonymized, eligible, blocked };
+}
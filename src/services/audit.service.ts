@@ -0,0 +1,138 @@
+// src/services/audit.service.ts
+// Registro de auditoría (append-only) de acciones privilegiadas
+import type { Request } from 'express';
+import { Prisma } from '@prisma/client';
+import prisma from '../prisma/client';
+
+export const AUDIT_ACTIONS = [
+  // Usuarios
+  'user.can_sell.update',
+  'user.activate',
+  'user.deactivate',
+  'user.soft_delete',
+  'user.anonymize',
+  'user.delete',
+  'user.role.update',
+  'user.sessions.revoke',
+  // Organizadores
+  'organizer.permission.update',
+  'organizer.verify',
+  'organizer_application.approve',
+  'organizer_application.reject',
+  'organizer_application.reopen',
+  // Eventos
+  'event.status.update',
+  'event.review',
+  'event.active.update',
+  'event.delete',
+  'event.cancel',
+  'event.cancellation.retry',
+  'event_category.create',
+  'event_category.update',
+  'event_category.delete',
+  'event_revision.approve',
+  'event_revision.reject',
+  // Tickets / pagos
+  'reservation.ticket.approve',
+  'reservation.ticket.reject',
+  'reservation.approve_and_capture',
+  'reservations.sweep_overdue',
+  'payment.capture',
+  'payment.refund',
+  // Payouts
+  'payout.mark_paid',
+  'payout.retry',
+  'payouts.run',
+  'payouts.retry',
+  'payouts.reconcile',
+  // Reclamos
+  'claim.status.update',
+  'claim.priority.update',
+  // Configuración
+  'config.ticket_limit.update',
+  'config.price_limit.update',
+  'config.platform_fee.update',
+  'config.reservation_hold.update',
+  'config.field_limit.update',
+  'config.system.update',
+  // Auditoría
+  'audit_log.export',
+  // Suplantación
+  'impersonation.start',
+  'impersonation.end',
+] as const;
+
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+type Snapshot = Record<string, unknown>;
+
+export type AuditEntry = {
+  action: AuditAction;
+  entityType: string;
+  entityId?: string | number | null;
+  /** Estado previo (solo campos relevantes; evitar PII) */
+  before?: Snapshot | null;
+  /** Estado posterior (solo campos relevantes; evitar PII) */
+  after?: Snapshot | null;
+  /** Datos extra de contexto (motivo, montos, conteos) */
+  metadata?: Snapshot | null;
+};
+
+/** Convierte a JSON plano (Date → ISO, BigInt/Decimal → string) */
+function toJson(value: unknown): Prisma.InputJsonValue | undefined {
+  if (value == null) return undefined;
+  return JSON.parse(
+    JSON.stringify(value, (_k, v) => (typeof v === 'bigint' ? v.toString() : v))
+  ) as Prisma.InputJsonValue;
+}
+
+/**
+ * Deja solo los campos que cambiaron entre before y after.
+ * Si falta uno de los dos, se devuelven tal cual (creación / eliminación).
+ */
+export function diffSnapshots(before?: Snapshot | null, after?: Snapshot | null) {
+  if (!before || !after) return { before: before ?? null, after: after ?? null };
+
+  const b: Snapshot = {};
+  const a: Snapshot = {};
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+      b[key] = before[key];
+      a[key] = after[key];
+    }
+  }
+  return { before: b, after: a };
+}
+
+/**
+ * Registra una acción privilegiada.
+ * - El actor, IP, user-agent y requestId se toman de la request.
+ * - Nunca lanza: un fallo de auditoría se loguea pero no revierte la acción ya hecha.
+ */
+export async function recordAudit(req: Request | null, entry: AuditEntry): Promise<void> {
+  try {
+    const { before, after } = diffSnapshots(entry.before, entry.after);
+    await prisma.auditLog.create({
+      data: {
+        actorId: req?.user?.id ?? null,
+        actorRole: req?.user?.role ?? null,
+        action: entry.action,
+        entityType: entry.entityType,
+        entityId: entry.entityId != null ? String(entry.entityId) : null,
+        before: toJson(before),
+        after: toJson(after),
+        // Durante "ver como usuario" el actor es el usuario suplantado; se deja constancia del superadmin
+        metadata: toJson(
+          req?.user?.impersonation
+            ? { ...entry.metadata, impersonationId: req.user.impersonation.id, impersonatorId: req.user.impersonation.impersonatorId }
+            : entry.metadata
+        ),
+        ip: req?.ip ? String(req.ip).slice(0, 64) : null,
+        userAgent: req?.get('user-agent')?.slice(0, 512) ?? null,
+        requestId: req?.requestId ?? null,
+      },
+    });
+  } catch (err) {
+    console.error(`[Audit] No se pudo registrar ${entry.action} (${entry.entityType}#${entry.entityId ?? '-'}):`, err);
+  }
+}
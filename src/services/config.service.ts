@@ -129,6 +129,16 @@ export async function getAllowedAccountTypes(): Promise<string[]> {
   return value.split(',').map((s: string) => s.trim());
 }
 
+/**
+ * Campos de un evento aprobado cuyos cambios requieren nueva aprobación (nombres de la API del organizador).
+ * Nombres desconocidos se ignoran, así que un valor como "none" desactiva la revisión.
+ */
+export async function getEventSensitiveFields(): Promise<string[]> {
+  const rules = await getBusinessRules();
+  const value = rules['EVENT_SENSITIVE_FIELDS'] || 'price,sectionPrice,ticketTypePrice,pricePhases,startAt,capacity,description';
+  return String(value).split(',').map((s: string) => s.trim()).filter(Boolean);
+}
+
 /**
  * Obtiene el tiempo de hold de reservas en minutos
  * Prioridad: DB > ENV > Default (15)
@@ -170,6 +180,17 @@ export async function getClaimDeadlineHours(): Promise<number> {
   return 48; // Default
 }
 
+/**
+ * Minutos que dura una oferta de la lista de espera (el hold exclusivo del siguiente en la fila)
+ * Prioridad: DB > Default (30)
+ */
+export async function getWaitlistOfferMinutes(): Promise<number> {
+  await refreshConfigCache();
+  const fromDb = configCache.businessRules?.['WAITLIST_OFFER_MINUTES'];
+  if (typeof fromDb === 'number' && fromDb > 0) return fromDb;
+  return 30; // Default
+}
+
 export function clearConfigCache() {
   configCache = {};
 }
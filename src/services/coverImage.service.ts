@@ -0,0 +1,144 @@
+// src/services/coverImage.service.ts
+// Portadas de eventos: la imagen subida se valida, se endereza según su orientación EXIF, se recorta
+// a 16:9 y se re-codifica en varios anchos (WebP y JPEG) bajo uploads/public/events/<eventId>/.
+// sharp no copia metadatos al re-codificar (salvo withMetadata), así que el EXIF/GPS se descarta.
+import sharp from 'sharp';
+import fs from 'fs';
+import fsPromises from 'fs/promises';
+import path from 'path';
+import type { Prisma } from '@prisma/client';
+import { env } from '../config/env';
+
+export const COVER_ASPECT_RATIO = '16:9';
+const ASPECT = 16 / 9;
+
+/** Anchos generados (px); solo se generan los que no superan el ancho recortado del original */
+export const COVER_WIDTHS = [480, 960, 1600] as const;
+/** Ancho mínimo de la variante usada en el PDF de la entrada (banner a lo ancho de la hoja) */
+export const PDF_COVER_WIDTH = 960;
+
+export const COVER_MIN_WIDTH = 640;
+export const COVER_MIN_HEIGHT = 360;
+export const COVER_MAX_PIXELS = 40_000_000;
+const ALLOWED_FORMATS = new Set(['jpeg', 'png', 'webp']);
+
+const UPLOADS_BASE = env.UPLOAD_DIR ? path.resolve(env.UPLOAD_DIR) : path.join(process.cwd(), 'uploads');
+const COVERS_DIR = path.join(UPLOADS_BASE, 'public', 'events');
+const COVERS_URL = '/uploads/events';
+
+export type CoverImageSize = { width: number; height: number; webp: string; jpeg: string };
+export type CoverImageVariants = { version: string; aspectRatio: string; sizes: CoverImageSize[] };
+
+function coverError(code: string) {
+  return Object.assign(new Error(code), { status: 400 });
+}
+
+function eventDir(eventId: number) {
+  return path.join(COVERS_DIR, String(eventId));
+}
+
+/** Dimensiones ya enderezadas (orientaciones EXIF 5-8 vienen rotadas 90°) */
+async function readDimensions(buffer: Buffer) {
+  let meta: sharp.Metadata;
+  try {
+    meta = await sharp(buffer, { limitInputPixels: COVER_MAX_PIXELS }).metadata();
+  } catch (err) {
+    const tooLarge = /pixel limit/i.test((err as Error)?.message ?? '');
+    throw coverError(tooLarge ? 'COVER_TOO_LARGE' : 'COVER_INVALID_IMAGE');
+  }
+  if (!meta.format || !ALLOWED_FORMATS.has(meta.format)) throw coverError('COVER_UNSUPPORTED_FORMAT');
+  if (!meta.width || !meta.height) throw coverError('COVER_INVALID_IMAGE');
+  if (meta.width * meta.height > COVER_MAX_PIXELS) throw coverError('COVER_TOO_LARGE');
+
+  const rotated = (meta.orientation ?? 1) >= 5;
+  return rotated ? { width: meta.height, height: meta.width } : { width: meta.width, height: meta.height };
+}
+
+/**
+ * Procesa la portada subida y escribe sus variantes. Lanza COVER_INVALID_IMAGE,
+ * COVER_UNSUPPORTED_FORMAT, COVER_TOO_SMALL o COVER_TOO_LARGE (status 400).
+ * Las variantes anteriores siguen en disco hasta pruneCoverFiles.
+ */
+export async function processCoverImage(eventId: number, buffer: Buffer): Promise<CoverImageVariants> {
+  const { width, height } = await readDimensions(buffer);
+  if (width < COVER_MIN_WIDTH || height < COVER_MIN_HEIGHT) throw coverError('COVER_TOO_SMALL');
+
+  // Ancho del recorte 16:9 que cabe en el original (nunca se amplía)
+  const cropWidth = Math.min(width, Math.floor(height * ASPECT));
+  const widths = COVER_WIDTHS.filter((w) => w <= cropWidth);
+
+  // version en el nombre: las URLs cambian con cada subida (el estático se cachea 7 días)
+  const version = Date.now().toString(36);
+  const dir = eventDir(eventId);
+  await fsPromises.mkdir(dir, { recursive: true });
+
+  const source = sharp(buffer, { limitInputPixels: COVER_MAX_PIXELS }).rotate();
+  const sizes: CoverImageSize[] = [];
+  try {
+    for (const w of widths) {
+      const h = Math.round(w / ASPECT);
+      const resized = source.clone().resize(w, h, { fit: 'cover', position: sharp.strategy.attention });
+      const name = `${version}-${w}`;
+      await Promise.all([
+        resized.clone().webp({ quality: 80 }).toFile(path.join(dir, `${name}.webp`)),
+        resized.clone().flatten({ background: '#ffffff' }).jpeg({ quality: 82, progressive: true, mozjpeg: true })
+          .toFile(path.join(dir, `${name}.jpg`)),
+      ]);
+      sizes.push({
+        width: w,
+        height: h,
+        webp: `${COVERS_URL}/${eventId}/${name}.webp`,
+        jpeg: `${COVERS_URL}/${eventId}/${name}.jpg`,
+      });
+    }
+  } catch {
+    // Decodificación fallida (archivo truncado o corrupto): no dejar variantes a medias
+    await removeFiles(eventId, (v) => v === version);
+    throw coverError('COVER_INVALID_IMAGE');
+  }
+
+  return { version, aspectRatio: COVER_ASPECT_RATIO, sizes };
+}
+
+/** URL que se guarda en coverImageUrl: el JPEG más grande (compatible con clientes antiguos) */
+export function primaryCoverUrl(variants: CoverImageVariants) {
+  return variants.sizes[variants.sizes.length - 1]?.jpeg ?? null;
+}
+
+async function removeFiles(eventId: number, match: (version: string) => boolean) {
+  const dir = eventDir(eventId);
+  const files = await fsPromises.readdir(dir).catch(() => [] as string[]);
+  const stale = files.filter((f) => match(f.split('-')[0] ?? ''));
+  await Promise.all(stale.map((f) => fsPromises.unlink(path.join(dir, f)).catch(() => undefined)));
+}
+
+/** Elimina las variantes del evento en disco salvo las versiones indicadas (sin ellas, todas). Nunca lanza */
+export async function pruneCoverFiles(eventId: number, ...keepVersions: Array<string | undefined>) {
+  await removeFiles(eventId, (version) => !keepVersions.includes(version));
+}
+
+/** Lee las variantes guardadas en Event.coverImageVariants (null si no hay o el formato no calza) */
+export function readCoverVariants(value: Prisma.JsonValue | null | undefined): CoverImageVariants | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const { version, aspectRatio, sizes } = value as Record<string, unknown>;
+  if (typeof version !== 'string' || !Array.isArray(sizes) || !sizes.length) return null;
+  return {
+    version,
+    aspectRatio: typeof aspectRatio === 'string' ? aspectRatio : COVER_ASPECT_RATIO,
+    sizes: sizes as CoverImageSize[],
+  };
+}
+
+/**
+ * Ruta local del JPEG más pequeño con ancho >= minWidth (o el más grande disponible),
+ * para incrustarlo en PDFs (pdfkit solo admite JPEG y PNG). undefined si no hay portada procesada.
+ */
+export function coverImageFile(eventId: number, value: Prisma.JsonValue | null | undefined, minWidth = PDF_COVER_WIDTH) {
+  const variants = readCoverVariants(value);
+  if (!variants) return undefined;
+  const sorted = [...variants.sizes].sort((a, b) => a.width - b.width);
+  const size = sorted.find((s) => s.width >= minWidth) ?? sorted[sorted.length - 1];
+  if (!size) return undefined;
+  const file = path.join(eventDir(eventId), path.basename(size.jpeg));
+  return fs.existsSync(file) ? file : undefined;
+}
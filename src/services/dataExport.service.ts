@@ -0,0 +1,423 @@
+// src/services/dataExport.service.ts
+// Exportación de datos personales ("descargar mis datos"): arma un ZIP de forma asíncrona
+// y envía al usuario un link de descarga con vencimiento.
+import fs, { promises as fsPromises } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import prisma from '../prisma/client';
+import { env } from '../config/env';
+import { createDataExportToken, passwordResetExpiry } from '../utils/auth';
+import { formatRut } from '../utils/rut';
+import { ZipWriter } from '../utils/zip';
+import { sendDataExportReadyEmail } from './email.service';
+
+const UPLOADS_BASE = env.UPLOAD_DIR
+  ? path.resolve(env.UPLOAD_DIR)
+  : path.join(process.cwd(), 'uploads');
+
+const EXPORTS_DIR = path.join(UPLOADS_BASE, 'private', 'exports');
+const DOCUMENTS_DIR = path.join(UPLOADS_BASE, 'documents');
+
+const MAX_ATTEMPTS = 3;
+// Una exportación en PROCESSING por más de este tiempo se considera abandonada (reinicio del server)
+const STALE_PROCESSING_MS = 30 * 60 * 1000;
+
+/* ===================== Enmascarado ===================== */
+
+/** Deja visibles solo los últimos `visible` caracteres: "••••••1234" */
+export function maskTail(value: string | null | undefined, visible = 4): string | null {
+  if (!value) return null;
+  const s = String(value);
+  if (s.length <= visible) return '•'.repeat(s.length);
+  return '•'.repeat(s.length - visible) + s.slice(-visible);
+}
+
+/* ===================== Recolección ===================== */
+
+async function collectUserData(userId: number) {
+  const profile = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      rut: true,
+      birthDate: true,
+      role: true,
+      canSell: true,
+      isVerified: true,
+      isActive: true,
+      emailVerified: true,
+      emailVerifiedAt: true,
+      twoFactorEnabled: true,
+      createdAt: true,
+      updatedAt: true,
+      deletedAt: true,
+    },
+  });
+  if (!profile) throw new Error('Usuario no encontrado');
+
+  const reservations = await prisma.reservation.findMany({
+    where: { buyerId: userId },
+    orderBy: { createdAt: 'asc' },
+    include: {
+      event: { select: { id: true, title: true, date: true, location: true, city: true, commune: true } },
+      generatedTickets: {
+        orderBy: { ticketNumber: 'asc' },
+        select: { id: true, ticketNumber: true, seatNumber: true, scanned: true, scannedAt: true, pdfPath: true, createdAt: true },
+      },
+      payment: true,
+    },
+  });
+
+  const claims = await prisma.claim.findMany({
+    where: { buyerId: userId },
+    orderBy: { createdAt: 'asc' },
+    include: {
+      event: { select: { id: true, title: true } },
+      messages: { orderBy: { createdAt: 'asc' } },
+    },
+  });
+
+  const application = await prisma.organizerApplication.findUnique({ where: { userId } });
+
+  const account = await prisma.connectedAccount.findUnique({
+    where: { userId },
+    include: { payouts: { orderBy: { createdAt: 'asc' } } },
+  });
+
+  return { profile, reservations, claims, application, account };
+}
+
+type UserData = Awaited<ReturnType<typeof collectUserData>>;
+
+/** Nombre de archivo (sin ruta) de adjuntos guardados como URL/path */
+function fileNameOf(p: unknown): string {
+  return path.basename(String(p ?? ''));
+}
+
+/* ===================== Armado del ZIP ===================== */
+
+async function addFileIfExists(zip: ZipWriter, zipName: string, absPath: string, missing: string[]) {
+  try {
+    const buf = await fsPromises.readFile(absPath);
+    await zip.addFile(zipName, buf);
+    return zipName;
+  } catch {
+    missing.push(zipName);
+    return null;
+  }
+}
+
+async function writeArchive(zip: ZipWriter, data: UserData) {
+  const { profile, reservations, claims, application, account } = data;
+  const json = (v: unknown) => JSON.stringify(v, null, 2);
+  const missingFiles: string[] = [];
+
+  await zip.addFile('perfil.json', json({ ...profile, rut: formatRut(profile.rut) || null }));
+
+  // Reservas + PDFs de tickets generados
+  const reservationsOut = [];
+  for (const r of reservations) {
+    const tickets = [];
+    for (const t of r.generatedTickets) {
+      const file = await addFileIfExists(
+        zip,
+        `tickets/${r.code}-${t.ticketNumber}.pdf`,
+        path.resolve(t.pdfPath),
+        missingFiles
+      );
+      tickets.push({
+        ticketNumber: t.ticketNumber,
+        seatNumber: t.seatNumber,
+        scanned: t.scanned,
+        scannedAt: t.scannedAt,
+        createdAt: t.createdAt,
+        file,
+      });
+    }
+    // LEGACY: un PDF por reserva
+    let legacyFile: string | null = null;
+    if (r.generatedPdfPath) {
+      legacyFile = await addFileIfExists(zip, `tickets/${r.code}.pdf`, path.resolve(r.generatedPdfPath), missingFiles);
+    }
+
+    reservationsOut.push({
+      id: r.id,
+      code: r.code,
+      event: r.event,
+      quantity: r.quantity,
+      amount: r.amount,
+      status: r.status,
+      seatAssignment: r.seatAssignment,
+      createdAt: r.createdAt,
+      paidAt: r.paidAt,
+      refundStatus: r.refundStatus,
+      refundedAt: r.refundedAt,
+      tickets,
+      legacyTicketFile: legacyFile,
+    });
+  }
+  await zip.addFile('reservas.json', json(reservationsOut));
+
+  // Pagos (sin tokens ni códigos de autorización)
+  const payments = reservations
+    .filter((r) => r.payment)
+    .map((r) => {
+      const p = r.payment!;
+      return {
+        id: p.id,
+        reservationCode: r.code,
+        buyOrder: maskTail(p.buyOrder),
+        amount: p.amount,
+        currency: p.currency,
+        status: p.status,
+        card: p.cardLast4 ? `•••• ${p.cardLast4}` : null,
+        installmentsNumber: p.installmentsNumber,
+        transactionDate: p.transactionDate,
+        capturedAmount: p.capturedAmount,
+        refundedAmount: p.refundedAmount,
+        createdAt: p.createdAt,
+      };
+    });
+  await zip.addFile('pagos.json', json(payments));
+
+  await zip.addFile(
+    'reclamos.json',
+    json(
+      claims.map((c) => ({
+        id: c.id,
+        event: c.event,
+        reason: c.reason,
+        description: c.description,
+        status: c.status,
+        resolution: c.resolution,
+        createdAt: c.createdAt,
+        resolvedAt: c.resolvedAt,
+        messages: c.messages.map((m) => ({
+          type: m.type,
+          authorRole: m.authorRole,
+          message: m.message,
+          attachments: Array.isArray(m.attachments) ? m.attachments.map(fileNameOf) : [],
+          createdAt: m.createdAt,
+        })),
+      }))
+    )
+  );
+
+  if (application) {
+    const front = await addFileIfExists(
+      zip,
+      `solicitud-organizador/${fileNameOf(application.idCardImage)}`,
+      path.join(DOCUMENTS_DIR, fileNameOf(application.idCardImage)),
+      missingFiles
+    );
+    const back = await addFileIfExists(
+      zip,
+      `solicitud-organizador/${fileNameOf(application.idCardImageBack)}`,
+      path.join(DOCUMENTS_DIR, fileNameOf(application.idCardImageBack)),
+      missingFiles
+    );
+    await zip.addFile(
+      'solicitud-organizador/solicitud.json',
+      json({
+        legalName: application.legalName,
+        taxId: formatRut(application.taxId),
+        phone: application.phone,
+        notes: application.notes,
+        status: application.status,
+        payoutBankName: application.payoutBankName,
+        payoutAccountType: application.payoutAccountType,
+        payoutAccountNumber: maskTail(application.payoutAccountNumber),
+        payoutHolderName: application.payoutHolderName,
+        payoutHolderRut: formatRut(application.payoutHolderRut),
+        idCardImage: front,
+        idCardImageBack: back,
+        createdAt: application.createdAt,
+        updatedAt: application.updatedAt,
+      })
+    );
+  }
+
+  if (account) {
+    await zip.addFile(
+      'payouts.json',
+      json({
+        account: {
+          payoutsEnabled: account.payoutsEnabled,
+          payoutBankName: account.payoutBankName,
+          payoutAccountType: account.payoutAccountType,
+          payoutAccountNumber: maskTail(account.payoutAccountNumber),
+          payoutHolderName: account.payoutHolderName,
+          payoutHolderRut: formatRut(account.payoutHolderRut) || null,
+        },
+        payouts: account.payouts.map((p) => ({
+          id: p.id,
+          reservationId: p.reservationId,
+          amount: p.amount,
+          currency: p.currency,
+          status: p.status,
+          scheduledFor: p.scheduledFor,
+          paidAt: p.paidAt,
+          createdAt: p.createdAt,
+        })),
+      })
+    );
+  }
+
+  await zip.addFile(
+    'LEEME.txt',
+    [
+      'Copia de tus datos personales en ConfiaTicket',
+      `Generada: ${new Date().toISOString()}`,
+      '',
+      'perfil.json                 Datos de tu cuenta',
+      'reservas.json               Compras y tickets (PDFs en tickets/)',
+      'pagos.json                  Pagos (datos de tarjeta y orden enmascarados)',
+      'reclamos.json               Reclamos y sus mensajes',
+      'solicitud-organizador/      Solicitud de organizador (si existe)',
+      'payouts.json                Cuenta de cobro y payouts (si existe)',
+      '',
+      missingFiles.length
+        ? `Archivos no disponibles al momento de generar la copia:\n${missingFiles.map((f) => `  - ${f}`).join('\n')}`
+        : 'Todos los archivos referenciados están incluidos.',
+      '',
+    ].join('\n')
+  );
+}
+
+/* ===================== Procesamiento ===================== */
+
+/**
+ * Procesa una solicitud PENDING: arma el ZIP, genera el token de descarga y envía el email.
+ * Toma la solicitud de forma condicional (PENDING → PROCESSING) para no procesarla dos veces.
+ */
+export async function processDataExport(requestId: number): Promise<boolean> {
+  const claimed = await prisma.dataExportRequest.updateMany({
+    where: { id: requestId, status: 'PENDING' },
+    data: { status: 'PROCESSING', startedAt: new Date(), attempts: { increment: 1 } },
+  });
+  if (claimed.count === 0) return false;
+
+  const request = await prisma.dataExportRequest.findUniqueOrThrow({
+    where: { id: requestId },
+    include: { user: { select: { id: true, name: true, email: true } } },
+  });
+
+  await fsPromises.mkdir(EXPORTS_DIR, { recursive: true });
+  const filePath = path.join(EXPORTS_DIR, `export-${request.id}-${crypto.randomBytes(8).toString('hex')}.zip`);
+
+  let zip: ZipWriter | null = null;
+  try {
+    const data = await collectUserData(request.userId);
+    zip = await ZipWriter.create(filePath);
+    await writeArchive(zip, data);
+    const fileSize = await zip.finalize();
+    zip = null;
+
+    const { raw, hash } = createDataExportToken();
+    const expiresAt = passwordResetExpiry(env.DATA_EXPORT_EXPIRES_HOURS);
+
+    await prisma.dataExportRequest.update({
+      where: { id: request.id },
+      data: {
+        status: 'READY',
+        filePath,
+        fileSize,
+        downloadTokenHash: hash,
+        expiresAt,
+        completedAt: new Date(),
+        failureMessage: null,
+      },
+    });
+
+    const downloadUrl = `${env.BACKEND_URL}/api/account/data-export/download/${raw}`;
+    await sendDataExportReadyEmail({
+      email: request.user.email,
+      name: request.user.name,
+      downloadUrl,
+      expiresAt,
+    });
+
+    console.log(`[DataExport] Exportación ${request.id} lista (${fileSize} bytes)`);
+    return true;
+  } catch (err) {
+    console.error(`[DataExport] Error en exportación ${request.id}:`, err);
+    if (zip) await zip.abort();
+    await fsPromises.rm(filePath, { force: true }).catch(() => undefined);
+
+    // Se reintenta en la siguiente corrida del job hasta MAX_ATTEMPTS
+    const retry = request.attempts < MAX_ATTEMPTS;
+    await prisma.dataExportRequest.update({
+      where: { id: request.id },
+      data: {
+        status: retry ? 'PENDING' : 'FAILED',
+        failureMessage: String((err as Error)?.message || 'Error generando la exportación').slice(0, 255),
+      },
+    });
+    return false;
+  }
+}
+
+/** Fire-and-forget: procesa la solicitud sin bloquear la respuesta HTTP */
+export function queueDataExport(requestId: number): void {
+  processDataExport(requestId).catch((err) => {
+    console.error(`[DataExport] Error inesperado en exportación ${requestId}:`, err);
+  });
+}
+
+/**
+ * Corrida del job:
+ * - Devuelve a PENDING las exportaciones colgadas en PROCESSING (p.ej. por un reinicio).
+ * - Procesa las PENDING de a una.
+ * - Elimina los archivos vencidos y marca las solicitudes como EXPIRED.
+ */
+export async function runDataExportsOnce(limit = 5) {
+  await prisma.dataExportRequest.updateMany({
+    where: { status: 'PROCESSING', startedAt: { lt: new Date(Date.now() - STALE_PROCESSING_MS) } },
+    data: { status: 'PENDING' },
+  });
+
+  const pending = await prisma.dataExportRequest.findMany({
+    where: { status: 'PENDING' },
+    orderBy: { createdAt: 'asc' },
+    take: limit,
+    select: { id: true },
+  });
+  let processed = 0;
+  for (const p of pending) {
+    if (await processDataExport(p.id)) processed++;
+  }
+
+  const expired = await prisma.dataExportRequest.findMany({
+    where: { status: 'READY', expiresAt: { lte: new Date() } },
+    select: { id: true, filePath: true },
+  });
+  for (const e of expired) {
+    if (e.filePath && fs.existsSync(e.filePath)) {
+      await fsPromises.rm(e.filePath, { force: true });
+    }
+    await prisma.dataExportRequest.update({
+      where: { id: e.id },
+      data: { status: 'EXPIRED', filePath: null, downloadTokenHash: null },
+    });
+  }
+
+  return { processed, expired: expired.length };
+}
+
+/**
+ * Elimina todas las exportaciones de un usuario (archivos + filas).
+ * Se usa al anonimizar la cuenta: el ZIP contiene justamente los datos que se borran.
+ */
+export async function purgeUserDataExports(userId: number) {
+  const rows = await prisma.dataExportRequest.findMany({
+    where: { userId },
+    select: { id: true, filePath: true },
+  });
+  for (const r of rows) {
+    if (r.filePath) await fsPromises.rm(r.filePath, { force: true }).catch(() => undefined);
+  }
+  const { count } = await prisma.dataExportRequest.deleteMany({ where: { userId } });
+  return count;
+}
@@ -133,6 +133,18 @@ function formatAmount(amount: number): string {
   return `$${amount.toLocaleString('es-CL')}`;
 }
 
+/**
+ * Helper para escapar texto libre (organizador, revisor) antes de insertarlo en el HTML
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
 /**
  * Envía un email (wrapper interno) con retry logic
  * Usa SendGrid API si está configurado, sino usa SMTP
@@ -866,9 +878,658 @@ export async function sendClaimStatusUpdateEmail(data: {
   });
 }
 
+/**
+ * Envía enlace para restablecer contraseña (token de un solo uso)
+ */
+export async function sendPasswordResetEmail(data: {
+  email: string;
+  name: string;
+  resetUrl: string;
+  expiresAt: Date;
+}): Promise<boolean> {
+  const { email, name, resetUrl, expiresAt } = data;
+
+  const html = `
+    <!DOCTYPE html>
+    <html lang="es">
+    <head>
+      <meta charset="utf-8">
+      <style>
+        body { font-family: sans-serif; line-height: 1.6; color: #333; background: #f3f4f6; }
+        .container { max-width: 600px; margin: 20px auto; background: white; border-radius: 12px; overflow: hidden; box-shadow: 0 4px 6px rgba(0,0,0,0.1); }
+        .header { background: #2563eb; color: white; padding: 30px; text-align: center; }
+        .content { padding: 30px; }
+        .button { display: inline-block; background: #2563eb; color: white !important; padding: 12px 24px; text-decoration: none; border-radius: 8px; font-weight: 600; }
+        .note { color: #6b7280; font-size: 14px; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>🔑 Restablecer contraseña</h1>
+        </div>
+        <div class="content">
+          <p>Hola <strong>${name}</strong>,</p>
+          <p>
+            Recibimos una solicitud para restablecer la contraseña de tu cuenta.
+            Haz clic en el botón para elegir una nueva contraseña.
+          </p>
+
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${resetUrl}" class="button">
+              Restablecer contraseña
+            </a>
+          </div>
+
+          <p class="note">
+            El enlace es de un solo uso y vence el <strong>${formatDate(expiresAt)}</strong>.
+            Si no solicitaste este cambio, ignora este correo: tu contraseña actual seguirá funcionando.
+          </p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+
+  return sendEmail({
+    to: email,
+    subject: '🔑 Restablece tu contraseña - ConfiaTicket',
+    html,
+  });
+}
+
+/**
+ * Envía enlace para confirmar la propiedad de un email (registro o cambio de correo)
+ */
+export async function sendEmailVerificationEmail(data: {
+  email: string;
+  name: string;
+  verifyUrl: string;
+  expiresAt: Date;
+  isChange?: boolean;
+}): Promise<boolean> {
+  const { email, name, verifyUrl, expiresAt, isChange } = data;
+
+  const intro = isChange
+    ? 'Solicitaste cambiar el correo de tu cuenta a esta dirección. Confírmalo para completar el cambio; mientras tanto seguiremos usando tu correo anterior.'
+    : 'Gracias por registrarte. Confirma tu correo para poder comprar entradas y recibirlas sin problemas.';
+
+  const html = `
+    <!DOCTYPE html>
+    <html lang="es">
+    <head>
+      <meta charset="utf-8">
+      <style>
+        body { font-family: sans-serif; line-height: 1.6; color: #333; background: #f3f4f6; }
+        .container { max-width: 600px; margin: 20px auto; background: white; border-radius: 12px; overflow: hidden; box-shadow: 0 4px 6px rgba(0,0,0,0.1); }
+        .header { background: #059669; color: white; padding: 30px; text-align: center; }
+        .content { padding: 30px; }
+        .button { display: inline-block; background: #059669; color: white !important; padding: 12px 24px; text-decoration: none; border-radius: 8px; font-weight: 600; }
+        .note { color: #6b7280; font-size: 14px; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>✉️ Confirma tu correo</h1>
+        </div>
+        <div class="content">
+          <p>Hola <strong>${name}</strong>,</p>
+          <p>${intro}</p>
+
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${verifyUrl}" class="button">
+              Confirmar correo
+            </a>
+          </div>
+
+          <p class="note">
+            El enlace vence el <strong>${formatDate(expiresAt)}</strong>.
+            Si no reconoces esta solicitud, ignora este correo.
+          </p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+
+  return sendEmail({
+    to: email,
+    subject: isChange
+      ? '✉️ Confirma tu nuevo correo - ConfiaTicket'
+      : '✉️ Confirma tu correo - ConfiaTicket',
+    html,
+  });
+}
+
+/**
+ * Invitación a unirse al equipo de un organizador (staff de puerta, boletería, gestión)
+ */
+export async function sendTeamInvitationEmail(data: {
+  email: string;
+  organizerName: string;
+  roleLabel: string;
+  eventTitles: string[];
+  acceptUrl: string;
+  expiresAt: Date;
+}): Promise<boolean> {
+  const { email, organizerName, roleLabel, eventTitles, acceptUrl, expiresAt } = data;
+
+  const eventsHtml = eventTitles.length
+    ? `<ul>${eventTitles.map((t) => `<li>${escapeHtml(t)}</li>`).join('')}</ul>`
+    : '<p class="note">Aún no tienes eventos asignados; el organizador puede asignártelos más tarde.</p>';
+
+  const html = `
+    <!DOCTYPE html>
+    <html lang="es">
+    <head>
+      <meta charset="utf-8">
+      <style>
+        body { font-family: sans-serif; line-height: 1.6; color: #333; background: #f3f4f6; }
+        .container { max-width: 600px; margin: 20px auto; background: white; border-radius: 12px; overflow: hidden; box-shadow: 0 4px 6px rgba(0,0,0,0.1); }
+        .header { background: #7c3aed; color: white; padding: 30px; text-align: center; }
+        .content { padding: 30px; }
+        .button { display: inline-block; background: #7c3aed; color: white !important; padding: 12px 24px; text-decoration: none; border-radius: 8px; font-weight: 600; }
+        .note { color: #6b7280; font-size: 14px; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>🤝 Invitación al equipo</h1>
+        </div>
+        <div class="content">
+          <p>Hola,</p>
+          <p><strong>${escapeHtml(organizerName)}</strong> te invitó a su equipo en ConfiaTicket con el rol <strong>${escapeHtml(roleLabel)}</strong>.</p>
+          <p>Eventos asignados:</p>
+          ${eventsHtml}
+
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${acceptUrl}" class="button">
+              Aceptar invitación
+            </a>
+          </div>
+
+          <p class="note">
+            Debes iniciar sesión (o registrarte) con este mismo correo para aceptar.
+            La invitación vence el <strong>${formatDate(expiresAt)}</strong>.
+            Si no esperabas esta invitación, ignora este correo.
+          </p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+
+  return sendEmail({
+    to: email,
+    subject: `🤝 ${organizerName} te invitó a su equipo - ConfiaTicket`,
+    html,
+  });
+}
+
+/**
+ * Exportación de datos personales lista para descargar
+ */
+export async function sendDataExportReadyEmail(data: {
+  email: string;
+  name: string;
+  downloadUrl: string;
+  expiresAt: Date;
+}): Promise<boolean> {
+  const { email, name, downloadUrl, expiresAt } = data;
+
+  const html = `
+    <!DOCTYPE html>
+    <html lang="es">
+    <head>
+      <meta charset="utf-8">
+      <style>
+        body { font-family: sans-serif; line-height: 1.6; color: #333; background: #f3f4f6; }
+        .container { max-width: 600px; margin: 20px auto; background: white; border-radius: 12px; overflow: hidden; box-shadow: 0 4px 6px rgba(0,0,0,0.1); }
+        .header { background: #2563eb; color: white; padding: 30px; text-align: center; }
+        .content { padding: 30px; }
+        .button { display: inline-block; background: #2563eb; color: white !important; padding: 12px 24px; text-decoration: none; border-radius: 8px; font-weight: 600; }
+        .note { color: #6b7280; font-size: 14px; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>📦 Tus datos están listos</h1>
+        </div>
+        <div class="content">
+          <p>Hola ${name},</p>
+          <p>Preparamos la copia de tus datos personales en ConfiaTicket: perfil, compras, tickets, pagos, reclamos y, si corresponde, tu solicitud de organizador y tus payouts.</p>
+
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${downloadUrl}" class="button">
+              Descargar mis datos
+            </a>
+          </div>
+
+          <p class="note">
+            El enlace vence el <strong>${formatDate(expiresAt)}</strong>; después el archivo se elimina y puedes solicitar uno nuevo.
+            No compartas este enlace: cualquiera que lo tenga puede descargar tus datos.
+            Si no solicitaste esta exportación, cambia tu contraseña y contáctanos.
+          </p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+
+  return sendEmail({
+    to: email,
+    subject: '📦 Tu copia de datos está lista - ConfiaTicket',
+    html,
+  });
+}
+
+/**
+ * Aviso al comprador de que el evento fue cancelado, con el estado del reembolso
+ * de cada una de sus compras.
+ */
+export async function sendEventCanceledEmail(data: {
+  email: string;
+  name: string;
+  eventTitle: string;
+  eventDate: Date;
+  reason: string;
+  reservations: Array<{ code: string; amount: number; refunded: boolean }>;
+}): Promise<boolean> {
+  const { email, name, eventTitle, eventDate, reason, reservations } = data;
+  const anyFailed = reservations.some((r) => !r.refunded);
+
+  const rows = reservations
+    .map(
+      (r) => `
+          <tr>
+            <td style="padding: 8px; border-bottom: 1px solid #e5e7eb;">${r.code}</td>
+            <td style="padding: 8px; border-bottom: 1px solid #e5e7eb;">${formatAmount(r.amount)}</td>
+            <td style="padding: 8px; border-bottom: 1px solid #e5e7eb;">${r.refunded ? 'Reembolsado' : 'En gestión'}</td>
+          </tr>`
+    )
+    .join('');
+
+  const html = `
+    <!DOCTYPE html>
+    <html lang="es">
+    <head>
+      <meta charset="utf-8">
+      <style>
+        body { font-family: sans-serif; line-height: 1.6; color: #333; background: #f3f4f6; }
+        .container { max-width: 600px; margin: 20px auto; background: white; border-radius: 12px; overflow: hidden; box-shadow: 0 4px 6px rgba(0,0,0,0.1); }
+        .header { background: #dc2626; color: white; padding: 30px; text-align: center; }
+        .content { padding: 30px; }
+        .reason { background: #fef2f2; border-left: 4px solid #dc2626; padding: 12px 16px; margin: 20px 0; }
+        .note { color: #6b7280; font-size: 14px; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>Evento cancelado</h1>
+        </div>
+        <div class="content">
+          <p>Hola ${escapeHtml(name)},</p>
+          <p>Lamentamos informarte que el evento <strong>${escapeHtml(eventTitle)}</strong>, programado para el ${formatDate(eventDate)}, fue cancelado.</p>
+
+          <div class="reason">${escapeHtml(reason)}</div>
+
+          <p>Tus entradas quedaron anuladas y no serán válidas en el acceso. Este es el estado de tus compras:</p>
+          <table style="width: 100%; border-collapse: collapse;">
+            <tr>
+              <th style="text-align: left; padding: 8px; border-bottom: 2px solid #e5e7eb;">Reserva</th>
+              <th style="text-align: left; padding: 8px; border-bottom: 2px solid #e5e7eb;">Monto</th>
+              <th style="text-align: left; padding: 8px; border-bottom: 2px solid #e5e7eb;">Reembolso</th>
+            </tr>
+            ${rows}
+          </table>
+
+          <p class="note">
+            ${anyFailed
+              ? 'Algunos reembolsos no pudieron procesarse automáticamente; nuestro equipo los gestionará y te contactaremos.'
+              : 'El reembolso se realizó al mismo medio de pago; según tu banco puede tardar algunos días hábiles en reflejarse.'}
+          </p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+
+  return sendEmail({
+    to: email,
+    subject: `Evento cancelado: ${eventTitle} - ConfiaTicket`,
+    html,
+  });
+}
+
+/**
+ * Aviso formal de cambio de fecha/lugar: muestra antes → después y un enlace por compra
+ * para pedir el reembolso mientras la ventana esté abierta.
+ */
+export async function sendEventChangedEmail(data: {
+  email: string;
+  name: string;
+  eventTitle: string;
+  previousDate: Date;
+  newDate: Date;
+  previousLocation: string;
+  newLocation: string;
+  reason: string;
+  refundWindowEndsAt: Date;
+  reservations: Array<{ id: number; code: string; amount: number }>;
+}): Promise<boolean> {
+  const { email, name, eventTitle, previousDate, newDate, previousLocation, newLocation, reason, refundWindowEndsAt, reservations } = data;
+  const dateChanged = previousDate.getTime() !== newDate.getTime();
+  const locationChanged = previousLocation !== newLocation;
+
+  const changeRows = [
+    dateChanged
+      ? `<tr><td style="padding: 8px;"><strong>Fecha</strong></td><td style="padding: 8px;"><s>${formatDate(previousDate)}</s><br>${formatDate(newDate)}</td></tr>`
+      : '',
+    locationChanged
+      ? `<tr><td style="padding: 8px;"><strong>Lugar</strong></td><td style="padding: 8px;"><s>${escapeHtml(previousLocation)}</s><br>${escapeHtml(newLocation)}</td></tr>`
+      : '',
+  ].join('');
+
+  const refundLinks = reservations
+    .map(
+      (r) => `
+          <p>
+            Reserva ${r.code} (${formatAmount(r.amount)}):
+            <a href="${env.FRONTEND_URL}/mis-entradas?reembolsoCambio=${r.id}" class="button">Solicitar reembolso</a>
+          </p>`
+    )
+    .join('');
+
+  const html = `
+    <!DOCTYPE html>
+    <html lang="es">
+    <head>
+      <meta charset="utf-8">
+      <style>
+        body { font-family: sans-serif; line-height: 1.6; color: #333; background: #f3f4f6; }
+        .container { max-width: 600px; margin: 20px auto; background: white; border-radius: 12px; overflow: hidden; box-shadow: 0 4px 6px rgba(0,0,0,0.1); }
+        .header { background: #d97706; color: white; padding: 30px; text-align: center; }
+        .content { padding: 30px; }
+        .reason { background: #fffbeb; border-left: 4px solid #d97706; padding: 12px 16px; margin: 20px 0; }
+        .button { display: inline-block; background: #2563eb; color: white !important; padding: 8px 16px; text-decoration: none; border-radius: 8px; font-weight: 600; }
+        .note { color: #6b7280; font-size: 14px; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>Cambio en tu evento</h1>
+        </div>
+        <div class="content">
+          <p>Hola ${escapeHtml(name)},</p>
+          <p>El organizador de <strong>${escapeHtml(eventTitle)}</strong> publicó un cambio:</p>
+          <table style="width: 100%; border-collapse: collapse;">
+            ${changeRows}
+          </table>
+
+          <div class="reason">${escapeHtml(reason)}</div>
+
+          <p>Tus entradas siguen siendo válidas para la nueva fecha/lugar; no necesitas hacer nada para asistir.</p>
+          <p>Si ya no puedes asistir, puedes pedir el reembolso total hasta el <strong>${formatDate(refundWindowEndsAt)}</strong>:</p>
+          ${refundLinks}
+
+          <p class="note">
+            Al pedir el reembolso tus entradas se anulan. En compras de varias secciones se reembolsa la compra completa.
+            El dinero vuelve al mismo medio de pago; según tu banco puede tardar algunos días hábiles en reflejarse.
+          </p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+
+  return sendEmail({
+    to: email,
+    subject: `Cambio de fecha/lugar: ${eventTitle} - ConfiaTicket`,
+    html,
+  });
+}
+
+/**
+ * Aviso al organizador de cada transición de la revisión de su evento
+ * (envío recibido, aprobado, cambios solicitados, rechazado), con los comentarios por campo.
+ */
+export async function sendEventReviewEmail(data: {
+  email: string;
+  name: string;
+  eventId: number;
+  eventTitle: string;
+  status: string;
+  message?: string | null;
+  comments?: Array<{ field: string; message: string }>;
+}): Promise<boolean> {
+  const { email, name, eventId, eventTitle, status, message, comments = [] } = data;
+
+  const statusText: Record<string, { title: string; text: string; color: string }> = {
+    SUBMITTED: {
+      title: 'Evento en revisión',
+      text: 'Recibimos tu evento y quedó en la cola de revisión. Te avisaremos cuando el equipo lo revise.',
+      color: '#2563eb',
+    },
+    APPROVED: {
+      title: 'Evento aprobado',
+      text: 'Tu evento fue aprobado y ya es visible para el público (o lo será en su fecha de publicación).',
+      color: '#059669',
+    },
+    CHANGES_REQUESTED: {
+      title: 'Se solicitaron cambios',
+      text: 'El equipo de revisión pidió algunos cambios. Corrige lo indicado y vuelve a enviar el evento a revisión.',
+      color: '#d97706',
+    },
+    REJECTED: {
+      title: 'Evento rechazado',
+      text: 'Tu evento fue rechazado y no será publicado.',
+      color: '#dc2626',
+    },
+  };
+  const info = statusText[status] || { title: 'Actualización de revisión', text: '', color: '#6b7280' };
+  const eventUrl = `${env.FRONTEND_URL}/organizador/eventos/${eventId}`;
+
+  const commentRows = comments
+    .map(
+      (c) => `
+            <tr>
+              <td style="padding: 8px; border-bottom: 1px solid #e5e7eb; vertical-align: top;"><strong>${escapeHtml(c.field)}</strong></td>
+              <td style="padding: 8px; border-bottom: 1px solid #e5e7eb;">${escapeHtml(c.message)}</td>
+            </tr>`
+    )
+    .join('');
+
+  const html = `
+    <!DOCTYPE html>
+    <html lang="es">
+    <head>
+      <meta charset="utf-8">
+      <style>
+        body { font-family: sans-serif; line-height: 1.6; color: #333; background: #f3f4f6; }
+        .container { max-width: 600px; margin: 20px auto; background: white; border-radius: 12px; overflow: hidden; box-shadow: 0 4px 6px rgba(0,0,0,0.1); }
+        .header { background: ${info.color}; color: white; padding: 30px; text-align: center; }
+        .content { padding: 30px; }
+        .reason { background: #f9fafb; border-left: 4px solid ${info.color}; padding: 12px 16px; margin: 20px 0; }
+        .button { display: inline-block; background: ${info.color}; color: white !important; padding: 12px 24px; text-decoration: none; border-radius: 8px; font-weight: 600; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>${info.title}</h1>
+        </div>
+        <div class="content">
+          <p>Hola ${escapeHtml(name)},</p>
+          <p><strong>${escapeHtml(eventTitle)}</strong>: ${info.text}</p>
+
+          ${message ? `<div class="reason">${escapeHtml(message)}</div>` : ''}
+
+          ${commentRows ? `
+            <p>Comentarios del revisor:</p>
+            <table style="width: 100%; border-collapse: collapse;">
+              ${commentRows}
+            </table>
+          ` : ''}
+
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${eventUrl}" class="button">Ver evento</a>
+          </div>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+
+  return sendEmail({
+    to: email,
+    subject: `${info.title}: ${eventTitle} - ConfiaTicket`,
+    html,
+  });
+}
+
+/**
+ * Aviso al admin de un evento que entró (o volvió) a la cola de revisión
+ */
+export async function sendEventSubmittedToAdminEmail(data: {
+  eventId: number;
+  eventTitle: string;
+  organizerName: string;
+  round: number;
+  message?: string | null;
+}): Promise<boolean> {
+  const { eventId, eventTitle, organizerName, round, message } = data;
+
+  const adminEmail = env.ADMIN_NOTIFICATION_EMAIL || env.SMTP_USER;
+  if (!adminEmail) {
+    console.warn('No se pudo enviar notificación: ADMIN_NOTIFICATION_EMAIL no configurado');
+    return false;
+  }
+
+  const resubmitted = round > 1;
+  const reviewUrl = `${env.FRONTEND_URL}/admin/eventos/${eventId}`;
+
+  const html = `
+    <!DOCTYPE html>
+    <html lang="es">
+    <head>
+      <meta charset="utf-8">
+      <style>
+        body { font-family: sans-serif; line-height: 1.6; color: #333; background: #f3f4f6; }
+        .container { max-width: 600px; margin: 20px auto; background: white; border-radius: 12px; overflow: hidden; box-shadow: 0 4px 6px rgba(0,0,0,0.1); }
+        .header { background: #2563eb; color: white; padding: 30px; text-align: center; }
+        .content { padding: 30px; }
+        .reason { background: #eff6ff; border-left: 4px solid #2563eb; padding: 12px 16px; margin: 20px 0; }
+        .button { display: inline-block; background: #2563eb; color: white !important; padding: 12px 24px; text-decoration: none; border-radius: 8px; font-weight: 600; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>${resubmitted ? 'Evento reenviado a revisión' : 'Nuevo evento por revisar'}</h1>
+        </div>
+        <div class="content">
+          <p><strong>${escapeHtml(organizerName)}</strong> ${resubmitted ? `reenvió (envío n° ${round})` : 'envió'} el evento <strong>${escapeHtml(eventTitle)}</strong>.</p>
+
+          ${message ? `<div class="reason">${escapeHtml(message)}</div>` : ''}
+
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${reviewUrl}" class="button">Revisar evento</a>
+          </div>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+
+  return sendEmail({
+    to: adminEmail,
+    subject: `${resubmitted ? 'Reenvío' : 'Nuevo evento'} por revisar: ${eventTitle} - ConfiaTicket`,
+    html,
+  });
+}
+
+/**
+ * Oferta de la lista de espera: el cupo quedó apartado a nombre del comprador hasta expiresAt
+ */
+export async function sendWaitlistOfferEmail(data: {
+  email: string;
+  name: string;
+  eventTitle: string;
+  eventDate: Date;
+  sectionName: string | null;
+  quantity: number;
+  amount: number;
+  expiresAt: Date;
+  offerUrl: string;
+}): Promise<boolean> {
+  const { email, name, eventTitle, eventDate, sectionName, quantity, amount, expiresAt, offerUrl } = data;
+
+  const html = `
+    <!DOCTYPE html>
+    <html lang="es">
+    <head>
+      <meta charset="utf-8">
+      <style>
+        body { font-family: sans-serif; line-height: 1.6; color: #333; background: #f3f4f6; }
+        .container { max-width: 600px; margin: 20px auto; background: white; border-radius: 12px; overflow: hidden; box-shadow: 0 4px 6px rgba(0,0,0,0.1); }
+        .header { background: #16a34a; color: white; padding: 30px; text-align: center; }
+        .content { padding: 30px; }
+        .reason { background: #f0fdf4; border-left: 4px solid #16a34a; padding: 12px 16px; margin: 20px 0; }
+        .button { display: inline-block; background: #16a34a; color: white !important; padding: 12px 24px; text-decoration: none; border-radius: 8px; font-weight: 600; }
+        .note { color: #6b7280; font-size: 14px; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>¡Se liberaron entradas!</h1>
+        </div>
+        <div class="content">
+          <p>Hola ${escapeHtml(name)},</p>
+          <p>Llegó tu turno en la lista de espera de <strong>${escapeHtml(eventTitle)}</strong> (${formatDate(eventDate)}).
+          Apartamos estas entradas a tu nombre:</p>
+
+          <div class="reason">
+            ${quantity} entrada${quantity === 1 ? '' : 's'}${sectionName ? ` en ${escapeHtml(sectionName)}` : ''} · Total ${formatAmount(amount)}
+          </div>
+
+          <p>La oferta es solo para ti y vence el <strong>${formatDate(expiresAt)}</strong>. Si no la pagas a tiempo, pasa al siguiente en la fila.</p>
+
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${offerUrl}" class="button">Ver oferta y pagar</a>
+          </div>
+
+          <p class="note">Si ya no te interesa, puedes rechazarla desde el mismo enlace para que otra persona la aproveche.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+
+  return sendEmail({
+    to: email,
+    subject: `Tu turno en la lista de espera: ${eventTitle} - ConfiaTicket`,
+    html,
+  });
+}
+
 export default {
   sendPurchaseConfirmationEmail,
   sendPurchaseNotificationToAdmin,
   sendClaimCreatedEmail,
   sendClaimStatusUpdateEmail,
+  sendPasswordResetEmail,
+  sendEmailVerificationEmail,
+  sendTeamInvitationEmail,
+  sendDataExportReadyEmail,
+  sendEventCanceledEmail,
+  sendEventChangedEmail,
+  sendEventReviewEmail,
+  sendEventSubmittedToAdminEmail,
+  sendWaitlistOfferEmail,
 };
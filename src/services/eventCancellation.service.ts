@@ -0,0 +1,348 @@
+// src/services/eventCancellation.service.ts
+// Cancelación de eventos: cancela payouts pendientes, anula QRs, reembolsa cada compra pagada
+// y avisa a los compradores. Es reanudable: el avance por reserva queda en
+// Reservation.refundStatus / cancellationNotifiedAt y el job retoma procesos interrumpidos.
+import type { Prisma } from '@prisma/client';
+import prisma from '../prisma/client';
+import { findPaymentForReservation, refundWholePayment, paymentRefundData, type RefundOutcome } from './paymentRefund.service';
+import { sendEventCanceledEmail } from './email.service';
+
+const BATCH_SIZE = 25;
+// Un proceso RUNNING sin heartbeat por más de este tiempo se considera abandonado (reinicio del server)
+const STALE_RUNNING_MS = 10 * 60 * 1000;
+
+// Payouts que aún no salieron: se cancelan. IN_TRANSIT / PAID requieren gestión manual.
+const CANCELABLE_PAYOUT_STATUSES = ['PENDING', 'SCHEDULED', 'FAILED'] as const;
+const NOT_CANCELABLE_PAYOUT_STATUSES = ['IN_TRANSIT', 'PAID'] as const;
+
+// Reembolsos que quedaron REQUESTED por una corrida interrumpida: no se sabe si el proveedor
+// alcanzó a devolver el dinero (Webpay no tiene clave de idempotencia), así que no se reintentan solos.
+const IN_DOUBT_REFUND_REASON = 'Evento cancelado: reembolso en duda (proceso interrumpido), verificar con el proveedor';
+
+/* ===================== Pasos ===================== */
+
+async function touch(id: number, data: Prisma.EventCancellationUpdateInput = {}) {
+  await prisma.eventCancellation.update({ where: { id }, data: { ...data, heartbeatAt: new Date() } });
+}
+
+/** Payouts, holds y QRs: operaciones idempotentes en bloque */
+async function cancelPayoutsHoldsAndTickets(cancellationId: number, eventId: number) {
+  const now = new Date();
+
+  const payouts = await prisma.payout.updateMany({
+    where: { reservation: { eventId }, status: { in: [...CANCELABLE_PAYOUT_STATUSES] } },
+    data: { status: 'CANCELED', failureCode: 'EVENT_CANCELED', failureMessage: 'Evento cancelado' },
+  });
+  const notCancelable = await prisma.payout.count({
+    where: { reservation: { eventId }, status: { in: [...NOT_CANCELABLE_PAYOUT_STATUSES] } },
+  });
+
+  const holds = await prisma.reservation.updateMany({
+    where: { eventId, status: 'PENDING_PAYMENT' },
+    data: { status: 'CANCELED' },
+  });
+
+  const tickets = await prisma.generatedTicket.updateMany({
+    where: { reservation: { eventId }, invalidatedAt: null },
+    data: { invalidatedAt: now },
+  });
+
+  await touch(cancellationId, {
+    payoutsCanceled: { increment: payouts.count },
+    payoutsNotCancelable: notCancelable,
+    holdsCanceled: { increment: holds.count },
+    ticketsInvalidated: { increment: tickets.count },
+  });
+}
+
+/**
+ * Reservas que una corrida anterior dejó REQUESTED (caída entre la llamada al proveedor y el
+ * registro del resultado): pasan a FAILED para revisión manual en vez de reembolsarse otra vez.
+ */
+async function markInDoubtRefunds(cancellationId: number, eventId: number) {
+  const inDoubt = await prisma.reservation.updateMany({
+    where: { eventId, status: 'PAID', refundStatus: 'REQUESTED' },
+    data: { status: 'CANCELED', refundStatus: 'FAILED', refundReason: IN_DOUBT_REFUND_REASON },
+  });
+  if (inDoubt.count > 0) {
+    console.warn(`[EventCancel] ${inDoubt.count} reembolso(s) en duda en el evento ${eventId}; requieren revisión manual`);
+    await touch(cancellationId, { refundFailedCount: { increment: inDoubt.count } });
+  }
+}
+
+/**
+ * Reembolsa las reservas pagadas pendientes, por unidad de pago:
+ * en una compra multi-sección (purchaseGroupId) un solo Payment cubre todas las reservas del grupo.
+ */
+async function refundPaidReservations(cancellationId: number, eventId: number, reason: string) {
+  await markInDoubtRefunds(cancellationId, eventId);
+
+  for (;;) {
+    const batch = await prisma.reservation.findMany({
+      where: { eventId, status: 'PAID', refundStatus: 'NONE' },
+      orderBy: { id: 'asc' },
+      take: BATCH_SIZE,
+      select: { id: true, purchaseGroupId: true, amount: true },
+    });
+    if (batch.length === 0) return;
+
+    const done = new Set<number>();
+    for (const r of batch) {
+      if (done.has(r.id)) continue;
+
+      const group = r.purchaseGroupId
+        ? await prisma.reservation.findMany({
+            where: { purchaseGroupId: r.purchaseGroupId, eventId, status: 'PAID', refundStatus: 'NONE' },
+            select: { id: true, amount: true },
+          })
+        : [{ id: r.id, amount: r.amount }];
+      const ids = group.map((g) => g.id);
+      ids.forEach((id) => done.add(id));
+
+      const payment = await findPaymentForReservation(r);
+
+      await prisma.reservation.updateMany({ where: { id: { in: ids } }, data: { refundStatus: 'REQUESTED' } });
+
+      let outcome: RefundOutcome;
+      try {
+        if (payment) outcome = await refundWholePayment(payment, reason, `event-cancel:payment:${payment.id}`);
+        else if (group.every((g) => g.amount === 0)) outcome = { ok: true }; // entradas gratuitas
+        else outcome = { ok: false, error: 'No hay pago asociado' };
+      } catch (err) {
+        outcome = { ok: false, error: (err as Error)?.message || 'Error del proveedor de pagos' };
+      }
+
+      const now = new Date();
+      if (outcome.ok) {
+        await prisma.$transaction([
+          ...(payment
+            ? [
+                prisma.payment.update({ where: { id: payment.id }, data: paymentRefundData(payment, outcome, now) }),
+              ]
+            : []),
+          prisma.reservation.updateMany({
+            where: { id: { in: ids } },
+            data: {
+              status: 'CANCELED',
+              refundStatus: 'SUCCEEDED',
+              refundedAt: now,
+              refundId: outcome.refundId ?? null,
+              refundReason: 'Evento cancelado',
+            },
+          }),
+        ]);
+        await touch(cancellationId, { refundedCount: { increment: ids.length } });
+      } else {
+        console.error(`[EventCancel] Reembolso fallido (evento ${eventId}, reservas ${ids.join(',')}):`, outcome.error);
+        await prisma.reservation.updateMany({
+          where: { id: { in: ids } },
+          data: {
+            status: 'CANCELED',
+            refundStatus: 'FAILED',
+            refundReason: `Evento cancelado: ${outcome.error ?? 'reembolso fallido'}`.slice(0, 255),
+          },
+        });
+        await touch(cancellationId, { refundFailedCount: { increment: ids.length } });
+      }
+    }
+  }
+}
+
+/** Un email por comprador con todas sus reservas del evento aún sin avisar */
+async function notifyBuyers(cancellationId: number, eventId: number, reason: string) {
+  const event = await prisma.event.findUniqueOrThrow({ where: { id: eventId }, select: { title: true, date: true } });
+
+  const pending = await prisma.reservation.findMany({
+    where: {
+      eventId,
+      paidAt: { not: null },
+      refundStatus: { in: ['SUCCEEDED', 'FAILED'] },
+      cancellationNotifiedAt: null,
+    },
+    orderBy: { id: 'asc' },
+    select: {
+      id: true,
+      code: true,
+      amount: true,
+      refundStatus: true,
+      buyer: { select: { id: true, name: true, email: true, anonymizedAt: true } },
+    },
+  });
+
+  const byBuyer = new Map<number, typeof pending>();
+  for (const r of pending) {
+    const list = byBuyer.get(r.buyer.id) ?? [];
+    list.push(r);
+    byBuyer.set(r.buyer.id, list);
+  }
+
+  for (const list of byBuyer.values()) {
+    const buyer = list[0]!.buyer;
+    const ids = list.map((r) => r.id);
+
+    // Cuentas anonimizadas: no hay a quién avisar
+    let sent = false;
+    if (!buyer.anonymizedAt) {
+      sent = await sendEventCanceledEmail({
+        email: buyer.email,
+        name: buyer.name,
+        eventTitle: event.title,
+        eventDate: event.date,
+        reason,
+        reservations: list.map((r) => ({ code: r.code, amount: r.amount, refunded: r.refundStatus === 'SUCCEEDED' })),
+      }).catch(() => false);
+    }
+
+    if (sent || buyer.anonymizedAt) {
+      await prisma.reservation.updateMany({ where: { id: { in: ids } }, data: { cancellationNotifiedAt: new Date() } });
+      await touch(cancellationId, sent ? { buyersNotified: { increment: 1 } } : {});
+    } else {
+      await touch(cancellationId, { notifyFailedCount: { increment: 1 } });
+    }
+  }
+}
+
+/* ===================== Orquestación ===================== */
+
+/**
+ * Ejecuta (o reanuda) una cancelación. Toma el proceso de forma condicional
+ * (PENDING, o RUNNING abandonado → RUNNING) para no correrlo dos veces en paralelo.
+ */
+export async function runEventCancellation(cancellationId: number): Promise<boolean> {
+  const now = new Date();
+  const claimed = await prisma.eventCancellation.updateMany({
+    where: {
+      id: cancellationId,
+      OR: [
+        { status: 'PENDING' },
+        { status: 'RUNNING', heartbeatAt: { lt: new Date(now.getTime() - STALE_RUNNING_MS) } },
+      ],
+    },
+    data: { status: 'RUNNING', heartbeatAt: now, lastError: null },
+  });
+  if (claimed.count === 0) return false;
+
+  const c = await prisma.eventCancellation.findUniqueOrThrow({ where: { id: cancellationId } });
+  if (!c.startedAt) await touch(c.id, { startedAt: now });
+
+  try {
+    await cancelPayoutsHoldsAndTickets(c.id, c.eventId);
+    await refundPaidReservations(c.id, c.eventId, c.reason);
+    // Tickets generados después del primer paso (p.ej. generación en curso al cancelar)
+    await cancelPayoutsHoldsAndTickets(c.id, c.eventId);
+    await notifyBuyers(c.id, c.eventId, c.reason);
+
+    const [refundFailed, notNotified] = await Promise.all([
+      prisma.reservation.count({ where: { eventId: c.eventId, refundStatus: 'FAILED', refundReason: { startsWith: 'Evento cancelado' } } }),
+      prisma.reservation.count({
+        where: { eventId: c.eventId, paidAt: { not: null }, refundStatus: { in: ['SUCCEEDED', 'FAILED'] }, cancellationNotifiedAt: null },
+      }),
+    ]);
+
+    await touch(c.id, {
+      status: refundFailed || notNotified ? 'COMPLETED_WITH_ERRORS' : 'COMPLETED',
+      finishedAt: new Date(),
+    });
+    console.log(`[EventCancel] Cancelación ${c.id} (evento ${c.eventId}) terminada`);
+    return true;
+  } catch (err) {
+    console.error(`[EventCancel] Error en cancelación ${c.id}:`, err);
+    // Queda PENDING para que el job la reanude
+    await touch(c.id, {
+      status: 'PENDING',
+      lastError: String((err as Error)?.message || 'Error desconocido').slice(0, 500),
+    });
+    return false;
+  }
+}
+
+/** Fire-and-forget: corre la cancelación sin bloquear la respuesta HTTP */
+export function queueEventCancellation(cancellationId: number): void {
+  runEventCancellation(cancellationId).catch((err) => {
+    console.error(`[EventCancel] Error inesperado en cancelación ${cancellationId}:`, err);
+  });
+}
+
+/**
+ * Inicia la cancelación: marca el evento cancelado (y sin venta) y crea el proceso.
+ * Devuelve null si el evento ya estaba cancelado (marcado de forma condicional).
+ */
+export async function startEventCancellation(eventId: number, requestedById: number, reason: string) {
+  return prisma.$transaction(async (tx) => {
+    const marked = await tx.event.updateMany({
+      where: { id: eventId, canceledAt: null },
+      data: { canceledAt: new Date(), cancellationReason: reason, isActive: false },
+    });
+    if (marked.count === 0) return null;
+
+    const paidReservations = await tx.reservation.count({ where: { eventId, status: 'PAID' } });
+
+    return tx.eventCancellation.create({
+      data: { eventId, requestedById, reason, paidReservations },
+    });
+  });
+}
+
+/**
+ * Reintenta los reembolsos y avisos fallidos de una cancelación terminada.
+ * Los reembolsos en duda no vuelven a la cola: se resuelven a mano contra el proveedor.
+ * Devuelve la cantidad de reservas que vuelven a la cola.
+ */
+export async function retryEventCancellation(cancellationId: number) {
+  const c = await prisma.eventCancellation.findUniqueOrThrow({ where: { id: cancellationId } });
+
+  const reset = await prisma.reservation.updateMany({
+    where: {
+      eventId: c.eventId,
+      refundStatus: 'FAILED',
+      refundReason: { startsWith: 'Evento cancelado', not: IN_DOUBT_REFUND_REASON },
+    },
+    data: { status: 'PAID', refundStatus: 'NONE', refundReason: null },
+  });
+
+  await prisma.eventCancellation.update({
+    where: { id: c.id },
+    data: {
+      status: 'PENDING',
+      refundFailedCount: 0,
+      notifyFailedCount: 0,
+      finishedAt: null,
+    },
+  });
+  return reset.count;
+}
+
+/** Progreso en vivo a partir de las reservas del evento */
+export async function getEventCancellationProgress(eventId: number) {
+  const cancellation = await prisma.eventCancellation.findUnique({ where: { eventId } });
+  if (!cancellation) return null;
+
+  const grouped = await prisma.reservation.groupBy({
+    by: ['refundStatus'],
+    where: { eventId, paidAt: { not: null } },
+    _count: { _all: true },
+  });
+  const byRefundStatus = Object.fromEntries(grouped.map((g) => [g.refundStatus, g._count._all]));
+  const pendingRefunds = await prisma.reservation.count({
+    where: { eventId, status: 'PAID', refundStatus: { in: ['NONE', 'REQUESTED'] } },
+  });
+
+  return { ...cancellation, pendingRefunds, byRefundStatus };
+}
+
+/** Corrida del job: reanuda cancelaciones PENDING o RUNNING abandonadas */
+export async function resumeEventCancellationsOnce() {
+  const staleBefore = new Date(Date.now() - STALE_RUNNING_MS);
+  const rows = await prisma.eventCancellation.findMany({
+    where: {
+      OR: [{ status: 'PENDING' }, { status: 'RUNNING', heartbeatAt: { lt: staleBefore } }],
+    },
+    orderBy: { createdAt: 'asc' },
+    select: { id: true },
+  });
+  let resumed = 0;
+  for (const r of rows) {
+    if (await runEventCancellation(r.id)) resumed++;
+  }
+  return { resumed };
+}
@@ -0,0 +1,157 @@
+// src/services/eventCategory.service.ts
+// Taxonomía de eventos: árbol de categorías (administrado por la plataforma) y etiquetas libres.
+// Filtrar por una categoría incluye sus subcategorías.
+import type { EventCategory, Prisma } from '@prisma/client';
+import prisma from '../prisma/client';
+import { publishedWhere } from './salesWindow.service';
+
+export const MAX_EVENT_CATEGORIES = 5;
+export const MAX_EVENT_TAGS = 10;
+const MAX_TAG_LENGTH = 30;
+
+/** Categoría como se expone en eventos */
+export const EVENT_CATEGORY_SELECT = {
+  category: { select: { id: true, name: true, slug: true, parentId: true } },
+} satisfies Prisma.EventCategoryAssignmentSelect;
+
+export type CategoryNode = Pick<EventCategory, 'id' | 'name' | 'slug' | 'parentId' | 'sortOrder' | 'isActive'> & {
+  upcomingEvents?: number;
+  children: CategoryNode[];
+};
+
+/** "Música en Vivo" → "musica-en-vivo" */
+export function slugify(value: string) {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 80);
+}
+
+/** Etiquetas: minúsculas, sin '#' ni espacios repetidos, sin duplicados */
+export function parseTags(value: unknown): { errors: string[]; tags: string[] } {
+  if (value == null) return { errors: [], tags: [] };
+  if (!Array.isArray(value)) return { errors: ['tags debe ser un arreglo de textos'], tags: [] };
+
+  const errors: string[] = [];
+  const tags = new Set<string>();
+  for (const raw of value) {
+    const tag = String(raw ?? '').replace(/^#+/, '').replace(/\s+/g, ' ').trim().toLowerCase();
+    if (!tag) continue;
+    if (tag.length > MAX_TAG_LENGTH) errors.push(`La etiqueta "${tag.slice(0, 20)}…" excede ${MAX_TAG_LENGTH} caracteres`);
+    else tags.add(tag);
+  }
+  if (tags.size > MAX_EVENT_TAGS) errors.push(`Máximo ${MAX_EVENT_TAGS} etiquetas por evento`);
+  return { errors, tags: [...tags] };
+}
+
+/** IDs de categorías elegidas por el organizador: deben existir y estar activas */
+export async function parseCategoryIds(value: unknown): Promise<{ errors: string[]; ids: number[] }> {
+  if (value == null) return { errors: [], ids: [] };
+  if (!Array.isArray(value)) return { errors: ['categoryIds debe ser un arreglo de IDs'], ids: [] };
+
+  const ids = [...new Set(value.map(Number))];
+  if (ids.some((id) => !Number.isInteger(id) || id <= 0)) return { errors: ['categoryIds contiene IDs inválidos'], ids: [] };
+  if (ids.length > MAX_EVENT_CATEGORIES) return { errors: [`Máximo ${MAX_EVENT_CATEGORIES} categorías por evento`], ids: [] };
+  if (!ids.length) return { errors: [], ids };
+
+  const found = await prisma.eventCategory.findMany({ where: { id: { in: ids }, isActive: true }, select: { id: true } });
+  const valid = new Set(found.map((c) => c.id));
+  const missing = ids.filter((id) => !valid.has(id));
+  if (missing.length) return { errors: [`Categorías inexistentes o inactivas: ${missing.join(', ')}`], ids: [] };
+  return { errors: [], ids };
+}
+
+/** Arma el árbol (orden: sortOrder, nombre). Una rama cuyo padre no está en la lista se omite */
+export function buildCategoryTree<T extends Omit<CategoryNode, 'children'>>(categories: T[]) {
+  const nodes = new Map<number, T & { children: CategoryNode[] }>();
+  for (const c of categories) nodes.set(c.id, { ...c, children: [] });
+
+  const roots: Array<T & { children: CategoryNode[] }> = [];
+  for (const node of nodes.values()) {
+    const parent = node.parentId != null ? nodes.get(node.parentId) : undefined;
+    if (parent) parent.children.push(node);
+    else if (node.parentId == null) roots.push(node);
+  }
+
+  const sort = (list: CategoryNode[]) => {
+    list.sort((a, b) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name, 'es'));
+    for (const n of list) sort(n.children);
+  };
+  sort(roots);
+  return roots;
+}
+
+/** La categoría y todas sus descendientes */
+function collectDescendants(rootIds: number[], categories: Array<{ id: number; parentId: number | null }>) {
+  const children = new Map<number, number[]>();
+  for (const c of categories) {
+    if (c.parentId == null) continue;
+    children.set(c.parentId, [...(children.get(c.parentId) ?? []), c.id]);
+  }
+  const out = new Set<number>();
+  const stack = [...rootIds];
+  while (stack.length) {
+    const id = stack.pop()!;
+    if (out.has(id)) continue;
+    out.add(id);
+    stack.push(...(children.get(id) ?? []));
+  }
+  return out;
+}
+
+/**
+ * IDs de categorías para filtrar el listado público: acepta ids o slugs separados por coma
+ * e incluye las subcategorías. Devuelve [] si ninguna existe.
+ */
+export async function resolveCategoryFilter(value: string) {
+  const keys = value.split(',').map((v) => v.trim().toLowerCase()).filter(Boolean);
+  if (!keys.length) return null;
+
+  const categories = await prisma.eventCategory.findMany({ select: { id: true, parentId: true, slug: true } });
+  const roots = categories
+    .filter((c) => keys.includes(c.slug) || keys.includes(String(c.id)))
+    .map((c) => c.id);
+  return [...collectDescendants(roots, categories)];
+}
+
+/** true si parentId es la categoría o una de sus descendientes (moverla ahí crearía un ciclo) */
+export async function wouldCreateCycle(categoryId: number, parentId: number) {
+  const categories = await prisma.eventCategory.findMany({ select: { id: true, parentId: true } });
+  return collectDescendants([categoryId], categories).has(parentId);
+}
+
+/**
+ * Árbol de categorías activas con la cantidad de eventos públicos próximos
+ * (aprobados, publicados, activos, no cancelados). El conteo de una categoría incluye sus subcategorías
+ * sin contar dos veces un evento asignado a varias.
+ */
+export async function publicCategoryTree() {
+  const now = new Date();
+  const [categories, assignments] = await Promise.all([
+    prisma.eventCategory.findMany({
+      where: { isActive: true },
+      select: { id: true, name: true, slug: true, parentId: true, sortOrder: true, isActive: true },
+    }),
+    prisma.eventCategoryAssignment.findMany({
+      where: { event: { approved: true, isActive: true, canceledAt: null, date: { gte: now }, AND: [publishedWhere(now)] } },
+      select: { eventId: true, categoryId: true },
+    }),
+  ]);
+
+  const eventsByCategory = new Map<number, number[]>();
+  for (const a of assignments) {
+    eventsByCategory.set(a.categoryId, [...(eventsByCategory.get(a.categoryId) ?? []), a.eventId]);
+  }
+
+  const withCounts = categories.map((c) => {
+    const events = new Set<number>();
+    for (const id of collectDescendants([c.id], categories)) {
+      for (const eventId of eventsByCategory.get(id) ?? []) events.add(eventId);
+    }
+    return { ...c, upcomingEvents: events.size };
+  });
+  return buildCategoryTree(withCounts);
+}
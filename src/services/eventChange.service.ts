@@ -0,0 +1,314 @@
+// src/services/eventChange.service.ts
+// Avisos de cambio de fecha/lugar de eventos con ventas: aplica el cambio, avisa a los compradores
+// y permite que cada uno pida el reembolso total mientras la ventana del aviso esté abierta.
+import type { EventChangeNotice, Prisma } from '@prisma/client';
+import prisma from '../prisma/client';
+import { env } from '../config/env';
+import { sendEventChangedEmail } from './email.service';
+import { nextEventGeo } from './eventGeo.service';
+import { findPaymentForReservation, refundWholePayment, paymentRefundData, type RefundOutcome } from './paymentRefund.service';
+import { offerFreedStock } from './waitlist.service';
+
+const NOTIFY_BATCH_SIZE = 100;
+// Un envío tomado hace más de este tiempo sin terminar se considera abandonado (reinicio del server)
+const STALE_LOCK_MS = 10 * 60 * 1000;
+
+// Payouts que aún no salieron: se cancelan al reembolsar. IN_TRANSIT / PAID requieren gestión manual.
+const CANCELABLE_PAYOUT_STATUSES = ['PENDING', 'SCHEDULED', 'FAILED'] as const;
+
+export type EventChangeInput = {
+  date?: Date;
+  location?: string;
+  city?: string | null;
+  commune?: string | null;
+};
+
+/** Campos del aviso que se muestran en el detalle público del evento */
+export const PUBLIC_CHANGE_NOTICE_SELECT = {
+  id: true,
+  reason: true,
+  previousDate: true,
+  newDate: true,
+  previousLocation: true,
+  newLocation: true,
+  previousCity: true,
+  newCity: true,
+  previousCommune: true,
+  newCommune: true,
+  refundWindowEndsAt: true,
+  createdAt: true,
+} satisfies Prisma.EventChangeNoticeSelect;
+
+/**
+ * La ventana dura EVENT_CHANGE_REFUND_WINDOW_DAYS, pero nunca pasa del inicio del evento
+ * (ni de la fecha original ni de la nueva).
+ */
+export function refundWindowEnd(previousDate: Date, newDate: Date, now = new Date()) {
+  const byDays = now.getTime() + Math.max(1, env.EVENT_CHANGE_REFUND_WINDOW_DAYS) * 24 * 60 * 60 * 1000;
+  return new Date(Math.min(byDays, previousDate.getTime(), newDate.getTime()));
+}
+
+/** Reservas que pueden pedir reembolso por un aviso: pagadas antes del aviso y sin reembolso */
+function eligibleReservationsWhere(notice: Pick<EventChangeNotice, 'eventId' | 'createdAt'>): Prisma.ReservationWhereInput {
+  return {
+    eventId: notice.eventId,
+    status: 'PAID',
+    refundStatus: 'NONE',
+    paidAt: { not: null, lt: notice.createdAt },
+  };
+}
+
+/**
+ * Aplica el cambio al evento y registra el aviso en una sola transacción.
+ * Devuelve null si el evento no existe o fue cancelado mientras tanto.
+ */
+export async function publishEventChange(eventId: number, createdById: number, change: EventChangeInput, reason: string) {
+  return prisma.$transaction(async (tx) => {
+    const event = await tx.event.findUnique({
+      where: { id: eventId },
+      select: { date: true, location: true, city: true, commune: true, geoSource: true, canceledAt: true },
+    });
+    if (!event || event.canceledAt) return null;
+
+    const next = {
+      date: change.date ?? event.date,
+      location: change.location ?? event.location,
+      city: change.city !== undefined ? change.city : event.city,
+      commune: change.commune !== undefined ? change.commune : event.commune,
+    };
+
+    // Un cambio de lugar recalcula las coordenadas de la búsqueda por cercanía
+    const geo = nextEventGeo(event, next);
+    await tx.event.update({ where: { id: eventId }, data: { ...next, ...geo } });
+
+    return tx.eventChangeNotice.create({
+      data: {
+        eventId,
+        createdById,
+        reason,
+        previousDate: event.date,
+        newDate: next.date,
+        previousLocation: event.location,
+        newLocation: next.location,
+        previousCity: event.city,
+        newCity: next.city,
+        previousCommune: event.commune,
+        newCommune: next.commune,
+        refundWindowEndsAt: refundWindowEnd(event.date, next.date),
+      },
+    });
+  });
+}
+
+/* ===================== Aviso a compradores ===================== */
+
+/**
+ * Envía (o reanuda) los emails de un aviso. Toma el envío de forma condicional
+ * para no correrlo dos veces en paralelo; avanza por comprador (notifyCursor) para no repetir emails.
+ */
+export async function notifyEventChange(noticeId: number): Promise<boolean> {
+  const now = new Date();
+  const claimed = await prisma.eventChangeNotice.updateMany({
+    where: {
+      id: noticeId,
+      notifiedAt: null,
+      OR: [{ lockedAt: null }, { lockedAt: { lt: new Date(now.getTime() - STALE_LOCK_MS) } }],
+    },
+    data: { lockedAt: now },
+  });
+  if (claimed.count === 0) return false;
+
+  try {
+    const notice = await prisma.eventChangeNotice.findUniqueOrThrow({
+      where: { id: noticeId },
+      include: { event: { select: { title: true } } },
+    });
+
+    let cursor = notice.notifyCursor;
+    for (;;) {
+      const buyers = await prisma.reservation.findMany({
+        where: { ...eligibleReservationsWhere(notice), buyerId: { gt: cursor } },
+        distinct: ['buyerId'],
+        orderBy: { buyerId: 'asc' },
+        take: NOTIFY_BATCH_SIZE,
+        select: { buyerId: true },
+      });
+      if (buyers.length === 0) break;
+
+      for (const { buyerId } of buyers) {
+        const list = await prisma.reservation.findMany({
+          where: { ...eligibleReservationsWhere(notice), buyerId },
+          orderBy: { id: 'asc' },
+          select: { id: true, code: true, amount: true },
+        });
+        const buyer = await prisma.user.findUniqueOrThrow({
+          where: { id: buyerId },
+          select: { name: true, email: true, anonymizedAt: true },
+        });
+
+        // Cuentas anonimizadas: no hay a quién avisar
+        let sent = false;
+        if (!buyer.anonymizedAt) {
+          sent = await sendEventChangedEmail({
+            email: buyer.email,
+            name: buyer.name,
+            eventTitle: notice.event.title,
+            previousDate: notice.previousDate,
+            newDate: notice.newDate,
+            previousLocation: notice.previousLocation,
+            newLocation: notice.newLocation,
+            reason: notice.reason,
+            refundWindowEndsAt: notice.refundWindowEndsAt,
+            reservations: list,
+          }).catch(() => false);
+        }
+
+        cursor = buyerId;
+        await prisma.eventChangeNotice.update({
+          where: { id: noticeId },
+          data: {
+            notifyCursor: cursor,
+            lockedAt: new Date(),
+            ...(sent ? { buyersNotified: { increment: 1 } } : {}),
+            ...(!sent && !buyer.anonymizedAt ? { notifyFailedCount: { increment: 1 } } : {}),
+          },
+        });
+      }
+    }
+
+    await prisma.eventChangeNotice.update({
+      where: { id: noticeId },
+      data: { notifiedAt: new Date(), lockedAt: null },
+    });
+    return true;
+  } catch (err) {
+    console.error(`[EventChange] Error avisando el cambio ${noticeId}:`, err);
+    await prisma.eventChangeNotice.update({ where: { id: noticeId }, data: { lockedAt: null } }).catch(() => undefined);
+    return false;
+  }
+}
+
+/** Dispara el envío en segundo plano (no bloquea la respuesta HTTP) */
+export function queueEventChangeNotice(noticeId: number): void {
+  setImmediate(() => {
+    notifyEventChange(noticeId).catch((err) => {
+      console.error(`[EventChange] Error inesperado en el aviso ${noticeId}:`, err);
+    });
+  });
+}
+
+/** Retoma envíos pendientes o abandonados (reinicio del server a mitad de envío) */
+export async function resumeEventChangeNoticesOnce() {
+  const stale = new Date(Date.now() - STALE_LOCK_MS);
+  const pending = await prisma.eventChangeNotice.findMany({
+    where: { notifiedAt: null, OR: [{ lockedAt: null }, { lockedAt: { lt: stale } }] },
+    orderBy: { id: 'asc' },
+    select: { id: true },
+  });
+
+  let resumed = 0;
+  for (const n of pending) {
+    if (await notifyEventChange(n.id)) resumed++;
+  }
+  return { resumed };
+}
+
+/* ===================== Reembolso voluntario ===================== */
+
+/**
+ * Aviso con ventana abierta que habilita el reembolso de una reserva
+ * (el más reciente publicado después del pago).
+ */
+export async function findActiveChangeNotice(reservation: { eventId: number; paidAt: Date | null }, now = new Date()) {
+  if (!reservation.paidAt) return null;
+  return prisma.eventChangeNotice.findFirst({
+    where: {
+      eventId: reservation.eventId,
+      createdAt: { gt: reservation.paidAt },
+      refundWindowEndsAt: { gt: now },
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+/**
+ * Reembolsa la compra completa de una reserva por un aviso de cambio
+ * (en compras multi-sección, todas las reservas del grupo comparten el pago).
+ * Devuelve null si la compra ya está siendo reembolsada.
+ */
+export async function refundForChangeNotice(
+  reservation: { id: number; eventId: number; purchaseGroupId: string | null; amount: number },
+  notice: Pick<EventChangeNotice, 'id'>
+) {
+  const group = reservation.purchaseGroupId
+    ? await prisma.reservation.findMany({
+        where: { purchaseGroupId: reservation.purchaseGroupId, eventId: reservation.eventId, status: 'PAID', refundStatus: 'NONE' },
+        select: { id: true, amount: true },
+      })
+    : [{ id: reservation.id, amount: reservation.amount }];
+  const ids = group.map((g) => g.id);
+
+  // Toma condicional: un doble click no reembolsa dos veces
+  const claimed = await prisma.reservation.updateMany({
+    where: { id: { in: ids }, status: 'PAID', refundStatus: 'NONE' },
+    data: { refundStatus: 'REQUESTED', changeRefundNoticeId: notice.id },
+  });
+  if (claimed.count === 0) return null;
+
+  const reason = 'Reembolso solicitado por cambio de fecha/lugar';
+  const payment = await findPaymentForReservation(reservation);
+
+  let outcome: RefundOutcome;
+  try {
+    if (payment) outcome = await refundWholePayment(payment, reason, `event-change:${notice.id}:payment:${payment.id}`);
+    else if (group.every((g) => g.amount === 0)) outcome = { ok: true }; // entradas gratuitas
+    else outcome = { ok: false, error: 'No hay pago asociado' };
+  } catch (err) {
+    outcome = { ok: false, error: (err as Error)?.message || 'Error del proveedor de pagos' };
+  }
+
+  const now = new Date();
+  if (!outcome.ok) {
+    // Las entradas siguen válidas; el equipo gestiona el reembolso desde admin/compras
+    console.error(`[EventChange] Reembolso fallido (aviso ${notice.id}, reservas ${ids.join(',')}):`, outcome.error);
+    await prisma.reservation.updateMany({
+      where: { id: { in: ids } },
+      data: { refundStatus: 'FAILED', refundReason: `${reason}: ${outcome.error ?? 'reembolso fallido'}`.slice(0, 255) },
+    });
+    return { ok: false as const, reservationIds: ids, error: outcome.error ?? 'No se pudo procesar el reembolso' };
+  }
+
+  const { tickets, payouts } = await prisma.$transaction(async (tx) => {
+    if (payment) {
+      await tx.payment.update({ where: { id: payment.id }, data: paymentRefundData(payment, outcome, now) });
+    }
+    await tx.reservation.updateMany({
+      where: { id: { in: ids } },
+      data: {
+        status: 'CANCELED',
+        refundStatus: 'SUCCEEDED',
+        refundedAt: now,
+        refundId: outcome.refundId ?? null,
+        refundReason: reason,
+      },
+    });
+    const tickets = await tx.generatedTicket.updateMany({
+      where: { reservationId: { in: ids }, invalidatedAt: null },
+      data: { invalidatedAt: now },
+    });
+    const payouts = await tx.payout.updateMany({
+      where: { reservationId: { in: ids }, status: { in: [...CANCELABLE_PAYOUT_STATUSES] } },
+      data: { status: 'CANCELED', failureCode: 'EVENT_CHANGE_REFUND', failureMessage: reason },
+    });
+    return { tickets: tickets.count, payouts: payouts.count };
+  });
+  void offerFreedStock([reservation.eventId]);
+
+  return {
+    ok: true as const,
+    reservationIds: ids,
+    amount: group.reduce((sum, g) => sum + g.amount, 0),
+    ticketsInvalidated: tickets,
+    payoutsCanceled: payouts,
+  };
+}
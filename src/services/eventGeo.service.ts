@@ -0,0 +1,114 @@
+// src/services/eventGeo.service.ts
+// Ubicación de eventos para la búsqueda "cerca de mí". Las coordenadas exactas las entrega el
+// organizador; si no, se usa el centroide de la comuna (utils/communeCentroids.ts).
+import type { EventGeoSource } from '@prisma/client';
+import prisma from '../prisma/client';
+import { findCommuneCentroid } from '../utils/communeCentroids';
+import { publishedWhere } from './salesWindow.service';
+
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEGREE_LAT = 111.32;
+
+export const DEFAULT_RADIUS_KM = 25;
+export const MAX_RADIUS_KM = 500;
+// Máximo de eventos cercanos que se consideran (el listado público pagina sobre ellos)
+const NEARBY_LIMIT = 1000;
+
+export type EventGeo = { latitude: number | null; longitude: number | null; geoSource: EventGeoSource | null };
+
+function toRad(deg: number) {
+  return (deg * Math.PI) / 180;
+}
+
+/** Distancia en km entre dos puntos (haversine) */
+export function haversineKm(lat1: number, lng1: number, lat2: number, lng2: number) {
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * Valida un par latitud/longitud. Ambos ausentes = sin punto; uno solo o fuera de rango = error.
+ * labels: nombres de los campos para los mensajes (body: latitude/longitude, query: lat/lng)
+ */
+export function parseCoordinates(
+  lat: unknown,
+  lng: unknown,
+  labels: [string, string] = ['latitude', 'longitude']
+): { error?: string; point?: { latitude: number; longitude: number } } {
+  const [latLabel, lngLabel] = labels;
+  const empty = (v: unknown) => v === undefined || v === null || v === '';
+  if (empty(lat) && empty(lng)) return {};
+  if (empty(lat) || empty(lng)) return { error: `${latLabel} y ${lngLabel} deben enviarse juntas` };
+  const latitude = Number(lat);
+  const longitude = Number(lng);
+  if (!Number.isFinite(latitude) || latitude < -90 || latitude > 90) return { error: `${latLabel} debe estar entre -90 y 90` };
+  if (!Number.isFinite(longitude) || longitude < -180 || longitude > 180) return { error: `${lngLabel} debe estar entre -180 y 180` };
+  return { point: { latitude, longitude } };
+}
+
+/** Coordenadas a guardar en el evento: las exactas si vienen, si no el centroide de la comuna/ciudad */
+export function resolveEventGeo(
+  exact: { latitude: number; longitude: number } | null | undefined,
+  place: { commune?: string | null; city?: string | null }
+): EventGeo {
+  if (exact) return { ...exact, geoSource: 'EXACT' };
+  const centroid = findCommuneCentroid(place.commune, place.city);
+  if (centroid) return { ...centroid, geoSource: 'COMMUNE' };
+  return { latitude: null, longitude: null, geoSource: null };
+}
+
+/**
+ * Eventos públicos (aprobados, activos y publicados) a menos de radiusKm del punto, con su distancia en km.
+ * Prefiltra con un bounding box indexado y luego calcula la distancia real.
+ */
+export async function nearbyPublicEvents(
+  point: { latitude: number; longitude: number },
+  radiusKm: number
+): Promise<Map<number, number>> {
+  const dLat = radiusKm / KM_PER_DEGREE_LAT;
+  // Cerca de los polos el box cubre todas las longitudes
+  const cosLat = Math.cos(toRad(point.latitude));
+  const dLng = cosLat > 0.01 ? radiusKm / (KM_PER_DEGREE_LAT * cosLat) : 180;
+
+  const candidates = await prisma.event.findMany({
+    where: {
+      approved: true,
+      isActive: true,
+      AND: [publishedWhere()],
+      latitude: { gte: point.latitude - dLat, lte: point.latitude + dLat },
+      longitude: { gte: point.longitude - dLng, lte: point.longitude + dLng },
+    },
+    select: { id: true, latitude: true, longitude: true },
+  });
+
+  return new Map(
+    candidates
+      .map((ev) => ({ id: ev.id, distanceKm: haversineKm(point.latitude, point.longitude, ev.latitude!, ev.longitude!) }))
+      .filter((ev) => ev.distanceKm <= radiusKm)
+      .sort((a, b) => a.distanceKm - b.distanceKm)
+      .slice(0, NEARBY_LIMIT)
+      .map((ev) => [ev.id, Math.round(ev.distanceKm * 100) / 100])
+  );
+}
+
+type EventPlace = { location: string; city: string | null; commune: string | null };
+
+/**
+ * Coordenadas tras editar el lugar de un evento; null = no cambian.
+ * - exact: coordenadas enviadas (null = descartar las exactas y usar el centroide)
+ * - Si cambia el recinto, las coordenadas exactas anteriores dejan de valer
+ */
+export function nextEventGeo(
+  current: EventPlace & { geoSource: EventGeoSource | null },
+  next: EventPlace,
+  exact?: { latitude: number; longitude: number } | null
+): EventGeo | null {
+  if (exact !== undefined) return resolveEventGeo(exact, next);
+  const placeChanged =
+    next.location !== current.location || next.city !== current.city || next.commune !== current.commune;
+  if (!placeChanged) return null;
+  if (current.geoSource === 'EXACT' && next.location === current.location) return null;
+  return resolveEventGeo(null, next);
+}
@@ -0,0 +1,283 @@
+// src/services/eventReview.service.ts
+// Flujo de revisión de eventos:
+//   DRAFT → SUBMITTED                      (el organizador envía)
+//   SUBMITTED → APPROVED | CHANGES_REQUESTED | REJECTED   (el revisor decide)
+//   CHANGES_REQUESTED → SUBMITTED          (el organizador corrige y reenvía)
+// El revisor puede revisar de nuevo una decisión (ej. APPROVED → CHANGES_REQUESTED); REJECTED es final
+// para el organizador. Editar un evento APPROVED no lo saca de revisión: los campos sensibles pasan por
+// una EventRevision (ver eventRevision.service).
+// Event.approved se mantiene sincronizado (approved = APPROVED): es lo que filtran las consultas públicas.
+import type { EventReviewStatus, Prisma } from '@prisma/client';
+import prisma from '../prisma/client';
+import { sendEventReviewEmail, sendEventSubmittedToAdminEmail } from './email.service';
+import { pruneRevisionCovers, withdrawPendingRevisions } from './eventRevision.service';
+
+export type ReviewActor = { id: number | null; role: 'admin' | 'organizer' };
+
+export const REVIEW_STATUSES: readonly EventReviewStatus[] = ['DRAFT', 'SUBMITTED', 'CHANGES_REQUESTED', 'APPROVED', 'REJECTED'];
+
+const TRANSITIONS: Record<ReviewActor['role'], Partial<Record<EventReviewStatus, EventReviewStatus[]>>> = {
+  organizer: {
+    DRAFT: ['SUBMITTED'],
+    CHANGES_REQUESTED: ['SUBMITTED'],
+  },
+  admin: {
+    SUBMITTED: ['APPROVED', 'CHANGES_REQUESTED', 'REJECTED'],
+    APPROVED: ['SUBMITTED', 'CHANGES_REQUESTED', 'REJECTED'],
+    CHANGES_REQUESTED: ['APPROVED', 'REJECTED'],
+    REJECTED: ['APPROVED', 'CHANGES_REQUESTED'],
+  },
+};
+
+/** Campos que el revisor puede señalar (nombres de la API del organizador) */
+export const REVIEW_FIELDS = [
+  'title', 'description', 'startAt', 'venue', 'city', 'commune', 'coverImageUrl', 'capacity',
+  'price', 'sections', 'categories', 'tags', 'salesWindow', 'payout', 'general',
+] as const;
+const MAX_REVIEW_COMMENTS = 20;
+const MAX_MESSAGE_LENGTH = 2000;
+
+export type ReviewComment = { field: typeof REVIEW_FIELDS[number]; message: string };
+
+function reviewError(code: string, status: number) {
+  return Object.assign(new Error(code), { status });
+}
+
+const REVIEW_ERROR_MESSAGES: Record<string, string> = {
+  EVENT_NOT_FOUND: 'Evento no encontrado',
+  INVALID_REVIEW_TRANSITION: 'El evento no puede pasar a ese estado desde su estado actual',
+  ORGANIZER_INACTIVE: 'No puedes aprobar eventos de cuentas eliminadas o inactivas.',
+  REVIEW_MESSAGE_REQUIRED: 'Indica el motivo (message) o comentarios por campo',
+  REVIEW_CONFLICT: 'El estado de revisión cambió mientras tanto; recarga el evento',
+  REVIEW_PARENT_NOT_FOUND: 'Comentario no encontrado',
+};
+
+/** Traduce los errores de este servicio a { status, body }; null si no es uno de ellos */
+export function reviewErrorResponse(err: unknown) {
+  const e = err as { message?: string; status?: number; from?: string; to?: string };
+  const error = e?.message ? REVIEW_ERROR_MESSAGES[e.message] : undefined;
+  if (!error) return null;
+  return {
+    status: e.status ?? 400,
+    body: { error, code: e.message, ...(e.from ? { from: e.from, to: e.to } : {}) },
+  };
+}
+
+export function canTransition(role: ReviewActor['role'], from: EventReviewStatus, to: EventReviewStatus) {
+  return TRANSITIONS[role][from]?.includes(to) ?? false;
+}
+
+/** Campos de Event que cambian al entrar a un estado */
+export function reviewStatusData(to: EventReviewStatus, actor: ReviewActor, now = new Date()) {
+  const data: Prisma.EventUncheckedUpdateManyInput = { reviewStatus: to, approved: to === 'APPROVED' };
+  if (to === 'SUBMITTED') {
+    data.submittedAt = now;
+    data.reviewRound = { increment: 1 };
+  } else if (actor.role === 'admin') {
+    data.reviewedAt = now;
+    data.reviewedById = actor.id;
+  }
+  return data;
+}
+
+/** Mensaje opcional de la transición o del comentario */
+export function parseReviewMessage(value: unknown): { error?: string; message: string | null } {
+  const message = String(value ?? '').trim();
+  if (message.length > MAX_MESSAGE_LENGTH) return { error: `message excede ${MAX_MESSAGE_LENGTH} caracteres`, message: null };
+  return { message: message || null };
+}
+
+/** Comentarios por campo: [{ field, message }] */
+export function parseReviewComments(value: unknown): { errors: string[]; comments: ReviewComment[] } {
+  if (value == null) return { errors: [], comments: [] };
+  if (!Array.isArray(value)) return { errors: ['comments debe ser un arreglo de { field, message }'], comments: [] };
+  if (value.length > MAX_REVIEW_COMMENTS) return { errors: [`Máximo ${MAX_REVIEW_COMMENTS} comentarios por revisión`], comments: [] };
+
+  const errors: string[] = [];
+  const comments: ReviewComment[] = [];
+  value.forEach((raw: Record<string, unknown> | null, i) => {
+    const field = String(raw?.field ?? '').trim();
+    const message = String(raw?.message ?? '').trim();
+    if (!(REVIEW_FIELDS as readonly string[]).includes(field)) {
+      errors.push(`comments[${i}].field inválido (${REVIEW_FIELDS.join(', ')})`);
+    } else if (!message) {
+      errors.push(`comments[${i}].message es requerido`);
+    } else if (message.length > MAX_MESSAGE_LENGTH) {
+      errors.push(`comments[${i}].message excede ${MAX_MESSAGE_LENGTH} caracteres`);
+    } else {
+      comments.push({ field: field as ReviewComment['field'], message });
+    }
+  });
+  return { errors, comments };
+}
+
+/** Body de un comentario de revisión: { message, field?, parentId? } */
+export function parseReviewCommentBody(body: Record<string, unknown> | undefined) {
+  const errors: string[] = [];
+  const parsed = parseReviewMessage(body?.message);
+  if (parsed.error) errors.push(parsed.error);
+  else if (!parsed.message) errors.push('message es requerido');
+
+  const field = body?.field == null || body.field === '' ? null : String(body.field);
+  if (field && !(REVIEW_FIELDS as readonly string[]).includes(field)) {
+    errors.push(`field inválido (${REVIEW_FIELDS.join(', ')})`);
+  }
+  const parentId = body?.parentId == null ? null : Number(body.parentId);
+  if (parentId !== null && (!Number.isInteger(parentId) || parentId <= 0)) errors.push('parentId inválido');
+
+  return {
+    errors,
+    input: { message: parsed.message ?? '', field: field as ReviewComment['field'] | null, parentId },
+  };
+}
+
+/**
+ * Aplica una transición: valida el flujo, actualiza el evento de forma condicional (si otro revisor
+ * cambió el estado entre medio lanza REVIEW_CONFLICT), registra la entrada en el historial
+ * con sus comentarios por campo y avisa por email en segundo plano.
+ * Errores (status en err.status): EVENT_NOT_FOUND, INVALID_REVIEW_TRANSITION, ORGANIZER_INACTIVE,
+ * REVIEW_MESSAGE_REQUIRED, REVIEW_CONFLICT.
+ */
+export async function transitionEventReview(
+  eventId: number,
+  to: EventReviewStatus,
+  actor: ReviewActor,
+  input: { message?: string | null; comments?: ReviewComment[] } = {}
+) {
+  const message = input.message ?? null;
+  const comments = input.comments ?? [];
+
+  const event = await prisma.event.findUnique({
+    where: { id: eventId },
+    select: {
+      id: true, title: true, reviewStatus: true, reviewRound: true, canceledAt: true,
+      organizer: { select: { id: true, name: true, email: true, isActive: true, deletedAt: true } },
+    },
+  });
+  if (!event) throw reviewError('EVENT_NOT_FOUND', 404);
+
+  const from = event.reviewStatus;
+  if (event.canceledAt || !canTransition(actor.role, from, to)) {
+    throw Object.assign(reviewError('INVALID_REVIEW_TRANSITION', 409), { from, to });
+  }
+  if (to === 'APPROVED' && (!event.organizer.isActive || event.organizer.deletedAt)) {
+    throw reviewError('ORGANIZER_INACTIVE', 409);
+  }
+  if ((to === 'CHANGES_REQUESTED' || to === 'REJECTED') && !message && !comments.length) {
+    throw reviewError('REVIEW_MESSAGE_REQUIRED', 400);
+  }
+
+  const now = new Date();
+  const round = to === 'SUBMITTED' ? event.reviewRound + 1 : event.reviewRound;
+  const author = { authorId: actor.id, authorRole: actor.role, round };
+
+  const withdrawn = await prisma.$transaction(async (tx) => {
+    const updated = await tx.event.updateMany({
+      where: { id: eventId, reviewStatus: from },
+      data: reviewStatusData(to, actor, now),
+    });
+    if (updated.count === 0) throw reviewError('REVIEW_CONFLICT', 409);
+
+    await tx.eventReviewComment.create({ data: { eventId, toStatus: to, message, ...author } });
+    if (comments.length) {
+      await tx.eventReviewComment.createMany({
+        data: comments.map((c) => ({ eventId, field: c.field, message: c.message, ...author })),
+      });
+    }
+
+    // Fuera de APPROVED las ediciones se aplican directo: la revisión pendiente queda obsoleta
+    return from === 'APPROVED' && to !== 'APPROVED' ? withdrawPendingRevisions([eventId], tx) : 0;
+  });
+  if (withdrawn) await pruneRevisionCovers(eventId);
+
+  void notifyReviewTransition(event, to, round, message, comments);
+
+  return { from, to, round };
+}
+
+async function notifyReviewTransition(
+  event: { id: number; title: string; organizer: { name: string; email: string } },
+  to: EventReviewStatus,
+  round: number,
+  message: string | null,
+  comments: ReviewComment[]
+) {
+  try {
+    await sendEventReviewEmail({
+      email: event.organizer.email,
+      name: event.organizer.name,
+      eventId: event.id,
+      eventTitle: event.title,
+      status: to,
+      message,
+      comments,
+    });
+    if (to === 'SUBMITTED') {
+      await sendEventSubmittedToAdminEmail({
+        eventId: event.id,
+        eventTitle: event.title,
+        organizerName: event.organizer.name,
+        round,
+        message,
+      });
+    }
+  } catch (err) {
+    console.error('Error enviando email de revisión de evento:', (err as Error)?.message);
+  }
+}
+
+/**
+ * Comentario suelto o respuesta en un hilo. Las respuestas siempre cuelgan del comentario raíz.
+ * Errores: EVENT_NOT_FOUND, REVIEW_PARENT_NOT_FOUND.
+ */
+export async function addReviewComment(
+  eventId: number,
+  actor: ReviewActor,
+  input: { message: string; field?: ReviewComment['field'] | null; parentId?: number | null }
+) {
+  const event = await prisma.event.findUnique({ where: { id: eventId }, select: { reviewRound: true } });
+  if (!event) throw reviewError('EVENT_NOT_FOUND', 404);
+
+  let parentId: number | null = null;
+  let field: string | null = input.field ?? null;
+  if (input.parentId != null) {
+    const parent = await prisma.eventReviewComment.findFirst({
+      where: { id: input.parentId, eventId },
+      select: { id: true, parentId: true, field: true },
+    });
+    if (!parent) throw reviewError('REVIEW_PARENT_NOT_FOUND', 404);
+    parentId = parent.parentId ?? parent.id;
+    field = field ?? parent.field;
+  }
+
+  return prisma.eventReviewComment.create({
+    data: {
+      eventId,
+      parentId,
+      field,
+      message: input.message,
+      round: event.reviewRound,
+      authorId: actor.id,
+      authorRole: actor.role,
+    },
+  });
+}
+
+/**
+ * Historial de la revisión como hilos: cada raíz es una transición (toStatus) o un comentario
+ * (field), con sus respuestas en orden cronológico.
+ */
+export async function getReviewThreads(eventId: number) {
+  const all = await prisma.eventReviewComment.findMany({
+    where: { eventId },
+    orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+  });
+  const replies = new Map<number, typeof all>();
+  for (const c of all) {
+    if (c.parentId == null) continue;
+    replies.set(c.parentId, [...(replies.get(c.parentId) ?? []), c]);
+  }
+  return all
+    .filter((c) => c.parentId == null)
+    .map((c) => ({ ...c, replies: replies.get(c.id) ?? [] }));
+}
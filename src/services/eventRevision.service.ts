@@ -0,0 +1,323 @@
+// src/services/eventRevision.service.ts
+// Puerta de re-aprobación: en un evento APPROVED, los cambios a campos sensibles (EVENT_SENSITIVE_FIELDS)
+// no se aplican; quedan en una EventRevision PENDING hasta que un admin la apruebe y mientras tanto
+// el evento sigue publicado y vendiendo con la versión aprobada. El resto de los cambios se aplica directo.
+// Los precios que viven fuera de Event (secciones, tipos de entrada, fases) no caben en una revisión:
+// si están configurados como sensibles, en un evento APPROVED se rechazan (ver approvedPriceLock).
+import { Prisma, type EventRevision } from '@prisma/client';
+import prisma from '../prisma/client';
+import { getEventSensitiveFields } from './config.service';
+import { pruneCoverFiles, readCoverVariants } from './coverImage.service';
+import { nextEventGeo } from './eventGeo.service';
+import { checkSalesWindow } from './salesWindow.service';
+
+/** Campo de la API del organizador → columna de Event */
+export const SENSITIVE_FIELD_COLUMNS = {
+  title: 'title',
+  description: 'description',
+  startAt: 'date',
+  venue: 'location',
+  city: 'city',
+  commune: 'commune',
+  capacity: 'capacity',
+  price: 'price',
+  priceBase: 'priceBase',
+  coverImageUrl: 'coverImageUrl',
+} as const;
+
+/** Precios fuera de Event que también se pueden marcar como sensibles */
+export const SENSITIVE_PRICE_FIELDS = {
+  sectionPrice: 'el precio de una sección',
+  ticketTypePrice: 'los tipos de entrada',
+  pricePhases: 'las fases de precio',
+} as const;
+
+export type SensitivePriceField = keyof typeof SENSITIVE_PRICE_FIELDS;
+
+type SensitiveField = keyof typeof SENSITIVE_FIELD_COLUMNS;
+export type RevisionColumn = typeof SENSITIVE_FIELD_COLUMNS[SensitiveField] | 'coverImageVariants';
+type RevisionValues = Partial<Record<RevisionColumn, Prisma.JsonValue>>;
+
+/** Valores vigentes de las columnas revisables */
+export const REVISION_COLUMNS_SELECT = {
+  title: true,
+  description: true,
+  date: true,
+  location: true,
+  city: true,
+  commune: true,
+  capacity: true,
+  price: true,
+  priceBase: true,
+  coverImageUrl: true,
+  coverImageVariants: true,
+} satisfies Prisma.EventSelect;
+
+type CurrentValues = Prisma.EventGetPayload<{ select: typeof REVISION_COLUMNS_SELECT }>;
+
+/** Con entradas vendidas no se aplican cambios de fecha, lugar, capacidad ni precio (como en updateMyEvent) */
+const SOLD_LOCKED_COLUMNS: RevisionColumn[] = ['date', 'location', 'city', 'commune', 'capacity', 'price', 'priceBase'];
+
+function revisionError(code: string, status: number) {
+  return Object.assign(new Error(code), { status });
+}
+
+const REVISION_ERROR_MESSAGES: Record<string, string> = {
+  REVISION_NOT_FOUND: 'Revisión no encontrada',
+  REVISION_NOT_PENDING: 'La revisión ya fue resuelta',
+  REVISION_EVENT_CANCELED: 'El evento fue cancelado; rechaza la revisión',
+  REVISION_EVENT_NOT_APPROVED: 'El evento ya no está aprobado; la revisión quedó obsoleta',
+  REVISION_LOCKED_BY_SALES: 'El evento ya tiene entradas vendidas: no se pueden aplicar cambios de fecha, lugar, capacidad o precio',
+  REVISION_INVALID_SALES_WINDOW: 'La nueva fecha no es compatible con la ventana de venta del evento',
+};
+
+/** Traduce los errores de este servicio a { status, body }; null si no es uno de ellos */
+export function revisionErrorResponse(err: unknown) {
+  const e = err as { message?: string; status?: number; details?: string[]; soldTicketsCount?: number };
+  const error = e?.message ? REVISION_ERROR_MESSAGES[e.message] : undefined;
+  if (!error) return null;
+  return {
+    status: e.status ?? 400,
+    body: {
+      error,
+      code: e.message,
+      ...(e.details ? { details: e.details } : {}),
+      ...(e.soldTicketsCount ? { soldTicketsCount: e.soldTicketsCount } : {}),
+    },
+  };
+}
+
+/** Columnas sensibles según la configuración; la portada procesada viaja junto a su URL */
+export async function getSensitiveColumns(): Promise<RevisionColumn[]> {
+  const fields = await getEventSensitiveFields();
+  const columns: RevisionColumn[] = fields
+    .filter((f): f is SensitiveField => Object.prototype.hasOwnProperty.call(SENSITIVE_FIELD_COLUMNS, f))
+    .map((f) => SENSITIVE_FIELD_COLUMNS[f]);
+  return columns.includes('coverImageUrl') ? [...columns, 'coverImageVariants'] : columns;
+}
+
+/**
+ * En un evento APPROVED, los cambios a un precio fuera de Event configurado como sensible se rechazan
+ * (quedaría cobrando un precio que nadie revisó). Devuelve el cuerpo del 409 o null si se permite.
+ */
+export async function approvedPriceLock(eventId: number, field: SensitivePriceField) {
+  const event = await prisma.event.findUnique({ where: { id: eventId }, select: { reviewStatus: true } });
+  if (event?.reviewStatus !== 'APPROVED') return null;
+  if (!(await getEventSensitiveFields()).includes(field)) return null;
+  return {
+    error: `El evento está aprobado: no se puede cambiar ${SENSITIVE_PRICE_FIELDS[field]} sin una nueva aprobación`,
+    code: 'PRICE_REQUIRES_REVIEW',
+    field,
+  };
+}
+
+function toJsonValue(value: unknown): Prisma.JsonValue {
+  if (value instanceof Date) return value.toISOString();
+  if (value === undefined || value === Prisma.DbNull) return null;
+  return value as Prisma.JsonValue;
+}
+
+function sameValue(a: unknown, b: unknown) {
+  return JSON.stringify(toJsonValue(a)) === JSON.stringify(toJsonValue(b));
+}
+
+/**
+ * Saca de data (datos de prisma.event.update) las columnas sensibles. Devuelve los cambios reales
+ * con su valor vigente, y las columnas que volvieron al valor aprobado (se quitan de la revisión pendiente).
+ */
+export function splitSensitiveChanges(data: Record<string, unknown>, current: CurrentValues, columns: RevisionColumn[]) {
+  const changes: RevisionValues = {};
+  const previous: RevisionValues = {};
+  const reverted: RevisionColumn[] = [];
+  for (const column of columns) {
+    if (!(column in data)) continue;
+    const value = data[column];
+    delete data[column];
+    if (sameValue(value, current[column])) {
+      reverted.push(column);
+    } else {
+      changes[column] = toJsonValue(value);
+      previous[column] = toJsonValue(current[column]);
+    }
+  }
+  return { changes, previous, reverted };
+}
+
+/**
+ * Suma los cambios a la revisión pendiente del evento (o crea una). previous conserva el valor
+ * vigente al proponer cada campo por primera vez. Si no queda ningún cambio la revisión pasa a WITHDRAWN.
+ * Devuelve la revisión pendiente resultante (o null).
+ */
+export async function queueEventRevision(
+  eventId: number,
+  createdById: number,
+  split: ReturnType<typeof splitSensitiveChanges>
+): Promise<EventRevision | null> {
+  const touched = Object.keys(split.changes).length > 0 || split.reverted.length > 0;
+  if (!touched) return prisma.eventRevision.findFirst({ where: { eventId, status: 'PENDING' } });
+
+  const revision = await prisma.$transaction(async (tx) => {
+    const pending = await tx.eventRevision.findFirst({ where: { eventId, status: 'PENDING' } });
+    if (!pending) {
+      if (!Object.keys(split.changes).length) return null;
+      return tx.eventRevision.create({
+        data: { eventId, createdById, changes: split.changes, previous: split.previous },
+      });
+    }
+
+    const changes: RevisionValues = { ...(pending.changes as RevisionValues), ...split.changes };
+    const previous: RevisionValues = { ...split.previous, ...(pending.previous as RevisionValues) };
+    for (const column of split.reverted) {
+      delete changes[column];
+      delete previous[column];
+    }
+    if (!Object.keys(changes).length) {
+      await tx.eventRevision.update({ where: { id: pending.id }, data: { status: 'WITHDRAWN' } });
+      return null;
+    }
+    return tx.eventRevision.update({ where: { id: pending.id }, data: { changes, previous } });
+  });
+
+  if ('coverImageVariants' in split.changes || split.reverted.includes('coverImageVariants')) {
+    await pruneRevisionCovers(eventId);
+  }
+  return revision;
+}
+
+/**
+ * El evento dejó de estar APPROVED: sus ediciones vuelven a aplicarse directo, así que la revisión
+ * pendiente queda obsoleta (aprobarla después pisaría valores más nuevos). Pasa a WITHDRAWN.
+ */
+export async function withdrawPendingRevisions(eventIds: number[], db: Prisma.TransactionClient | typeof prisma = prisma) {
+  if (!eventIds.length) return 0;
+  const withdrawn = await db.eventRevision.updateMany({
+    where: { eventId: { in: eventIds }, status: 'PENDING' },
+    data: { status: 'WITHDRAWN' },
+  });
+  return withdrawn.count;
+}
+
+/** Conserva en disco solo las variantes de la portada vigente y de la revisión pendiente */
+export async function pruneRevisionCovers(eventId: number) {
+  const [event, pending] = await Promise.all([
+    prisma.event.findUnique({ where: { id: eventId }, select: { coverImageVariants: true } }),
+    prisma.eventRevision.findFirst({ where: { eventId, status: 'PENDING' }, select: { changes: true } }),
+  ]);
+  const proposed = (pending?.changes as RevisionValues | undefined)?.coverImageVariants;
+  await pruneCoverFiles(
+    eventId,
+    readCoverVariants(event?.coverImageVariants)?.version,
+    readCoverVariants(proposed)?.version
+  );
+}
+
+/** Diff campo a campo: valor al proponer, propuesto y vigente (changedSinceProposal si cambió entre medio) */
+export function revisionDiff(revision: Pick<EventRevision, 'changes' | 'previous'>, current: CurrentValues) {
+  const changes = revision.changes as RevisionValues;
+  const previous = revision.previous as RevisionValues;
+  const fieldOf = new Map<string, string>(Object.entries(SENSITIVE_FIELD_COLUMNS).map(([field, column]) => [column, field]));
+
+  return (Object.keys(changes) as RevisionColumn[]).map((column) => ({
+    field: fieldOf.get(column) ?? column,
+    column,
+    previous: previous[column] ?? null,
+    proposed: changes[column] ?? null,
+    current: toJsonValue(current[column]),
+    changedSinceProposal: !sameValue(previous[column] ?? null, current[column]),
+  }));
+}
+
+/** Revisión como se expone al organizador y al admin */
+export function mapRevision(revision: EventRevision, current: CurrentValues) {
+  return {
+    id: revision.id,
+    eventId: revision.eventId,
+    status: revision.status,
+    createdAt: revision.createdAt,
+    updatedAt: revision.updatedAt,
+    reviewedAt: revision.reviewedAt,
+    reviewNote: revision.reviewNote,
+    diff: revisionDiff(revision, current),
+  };
+}
+
+/** Cambios guardados → datos de prisma.event.update */
+function toEventData(changes: RevisionValues) {
+  const data: Record<string, unknown> = { ...changes };
+  if (typeof changes.date === 'string') data.date = new Date(changes.date);
+  if ('coverImageVariants' in changes && changes.coverImageVariants === null) data.coverImageVariants = Prisma.DbNull;
+  return data as Prisma.EventUncheckedUpdateInput;
+}
+
+/**
+ * Aplica la revisión al evento (recalcula coordenadas si cambió el lugar).
+ * Errores: REVISION_NOT_FOUND, REVISION_NOT_PENDING, REVISION_EVENT_CANCELED, REVISION_EVENT_NOT_APPROVED,
+ * REVISION_LOCKED_BY_SALES, REVISION_INVALID_SALES_WINDOW.
+ */
+export async function approveEventRevision(revisionId: number, reviewerId: number, note: string | null) {
+  const revision = await prisma.eventRevision.findUnique({
+    where: { id: revisionId },
+    include: {
+      event: {
+        select: {
+          id: true, canceledAt: true, reviewStatus: true, geoSource: true, publishAt: true, salesOpenAt: true, salesCloseAt: true,
+          ...REVISION_COLUMNS_SELECT,
+        },
+      },
+    },
+  });
+  if (!revision) throw revisionError('REVISION_NOT_FOUND', 404);
+  if (revision.status !== 'PENDING') throw revisionError('REVISION_NOT_PENDING', 409);
+  const { event } = revision;
+  if (event.canceledAt) throw revisionError('REVISION_EVENT_CANCELED', 409);
+  if (event.reviewStatus !== 'APPROVED') throw revisionError('REVISION_EVENT_NOT_APPROVED', 409);
+
+  const changes = revision.changes as RevisionValues;
+  if ((Object.keys(changes) as RevisionColumn[]).some((c) => SOLD_LOCKED_COLUMNS.includes(c))) {
+    const paid = await prisma.reservation.count({ where: { eventId: event.id, status: 'PAID' } });
+    if (paid > 0) throw Object.assign(revisionError('REVISION_LOCKED_BY_SALES', 409), { soldTicketsCount: paid });
+  }
+
+  const data = toEventData(changes);
+  if (data.date instanceof Date) {
+    const details = checkSalesWindow(event, data.date);
+    if (details.length) throw Object.assign(revisionError('REVISION_INVALID_SALES_WINDOW', 409), { details });
+  }
+  const geo = nextEventGeo(event, {
+    location: 'location' in changes ? String(changes.location) : event.location,
+    city: 'city' in changes ? (changes.city as string | null) : event.city,
+    commune: 'commune' in changes ? (changes.commune as string | null) : event.commune,
+  });
+
+  await prisma.$transaction(async (tx) => {
+    const claimed = await tx.eventRevision.updateMany({
+      where: { id: revisionId, status: 'PENDING' },
+      data: { status: 'APPROVED', reviewedById: reviewerId, reviewedAt: new Date(), reviewNote: note },
+    });
+    if (claimed.count === 0) throw revisionError('REVISION_NOT_PENDING', 409);
+    // El evento pudo salir de APPROVED entre la lectura y la transacción
+    const applied = await tx.event.updateMany({
+      where: { id: event.id, reviewStatus: 'APPROVED' },
+      data: { ...data, ...geo } as Prisma.EventUncheckedUpdateManyInput,
+    });
+    if (applied.count === 0) throw revisionError('REVISION_EVENT_NOT_APPROVED', 409);
+  });
+
+  if ('coverImageVariants' in changes) await pruneRevisionCovers(event.id);
+  return { eventId: event.id, applied: Object.keys(changes) };
+}
+
+/** Descarta la revisión; el evento queda con la versión aprobada. Errores: REVISION_NOT_FOUND, REVISION_NOT_PENDING */
+export async function rejectEventRevision(revisionId: number, reviewerId: number, note: string) {
+  const revision = await prisma.eventRevision.findUnique({ where: { id: revisionId } });
+  if (!revision) throw revisionError('REVISION_NOT_FOUND', 404);
+
+  const claimed = await prisma.eventRevision.updateMany({
+    where: { id: revisionId, status: 'PENDING' },
+    data: { status: 'REJECTED', reviewedById: reviewerId, reviewedAt: new Date(), reviewNote: note },
+  });
+  if (claimed.count === 0) throw revisionError('REVISION_NOT_PENDING', 409);
+
+  if ('coverImageVariants' in (revision.changes as RevisionValues)) await pruneRevisionCovers(revision.eventId);
+  return { eventId: revision.eventId };
+}
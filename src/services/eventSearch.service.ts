@@ -0,0 +1,97 @@
+// src/services/eventSearch.service.ts
+// Búsqueda de eventos públicos con Postgres: full-text en español sin acentos (Event.searchVector)
+// y similitud por trigramas para tolerar errores de tipeo. Ver migración add_event_search.
+import { Prisma } from '@prisma/client';
+import prisma from '../prisma/client';
+
+// Máximo de coincidencias que se consideran (el listado público pagina sobre ellas)
+const MATCH_LIMIT = 1000;
+// Umbral de word_similarity para el operador <% (default de pg_trgm: 0.6, muy estricto para tipeos)
+const TYPO_THRESHOLD = 0.4;
+// Peso de la similitud por trigramas frente al rank full-text
+const TYPO_WEIGHT = 0.5;
+
+/** Rangos de precio para los facets (CLP, inclusivos; max null = sin tope) */
+export const PRICE_FACET_BUCKETS = [
+  { key: 'free', min: 0, max: 0 },
+  { key: 'upTo10k', min: 1, max: 10_000 },
+  { key: '10kTo25k', min: 10_001, max: 25_000 },
+  { key: '25kTo50k', min: 25_001, max: 50_000 },
+  { key: 'over50k', min: 50_001, max: null },
+] as const;
+
+function escapeLike(v: string) {
+  return v.replace(/[\\%_]/g, (c) => `\\${c}`);
+}
+
+/**
+ * Eventos públicos (aprobados, activos y publicados) que coinciden con el texto y/o la ubicación,
+ * con su relevancia. Devuelve null si no hay nada que buscar (sin filtro).
+ * - q: full-text (stemming en español, sin acentos) o parecido por trigramas en título/lugar
+ * - location: contiene, sin acentos ni mayúsculas, en lugar/ciudad/comuna
+ */
+export async function matchPublicEvents(params: { q?: string; location?: string }): Promise<Map<number, number> | null> {
+  const q = params.q?.trim();
+  const location = params.location?.trim();
+  if (!q && !location) return null;
+
+  const conditions: Prisma.Sql[] = [
+    Prisma.sql`e."approved" = true`,
+    Prisma.sql`e."isActive" = true`,
+    Prisma.sql`(e."publishAt" IS NULL OR e."publishAt" <= now())`,
+  ];
+  let rank = Prisma.sql`0`;
+
+  if (q) {
+    const tsq = Prisma.sql`websearch_to_tsquery('spanish', "immutable_unaccent"(${q}))`;
+    const term = Prisma.sql`"immutable_unaccent"(lower(${q}))`;
+    const text = Prisma.sql`"event_search_text"(e."title", e."location", e."city", e."commune")`;
+    conditions.push(Prisma.sql`(e."searchVector" @@ ${tsq} OR ${term} <% ${text})`);
+    rank = Prisma.sql`ts_rank_cd(e."searchVector", ${tsq}) + word_similarity(${term}, ${text}) * ${TYPO_WEIGHT}`;
+  }
+  if (location) {
+    const pattern = `%${escapeLike(location.toLowerCase())}%`;
+    conditions.push(
+      Prisma.sql`"immutable_unaccent"(lower(concat_ws(' ', e."location", e."city", e."commune"))) LIKE "immutable_unaccent"(${pattern})`
+    );
+  }
+
+  // set_config(..., true) solo vale dentro de la transacción
+  const [, rows] = await prisma.$transaction([
+    prisma.$queryRaw`SELECT set_config('pg_trgm.word_similarity_threshold', ${String(TYPO_THRESHOLD)}, true)`,
+    prisma.$queryRaw<Array<{ id: number; rank: number }>>`
+      SELECT e."id", (${rank})::float8 AS "rank"
+      FROM "Event" e
+      WHERE ${Prisma.join(conditions, ' AND ')}
+      ORDER BY "rank" DESC, e."date" ASC
+      LIMIT ${MATCH_LIMIT}
+    `,
+  ]);
+  return new Map(rows.map((r) => [r.id, Number(r.rank)]));
+}
+
+type FacetEvent = { city: string | null; commune: string | null; eventType: string; price: number };
+
+function countBy(list: FacetEvent[], key: 'city' | 'commune' | 'eventType') {
+  const counts = new Map<string, number>();
+  for (const ev of list) {
+    const value = ev[key];
+    if (value) counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  return [...counts.entries()]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value, 'es'));
+}
+
+/** Conteos por ciudad, comuna, tipo y rango de precio sobre el resultado completo (antes de paginar) */
+export function buildEventFacets(list: FacetEvent[]) {
+  return {
+    city: countBy(list, 'city'),
+    commune: countBy(list, 'commune'),
+    eventType: countBy(list, 'eventType'),
+    price: PRICE_FACET_BUCKETS.map((b) => ({
+      ...b,
+      count: list.filter((ev) => ev.price >= b.min && (b.max === null || ev.price <= b.max)).length,
+    })),
+  };
+}
@@ -0,0 +1,353 @@
+// src/services/eventSeries.service.ts
+// Series de eventos: un espectáculo con varias funciones. Cada función es un Event OWN
+// (fecha, capacidad y stock propios) creado con el contenido de la serie y su plantilla de secciones.
+// Cancelar o mover funciones reutiliza los flujos de cancelación y de avisos de cambio.
+import { Prisma, type EventSection, type EventSeries } from '@prisma/client';
+import prisma from '../prisma/client';
+import { getFieldLimits } from './config.service';
+import { checkPrice } from './pricing.service';
+import { startEventCancellation, queueEventCancellation } from './eventCancellation.service';
+import { publishEventChange, queueEventChangeNotice } from './eventChange.service';
+import { calculateSectionCapacity } from '../utils/sections';
+import { resolveEventGeo } from './eventGeo.service';
+import { checkSalesWindow } from './salesWindow.service';
+import { getSensitiveColumns, queueEventRevision, REVISION_COLUMNS_SELECT, splitSensitiveChanges } from './eventRevision.service';
+import { pruneCoverFiles } from './coverImage.service';
+
+export type SectionTemplate = {
+  name: string;
+  rowStart: string | null;
+  rowEnd: string | null;
+  seatsPerRow: number | null;
+  seatStart: number | null;
+  seatEnd: number | null;
+  description: string | null;
+  price: number | null;
+  totalCapacity: number;
+};
+
+export type PerformanceResult = { eventId: number; ok: boolean; status?: string; error?: string };
+
+function toStr(v: unknown) {
+  return String(v ?? '').trim();
+}
+
+function toPositiveInt(v: unknown) {
+  const n = Number(v);
+  return Number.isInteger(n) && n > 0 ? n : null;
+}
+
+/**
+ * Valida la plantilla de secciones (mismas reglas de capacidad que createSection).
+ * La suma de capacidades no puede superar la capacidad por defecto de la serie.
+ */
+export async function parseSectionsTemplate(value: unknown, capacity: number) {
+  const errors: string[] = [];
+  const sections: SectionTemplate[] = [];
+  if (value == null) return { errors, sections };
+  if (!Array.isArray(value)) return { errors: ['sectionsTemplate debe ser un arreglo'], sections };
+
+  const FIELD_LIMITS = await getFieldLimits();
+  for (const [i, raw] of value.entries()) {
+    const item = (raw ?? {}) as Record<string, unknown>;
+    const label = `sectionsTemplate[${i}]`;
+
+    const name = toStr(item.name);
+    if (!name) errors.push(`${label}.name es requerido`);
+    else if (name.length > FIELD_LIMITS.TICKET_SECTION) errors.push(`${label}.name excede ${FIELD_LIMITS.TICKET_SECTION} caracteres`);
+
+    const section = {
+      rowStart: toStr(item.rowStart) || null,
+      rowEnd: toStr(item.rowEnd) || null,
+      seatsPerRow: toPositiveInt(item.seatsPerRow),
+      seatStart: toPositiveInt(item.seatStart),
+      seatEnd: toPositiveInt(item.seatEnd),
+    };
+    const totalCapacity = calculateSectionCapacity(section);
+    if (!totalCapacity) errors.push(`${label}: no se pudo calcular la capacidad de la sección`);
+
+    let price: number | null = null;
+    if (item.price != null) {
+      const priceError = await checkPrice(item.price, `${label}.price`);
+      if (priceError) errors.push(priceError);
+      else price = Number(item.price);
+    }
+
+    const description = toStr(item.description) || null;
+    if (description && description.length > 200) errors.push(`${label}.description excede 200 caracteres`);
+
+    sections.push({ name, ...section, description, price, totalCapacity: totalCapacity ?? 0 });
+  }
+
+  const total = sections.reduce((sum, s) => sum + s.totalCapacity, 0);
+  if (!errors.length && total > capacity) {
+    errors.push(`La suma de capacidades de las secciones (${total}) excede la capacidad (${capacity})`);
+  }
+  return { errors, sections };
+}
+
+/** Plantilla a partir de las secciones de un evento existente */
+export function templateFromSections(sections: EventSection[]): SectionTemplate[] {
+  return sections.map((s) => ({
+    name: s.name,
+    rowStart: s.rowStart,
+    rowEnd: s.rowEnd,
+    seatsPerRow: s.seatsPerRow,
+    seatStart: s.seatStart,
+    seatEnd: s.seatEnd,
+    description: s.description,
+    price: s.price,
+    totalCapacity: s.totalCapacity,
+  }));
+}
+
+export function readSectionsTemplate(series: Pick<EventSeries, 'sectionsTemplate'>): SectionTemplate[] {
+  return Array.isArray(series.sectionsTemplate) ? (series.sectionsTemplate as unknown as SectionTemplate[]) : [];
+}
+
+export function templateCapacity(template: SectionTemplate[]) {
+  return template.reduce((sum, s) => sum + s.totalCapacity, 0);
+}
+
+/**
+ * Crea las funciones indicadas (todas o ninguna). Quedan pendientes de aprobación,
+ * igual que un evento creado con createMyEvent.
+ */
+export async function createPerformances(
+  series: EventSeries,
+  performances: Array<{ date: Date; capacity: number }>,
+  payoutHolder: { name: string | null; rut: string | null }
+) {
+  const template = readSectionsTemplate(series);
+  const geo = resolveEventGeo(null, series);
+  return prisma.$transaction(async (tx) => {
+    const created = [];
+    for (const p of performances) {
+      const event = await tx.event.create({
+        data: {
+          seriesId: series.id,
+          organizerId: series.organizerId,
+          title: series.title,
+          description: series.description,
+          coverImageUrl: series.coverImageUrl,
+          location: series.location,
+          city: series.city,
+          commune: series.commune,
+          ...geo,
+          price: series.price,
+          date: p.date,
+          capacity: p.capacity,
+          approved: false,
+          submittedAt: new Date(),
+          reviewRound: 1,
+          eventType: 'OWN',
+          payoutHolderName: payoutHolder.name,
+          payoutHolderRut: payoutHolder.rut,
+          sections: { create: template },
+        },
+        select: { id: true, date: true, capacity: true, approved: true },
+      });
+      created.push(event);
+    }
+    return created;
+  });
+}
+
+/**
+ * Contenido compartido que se replica en las funciones no canceladas al editar la serie.
+ * Las funciones APPROVED pasan por la puerta de re-aprobación como un updateMyEvent:
+ * los campos sensibles quedan en una revisión pendiente por función y el resto se aplica directo.
+ */
+export async function syncSeriesContent(
+  seriesId: number,
+  content: { title?: string; description?: string; coverImageUrl?: string | null },
+  updatedById: number
+) {
+  const result = { updated: 0, pendingReview: [] as number[] };
+  if (!Object.keys(content).length) return result;
+
+  // Una portada compartida nueva reemplaza las variantes procesadas de cada función
+  const data: Prisma.EventUpdateManyMutationInput =
+    content.coverImageUrl !== undefined ? { ...content, coverImageVariants: Prisma.DbNull } : content;
+  const notApproved = await prisma.event.updateMany({
+    where: { seriesId, canceledAt: null, reviewStatus: { not: 'APPROVED' } },
+    data,
+  });
+  result.updated = notApproved.count;
+
+  const approved = await prisma.event.findMany({
+    where: { seriesId, canceledAt: null, reviewStatus: 'APPROVED' },
+    select: { id: true, ...REVISION_COLUMNS_SELECT },
+  });
+  const columns = approved.length ? await getSensitiveColumns() : [];
+  for (const event of approved) {
+    const eventData: Record<string, unknown> = { ...content };
+    if (content.coverImageUrl !== undefined && content.coverImageUrl !== event.coverImageUrl) {
+      eventData.coverImageVariants = Prisma.DbNull;
+    }
+    const split = splitSensitiveChanges(eventData, event, columns);
+
+    if (Object.keys(eventData).length) {
+      await prisma.event.update({ where: { id: event.id }, data: eventData });
+      if (eventData.coverImageVariants === Prisma.DbNull) await pruneCoverFiles(event.id);
+      result.updated++;
+    }
+    const revision = await queueEventRevision(event.id, updatedById, split);
+    if (revision && Object.keys(split.changes).length) result.pendingReview.push(event.id);
+  }
+  return result;
+}
+
+/** Funciones con entradas pagadas vigentes (mover o cancelar afecta a compradores) */
+async function performancesWithSales(eventIds: number[]) {
+  if (!eventIds.length) return new Set<number>();
+  const rows = await prisma.reservation.groupBy({
+    by: ['eventId'],
+    where: { eventId: { in: eventIds }, status: 'PAID', refundStatus: 'NONE' },
+    _count: { _all: true },
+  });
+  return new Set(rows.map((r) => r.eventId));
+}
+
+/**
+ * Cancela funciones de la serie con el flujo de cancelación completo
+ * (reembolsos, payouts, QRs y avisos a compradores en segundo plano).
+ */
+export async function cancelPerformances(seriesId: number, eventIds: number[], requestedById: number, reason: string) {
+  const events = await prisma.event.findMany({
+    where: { id: { in: eventIds }, seriesId },
+    select: { id: true, canceledAt: true },
+  });
+  const found = new Map(events.map((e) => [e.id, e]));
+
+  const results: Array<PerformanceResult & { cancellationId?: number; paidReservations?: number }> = [];
+  for (const eventId of eventIds) {
+    const ev = found.get(eventId);
+    if (!ev) {
+      results.push({ eventId, ok: false, error: 'La función no pertenece a la serie' });
+      continue;
+    }
+    const cancellation = ev.canceledAt ? null : await startEventCancellation(eventId, requestedById, reason);
+    if (!cancellation) {
+      results.push({ eventId, ok: false, error: 'La función ya fue cancelada' });
+      continue;
+    }
+    queueEventCancellation(cancellation.id);
+    results.push({
+      eventId,
+      ok: true,
+      status: 'CANCELED',
+      cancellationId: cancellation.id,
+      paidReservations: cancellation.paidReservations,
+    });
+  }
+  return results;
+}
+
+/**
+ * Cambia la fecha de funciones de la serie. Las que tienen entradas vendidas pasan por un aviso
+ * de cambio (email + ventana de reembolso). Sin ventas, en una función APPROVED la fecha sensible
+ * queda en una revisión pendiente (pendingReview); el resto se actualiza directamente.
+ * La nueva fecha debe ser compatible con la ventana de venta de cada función.
+ */
+export async function movePerformances(
+  seriesId: number,
+  moves: Array<{ eventId: number; date: Date }>,
+  createdById: number,
+  reason: string | null
+) {
+  const events = await prisma.event.findMany({
+    where: { id: { in: moves.map((m) => m.eventId) }, seriesId },
+    select: {
+      id: true, canceledAt: true, reviewStatus: true, publishAt: true, salesOpenAt: true, salesCloseAt: true,
+      ...REVISION_COLUMNS_SELECT,
+    },
+  });
+  const found = new Map(events.map((e) => [e.id, e]));
+  const withSales = await performancesWithSales(events.map((e) => e.id));
+  const columns = events.some((e) => e.reviewStatus === 'APPROVED') ? await getSensitiveColumns() : [];
+
+  const results: Array<PerformanceResult & { noticeId?: number; revisionId?: number; date?: Date }> = [];
+  const pendingReview: number[] = [];
+  for (const { eventId, date } of moves) {
+    const ev = found.get(eventId);
+    if (!ev) {
+      results.push({ eventId, ok: false, error: 'La función no pertenece a la serie' });
+      continue;
+    }
+    if (ev.canceledAt) {
+      results.push({ eventId, ok: false, error: 'La función fue cancelada' });
+      continue;
+    }
+    if (ev.date.getTime() === date.getTime()) {
+      results.push({ eventId, ok: true, status: 'UNCHANGED', date });
+      continue;
+    }
+
+    const windowErrors = checkSalesWindow(ev, date);
+    if (windowErrors.length) {
+      results.push({ eventId, ok: false, error: windowErrors.join('; ') });
+      continue;
+    }
+
+    if (!withSales.has(eventId)) {
+      // Misma puerta que updateMyEvent: en una función aprobada la fecha sensible espera revisión
+      const data: Record<string, unknown> = { date };
+      const split = ev.reviewStatus === 'APPROVED' ? splitSensitiveChanges(data, ev, columns) : null;
+      if ('date' in data) {
+        await prisma.event.update({ where: { id: eventId }, data: { date } });
+      }
+      if (split && 'date' in split.changes) {
+        const revision = await queueEventRevision(eventId, createdById, split);
+        pendingReview.push(eventId);
+        results.push({ eventId, ok: true, status: 'PENDING_REVIEW', revisionId: revision?.id, date });
+        continue;
+      }
+      results.push({ eventId, ok: true, status: 'MOVED', date });
+      continue;
+    }
+
+    if (!reason) {
+      results.push({ eventId, ok: false, error: 'La función tiene entradas vendidas: se requiere reason para avisar a los compradores' });
+      continue;
+    }
+    const notice = await publishEventChange(eventId, createdById, { date }, reason);
+    if (!notice) {
+      results.push({ eventId, ok: false, error: 'La función fue cancelada' });
+      continue;
+    }
+    queueEventChangeNotice(notice.id);
+    results.push({ eventId, ok: true, status: 'MOVED_WITH_NOTICE', noticeId: notice.id, date });
+  }
+  return { results, pendingReview };
+}
+
+/** Resumen de las funciones de varias series (cantidad, próxima fecha y última fecha) */
+export async function seriesPerformanceSummary(seriesIds: number[], where: Prisma.EventWhereInput = {}) {
+  const summary = new Map<number, { performances: number; nextDate: Date | null; lastDate: Date | null }>();
+  if (!seriesIds.length) return summary;
+
+  const now = new Date();
+  const [all, upcoming] = await Promise.all([
+    prisma.event.groupBy({
+      by: ['seriesId'],
+      where: { ...where, seriesId: { in: seriesIds } },
+      _count: { _all: true },
+      _max: { date: true },
+    }),
+    prisma.event.groupBy({
+      by: ['seriesId'],
+      where: { ...where, seriesId: { in: seriesIds }, date: { gte: now } },
+      _min: { date: true },
+    }),
+  ]);
+  const next = new Map(upcoming.map((u) => [u.seriesId!, u._min.date]));
+  for (const row of all) {
+    summary.set(row.seriesId!, {
+      performances: row._count._all,
+      nextDate: next.get(row.seriesId!) ?? null,
+      lastDate: row._max.date,
+    });
+  }
+  return summary;
+}
@@ -0,0 +1,68 @@
+// src/services/paymentRefund.service.ts
+// Reembolso completo de un pago (Webpay o PSP), compartido por la cancelación de eventos
+// y el reembolso voluntario tras un aviso de cambio de fecha/lugar.
+import type { Payment, Prisma } from '@prisma/client';
+import prisma from '../prisma/client';
+import { refundWebpayPayment } from './payment.service';
+import { getPspProvider } from './psp/provider';
+
+export type RefundOutcome = { ok: boolean; voided?: boolean; refundId?: string | null; error?: string };
+
+/**
+ * Pago que cubre una reserva: en una compra multi-sección (purchaseGroupId)
+ * un solo Payment, asociado a la reserva principal, cubre todas las reservas del grupo.
+ */
+export async function findPaymentForReservation(r: { id: number; purchaseGroupId: string | null }) {
+  return r.purchaseGroupId
+    ? prisma.payment.findFirst({ where: { reservation: { purchaseGroupId: r.purchaseGroupId } } })
+    : prisma.payment.findUnique({ where: { reservationId: r.id } });
+}
+
+/**
+ * Devuelve el dinero de un pago completo:
+ * - CAPTURED / COMMITTED: refund por el saldo no reembolsado (Webpay por token o PSP).
+ * - AUTHORIZED (captura diferida): se anula la autorización.
+ * - REFUNDED / VOIDED: ya no hay nada que devolver.
+ */
+export async function refundWholePayment(payment: Payment, reason: string, idempotencyKey: string): Promise<RefundOutcome> {
+  if (payment.status === 'REFUNDED' || payment.status === 'VOIDED') return { ok: true };
+
+  if (payment.status === 'AUTHORIZED') {
+    if (payment.token) {
+      // Webpay: el refund sobre una transacción no capturada la reversa
+      await refundWebpayPayment({ token: payment.token, amount: payment.authorizedAmount ?? payment.amount });
+      return { ok: true, voided: true };
+    }
+    if (payment.pspPaymentId) {
+      const r = await getPspProvider().voidAuthorization({ pspPaymentId: payment.pspPaymentId, reason, idempotencyKey });
+      return r.ok ? { ok: true, voided: true } : { ok: false, error: r.error || 'El PSP rechazó la anulación' };
+    }
+    return { ok: false, error: 'Pago sin token ni id de PSP' };
+  }
+
+  if (payment.status !== 'CAPTURED' && payment.status !== 'COMMITTED') {
+    return { ok: false, error: `Pago en estado ${payment.status}` };
+  }
+
+  const amount = Math.max(0, (payment.capturedAmount ?? payment.amount) - (payment.refundedAmount ?? 0));
+  if (amount <= 0) return { ok: true };
+
+  if (payment.token) {
+    const resp = await refundWebpayPayment({ token: payment.token, amount });
+    return { ok: true, refundId: resp?.authorization_code ? String(resp.authorization_code) : null };
+  }
+  if (payment.pspPaymentId) {
+    const r = await getPspProvider().refundPayment({ pspPaymentId: payment.pspPaymentId, amount, reason, idempotencyKey });
+    return r.ok
+      ? { ok: true, refundId: (r.pspMetadata?.refundId as string | undefined) ?? null }
+      : { ok: false, error: r.error || 'El PSP rechazó el reembolso' };
+  }
+  return { ok: false, error: 'Pago sin token ni id de PSP' };
+}
+
+/** Estado del Payment tras un reembolso exitoso */
+export function paymentRefundData(payment: Payment, outcome: RefundOutcome, now = new Date()): Prisma.PaymentUpdateInput {
+  return outcome.voided
+    ? { status: 'VOIDED', voidedAt: now }
+    : { status: 'REFUNDED', refundedAmount: payment.capturedAmount ?? payment.amount, lastRefundAt: now };
+}
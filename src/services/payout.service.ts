@@ -2,6 +2,7 @@
 import prisma from '../prisma/client';
 import { getPayoutProvider } from './payouts/provider';
 import { generateIdempotencyKey } from './payment.service';
+import { normalizeRut, validateRut } from '../utils/rut';
 
 /* ===================== Tipos ===================== */
 
@@ -43,7 +44,7 @@ export function isAccountReady(acc?: ConnectedAccountData | null): boolean {
     acc.payoutAccountType &&
     acc.payoutAccountNumber &&
     acc.payoutHolderName &&
-    acc.payoutHolderRut
+    validateRut(acc.payoutHolderRut)
   );
 }
 
@@ -57,6 +58,9 @@ export function assertAccountReady(acc?: ConnectedAccountData | null): asserts a
   if (!acc.payoutHolderName || !acc.payoutHolderRut) {
     throw new Error('Titular/RUT del destinatario incompleto.');
   }
+  if (!validateRut(acc.payoutHolderRut)) {
+    throw new Error('RUT del titular inválido.');
+  }
   if (!acc.payoutBankName || !acc.payoutAccountNumber || !acc.payoutAccountType) {
     throw new Error('Datos bancarios incompletos (banco/tipo/número).');
   }
@@ -188,7 +192,7 @@ export async function executePayout(payoutId: number) {
     accountType: String(payout.account.payoutAccountType!) as any,
     accountNumber: payout.account.payoutAccountNumber!,
     holderName: payout.account.payoutHolderName!,
-    holderRut: payout.account.payoutHolderRut!,
+    holderRut: normalizeRut(payout.account.payoutHolderRut),
   };
 
   const idempotencyKey = payout.idempotencyKey || generateIdempotencyKey('payout');
@@ -2,6 +2,7 @@
 import { request as httpsRequest } from "https";
 import { request as httpRequest } from "http";
 import { URL } from "url";
+import { checkRut } from "../../utils/rut";
 import type {
   PayoutProvider,
   PayoutRequest,
@@ -166,6 +167,12 @@ export class HttpPayoutProvider implements PayoutProvider {
       };
     }
 
+    // El adapter recibe siempre el RUT del titular en forma canónica (12345678-5)
+    const holderRut = checkRut(req.account.holderRut, "RUT del titular");
+    if (!holderRut.ok) {
+      return { ok: false, error: holderRut.error };
+    }
+
     // Endpoint del adapter: {BASE}/payouts
     const url = `${this.baseUrl}/payouts`;
 
@@ -178,7 +185,7 @@ export class HttpPayoutProvider implements PayoutProvider {
         accountType: req.account.accountType, // "VISTA"|"CORRIENTE"|"AHORRO"|"RUT"
         accountNumber: req.account.accountNumber,
         holderName: req.account.holderName,
-        holderRut: req.account.holderRut,
+        holderRut: holderRut.rut,
       },
       metadata: {
         payoutId: req.payoutId,
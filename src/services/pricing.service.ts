@@ -0,0 +1,195 @@
+// src/services/pricing.service.ts
+// Precios de eventos OWN: Event.price es el precio base; cada sección puede tener su propio precio
+// y, opcionalmente, varios tipos de entrada (adulto, estudiante...) con precio propio.
+// Las fases de precio (early bird, preventa, puerta) reemplazan el precio base de la sección
+// o del evento mientras están vigentes; los tipos de entrada no usan fases.
+import prisma from '../prisma/client';
+import { Prisma, type PricePhase } from '@prisma/client';
+import { getPriceLimits } from './config.service';
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+type PricingError = Error & { status: number; sectionId?: number; ticketTypeId?: number };
+
+function pricingError(code: string, status: number, extra: { sectionId?: number; ticketTypeId?: number } = {}): PricingError {
+  return Object.assign(new Error(code), { status }, extra);
+}
+
+export type ResolvedPrice = {
+  unitPrice: number;
+  ticketTypeId: number | null;
+  ticketTypeName: string | null;
+  pricePhaseId: number | null;
+  pricePhaseName: string | null;
+};
+
+export type ActivePhase = {
+  phase: PricePhase;
+  // Entradas que aún quedan a este precio (null = sin tope)
+  remaining: number | null;
+};
+
+/** Valida un precio contra PriceLimitConfig. Devuelve el mensaje de error o null. */
+export async function checkPrice(value: unknown, field: string): Promise<string | null> {
+  const PRICE_LIMITS = await getPriceLimits();
+  const p = Number(value);
+  if (!Number.isInteger(p)) return `${field} debe ser un entero (CLP)`;
+  if (p < PRICE_LIMITS.MIN || p > PRICE_LIMITS.MAX) {
+    return `${field} debe estar entre ${PRICE_LIMITS.MIN} y ${PRICE_LIMITS.MAX} CLP`;
+  }
+  return null;
+}
+
+/** Precio de una sección sin tipos de entrada: el propio o, si no tiene, el del evento */
+export function sectionBasePrice(section: { price: number | null }, eventPrice: number | null) {
+  return section.price ?? eventPrice ?? 0;
+}
+
+/* ===================== Fases de precio ===================== */
+
+/** Vigente por fecha (el cupo se valida aparte) */
+function isInWindow(phase: Pick<PricePhase, 'startsAt' | 'endsAt'>, now: Date) {
+  return (!phase.startsAt || phase.startsAt <= now) && (!phase.endsAt || phase.endsAt > now);
+}
+
+/** Entradas ocupadas por fase: pagadas + holds vigentes (los holds vencidos liberan cupo solos) */
+async function phaseUsage(phaseIds: number[], db: Db, now: Date) {
+  if (!phaseIds.length) return new Map<number, number>();
+  const rows = await db.reservation.groupBy({
+    by: ['pricePhaseId'],
+    where: {
+      pricePhaseId: { in: phaseIds },
+      OR: [{ status: 'PAID' }, { status: 'PENDING_PAYMENT', expiresAt: { gt: now } }],
+    },
+    _sum: { quantity: true },
+  });
+  return new Map(rows.map((r) => [r.pricePhaseId!, r._sum.quantity ?? 0]));
+}
+
+/**
+ * Fase activa para una sección (o para el evento si sectionId es null):
+ * primero las fases de la sección; si la sección no tiene fases, las del evento.
+ * Con lock=true bloquea las filas de las fases (SELECT ... FOR UPDATE) hasta el fin de la transacción,
+ * así dos compras simultáneas no pueden tomar la última entrada de una fase con cupo.
+ */
+export async function findActivePricePhase(
+  params: { eventId: number; sectionId?: number | null; quantity?: number; lock?: boolean },
+  db: Db = prisma,
+  now = new Date()
+): Promise<ActivePhase | null> {
+  const { eventId, sectionId, quantity = 1, lock = false } = params;
+
+  const all = await db.pricePhase.findMany({
+    where: { eventId, OR: [{ sectionId: null }, ...(sectionId ? [{ sectionId }] : [])] },
+    orderBy: [{ sortOrder: 'asc' }, { id: 'asc' }],
+  });
+  const sectionPhases = sectionId ? all.filter((p) => p.sectionId === sectionId) : [];
+  const candidates = sectionPhases.length ? sectionPhases : all.filter((p) => p.sectionId === null);
+  if (!candidates.length) return null;
+
+  const inWindow = candidates.filter((p) => isInWindow(p, now));
+  if (!inWindow.length) return null;
+
+  if (lock) {
+    const capped = inWindow.filter((p) => p.quantityCap != null).map((p) => p.id);
+    if (capped.length) {
+      await db.$queryRaw`SELECT id FROM "PricePhase" WHERE id IN (${Prisma.join(capped)}) ORDER BY id FOR UPDATE`;
+    }
+  }
+
+  const usage = await phaseUsage(inWindow.filter((p) => p.quantityCap != null).map((p) => p.id), db, now);
+  for (const phase of inWindow) {
+    if (phase.quantityCap == null) return { phase, remaining: null };
+    const remaining = phase.quantityCap - (usage.get(phase.id) ?? 0);
+    // Si no alcanza para toda la cantidad pedida, la compra pasa completa a la fase siguiente
+    if (remaining >= quantity) return { phase, remaining };
+  }
+  return null;
+}
+
+/** Fase activa en formato público (detalle del evento / secciones) */
+export function publicPricePhase(active: ActivePhase | null) {
+  if (!active) return null;
+  const { phase, remaining } = active;
+  return { id: phase.id, name: phase.name, price: phase.price, endsAt: phase.endsAt, remaining };
+}
+
+/**
+ * Precio unitario para reservar en una sección:
+ * - con ticketTypeId: el del tipo (debe pertenecer a la sección y estar activo)
+ * - sección con tipos activos: el tipo es obligatorio
+ * - si no: fase de precio activa (sección o evento), o precio de la sección o del evento
+ * Debe llamarse dentro de la transacción del hold: bloquea las fases con cupo.
+ * Lanza errores con status (mismo formato que stock.service) para que el controlador los traduzca.
+ */
+export async function resolveSectionPrice(
+  params: { eventId: number; eventPrice: number | null; sectionId?: number | null; ticketTypeId?: number | null; quantity: number },
+  prismaClient: Db = prisma
+): Promise<ResolvedPrice> {
+  const { eventId, eventPrice, sectionId, ticketTypeId, quantity } = params;
+  const noPhase = { pricePhaseId: null, pricePhaseName: null };
+
+  let basePrice = eventPrice ?? 0;
+  if (sectionId) {
+    const section = await prismaClient.eventSection.findUnique({
+      where: { id: sectionId },
+      select: {
+        price: true,
+        ticketTypes: { where: { isActive: true }, select: { id: true, name: true, price: true } },
+      },
+    });
+    if (!section) throw pricingError('SECTION_NOT_FOUND', 404, { sectionId });
+
+    if (ticketTypeId) {
+      const type = section.ticketTypes.find((t) => t.id === ticketTypeId);
+      if (!type) throw pricingError('TICKET_TYPE_NOT_FOUND', 404, { sectionId, ticketTypeId });
+      return { unitPrice: type.price, ticketTypeId: type.id, ticketTypeName: type.name, ...noPhase };
+    }
+
+    if (section.ticketTypes.length > 0) throw pricingError('TICKET_TYPE_REQUIRED', 422, { sectionId });
+    basePrice = sectionBasePrice(section, eventPrice);
+  } else if (ticketTypeId) {
+    throw pricingError('TICKET_TYPE_NOT_FOUND', 404, { ticketTypeId });
+  }
+
+  const active = await findActivePricePhase({ eventId, sectionId, quantity, lock: true }, prismaClient);
+  if (active) {
+    return {
+      unitPrice: active.phase.price,
+      ticketTypeId: null,
+      ticketTypeName: null,
+      pricePhaseId: active.phase.id,
+      pricePhaseName: active.phase.name,
+    };
+  }
+  return { unitPrice: basePrice, ticketTypeId: null, ticketTypeName: null, ...noPhase };
+}
+
+/**
+ * Precios visibles de una sección para el público: precio base, tipos activos y rango.
+ */
+export function publicSectionPricing(
+  section: {
+    price: number | null;
+    ticketTypes?: Array<{ id: number; name: string; price: number; eligibilityNote: string | null; isActive: boolean; sortOrder: number }>;
+  },
+  eventPrice: number | null,
+  activePhase: ActivePhase | null = null
+) {
+  const ticketTypes = (section.ticketTypes ?? [])
+    .filter((t) => t.isActive)
+    .sort((a, b) => a.sortOrder - b.sortOrder || a.id - b.id)
+    .map((t) => ({ id: t.id, name: t.name, price: t.price, eligibilityNote: t.eligibilityNote }));
+
+  // Con tipos de entrada activos no aplican fases
+  const phase = ticketTypes.length ? null : activePhase;
+  const price = phase ? phase.phase.price : sectionBasePrice(section, eventPrice);
+  const prices = ticketTypes.length ? ticketTypes.map((t) => t.price) : [price];
+  return {
+    price,
+    pricePhase: publicPricePhase(phase),
+    ticketTypes,
+    minPrice: Math.min(...prices),
+    maxPrice: Math.max(...prices),
+  };
+}
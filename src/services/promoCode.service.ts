@@ -0,0 +1,136 @@
+// src/services/promoCode.service.ts
+// Códigos promocionales de la venta primaria (eventos OWN): porcentaje o monto fijo,
+// para todo el evento o una sección. El descuento se aplica en el hold (queda en la reserva)
+// y el uso se registra recién cuando el pago se confirma (PromoRedemption).
+import prisma from '../prisma/client';
+import type { Prisma, PromoCode } from '@prisma/client';
+import { getPriceLimits } from './config.service';
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+type PromoError = Error & { status: number; minQuantity?: number; minTotal?: number };
+
+function promoError(code: string, status: number, extra: { minQuantity?: number; minTotal?: number } = {}): PromoError {
+  return Object.assign(new Error(code), { status }, extra);
+}
+
+export const PROMO_CODE_PATTERN = /^[A-Z0-9_-]{3,40}$/;
+
+export function normalizePromoCode(v: unknown) {
+  return String(v ?? '').trim().toUpperCase();
+}
+
+/** Item de la compra al que se le puede aplicar el código */
+export type PromoItem = { sectionId: number | null; quantity: number; subtotal: number };
+
+/** Compras con el código: confirmadas + holds vigentes (un uso por compra, no por entrada) */
+async function promoUsage(promo: PromoCode, buyerId: number, db: Db, now: Date) {
+  const heldWhere = { promoCodeId: promo.id, status: 'PENDING_PAYMENT' as const, expiresAt: { gt: now } };
+  const [redeemed, held, redeemedByBuyer, heldByBuyer] = await Promise.all([
+    db.promoRedemption.count({ where: { promoCodeId: promo.id } }),
+    db.reservation.findMany({ where: heldWhere, distinct: ['purchaseGroupId'], select: { purchaseGroupId: true } }),
+    db.promoRedemption.count({ where: { promoCodeId: promo.id, buyerId } }),
+    db.reservation.findMany({ where: { ...heldWhere, buyerId }, distinct: ['purchaseGroupId'], select: { purchaseGroupId: true } }),
+  ]);
+  return { total: redeemed + held.length, byBuyer: redeemedByBuyer + heldByBuyer.length };
+}
+
+/**
+ * Reparte el descuento entre los items dentro del alcance del código.
+ * PERCENTAGE: % de cada subtotal. FIXED_AMOUNT: monto por compra, proporcional al subtotal
+ * (el resto del redondeo va al último item) y nunca mayor que el subtotal.
+ */
+export function promoDiscounts(promo: Pick<PromoCode, 'discountType' | 'discountValue'>, subtotals: number[]) {
+  if (promo.discountType === 'PERCENTAGE') {
+    const pct = Math.min(100, Math.max(0, promo.discountValue));
+    return subtotals.map((s) => Math.round((s * pct) / 100));
+  }
+  const total = subtotals.reduce((sum, s) => sum + s, 0);
+  const discount = Math.min(Math.max(0, promo.discountValue), total);
+  if (total === 0) return subtotals.map(() => 0);
+  const parts = subtotals.map((s) => Math.floor((discount * s) / total));
+  const rest = discount - parts.reduce((sum, p) => sum + p, 0);
+  return parts.map((p, i) => (i === parts.length - 1 ? p + rest : p));
+}
+
+/**
+ * Valida el código para una compra y calcula el descuento por item (0 fuera del alcance).
+ * Debe llamarse dentro de la transacción del hold: bloquea el código si tiene tope de usos,
+ * así dos compras simultáneas no pueden tomar el último uso.
+ * El total con descuento no puede quedar bajo el mínimo de PriceLimitConfig (ni en 0):
+ * Webpay no acepta cobros de monto 0 y el hold retendría stock y un uso del código.
+ * Lanza errores con status (mismo formato que stock.service) para que el controlador los traduzca.
+ */
+export async function applyPromoCode(
+  params: { eventId: number; buyerId: number; code: string; items: PromoItem[] },
+  db: Db = prisma,
+  now = new Date()
+) {
+  const { eventId, buyerId, code, items } = params;
+
+  const promo = await db.promoCode.findUnique({ where: { eventId_code: { eventId, code } } });
+  if (!promo || !promo.isActive) throw promoError('PROMO_CODE_NOT_FOUND', 404);
+  if (promo.startsAt && promo.startsAt > now) throw promoError('PROMO_CODE_NOT_STARTED', 422);
+  if (promo.endsAt && promo.endsAt <= now) throw promoError('PROMO_CODE_EXPIRED', 422);
+
+  const inScope = items.map((it) => promo.sectionId === null || it.sectionId === promo.sectionId);
+  if (!inScope.some(Boolean)) throw promoError('PROMO_CODE_NOT_APPLICABLE', 422);
+
+  const eligibleQuantity = items.reduce((sum, it, i) => sum + (inScope[i] ? it.quantity : 0), 0);
+  if (eligibleQuantity < promo.minQuantity) {
+    throw promoError('PROMO_CODE_MIN_QUANTITY', 422, { minQuantity: promo.minQuantity });
+  }
+
+  if (promo.maxUses != null || promo.maxUsesPerBuyer != null) {
+    await db.$queryRaw`SELECT id FROM "PromoCode" WHERE id = ${promo.id} FOR UPDATE`;
+    const usage = await promoUsage(promo, buyerId, db, now);
+    if (promo.maxUses != null && usage.total >= promo.maxUses) throw promoError('PROMO_CODE_EXHAUSTED', 409);
+    if (promo.maxUsesPerBuyer != null && usage.byBuyer >= promo.maxUsesPerBuyer) {
+      throw promoError('PROMO_CODE_BUYER_LIMIT', 409);
+    }
+  }
+
+  const split = promoDiscounts(promo, items.filter((_, i) => inScope[i]).map((it) => it.subtotal));
+  let k = 0;
+  const discounts = items.map((_, i) => (inScope[i] ? split[k++] ?? 0 : 0));
+
+  const discountTotal = discounts.reduce((sum, d) => sum + d, 0);
+  if (discountTotal > 0) {
+    const minTotal = Math.max(1, (await getPriceLimits()).MIN);
+    const subtotal = items.reduce((sum, it) => sum + it.subtotal, 0);
+    if (subtotal - discountTotal < minTotal) throw promoError('PROMO_CODE_BELOW_MIN_TOTAL', 422, { minTotal });
+  }
+
+  return { promo, inScope, discounts };
+}
+
+/**
+ * Registra el uso del código para las reservas recién pagadas (una fila por compra).
+ * Idempotente: se puede llamar en cada confirmación de pago (webhook repetido, reintentos).
+ */
+export async function recordPromoRedemptions(where: { purchaseGroupId: string } | { reservationId: number }, db: Db = prisma) {
+  const reservations = await db.reservation.findMany({
+    where: {
+      ...('purchaseGroupId' in where ? { purchaseGroupId: where.purchaseGroupId } : { id: where.reservationId }),
+      promoCodeId: { not: null },
+    },
+    orderBy: { id: 'asc' },
+    select: { id: true, status: true, promoCodeId: true, buyerId: true, purchaseGroupId: true, discountAmount: true },
+  });
+  const first = reservations[0];
+  if (!first || !reservations.some((r) => r.status === 'PAID')) return 0;
+
+  const created = await db.promoRedemption.createMany({
+    data: [
+      {
+        promoCodeId: first.promoCodeId!,
+        buyerId: first.buyerId,
+        reservationId: first.id,
+        purchaseGroupId: first.purchaseGroupId,
+        discountAmount: reservations.reduce((sum, r) => sum + r.discountAmount, 0),
+      },
+    ],
+    skipDuplicates: true,
+  });
+  return created.count;
+}
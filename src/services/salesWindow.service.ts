@@ -0,0 +1,122 @@
+// src/services/salesWindow.service.ts
+// Ventanas de publicación y venta. Un evento aprobado es público desde publishAt (o de inmediato);
+// la venta abre en salesOpenAt (nunca antes de publicarse) y cierra en salesCloseAt
+// (por defecto SALES_CUTOFF_MINUTES antes del inicio). Una sección solo puede acotar esa ventana.
+import type { Prisma } from '@prisma/client';
+
+export const SALES_CUTOFF_MINUTES = Number(process.env.SALES_CUTOFF_MINUTES ?? 1440);
+
+export const SALES_WINDOW_FIELDS = ['publishAt', 'salesOpenAt', 'salesCloseAt'] as const;
+export const SECTION_SALES_WINDOW_FIELDS = ['salesOpenAt', 'salesCloseAt'] as const;
+type WindowField = typeof SALES_WINDOW_FIELDS[number];
+
+/** SCHEDULED: aún no publicado · UPCOMING: publicado, venta por abrir · ON_SALE · CLOSED */
+export type SalesWindowStatus = 'SCHEDULED' | 'UPCOMING' | 'ON_SALE' | 'CLOSED';
+
+type EventWindowFields = { date: Date; publishAt: Date | null; salesOpenAt: Date | null; salesCloseAt: Date | null };
+type SectionWindowFields = { salesOpenAt: Date | null; salesCloseAt: Date | null };
+
+export function defaultSalesCloseAt(startsAt: Date) {
+  return new Date(startsAt.getTime() - SALES_CUTOFF_MINUTES * 60_000);
+}
+
+/** Condición de "publicado" para consultas públicas (combinar con approved/isActive vía AND) */
+export function publishedWhere(now = new Date()): Prisma.EventWhereInput {
+  return { OR: [{ publishAt: null }, { publishAt: { lte: now } }] };
+}
+
+function latest(a: Date | null, b: Date | null) {
+  if (!a) return b;
+  if (!b) return a;
+  return a > b ? a : b;
+}
+
+function earliest(a: Date, b: Date | null) {
+  return b && b < a ? b : a;
+}
+
+function secondsUntil(d: Date | null, now: Date) {
+  return d && d > now ? Math.ceil((d.getTime() - now.getTime()) / 1000) : 0;
+}
+
+/** Estado y cuenta regresiva (segundos) para páginas de "pronto a la venta" */
+function buildWindow(publishAt: Date | null, salesOpenAt: Date | null, salesCloseAt: Date, now: Date) {
+  let status: SalesWindowStatus = 'ON_SALE';
+  if (publishAt && now < publishAt) status = 'SCHEDULED';
+  else if (salesOpenAt && now < salesOpenAt) status = 'UPCOMING';
+  else if (now >= salesCloseAt) status = 'CLOSED';
+
+  return {
+    status,
+    onSale: status === 'ON_SALE',
+    publishAt,
+    salesOpenAt,
+    salesCloseAt,
+    publishesInSeconds: secondsUntil(publishAt, now),
+    opensInSeconds: secondsUntil(salesOpenAt, now),
+    closesInSeconds: secondsUntil(salesCloseAt, now),
+    serverTime: now,
+  };
+}
+
+export type SalesWindow = ReturnType<typeof buildWindow>;
+
+export function eventSalesWindow(ev: EventWindowFields, now = new Date()): SalesWindow {
+  const opensAt = latest(ev.salesOpenAt, ev.publishAt);
+  const closesAt = earliest(ev.salesCloseAt ?? defaultSalesCloseAt(ev.date), ev.date);
+  return buildWindow(ev.publishAt, opensAt, closesAt, now);
+}
+
+export function sectionSalesWindow(section: SectionWindowFields, ev: EventWindowFields, now = new Date()): SalesWindow {
+  const base = eventSalesWindow(ev, now);
+  const opensAt = latest(base.salesOpenAt, section.salesOpenAt);
+  const closesAt = earliest(base.salesCloseAt, section.salesCloseAt);
+  return buildWindow(base.publishAt, opensAt, closesAt, now);
+}
+
+/**
+ * Lanza SALES_NOT_OPEN / SALES_CLOSED con status 409 si la ventana no está en venta.
+ * Un evento aún no publicado cuenta como "no abierto".
+ */
+export function assertOnSale(window: SalesWindow) {
+  if (window.onSale) return;
+  const code = window.status === 'CLOSED' ? 'SALES_CLOSED' : 'SALES_NOT_OPEN';
+  throw Object.assign(new Error(code), {
+    status: 409,
+    salesOpenAt: window.salesOpenAt,
+    salesCloseAt: window.salesCloseAt,
+  });
+}
+
+/** Lee fechas de la ventana del body: undefined = sin cambio, null o '' = quitar */
+export function parseSalesWindowBody(body: Record<string, unknown> | undefined, fields: readonly WindowField[]) {
+  const errors: string[] = [];
+  const data: Partial<Record<WindowField, Date | null>> = {};
+  for (const field of fields) {
+    const raw = body?.[field];
+    if (raw === undefined) continue;
+    if (raw === null || raw === '') {
+      data[field] = null;
+      continue;
+    }
+    const d = new Date(String(raw));
+    if (Number.isNaN(d.getTime())) errors.push(`${field} inválido`);
+    else data[field] = d;
+  }
+  return { errors, data };
+}
+
+/** Coherencia de la ventana resultante respecto del inicio del evento */
+export function checkSalesWindow(
+  window: { publishAt?: Date | null; salesOpenAt: Date | null; salesCloseAt: Date | null },
+  startsAt: Date
+) {
+  const errors: string[] = [];
+  const { publishAt, salesOpenAt, salesCloseAt } = window;
+  if (publishAt && publishAt >= startsAt) errors.push('publishAt debe ser anterior al inicio del evento');
+  if (salesOpenAt && publishAt && salesOpenAt < publishAt) errors.push('salesOpenAt no puede ser anterior a publishAt');
+  if (salesOpenAt && salesOpenAt >= startsAt) errors.push('salesOpenAt debe ser anterior al inicio del evento');
+  if (salesCloseAt && salesCloseAt > startsAt) errors.push('salesCloseAt no puede ser posterior al inicio del evento');
+  if (salesOpenAt && salesCloseAt && salesCloseAt <= salesOpenAt) errors.push('salesCloseAt debe ser posterior a salesOpenAt');
+  return errors;
+}
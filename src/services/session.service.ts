@@ -0,0 +1,215 @@
+// src/services/session.service.ts
+import crypto from 'crypto';
+import type { Request } from 'express';
+import prisma from '../prisma/client';
+import { env } from '../config/env';
+import { hashToken, generateToken, coerceRole } from '../utils/auth';
+
+export type SessionMeta = {
+  deviceName?: string | null;
+  ip?: string | null;
+  userAgent?: string | null;
+};
+
+export type SessionRevokeReason =
+  | 'LOGOUT'
+  | 'USER_REVOKED'
+  | 'ADMIN_REVOKED'
+  | 'LOGOUT_ALL'
+  | 'PASSWORD_RESET'
+  | 'REUSE_DETECTED';
+
+export type RotateResult =
+  | {
+      ok: true;
+      sessionId: number;
+      userId: number;
+      tokenVersion: number;
+      mfaVerified: boolean;
+      refreshToken: string;
+    }
+  | { ok: false; reason: 'INVALID' | 'EXPIRED' | 'REVOKED' | 'REUSE_DETECTED' };
+
+function newSecret() {
+  return crypto.randomBytes(32).toString('hex');
+}
+
+function refreshExpiry(): Date {
+  return new Date(Date.now() + env.REFRESH_TOKEN_EXPIRES_DAYS * 24 * 60 * 60 * 1000);
+}
+
+function cleanMeta(meta: SessionMeta) {
+  return {
+    deviceName: meta.deviceName ? String(meta.deviceName).trim().slice(0, 100) || null : null,
+    ip: meta.ip ? String(meta.ip).slice(0, 64) : null,
+    userAgent: meta.userAgent ? String(meta.userAgent).slice(0, 512) : null,
+  };
+}
+
+/** Separa "<id>.<secreto>"; null si el formato no es válido */
+function parseRefreshToken(raw: string): { sessionId: number; secret: string } | null {
+  const m = String(raw ?? '').trim().match(/^(\d{1,10})\.([a-f0-9]{64})$/);
+  if (!m) return null;
+  return { sessionId: Number(m[1]), secret: m[2]! };
+}
+
+function sameHash(a: string, b: string) {
+  const ba = Buffer.from(a, 'hex');
+  const bb = Buffer.from(b, 'hex');
+  return ba.length === bb.length && crypto.timingSafeEqual(ba, bb);
+}
+
+/** Metadata del dispositivo desde la request (deviceName opcional en el body) */
+export function sessionMetaFromRequest(req: Request): SessionMeta {
+  const deviceName = String((req.body as { deviceName?: string } | undefined)?.deviceName ?? '').trim();
+  return {
+    deviceName: deviceName || null,
+    ip: req.ip ?? null,
+    userAgent: req.get('user-agent') ?? null,
+  };
+}
+
+/**
+ * Crea una sesión para el usuario y devuelve el refresh token en claro (solo se entrega una vez).
+ */
+export async function createSession(
+  userId: number,
+  tokenVersion: number,
+  meta: SessionMeta = {},
+  opts: { mfaVerified?: boolean } = {}
+): Promise<{ sessionId: number; refreshToken: string }> {
+  const secret = newSecret();
+  const session = await prisma.session.create({
+    data: {
+      userId,
+      tokenVersion,
+      mfaVerified: opts.mfaVerified ?? false,
+      refreshTokenHash: hashToken(secret),
+      expiresAt: refreshExpiry(),
+      ...cleanMeta(meta),
+    },
+    select: { id: true },
+  });
+  return { sessionId: session.id, refreshToken: `${session.id}.${secret}` };
+}
+
+/** Crea la sesión y firma el access token asociado a ella (login, registro, 2FA) */
+export async function issueSessionTokens(
+  user: { id: number; role: string; tokenVersion: number },
+  meta: SessionMeta,
+  opts: { mfa?: boolean } = {}
+): Promise<{ token: string; refreshToken: string; sessionId: number }> {
+  const mfa = opts.mfa ?? false;
+  const { sessionId, refreshToken } = await createSession(user.id, user.tokenVersion, meta, { mfaVerified: mfa });
+  const token = generateToken({
+    userId: user.id,
+    role: coerceRole(user.role),
+    tokenVersion: user.tokenVersion,
+    sid: sessionId,
+    mfa,
+  });
+  return { token, refreshToken, sessionId };
+}
+
+/** Marca la sesión como verificada con segundo factor (tras activar 2FA) */
+export async function markSessionMfaVerified(sessionId: number): Promise<void> {
+  await prisma.session.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { mfaVerified: true },
+  });
+}
+
+/**
+ * Rota el refresh token de una sesión.
+ * - Si el secreto no coincide con el vigente es un token ya rotado (reuso) → se revoca la sesión.
+ * - El update es condicional al hash anterior: dos refresh concurrentes con el mismo token
+ *   no pueden ganar ambos (el perdedor se trata como reuso).
+ */
+export async function rotateRefreshToken(raw: string, meta: SessionMeta = {}): Promise<RotateResult> {
+  const parsed = parseRefreshToken(raw);
+  if (!parsed) return { ok: false, reason: 'INVALID' };
+
+  const session = await prisma.session.findUnique({
+    where: { id: parsed.sessionId },
+    select: {
+      id: true,
+      userId: true,
+      tokenVersion: true,
+      mfaVerified: true,
+      refreshTokenHash: true,
+      expiresAt: true,
+      revokedAt: true,
+    },
+  });
+  if (!session) return { ok: false, reason: 'INVALID' };
+  if (session.revokedAt) return { ok: false, reason: 'REVOKED' };
+  if (session.expiresAt <= new Date()) return { ok: false, reason: 'EXPIRED' };
+
+  const presentedHash = hashToken(parsed.secret);
+  if (!sameHash(presentedHash, session.refreshTokenHash)) {
+    await revokeSession(session.id, 'REUSE_DETECTED');
+    console.warn(`[Sessions] Reuso de refresh token detectado en sesión ${session.id} (user ${session.userId})`);
+    return { ok: false, reason: 'REUSE_DETECTED' };
+  }
+
+  const secret = newSecret();
+  const { ip, userAgent } = cleanMeta(meta);
+  const result = await prisma.session.updateMany({
+    where: { id: session.id, refreshTokenHash: presentedHash, revokedAt: null },
+    data: {
+      refreshTokenHash: hashToken(secret),
+      rotationCount: { increment: 1 },
+      lastUsedAt: new Date(),
+      ...(ip ? { ip } : {}),
+      ...(userAgent ? { userAgent } : {}),
+    },
+  });
+  if (result.count === 0) {
+    await revokeSession(session.id, 'REUSE_DETECTED');
+    return { ok: false, reason: 'REUSE_DETECTED' };
+  }
+
+  return {
+    ok: true,
+    sessionId: session.id,
+    userId: session.userId,
+    tokenVersion: session.tokenVersion,
+    mfaVerified: session.mfaVerified,
+    refreshToken: `${session.id}.${secret}`,
+  };
+}
+
+/** Revoca una sesión (idempotente) */
+export async function revokeSession(sessionId: number, reason: SessionRevokeReason): Promise<boolean> {
+  const result = await prisma.session.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+  return result.count > 0;
+}
+
+/** Revoca todas las sesiones activas de un usuario; devuelve cuántas se revocaron */
+export async function revokeAllUserSessions(userId: number, reason: SessionRevokeReason): Promise<number> {
+  const result = await prisma.session.updateMany({
+    where: { userId, revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+  return result.count;
+}
+
+/** Sesiones vigentes del usuario (más recientes primero) */
+export async function listActiveSessions(userId: number) {
+  return prisma.session.findMany({
+    where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+    orderBy: { lastUsedAt: 'desc' },
+    select: {
+      id: true,
+      deviceName: true,
+      ip: true,
+      userAgent: true,
+      createdAt: true,
+      lastUsedAt: true,
+      expiresAt: true,
+    },
+  });
+}
@@ -3,6 +3,7 @@
 import prisma from '../prisma/client';
 import type { Prisma } from '@prisma/client';
 import { logStock } from '../utils/logger';
+import { assertOnSale, eventSalesWindow } from './salesWindow.service';
 
 export type StockInfo = {
   event: {
@@ -14,6 +15,9 @@ export type StockInfo = {
     approved: boolean;
     eventType: 'OWN' | 'RESALE';
     isActive: boolean;
+    publishAt: Date | null;
+    salesOpenAt: Date | null;
+    salesCloseAt: Date | null;
   };
   remaining: number;
   hasStarted: boolean;
@@ -39,6 +43,9 @@ export async function getRemainingStock(
       approved: true,
       eventType: true,
       isActive: true,
+      publishAt: true,
+      salesOpenAt: true,
+      salesCloseAt: true,
     },
   });
 
@@ -111,11 +118,13 @@ export async function validateStockAvailability(
 }
 
 /**
- * Valida que el evento esté en estado válido para compra
+ * Valida que el evento esté en estado válido para compra: no comenzado, aprobado,
+ * publicado y dentro de su ventana de venta (SALES_NOT_OPEN / SALES_CLOSED).
+ * Síncrona: los llamadores no la esperan con await.
  */
-export async function validateEventAvailable(
+export function validateEventAvailable(
   stockInfo: StockInfo
-): Promise<void> {
+): void {
   if (stockInfo.hasStarted) {
     const error: any = new Error('EVENT_HAS_STARTED');
     error.status = 400;
@@ -127,6 +136,8 @@ export async function validateEventAvailable(
     error.status = 400;
     throw error;
   }
+
+  assertOnSale(eventSalesWindow(stockInfo.event));
 }
 
 /**
@@ -0,0 +1,82 @@
+// src/services/team.service.ts
+// Acceso de miembros del equipo de un organizador (staff) a eventos concretos
+import type { Prisma, TeamMemberRole } from '@prisma/client';
+import prisma from '../prisma/client';
+import {
+  hasPermission,
+  isScopedToOwnEvents,
+  teamRolesWith,
+  type Permission,
+} from '../utils/permissions';
+
+type Actor = { id: number; role: string };
+
+export const TEAM_ROLE_LABELS: Record<TeamMemberRole, string> = {
+  MANAGER: 'Manager',
+  BOX_OFFICE: 'Boletería',
+  SCANNER: 'Control de acceso',
+};
+
+/** Membresía vigente: aceptada y no revocada, con un rol que otorga el permiso */
+function activeMembershipWhere(userId: number, permission: Permission): Prisma.OrganizerTeamMemberWhereInput {
+  return {
+    userId,
+    acceptedAt: { not: null },
+    revokedAt: null,
+    role: { in: teamRolesWith(permission) },
+  };
+}
+
+/** ¿El usuario es miembro vigente de algún equipo con este permiso? */
+export async function hasTeamPermission(userId: number, permission: Permission): Promise<boolean> {
+  const count = await prisma.organizerTeamMember.count({
+    where: activeMembershipWhere(userId, permission),
+  });
+  return count > 0;
+}
+
+/** Ids de eventos a los que el usuario accede como miembro de equipo con este permiso */
+export async function teamEventIdsFor(userId: number, permission: Permission): Promise<number[]> {
+  const rows = await prisma.organizerTeamMemberEvent.findMany({
+    where: { member: activeMembershipWhere(userId, permission) },
+    select: { eventId: true },
+  });
+  return [...new Set(rows.map((r) => r.eventId))];
+}
+
+/**
+ * Filtro de eventos accesibles para el usuario con un permiso:
+ * - Rol con alcance global (superadmin, scanner de plataforma): sin filtro.
+ * - Organizer: sus eventos + los asignados como miembro de otros equipos.
+ * - Resto: solo los eventos asignados como miembro de equipo.
+ */
+export async function eventAccessFilter(user: Actor, permission: Permission): Promise<Prisma.EventWhereInput> {
+  const byRole = hasPermission(user.role, permission);
+  if (byRole && !isScopedToOwnEvents(user.role)) return {};
+
+  const teamEventIds = await teamEventIdsFor(user.id, permission);
+  if (!teamEventIds.length) {
+    return byRole ? { organizerId: user.id } : { id: { in: [] } };
+  }
+  return {
+    OR: [...(byRole ? [{ organizerId: user.id }] : []), { id: { in: teamEventIds } }],
+  };
+}
+
+/** ¿Puede el usuario actuar sobre este evento con el permiso indicado? */
+export async function canAccessEvent(
+  user: Actor,
+  event: { id: number; organizerId: number },
+  permission: Permission
+): Promise<boolean> {
+  if (hasPermission(user.role, permission)) {
+    if (!isScopedToOwnEvents(user.role) || event.organizerId === user.id) return true;
+  }
+  const count = await prisma.organizerTeamMemberEvent.count({
+    where: {
+      eventId: event.id,
+      member: { ...activeMembershipWhere(user.id, permission), organizerId: event.organizerId },
+    },
+  });
+  return count > 0;
+}
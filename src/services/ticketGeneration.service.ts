@@ -7,6 +7,7 @@ import {
   sendPurchaseNotificationToAdmin 
 } from './email.service';
 import { logTicketGeneration } from '../utils/logger';
+import { coverImageFile } from './coverImage.service';
 
 const MAX_RETRIES = 3;
 const RETRY_DELAY_MS = 2000; // 2 segundos entre reintentos
@@ -64,6 +65,19 @@ async function generateOwnEventTickets(reservationId: number): Promise<Generatio
     sectionName = section?.name;
   }
 
+  // Requisito del tipo de entrada (el nombre y precio quedan guardados en la reserva)
+  let eligibilityNote: string | undefined;
+  if (reservation.ticketTypeId) {
+    const ticketType = await prisma.sectionTicketType.findUnique({
+      where: { id: reservation.ticketTypeId },
+      select: { eligibilityNote: true },
+    });
+    eligibilityNote = ticketType?.eligibilityNote ?? undefined;
+  }
+
+  // Portada procesada (JPEG del ancho adecuado para el banner del PDF), si existe
+  const eventImage = coverImageFile(event.id, event.coverImageVariants);
+
   // Parsear asientos si existen
   const seats = reservation.seatAssignment 
     ? reservation.seatAssignment.split(',').map(s => s.trim())
@@ -87,11 +101,15 @@ async function generateOwnEventTickets(reservationId: number): Promise<Generatio
         buyerEmail: buyer.email,
         seatAssignment: seatNumber,
         sectionName,
+        ticketTypeName: reservation.ticketTypeName ?? undefined,
+        eligibilityNote,
+        unitPrice: reservation.unitPrice ?? undefined,
         qrCode,
         reservationCode: reservation.code,
         ticketNumber,
         totalTickets: reservation.quantity,
         totalAmount: reservation.amount,
+        eventImage,
       });
 
       return {
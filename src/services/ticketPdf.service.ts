@@ -14,12 +14,15 @@ interface TicketData {
   buyerEmail: string;
   seatAssignment?: string;
   sectionName?: string;        // Nombre de la sección
+  ticketTypeName?: string;     // Tipo de entrada (Adulto, Estudiante...)
+  eligibilityNote?: string;    // Requisito a presentar en el acceso
+  unitPrice?: number;          // Precio de esta entrada (sin el total de la reserva)
   qrCode: string;
   reservationCode: string;
   ticketNumber?: number;      // Número del ticket (1 de 3, 2 de 3, etc.)
   totalTickets?: number;       // Total de tickets en la reserva
   totalAmount: number;
-  eventImage?: string;
+  eventImage?: string;         // Ruta local de la portada (JPEG/PNG) para el fondo del header
 }
 
 const UPLOADS_BASE = process.env.UPLOAD_DIR
@@ -75,6 +78,20 @@ export async function generateTicketPDF(ticketData: TicketData): Promise<string>
       .rect(0, 0, pageWidth, 120)
       .fillAndStroke('#2563eb', '#2563eb');
 
+    // Portada del evento recortada al header, oscurecida para que el texto siga legible.
+    // Si la imagen no se puede leer, queda el fondo de color.
+    if (ticketData.eventImage && fs.existsSync(ticketData.eventImage)) {
+      try {
+        doc.save();
+        doc.rect(0, 0, pageWidth, 120).clip();
+        doc.image(ticketData.eventImage, 0, 0, { cover: [pageWidth, 120], align: 'center', valign: 'center' });
+        doc.fillOpacity(0.55).rect(0, 0, pageWidth, 120).fill('#111827');
+        doc.restore();
+      } catch {
+        doc.restore();
+      }
+    }
+
     // Nombre del evento en el header
     doc
       .fontSize(22)
@@ -149,6 +166,22 @@ export async function generateTicketPDF(ticketData: TicketData): Promise<string>
       currentY += 40;
     }
 
+    if (ticketData.ticketTypeName) {
+      doc.fontSize(10).font('Helvetica-Bold').fillColor('#1f2937');
+      doc.text('Tipo de entrada:', leftColumnX, currentY);
+
+      doc.fontSize(12).font('Helvetica-Bold').fillColor('#2563eb');
+      doc.text(ticketData.ticketTypeName, leftColumnX, currentY + 15, { width: leftColumnWidth });
+
+      currentY += 35;
+
+      if (ticketData.eligibilityNote) {
+        doc.fontSize(9).font('Helvetica-Oblique').fillColor('#b45309');
+        doc.text(ticketData.eligibilityNote, leftColumnX, currentY, { width: leftColumnWidth });
+        currentY += 25;
+      }
+    }
+
     if (ticketData.seatAssignment) {
       doc.fontSize(10).font('Helvetica-Bold').fillColor('#1f2937');
       doc.text('Asiento:', leftColumnX, currentY);
@@ -167,7 +200,7 @@ export async function generateTicketPDF(ticketData: TicketData): Promise<string>
       style: 'currency',
       currency: 'CLP',
       maximumFractionDigits: 0,
-    }).format(ticketData.totalAmount);
+    }).format(ticketData.unitPrice ?? ticketData.totalAmount);
     doc.text(formattedPrice, leftColumnX, currentY + 15, { width: leftColumnWidth });
 
     // ===== COLUMNA DERECHA: QR CODE =====
@@ -0,0 +1,596 @@
+// src/services/waitlist.service.ts
+// Lista de espera de eventos OWN agotados (una fila por sección, o por evento si no tiene secciones).
+// Cuando se libera cupo (holds vencidos, cancelaciones, reembolsos) se ofrece en orden de llegada:
+// la oferta pre-crea un hold PENDING_PAYMENT a nombre del siguiente que cabe en el cupo libre y se
+// reclama pagándolo por el flujo normal antes de offerExpiresAt. Si vence, la fila sigue avanzando.
+// Mientras haya alguien en la fila que quepa en el cupo libre, ese cupo no se vende a terceros.
+import crypto from 'crypto';
+import { Prisma, type WaitlistEntry } from '@prisma/client';
+import prisma from '../prisma/client';
+import { env } from '../config/env';
+import { hashToken } from '../utils/auth';
+import { getPlatformFeeBps, getTicketLimits, getWaitlistOfferMinutes } from './config.service';
+import { calculatePlatformFee } from './payment.service';
+import { resolveSectionPrice } from './pricing.service';
+import { eventSalesWindow } from './salesWindow.service';
+import { getRemainingStock } from './stock.service';
+import { sendWaitlistOfferEmail } from './email.service';
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+/** Ofertas por fila en una pasada (el resto queda para la siguiente) */
+const MAX_OFFERS_PER_RUN = 50;
+
+const PRICING_ERRORS = new Set(['SECTION_NOT_FOUND', 'TICKET_TYPE_REQUIRED', 'TICKET_TYPE_NOT_FOUND']);
+
+function waitlistError(code: string, status: number) {
+  return Object.assign(new Error(code), { status });
+}
+
+const WAITLIST_ERROR_MESSAGES: Record<string, string> = {
+  EVENT_NOT_FOUND: 'Evento no encontrado',
+  WAITLIST_NOT_AVAILABLE: 'Este evento no tiene lista de espera',
+  WAITLIST_NOT_ON_SALE: 'El evento no está a la venta',
+  WAITLIST_OWN_EVENT: 'No puedes inscribirte en la lista de espera de tu propio evento',
+  WAITLIST_SECTION_REQUIRED: 'Indica la sección (sectionId)',
+  WAITLIST_SECTION_NOT_FOUND: 'Sección no encontrada',
+  WAITLIST_TICKET_TYPE_REQUIRED: 'Indica el tipo de entrada (ticketTypeId)',
+  WAITLIST_TICKET_TYPE_NOT_FOUND: 'Tipo de entrada no encontrado',
+  WAITLIST_INVALID_QUANTITY: 'Cantidad inválida',
+  WAITLIST_STOCK_AVAILABLE: 'Hay entradas disponibles: puedes comprarlas directamente',
+  WAITLIST_ALREADY_JOINED: 'Ya estás en la lista de espera de este evento',
+  WAITLIST_ENTRY_NOT_FOUND: 'Inscripción no encontrada',
+  WAITLIST_OFFER_NOT_FOUND: 'Oferta no encontrada',
+};
+
+/** Traduce los errores de este servicio a { status, body }; null si no es uno de ellos */
+export function waitlistErrorResponse(err: unknown) {
+  const e = err as { message?: string; status?: number; max?: number; available?: number };
+  const error = e?.message ? WAITLIST_ERROR_MESSAGES[e.message] : undefined;
+  if (!error) return null;
+  return {
+    status: e.status ?? 400,
+    body: {
+      error,
+      code: e.message,
+      ...(e.max != null ? { max: e.max } : {}),
+      ...(e.available != null ? { available: e.available } : {}),
+    },
+  };
+}
+
+/**
+ * Cupo libre de una fila: el stock del evento y, si hay sección, lo que queda en ella
+ * (mismo conteo que el hold: PENDING_PAYMENT y PAID)
+ */
+async function freeStock(eventId: number, sectionId: number | null, db: Db) {
+  const { remaining } = await getRemainingStock(eventId, db);
+  if (!sectionId) return remaining;
+
+  const [section, reserved] = await Promise.all([
+    db.eventSection.findUnique({ where: { id: sectionId }, select: { totalCapacity: true } }),
+    db.reservation.aggregate({
+      where: { eventId, sectionId, status: { in: ['PENDING_PAYMENT', 'PAID'] } },
+      _sum: { quantity: true },
+    }),
+  ]);
+  if (!section) return 0;
+  return Math.max(0, Math.min(remaining, section.totalCapacity - (reserved._sum.quantity ?? 0)));
+}
+
+function waitingEntries(eventId: number, sectionId: number | null, db: Db) {
+  return db.waitlistEntry.findMany({
+    where: { eventId, sectionId, status: 'WAITING' },
+    orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    select: { id: true, quantity: true },
+  });
+}
+
+/** Reparte el cupo en orden de llegada; quien no cabe no bloquea a los que vienen detrás */
+function allocate(entries: Array<{ id: number; quantity: number }>, available: number) {
+  let left = available;
+  const served: number[] = [];
+  for (const e of entries) {
+    if (e.quantity > left) continue;
+    served.push(e.id);
+    left -= e.quantity;
+  }
+  return { served, reserved: available - left };
+}
+
+/**
+ * Para el hold de un comprador cualquiera: cupo que queda tras apartar lo que la fila de espera
+ * puede tomar. Lanza RESERVED_FOR_WAITLIST (409) si lo pedido no cabe.
+ */
+export async function assertWaitlistAllows(
+  eventId: number,
+  items: Array<{ sectionId?: number | null; quantity: number }>,
+  db: Db = prisma
+) {
+  const requested = new Map<number | null, number>();
+  for (const item of items) {
+    const key = item.sectionId || null;
+    requested.set(key, (requested.get(key) ?? 0) + item.quantity);
+  }
+
+  for (const [sectionId, quantity] of requested) {
+    const entries = await waitingEntries(eventId, sectionId, db);
+    if (!entries.length) continue;
+    const available = await freeStock(eventId, sectionId, db);
+    const { reserved } = allocate(entries, available);
+    if (reserved > 0 && available - reserved < quantity) {
+      throw Object.assign(waitlistError('RESERVED_FOR_WAITLIST', 409), {
+        sectionId,
+        available: available - reserved,
+      });
+    }
+  }
+}
+
+/** Lugar en la fila (1 = el siguiente en recibir oferta) */
+export async function waitlistPosition(entry: Pick<WaitlistEntry, 'id' | 'eventId' | 'sectionId' | 'createdAt'>) {
+  const ahead = await prisma.waitlistEntry.count({
+    where: {
+      eventId: entry.eventId,
+      sectionId: entry.sectionId,
+      status: 'WAITING',
+      OR: [{ createdAt: { lt: entry.createdAt } }, { createdAt: entry.createdAt, id: { lt: entry.id } }],
+    },
+  });
+  return ahead + 1;
+}
+
+/**
+ * Inscribe al usuario en la fila del evento/sección. Solo con el evento a la venta y sin cupo
+ * suficiente para lo pedido. Errores: ver WAITLIST_ERROR_MESSAGES.
+ */
+export async function joinWaitlist(
+  userId: number,
+  input: { eventId: number; sectionId: number | null; ticketTypeId: number | null; quantity: number }
+) {
+  const event = await prisma.event.findUnique({
+    where: { id: input.eventId },
+    select: {
+      id: true, organizerId: true, eventType: true, approved: true, isActive: true, canceledAt: true,
+      date: true, publishAt: true, salesOpenAt: true, salesCloseAt: true,
+      sections: {
+        select: { id: true, ticketTypes: { where: { isActive: true }, select: { id: true } } },
+      },
+    },
+  });
+  if (!event) throw waitlistError('EVENT_NOT_FOUND', 404);
+  if (event.eventType !== 'OWN') throw waitlistError('WAITLIST_NOT_AVAILABLE', 409);
+  if (event.organizerId === userId) throw waitlistError('WAITLIST_OWN_EVENT', 403);
+  if (!event.approved || !event.isActive || event.canceledAt || !eventSalesWindow(event).onSale) {
+    throw waitlistError('WAITLIST_NOT_ON_SALE', 409);
+  }
+
+  let sectionId: number | null = null;
+  let ticketTypeId: number | null = null;
+  if (event.sections.length) {
+    if (!input.sectionId) throw waitlistError('WAITLIST_SECTION_REQUIRED', 422);
+    const section = event.sections.find((s) => s.id === input.sectionId);
+    if (!section) throw waitlistError('WAITLIST_SECTION_NOT_FOUND', 404);
+    sectionId = section.id;
+    if (section.ticketTypes.length) {
+      if (!input.ticketTypeId) throw waitlistError('WAITLIST_TICKET_TYPE_REQUIRED', 422);
+      if (!section.ticketTypes.some((t) => t.id === input.ticketTypeId)) {
+        throw waitlistError('WAITLIST_TICKET_TYPE_NOT_FOUND', 404);
+      }
+      ticketTypeId = input.ticketTypeId;
+    }
+  } else if (input.sectionId) {
+    throw waitlistError('WAITLIST_SECTION_NOT_FOUND', 404);
+  }
+
+  const limits = await getTicketLimits();
+  const max: number = limits.OWN?.MAX || 999999;
+  if (!Number.isInteger(input.quantity) || input.quantity < 1 || input.quantity > max) {
+    throw Object.assign(waitlistError('WAITLIST_INVALID_QUANTITY', 422), { max });
+  }
+
+  // Con cupo libre y nadie esperando, la compra es directa
+  const [available, queued] = await Promise.all([
+    freeStock(event.id, sectionId, prisma),
+    prisma.waitlistEntry.count({ where: { eventId: event.id, sectionId, status: 'WAITING' } }),
+  ]);
+  if (!queued && available >= input.quantity) {
+    throw Object.assign(waitlistError('WAITLIST_STOCK_AVAILABLE', 409), { available });
+  }
+
+  let entry: WaitlistEntry;
+  try {
+    entry = await prisma.waitlistEntry.create({
+      data: { eventId: event.id, sectionId, ticketTypeId, userId, quantity: input.quantity },
+    });
+  } catch (err) {
+    if ((err as { code?: string })?.code === 'P2002') throw waitlistError('WAITLIST_ALREADY_JOINED', 409);
+    throw err;
+  }
+
+  // Puede que justo se haya liberado cupo
+  void offerFreedStock([event.id]);
+  return { entry, position: await waitlistPosition(entry) };
+}
+
+/** Anula el hold de una oferta que no se va a pagar */
+async function releaseOfferHold(reservationId: number | null, db: Db) {
+  if (!reservationId) return;
+  await db.reservation.updateMany({
+    where: { id: reservationId, status: 'PENDING_PAYMENT' },
+    data: { status: 'CANCELED' },
+  });
+}
+
+/** Salir de la fila; con oferta vigente también se libera su hold y pasa al siguiente */
+export async function leaveWaitlist(entryId: number, userId: number) {
+  const entry = await prisma.waitlistEntry.findFirst({ where: { id: entryId, userId } });
+  if (!entry || (entry.status !== 'WAITING' && entry.status !== 'OFFERED')) {
+    throw waitlistError('WAITLIST_ENTRY_NOT_FOUND', 404);
+  }
+
+  await prisma.$transaction(async (tx) => {
+    await tx.waitlistEntry.update({ where: { id: entry.id }, data: { status: 'CANCELED', resolvedAt: new Date() } });
+    if (entry.status === 'OFFERED') await releaseOfferHold(entry.reservationId, tx);
+  });
+  if (entry.status === 'OFFERED') void offerFreedStock([entry.eventId]);
+}
+
+/** Inscripción como se expone al comprador (sin el hash del link) */
+export const WAITLIST_ENTRY_SELECT = {
+  id: true,
+  eventId: true,
+  sectionId: true,
+  ticketTypeId: true,
+  quantity: true,
+  status: true,
+  offeredAt: true,
+  offerExpiresAt: true,
+  reservationId: true,
+  resolvedAt: true,
+  createdAt: true,
+  event: { select: { id: true, title: true, date: true, location: true, coverImageUrl: true } },
+  section: { select: { id: true, name: true } },
+} satisfies Prisma.WaitlistEntrySelect;
+
+async function findOffer(token: string, userId: number) {
+  const entry = await prisma.waitlistEntry.findUnique({
+    where: { offerTokenHash: hashToken(token) },
+    select: {
+      ...WAITLIST_ENTRY_SELECT,
+      userId: true,
+      reservation: {
+        select: {
+          id: true, code: true, purchaseGroupId: true, quantity: true, amount: true, unitPrice: true,
+          ticketTypeName: true, status: true, expiresAt: true,
+        },
+      },
+    },
+  });
+  if (!entry || entry.userId !== userId) throw waitlistError('WAITLIST_OFFER_NOT_FOUND', 404);
+  return entry;
+}
+
+/** Oferta del link del email (solo su destinatario). Para reclamarla se paga reservation por /api/payments/create */
+export async function getWaitlistOffer(token: string, userId: number) {
+  const entry = await findOffer(token, userId);
+  return { ...entry, active: entry.status === 'OFFERED' && entry.reservation?.status === 'PENDING_PAYMENT' };
+}
+
+/** Rechazar la oferta: se libera el hold y el cupo pasa al siguiente en la fila */
+export async function declineWaitlistOffer(token: string, userId: number) {
+  const entry = await findOffer(token, userId);
+  if (entry.status !== 'OFFERED') throw waitlistError('WAITLIST_OFFER_NOT_FOUND', 404);
+
+  await prisma.$transaction(async (tx) => {
+    await tx.waitlistEntry.update({ where: { id: entry.id }, data: { status: 'EXPIRED', resolvedAt: new Date() } });
+    await releaseOfferHold(entry.reservationId, tx);
+  });
+  void offerFreedStock([entry.eventId]);
+}
+
+/**
+ * Cierra las ofertas resueltas: hold pagado → CLAIMED; hold anulado o vencido → EXPIRED.
+ * Devuelve los eventos con ofertas vencidas (su cupo vuelve a la fila).
+ */
+async function settleOffers(eventId?: number) {
+  const now = new Date();
+  const offered = await prisma.waitlistEntry.findMany({
+    where: { status: 'OFFERED', ...(eventId ? { eventId } : {}) },
+    select: {
+      id: true, eventId: true, reservationId: true,
+      reservation: { select: { status: true, expiresAt: true } },
+    },
+  });
+
+  const claimed: number[] = [];
+  const expired: typeof offered = [];
+  for (const entry of offered) {
+    const r = entry.reservation;
+    if (r?.status === 'PAID') claimed.push(entry.id);
+    else if (!r || r.status !== 'PENDING_PAYMENT' || (r.expiresAt && r.expiresAt <= now)) expired.push(entry);
+  }
+
+  if (claimed.length) {
+    await prisma.waitlistEntry.updateMany({
+      where: { id: { in: claimed }, status: 'OFFERED' },
+      data: { status: 'CLAIMED', resolvedAt: now },
+    });
+  }
+  if (expired.length) {
+    await prisma.$transaction(async (tx) => {
+      await tx.waitlistEntry.updateMany({
+        where: { id: { in: expired.map((e) => e.id) }, status: 'OFFERED' },
+        data: { status: 'EXPIRED', resolvedAt: now },
+      });
+      // Hold vencido que el job de limpieza aún no marcó
+      await tx.reservation.updateMany({
+        where: {
+          id: { in: expired.map((e) => e.reservationId).filter((id): id is number => id != null) },
+          status: 'PENDING_PAYMENT',
+        },
+        data: { status: 'EXPIRED' },
+      });
+    });
+  }
+  return { claimed: claimed.length, expired: expired.length, eventIds: [...new Set(expired.map((e) => e.eventId))] };
+}
+
+type Offer = {
+  entryId: number;
+  token: string;
+  email: string;
+  name: string;
+  quantity: number;
+  amount: number;
+  expiresAt: Date;
+  sectionName: string | null;
+};
+
+/**
+ * Una oferta en la fila: al primero que cabe en el cupo libre se le crea el hold
+ * (mismo precio y comisión que holdReservation). null si nadie cabe.
+ */
+async function offerNext(
+  event: { id: number; price: number | null },
+  sectionId: number | null,
+  offerMinutes: number
+): Promise<Offer | null> {
+  return prisma.$transaction(
+    async (tx) => {
+      const available = await freeStock(event.id, sectionId, tx);
+      const skipped = new Set<number>();
+      for (;;) {
+        const entries = (await waitingEntries(event.id, sectionId, tx)).filter((e) => !skipped.has(e.id));
+        const nextId = allocate(entries, available).served[0];
+        if (nextId == null) return null;
+
+        const entry = await tx.waitlistEntry.findUniqueOrThrow({
+          where: { id: nextId },
+          include: {
+            user: { select: { email: true, name: true, isActive: true, deletedAt: true } },
+            section: { select: { name: true } },
+          },
+        });
+
+        // Cuenta inactiva, o la sección / el tipo de entrada ya no existen: la inscripción no se puede atender
+        let price: Awaited<ReturnType<typeof resolveSectionPrice>> | null = null;
+        if (entry.user.isActive && !entry.user.deletedAt) {
+          try {
+            price = await resolveSectionPrice(
+              { eventId: event.id, eventPrice: event.price, sectionId, ticketTypeId: entry.ticketTypeId, quantity: entry.quantity },
+              tx
+            );
+          } catch (err) {
+            if (!PRICING_ERRORS.has((err as Error)?.message)) throw err;
+          }
+        }
+        if (!price) {
+          await tx.waitlistEntry.update({ where: { id: entry.id }, data: { status: 'CANCELED', resolvedAt: new Date() } });
+          skipped.add(entry.id);
+          continue;
+        }
+
+        const subtotal = price.unitPrice * entry.quantity;
+        const amount = subtotal + calculatePlatformFee(subtotal, await getPlatformFeeBps());
+        const now = new Date();
+        const expiresAt = new Date(now.getTime() + offerMinutes * 60_000);
+
+        const reservation = await tx.reservation.create({
+          data: {
+            eventId: event.id,
+            buyerId: entry.userId,
+            quantity: entry.quantity,
+            sectionId,
+            purchaseGroupId: crypto.randomUUID(),
+            status: 'PENDING_PAYMENT',
+            expiresAt,
+            amount,
+            unitPrice: price.unitPrice,
+            ticketTypeId: price.ticketTypeId,
+            ticketTypeName: price.ticketTypeName,
+            pricePhaseId: price.pricePhaseId,
+          },
+          select: { id: true },
+        });
+
+        const token = crypto.randomBytes(32).toString('hex');
+        await tx.waitlistEntry.update({
+          where: { id: entry.id },
+          data: {
+            status: 'OFFERED',
+            offerTokenHash: hashToken(token),
+            offeredAt: now,
+            offerExpiresAt: expiresAt,
+            reservationId: reservation.id,
+          },
+        });
+
+        return {
+          entryId: entry.id,
+          token,
+          email: entry.user.email,
+          name: entry.user.name,
+          quantity: entry.quantity,
+          amount,
+          expiresAt,
+          sectionName: entry.section?.name ?? null,
+        };
+      }
+    },
+    { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+  );
+}
+
+/**
+ * Avanza las filas de un evento: cierra ofertas resueltas y ofrece el cupo libre.
+ * Si el evento ya no se va a vender (cancelado, comenzado, venta cerrada) se cierra la lista.
+ */
+export async function processWaitlist(eventId: number) {
+  await settleOffers(eventId);
+
+  const event = await prisma.event.findUnique({
+    where: { id: eventId },
+    select: {
+      id: true, title: true, price: true, approved: true, isActive: true, canceledAt: true,
+      date: true, publishAt: true, salesOpenAt: true, salesCloseAt: true,
+    },
+  });
+  if (!event) return { offered: 0 };
+
+  const window = eventSalesWindow(event);
+  if (event.canceledAt || window.status === 'CLOSED') {
+    await prisma.waitlistEntry.updateMany({
+      where: { eventId, status: 'WAITING' },
+      data: { status: 'CANCELED', resolvedAt: new Date() },
+    });
+    return { offered: 0 };
+  }
+  // Evento oculto o pausado: la fila espera
+  if (!event.approved || !event.isActive || !window.onSale) return { offered: 0 };
+
+  const queues = await prisma.waitlistEntry.findMany({
+    where: { eventId, status: 'WAITING' },
+    distinct: ['sectionId'],
+    select: { sectionId: true },
+  });
+  const offerMinutes = await getWaitlistOfferMinutes();
+
+  let offered = 0;
+  for (const { sectionId } of queues) {
+    for (let i = 0; i < MAX_OFFERS_PER_RUN; i++) {
+      let offer: Offer | null;
+      try {
+        offer = await offerNext(event, sectionId, offerMinutes);
+      } catch (err) {
+        // Conflicto con una compra simultánea: la siguiente pasada lo reintenta
+        if ((err as { code?: string })?.code === 'P2034') break;
+        throw err;
+      }
+      if (!offer) break;
+      offered++;
+      void notifyOffer(event, offer);
+    }
+  }
+  return { offered };
+}
+
+async function notifyOffer(event: { id: number; title: string; date: Date }, offer: Offer) {
+  try {
+    await sendWaitlistOfferEmail({
+      email: offer.email,
+      name: offer.name,
+      eventTitle: event.title,
+      eventDate: event.date,
+      sectionName: offer.sectionName,
+      quantity: offer.quantity,
+      amount: offer.amount,
+      expiresAt: offer.expiresAt,
+      offerUrl: `${env.FRONTEND_URL}/lista-espera/ofertas/${offer.token}`,
+    });
+  } catch (err) {
+    console.error(`[Waitlist] Error enviando oferta ${offer.entryId}:`, (err as Error)?.message);
+  }
+}
+
+/**
+ * Llamar tras liberar cupo (hold vencido, cancelación, reembolso). No lanza: si falla,
+ * el job de la lista de espera lo retoma.
+ */
+export async function offerFreedStock(eventIds: number[]) {
+  for (const eventId of new Set(eventIds)) {
+    try {
+      await processWaitlist(eventId);
+    } catch (err) {
+      console.error(`[Waitlist] Error procesando la lista del evento ${eventId}:`, (err as Error)?.message);
+    }
+  }
+}
+
+/** Pasada del job: cierra ofertas vencidas o pagadas y avanza todas las filas con gente */
+export async function runWaitlistOnce() {
+  const settled = await settleOffers();
+  const waiting = await prisma.waitlistEntry.findMany({
+    where: { status: 'WAITING' },
+    distinct: ['eventId'],
+    select: { eventId: true },
+  });
+
+  let offered = 0;
+  for (const eventId of new Set([...settled.eventIds, ...waiting.map((w) => w.eventId)])) {
+    try {
+      offered += (await processWaitlist(eventId)).offered;
+    } catch (err) {
+      console.error(`[Waitlist] Error procesando la lista del evento ${eventId}:`, (err as Error)?.message);
+    }
+  }
+  return { claimed: settled.claimed, expired: settled.expired, offered };
+}
+
+/**
+ * Demanda en lista de espera para el organizador: personas y entradas esperando por sección,
+ * ofertas vigentes y cómo terminaron (reclamadas o vencidas).
+ */
+export async function getWaitlistDemand(eventId: number) {
+  const [groups, sections] = await Promise.all([
+    prisma.waitlistEntry.groupBy({
+      by: ['sectionId', 'status'],
+      where: { eventId },
+      _count: { _all: true },
+      _sum: { quantity: true },
+    }),
+    prisma.eventSection.findMany({ where: { eventId }, select: { id: true, name: true }, orderBy: { id: 'asc' } }),
+  ]);
+
+  const empty = () => ({ waiting: 0, waitingQuantity: 0, offered: 0, claimed: 0, claimedQuantity: 0, expired: 0, canceled: 0 });
+  const bySection = new Map<number | null, ReturnType<typeof empty>>();
+  const totals = empty();
+  for (const g of groups) {
+    const row = bySection.get(g.sectionId) ?? empty();
+    bySection.set(g.sectionId, row);
+    const count = g._count._all;
+    const quantity = g._sum.quantity ?? 0;
+    for (const target of [row, totals]) {
+      if (g.status === 'WAITING') {
+        target.waiting += count;
+        target.waitingQuantity += quantity;
+      } else if (g.status === 'OFFERED') target.offered += count;
+      else if (g.status === 'CLAIMED') {
+        target.claimed += count;
+        target.claimedQuantity += quantity;
+      } else if (g.status === 'EXPIRED') target.expired += count;
+      else target.canceled += count;
+    }
+  }
+
+  const resolved = totals.claimed + totals.expired;
+  return {
+    eventId,
+    totals,
+    conversionRate: resolved ? Math.round((totals.claimed / resolved) * 1000) / 1000 : null,
+    sections: [
+      ...sections.map((s) => ({ sectionId: s.id, name: s.name, ...(bySection.get(s.id) ?? empty()) })),
+      ...(bySection.has(null) ? [{ sectionId: null, name: null, ...bySection.get(null)! }] : []),
+    ],
+  };
+}
@@ -5,7 +5,14 @@ declare global {
   namespace Express {
     interface UserPayload {
       id: number;
-      role: 'superadmin' | 'organizer' | 'buyer';
+      role: 'superadmin' | 'organizer' | 'buyer' | 'support' | 'finance' | 'scanner';
+      sessionId?: number;
+      mfa?: boolean;
+      impersonation?: {
+        id: number;
+        impersonatorId: number;
+        readOnly: boolean;
+      };
     }
   }
 }
@@ -15,6 +22,9 @@ declare module 'express-serve-static-core' {
   interface Request {
     user?: Express.UserPayload;
 
+    // Id de correlación (middleware/requestId)
+    requestId?: string;
+
     // Si usas uploads, estos son opcionales
     file?: {
       path: string;
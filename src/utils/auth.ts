@@ -4,7 +4,8 @@ import * as jwt from 'jsonwebtoken';
 import { env } from '../config/env';
 import crypto from 'crypto'; // 👈 helpers reset
 
-export const ROLES = ['superadmin', 'organizer', 'buyer'] as const;
+/** Roles base + roles de staff con permisos acotados (ver utils/permissions.ts) */
+export const ROLES = ['superadmin', 'organizer', 'buyer', 'support', 'finance', 'scanner'] as const;
 export type AppRole = typeof ROLES[number];
 
 export interface TokenPayload {
@@ -12,10 +13,28 @@ export interface TokenPayload {
   role: AppRole;
   /** 🔐 NUEVO: versión de token para invalidar sesiones (logout-all). */
   tokenVersion?: number;
+  /** Id de la Session (refresh token) que emitió este access token. */
+  sid?: number;
+  /** true si la sesión pasó el segundo factor (TOTP o código de recuperación). */
+  mfa?: boolean;
+  /** Presente solo en tokens de "ver como usuario" (ver generateImpersonationToken). */
+  imp?: ImpersonationClaim;
   iat?: number;
   exp?: number;
 }
 
+/**
+ * Marca de suplantación dentro del JWT.
+ * - id: ImpersonationSession.id (se valida contra DB en cada request)
+ * - by: id del superadmin que suplanta
+ * - ro: sesión de solo lectura
+ */
+export interface ImpersonationClaim {
+  id: number;
+  by: number;
+  ro: boolean;
+}
+
 export function coerceRole(value: unknown): AppRole {
   // Acepta 'user' del frontend como 'buyer'
   if (value === 'user') return 'buyer';
@@ -66,6 +85,25 @@ export function generateToken(payload: TokenPayload): string {
   return jwt.sign(fullPayload as any, JWT_SECRET as any, { expiresIn: EXPIRES_IN as any } as any);
 }
 
+/**
+ * JWT de suplantación: mismo secreto que el access token (lo valida authenticateToken),
+ * sin sesión de refresh y con vencimiento fijo al de la ImpersonationSession.
+ */
+export function generateImpersonationToken(
+  payload: Omit<TokenPayload, 'sid' | 'mfa' | 'imp' | 'iat' | 'exp'>,
+  imp: ImpersonationClaim,
+  expiresAt: Date
+): string {
+  const expiresIn = Math.max(1, Math.floor((expiresAt.getTime() - Date.now()) / 1000));
+  const fullPayload: TokenPayload = {
+    ...payload,
+    tokenVersion: payload.tokenVersion ?? 0,
+    mfa: false,
+    imp,
+  };
+  return jwt.sign(fullPayload, JWT_SECRET as string, { expiresIn });
+}
+
 /** Verificar JWT */
 export function verifyToken(token: string): TokenPayload {
   return jwt.verify(token, JWT_SECRET as any) as TokenPayload;
@@ -80,10 +118,17 @@ export function verifyToken(token: string): TokenPayload {
  */
 export function createPasswordResetToken(): { raw: string; hash: string } {
   const raw = crypto.randomBytes(32).toString('hex');
-  const hash = crypto.createHash('sha256').update(raw).digest('hex');
+  const hash = hashToken(raw);
   return { raw, hash };
 }
 
+/**
+ * SHA-256 de un token plano (para buscarlo contra el hash guardado en DB).
+ */
+export function hashToken(raw: string): string {
+  return crypto.createHash('sha256').update(raw).digest('hex');
+}
+
 /**
  * Calcula la fecha de expiración del token (por defecto 1 hora hacia adelante).
  */
@@ -93,7 +138,76 @@ export function passwordResetExpiry(hours = 1): Date {
   return expires;
 }
 
+/* ====================== Helpers verificación de email ====================== */
 
+/**
+ * Genera un token de verificación de email y su hash (mismo formato que el reset).
+ */
+export function createEmailVerificationToken(): { raw: string; hash: string } {
+  return createPasswordResetToken();
+}
 
+/**
+ * Calcula la fecha de expiración del enlace de verificación (por defecto 48 horas).
+ */
+export function emailVerificationExpiry(hours = 48): Date {
+  return passwordResetExpiry(hours);
+}
+
+/**
+ * Token de invitación al equipo de un organizador (mismo formato que el de reset).
+ */
+export function createTeamInviteToken(): { raw: string; hash: string } {
+  return createPasswordResetToken();
+}
+
+/**
+ * Token del link de descarga de una exportación de datos personales (mismo formato).
+ */
+export function createDataExportToken(): { raw: string; hash: string } {
+  return createPasswordResetToken();
+}
 
+/* ====================== Política 2FA (TOTP) ====================== */
 
+export type TwoFactorPolicy = 'required' | 'optional' | 'unavailable';
+
+/** superadmin y finance (mueve dinero): obligatorio; organizer y staff: opcional; buyer: no disponible */
+export const TWO_FACTOR_POLICY: Record<AppRole, TwoFactorPolicy> = {
+  superadmin: 'required',
+  organizer: 'optional',
+  buyer: 'unavailable',
+  support: 'optional',
+  finance: 'required',
+  scanner: 'optional',
+};
+
+export function twoFactorPolicyFor(role: string): TwoFactorPolicy {
+  return TWO_FACTOR_POLICY[coerceRole(role)];
+}
+
+// El challenge se firma con una clave derivada: nunca es aceptado como access token
+const TWO_FACTOR_CHALLENGE_SECRET = `${JWT_SECRET}:2fa-challenge`;
+const TWO_FACTOR_CHALLENGE_EXPIRES_IN = '5m';
+
+/** Token intermedio del login en dos pasos (password OK, falta el código TOTP) */
+export function generateTwoFactorChallenge(userId: number, tokenVersion: number): string {
+  return jwt.sign({ userId, tokenVersion, purpose: '2fa' }, TWO_FACTOR_CHALLENGE_SECRET, {
+    expiresIn: TWO_FACTOR_CHALLENGE_EXPIRES_IN,
+  });
+}
+
+/** Devuelve { userId, tokenVersion } si el challenge es válido; null si expiró o es inválido */
+export function verifyTwoFactorChallenge(token: string): { userId: number; tokenVersion: number } | null {
+  try {
+    const payload = jwt.verify(token, TWO_FACTOR_CHALLENGE_SECRET) as {
+      userId?: unknown;
+      tokenVersion?: number;
+      purpose?: string;
+    };
+    if (payload?.purpose !== '2fa' || typeof payload.userId !== 'number' || !Number.isInteger(payload.userId)) return null;
+    return { userId: payload.userId, tokenVersion: payload.tokenVersion ?? 0 };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,163 @@
+// src/utils/communeCentroids.ts
+// Coordenadas aproximadas (centro urbano) de comunas de Chile, para ubicar eventos
+// cuando el organizador no entrega coordenadas exactas. Cubre el Gran Santiago y las
+// comunas urbanas principales de cada región; el resto queda sin coordenadas.
+
+type Centroid = { latitude: number; longitude: number };
+
+const CENTROIDS: Record<string, [number, number]> = {
+  // Región Metropolitana
+  'santiago': [-33.4378, -70.6505],
+  'providencia': [-33.4314, -70.6093],
+  'las condes': [-33.4080, -70.5670],
+  'vitacura': [-33.3900, -70.5720],
+  'lo barnechea': [-33.3500, -70.5180],
+  'nunoa': [-33.4569, -70.5979],
+  'la reina': [-33.4450, -70.5400],
+  'penalolen': [-33.4850, -70.5400],
+  'macul': [-33.4890, -70.5990],
+  'san joaquin': [-33.4960, -70.6290],
+  'san miguel': [-33.4970, -70.6510],
+  'la florida': [-33.5220, -70.5990],
+  'puente alto': [-33.6110, -70.5750],
+  'la cisterna': [-33.5290, -70.6630],
+  'el bosque': [-33.5670, -70.6750],
+  'la granja': [-33.5360, -70.6190],
+  'la pintana': [-33.5830, -70.6340],
+  'san ramon': [-33.5360, -70.6420],
+  'lo espejo': [-33.5210, -70.6920],
+  'pedro aguirre cerda': [-33.4880, -70.6750],
+  'estacion central': [-33.4590, -70.6990],
+  'maipu': [-33.5100, -70.7570],
+  'cerrillos': [-33.4990, -70.7160],
+  'pudahuel': [-33.4400, -70.7600],
+  'lo prado': [-33.4440, -70.7250],
+  'quinta normal': [-33.4290, -70.6980],
+  'cerro navia': [-33.4250, -70.7350],
+  'renca': [-33.4030, -70.7280],
+  'quilicura': [-33.3600, -70.7300],
+  'conchali': [-33.3840, -70.6750],
+  'huechuraba': [-33.3670, -70.6350],
+  'independencia': [-33.4170, -70.6650],
+  'recoleta': [-33.4060, -70.6400],
+  'san bernardo': [-33.5920, -70.6990],
+  'colina': [-33.2000, -70.6750],
+  'lampa': [-33.2850, -70.8780],
+  'talagante': [-33.6640, -70.9270],
+  'penaflor': [-33.6060, -70.8760],
+  'padre hurtado': [-33.5680, -70.8150],
+  'melipilla': [-33.6890, -71.2150],
+  'buin': [-33.7320, -70.7420],
+  'pirque': [-33.6380, -70.5490],
+  'san jose de maipo': [-33.6410, -70.3530],
+  // Arica y Parinacota, Tarapacá, Antofagasta
+  'arica': [-18.4783, -70.3126],
+  'iquique': [-20.2307, -70.1357],
+  'alto hospicio': [-20.2680, -70.1000],
+  'antofagasta': [-23.6509, -70.3975],
+  'calama': [-22.4560, -68.9290],
+  'san pedro de atacama': [-22.9110, -68.2000],
+  'tocopilla': [-22.0920, -70.1980],
+  // Atacama, Coquimbo
+  'copiapo': [-27.3668, -70.3322],
+  'vallenar': [-28.5750, -70.7590],
+  'caldera': [-27.0670, -70.8230],
+  'la serena': [-29.9027, -71.2519],
+  'coquimbo': [-29.9533, -71.3436],
+  'ovalle': [-30.6010, -71.1990],
+  'vicuna': [-30.0320, -70.7100],
+  'illapel': [-31.6310, -71.1650],
+  // Valparaíso
+  'valparaiso': [-33.0472, -71.6127],
+  'vina del mar': [-33.0245, -71.5518],
+  'concon': [-32.9230, -71.5190],
+  'quilpue': [-33.0470, -71.4420],
+  'villa alemana': [-33.0420, -71.3730],
+  'limache': [-33.0160, -71.2660],
+  'quillota': [-32.8800, -71.2470],
+  'la calera': [-32.7870, -71.2050],
+  'los andes': [-32.8340, -70.5980],
+  'san felipe': [-32.7500, -70.7250],
+  'casablanca': [-33.3190, -71.4080],
+  'san antonio': [-33.5930, -71.6210],
+  'cartagena': [-33.5530, -71.6060],
+  'algarrobo': [-33.3620, -71.6700],
+  'el quisco': [-33.3990, -71.6960],
+  'zapallar': [-32.5540, -71.4580],
+  'papudo': [-32.5070, -71.4480],
+  // O'Higgins, Maule, Ñuble
+  'rancagua': [-34.1701, -70.7444],
+  'machali': [-34.1800, -70.6500],
+  'rengo': [-34.4070, -70.8580],
+  'san fernando': [-34.5850, -70.9890],
+  'santa cruz': [-34.6390, -71.3650],
+  'pichilemu': [-34.3870, -72.0030],
+  'curico': [-34.9828, -71.2394],
+  'talca': [-35.4264, -71.6554],
+  'constitucion': [-35.3330, -72.4120],
+  'linares': [-35.8460, -71.5930],
+  'cauquenes': [-35.9670, -72.3220],
+  'chillan': [-36.6066, -72.1034],
+  'chillan viejo': [-36.6230, -72.1320],
+  'san carlos': [-36.4240, -71.9580],
+  // Biobío
+  'concepcion': [-36.8270, -73.0503],
+  'talcahuano': [-36.7249, -73.1168],
+  'hualpen': [-36.7900, -73.0950],
+  'san pedro de la paz': [-36.8430, -73.1080],
+  'chiguayante': [-36.9250, -73.0280],
+  'penco': [-36.7400, -72.9950],
+  'tome': [-36.6170, -72.9570],
+  'coronel': [-37.0300, -73.1500],
+  'lota': [-37.0880, -73.1570],
+  'los angeles': [-37.4697, -72.3537],
+  // Araucanía, Los Ríos, Los Lagos
+  'temuco': [-38.7359, -72.5904],
+  'padre las casas': [-38.7660, -72.6000],
+  'angol': [-37.7950, -72.7160],
+  'villarrica': [-39.2820, -72.2270],
+  'pucon': [-39.2720, -71.9780],
+  'valdivia': [-39.8142, -73.2459],
+  'la union': [-40.2930, -73.0830],
+  'osorno': [-40.5740, -73.1336],
+  'puerto varas': [-41.3170, -72.9850],
+  'frutillar': [-41.1260, -73.0600],
+  'puerto montt': [-41.4693, -72.9424],
+  'ancud': [-41.8690, -73.8270],
+  'castro': [-42.4800, -73.7620],
+  // Aysén, Magallanes
+  'coyhaique': [-45.5712, -72.0685],
+  'aysen': [-45.4030, -72.6930],
+  'punta arenas': [-53.1638, -70.9171],
+  'natales': [-51.7300, -72.5060],
+};
+
+// Nombres alternativos frecuentes
+const ALIASES: Record<string, string> = {
+  'santiago centro': 'santiago',
+  'vina': 'vina del mar',
+  'coihaique': 'coyhaique',
+  'puerto aysen': 'aysen',
+  'puerto natales': 'natales',
+};
+
+/** minúsculas, sin acentos ni espacios repetidos */
+function normalizeName(name: string) {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/** Centroide de una comuna (o, si no está, de la ciudad con el mismo nombre) */
+export function findCommuneCentroid(commune?: string | null, city?: string | null): Centroid | null {
+  for (const name of [commune, city]) {
+    if (!name) continue;
+    const key = normalizeName(name);
+    const hit = CENTROIDS[ALIASES[key] ?? key];
+    if (hit) return { latitude: hit[0], longitude: hit[1] };
+  }
+  return null;
+}
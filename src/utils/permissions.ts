@@ -0,0 +1,106 @@
+// src/utils/permissions.ts
+// Catálogo de permisos y mapeo rol → permisos (RBAC)
+import type { TeamMemberRole } from '@prisma/client';
+import { coerceRole, type AppRole } from './auth';
+
+export const PERMISSIONS = {
+  /** Moderación de eventos (aprobar, activar, eliminar) */
+  ADMIN_EVENTS: 'admin:events',
+  /** Gestión de usuarios (listar, activar, permisos de venta, roles, sesiones) */
+  ADMIN_USERS: 'admin:users',
+  /** Revisión de solicitudes y verificación de organizadores */
+  ADMIN_ORGANIZERS: 'admin:organizers',
+  /** Documentos privados (carnets, documentos de organizador) */
+  ADMIN_DOCUMENTS: 'admin:documents',
+  /** Configuración de la plataforma (límites, comisiones, holds, categorías de eventos) */
+  ADMIN_CONFIG: 'admin:config',
+  /** Revisión de tickets subidos manualmente (flujo legacy) */
+  ADMIN_TICKETS: 'admin:tickets',
+  /** Listado y detalle de compras */
+  ADMIN_PURCHASES: 'admin:purchases',
+  /** Historial global de validaciones de tickets */
+  ADMIN_TICKET_VALIDATIONS: 'admin:ticket-validations',
+  /** Registro de auditoría (consulta y exportación) */
+  ADMIN_AUDIT_LOG: 'admin:audit-log',
+  /** "Ver como usuario": suplantación de solo lectura para soporte */
+  ADMIN_IMPERSONATE: 'admin:impersonate',
+  /** Atención de reclamos */
+  CLAIMS_MANAGE: 'claims:manage',
+  /** Payouts a organizadores (listar, marcar pagado, reintentos, reconciliación) */
+  PAYOUTS_MANAGE: 'payouts:manage',
+  /** Captura de pre-autorizaciones */
+  PAYMENTS_CAPTURE: 'payments:capture',
+  /** Reembolsos */
+  PAYMENTS_REFUND: 'payments:refund',
+  /** Panel del organizador: eventos propios, secciones, reventa, reservas */
+  ORGANIZER_EVENTS: 'organizer:events',
+  /** Escaneo/validación de tickets en puerta */
+  TICKETS_VALIDATE: 'tickets:validate',
+  /** Estadísticas de validación por evento (escaneados / pendientes) */
+  TICKETS_VALIDATION_STATS: 'tickets:validation-stats',
+  /** Historial y listados de tickets validados */
+  TICKETS_VALIDATION_REPORTS: 'tickets:validation-reports',
+} as const;
+
+export type Permission = typeof PERMISSIONS[keyof typeof PERMISSIONS];
+
+export const ALL_PERMISSIONS = Object.values(PERMISSIONS) as Permission[];
+
+/**
+ * Permisos por rol.
+ * - superadmin: todo.
+ * - support: solo reclamos.
+ * - finance: payouts y reembolsos.
+ * - scanner: solo validación de tickets.
+ */
+export const ROLE_PERMISSIONS: Record<AppRole, readonly Permission[]> = {
+  superadmin: ALL_PERMISSIONS,
+  organizer: [
+    PERMISSIONS.ORGANIZER_EVENTS,
+    PERMISSIONS.TICKETS_VALIDATE,
+    PERMISSIONS.TICKETS_VALIDATION_STATS,
+    PERMISSIONS.TICKETS_VALIDATION_REPORTS,
+  ],
+  buyer: [],
+  support: [PERMISSIONS.CLAIMS_MANAGE],
+  finance: [PERMISSIONS.PAYOUTS_MANAGE, PERMISSIONS.PAYMENTS_REFUND],
+  scanner: [PERMISSIONS.TICKETS_VALIDATE],
+};
+
+/**
+ * Permisos de los miembros del equipo de un organizador.
+ * Siempre acotados a los eventos asignados al miembro (ver services/team.service.ts).
+ */
+export const TEAM_ROLE_PERMISSIONS: Record<TeamMemberRole, readonly Permission[]> = {
+  MANAGER: [
+    PERMISSIONS.TICKETS_VALIDATE,
+    PERMISSIONS.TICKETS_VALIDATION_STATS,
+    PERMISSIONS.TICKETS_VALIDATION_REPORTS,
+  ],
+  BOX_OFFICE: [PERMISSIONS.TICKETS_VALIDATE, PERMISSIONS.TICKETS_VALIDATION_STATS],
+  SCANNER: [PERMISSIONS.TICKETS_VALIDATE],
+};
+
+/** Roles de equipo que otorgan el permiso */
+export function teamRolesWith(permission: Permission): TeamMemberRole[] {
+  return (Object.keys(TEAM_ROLE_PERMISSIONS) as TeamMemberRole[]).filter((r) =>
+    TEAM_ROLE_PERMISSIONS[r].includes(permission)
+  );
+}
+
+export function permissionsFor(role: string): readonly Permission[] {
+  return ROLE_PERMISSIONS[coerceRole(role)];
+}
+
+export function hasPermission(role: string | undefined, permission: Permission): boolean {
+  if (!role) return false;
+  return permissionsFor(role).includes(permission);
+}
+
+/**
+ * Los permisos del organizador aplican solo a sus propios eventos;
+ * el resto de los roles con el permiso actúa sobre cualquier evento.
+ */
+export function isScopedToOwnEvents(role: string | undefined): boolean {
+  return role === 'organizer';
+}
@@ -0,0 +1,78 @@
+// src/utils/rut.ts
+// RUT chileno: validación (módulo 11), forma canónica y formato de despliegue.
+//
+// Forma canónica (la que se guarda en BD): cuerpo sin puntos ni ceros a la izquierda,
+// guion y dígito verificador en mayúscula → "12345678-5", "7654321-K".
+
+// Cuerpos de 7 u 8 dígitos (1.000.000 en adelante); cubre personas y empresas
+const CANONICAL_RE = /^(\d{7,8})-([0-9K])$/;
+
+export type RutCheck =
+  | { ok: true; rut: string }
+  | { ok: false; error: string };
+
+/** Quita puntos, guiones y espacios; DV en mayúscula */
+export function cleanRut(input: unknown): string {
+  return String(input ?? '')
+    .replace(/[.\-\s]/g, '')
+    .toUpperCase();
+}
+
+/** Dígito verificador (módulo 11) de un cuerpo numérico */
+export function calcRutDv(body: string): string {
+  let sum = 0;
+  let mul = 2;
+  for (let i = body.length - 1; i >= 0; i--) {
+    sum += parseInt(body[i]!, 10) * mul;
+    mul = mul === 7 ? 2 : mul + 1;
+  }
+  const res = 11 - (sum % 11);
+  if (res === 11) return '0';
+  if (res === 10) return 'K';
+  return String(res);
+}
+
+/**
+ * Valida un RUT en cualquier formato ("12.345.678-5", "123456785", "12345678-5")
+ * y devuelve su forma canónica o un mensaje de error para el usuario.
+ */
+export function checkRut(input: unknown, label = 'RUT'): RutCheck {
+  const raw = cleanRut(input);
+  if (!raw) return { ok: false, error: `${label} es requerido` };
+
+  const m = raw.match(/^0*(\d+)([0-9K])$/);
+  if (!m) {
+    return { ok: false, error: `${label} tiene un formato inválido (ej: 12.345.678-5)` };
+  }
+  const rut = `${m[1]}-${m[2]}`;
+  if (!CANONICAL_RE.test(rut)) {
+    return { ok: false, error: `${label} debe tener entre 7 y 8 dígitos más el dígito verificador` };
+  }
+  if (calcRutDv(m[1]!) !== m[2]) {
+    return { ok: false, error: `${label} tiene un dígito verificador incorrecto` };
+  }
+  return { ok: true, rut };
+}
+
+/** Forma canónica, o '' si el RUT no es válido */
+export function normalizeRut(input: unknown): string {
+  const r = checkRut(input);
+  return r.ok ? r.rut : '';
+}
+
+export function validateRut(input: unknown): boolean {
+  return checkRut(input).ok;
+}
+
+/** Formato de despliegue con puntos: "12.345.678-5" (devuelve el valor tal cual si no es válido) */
+export function formatRut(input: unknown): string {
+  const rut = normalizeRut(input);
+  if (!rut) return String(input ?? '');
+  const [body, dv] = rut.split('-') as [string, string];
+  return `${body.replace(/\B(?=(\d{3})+(?!\d))/g, '.')}-${dv}`;
+}
+
+/** Formato compacto sin separadores para PSPs: "123456785" ('' si no es válido) */
+export function compactRut(input: unknown): string {
+  return normalizeRut(input).replace('-', '');
+}
@@ -0,0 +1,66 @@
+// src/utils/sections.ts
+
+/**
+ * Calcula el número de filas entre rowStart y rowEnd
+ * Soporta tanto números (1, 2, 3) como letras (A, B, C)
+ */
+export function calculateRowCount(rowStart: string, rowEnd: string): number | null {
+  const start = rowStart.trim().toUpperCase();
+  const end = rowEnd.trim().toUpperCase();
+  
+  // Intentar como números
+  const startNum = parseInt(start);
+  const endNum = parseInt(end);
+  
+  if (!isNaN(startNum) && !isNaN(endNum)) {
+    if (endNum >= startNum) {
+      return endNum - startNum + 1;
+    }
+    return null; // Rango inválido
+  }
+  
+  // Intentar como letras (A-Z, AA-ZZ, etc.)
+  if (/^[A-Z]+$/.test(start) && /^[A-Z]+$/.test(end)) {
+    // Convertir letras a número (A=1, B=2, ..., Z=26, AA=27, etc.)
+    const letterToNumber = (str: string): number => {
+      let result = 0;
+      for (let i = 0; i < str.length; i++) {
+        result = result * 26 + (str.charCodeAt(i) - 64);
+      }
+      return result;
+    };
+    
+    const startValue = letterToNumber(start);
+    const endValue = letterToNumber(end);
+    
+    if (endValue >= startValue) {
+      return endValue - startValue + 1;
+    }
+    return null; // Rango inválido
+  }
+  
+  // Si no se puede calcular, retornar null
+  return null;
+}
+
+/**
+ * Capacidad de una sección: filas × asientos por fila, o bien el rango de asientos.
+ * Devuelve null si no se puede calcular (mismas reglas que createSection).
+ */
+export function calculateSectionCapacity(s: {
+  rowStart?: string | null;
+  rowEnd?: string | null;
+  seatsPerRow?: number | null;
+  seatStart?: number | null;
+  seatEnd?: number | null;
+}): number | null {
+  if (s.seatsPerRow && s.seatsPerRow > 0) {
+    if (!s.rowStart || !s.rowEnd) return null;
+    const rows = calculateRowCount(s.rowStart, s.rowEnd);
+    return rows !== null && rows > 0 ? rows * s.seatsPerRow : null;
+  }
+  if (s.seatStart && s.seatEnd && s.seatEnd >= s.seatStart) {
+    return s.seatEnd - s.seatStart + 1;
+  }
+  return null;
+}
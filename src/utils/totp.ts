@@ -0,0 +1,137 @@
+// src/utils/totp.ts
+// TOTP (RFC 6238) sin dependencias externas + cifrado del secreto en reposo
+import crypto from 'crypto';
+import { env } from '../config/env';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+
+/* ============================ Base32 ============================ */
+
+function base32Encode(buf: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let out = '';
+  for (const byte of buf) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) out += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return out;
+}
+
+function base32Decode(input: string): Buffer {
+  const clean = input.replace(/=+$/g, '').replace(/\s+/g, '').toUpperCase();
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const ch of clean) {
+    const idx = BASE32_ALPHABET.indexOf(ch);
+    if (idx === -1) throw new Error('INVALID_BASE32');
+    value = (value << 5) | idx;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/* ============================= TOTP ============================= */
+
+/** Nuevo secreto TOTP (160 bits, base32) */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+/** URL otpauth:// para apps autenticadoras (se codifica en el QR) */
+export function buildOtpAuthUrl(secret: string, accountName: string, issuer = 'ConfiaTicket'): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+function hotp(key: Buffer, counter: number): string {
+  const msg = Buffer.alloc(8);
+  msg.writeBigUInt64BE(BigInt(counter));
+  const hmac = crypto.createHmac('sha1', key).update(msg).digest();
+  const offset = hmac[hmac.length - 1]! & 0x0f;
+  const code =
+    ((hmac[offset]! & 0x7f) << 24) |
+    ((hmac[offset + 1]! & 0xff) << 16) |
+    ((hmac[offset + 2]! & 0xff) << 8) |
+    (hmac[offset + 3]! & 0xff);
+  return String(code % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+}
+
+/**
+ * Verifica un código TOTP con tolerancia de ±window pasos.
+ * Devuelve el paso (time-step) que coincidió, o null si el código no es válido.
+ * El paso se guarda para impedir reusar el mismo código (replay).
+ */
+export function verifyTotp(secret: string, code: string, window = 1, now = Date.now()): number | null {
+  const clean = String(code ?? '').replace(/\s+/g, '');
+  if (!/^\d{6}$/.test(clean)) return null;
+
+  const key = base32Decode(secret);
+  const currentStep = Math.floor(now / 1000 / TOTP_PERIOD_SECONDS);
+  for (let delta = -window; delta <= window; delta++) {
+    const step = currentStep + delta;
+    const expected = hotp(key, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(clean))) return step;
+  }
+  return null;
+}
+
+/* ===================== Códigos de recuperación ===================== */
+
+/** Genera códigos de recuperación legibles (xxxx-xxxx) */
+export function generateRecoveryCodes(count = 10): string[] {
+  const codes: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const raw = crypto.randomBytes(5).toString('hex'); // 10 hex
+    codes.push(`${raw.slice(0, 5)}-${raw.slice(5)}`);
+  }
+  return codes;
+}
+
+/** Normaliza un código de recuperación ingresado por el usuario antes de hashearlo */
+export function normalizeRecoveryCode(code: string): string {
+  return String(code ?? '').trim().toLowerCase().replace(/[^a-f0-9]/g, '');
+}
+
+/* ===================== Cifrado del secreto (AES-256-GCM) ===================== */
+
+function encryptionKey(): Buffer {
+  const base = env.TWO_FACTOR_ENCRYPTION_KEY || env.JWT_SECRET;
+  return crypto.createHash('sha256').update(`2fa:${base}`).digest();
+}
+
+/** Cifra el secreto TOTP para guardarlo en DB: "iv.tag.ciphertext" (base64) */
+export function encryptTotpSecret(secret: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', encryptionKey(), iv);
+  const enc = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return [iv, tag, enc].map((b) => b.toString('base64')).join('.');
+}
+
+export function decryptTotpSecret(stored: string): string {
+  const [ivB64, tagB64, encB64] = String(stored).split('.');
+  if (!ivB64 || !tagB64 || !encB64) throw new Error('INVALID_2FA_SECRET');
+  const decipher = crypto.createDecipheriv('aes-256-gcm', encryptionKey(), Buffer.from(ivB64, 'base64'));
+  decipher.setAuthTag(Buffer.from(tagB64, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(encB64, 'base64')), decipher.final()]).toString('utf8');
+}
@@ -0,0 +1,135 @@
+// src/utils/zip.ts
+// Escritor ZIP mínimo (deflate, sin ZIP64) que escribe a disco entrada por entrada,
+// para no cargar el archivo completo en memoria.
+import { promises as fsPromises } from 'fs';
+import zlib from 'zlib';
+
+const MAX_ZIP_BYTES = 0xffffffff; // límite sin ZIP64 (4 GB)
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(buf: Buffer): number {
+  let c = 0xffffffff;
+  for (let i = 0; i < buf.length; i++) c = CRC_TABLE[(c ^ buf[i]!) & 0xff]! ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+/** Fecha/hora en formato MS-DOS (resolución de 2 segundos) */
+function dosDateTime(d: Date) {
+  const year = Math.max(1980, d.getFullYear());
+  return {
+    time: (d.getHours() << 11) | (d.getMinutes() << 5) | Math.floor(d.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate(),
+  };
+}
+
+type CentralEntry = {
+  name: Buffer;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+  time: number;
+  date: number;
+};
+
+export class ZipWriter {
+  private entries: CentralEntry[] = [];
+  private offset = 0;
+
+  private constructor(private file: fsPromises.FileHandle) {}
+
+  static async create(filePath: string): Promise<ZipWriter> {
+    return new ZipWriter(await fsPromises.open(filePath, 'w'));
+  }
+
+  private async write(buf: Buffer) {
+    if (this.offset + buf.length > MAX_ZIP_BYTES) {
+      throw new Error('El archivo ZIP excede 4 GB');
+    }
+    await this.file.write(buf);
+    this.offset += buf.length;
+  }
+
+  /** Agrega un archivo (nombre con "/" para subcarpetas; UTF-8) */
+  async addFile(name: string, content: Buffer | string, modifiedAt = new Date()) {
+    const data = typeof content === 'string' ? Buffer.from(content, 'utf8') : content;
+    const compressed = zlib.deflateRawSync(data);
+    const nameBuf = Buffer.from(name.replace(/^\/+/, ''), 'utf8');
+    const { time, date } = dosDateTime(modifiedAt);
+    const crc = crc32(data);
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4);          // versión necesaria
+    header.writeUInt16LE(0x0800, 6);      // flag: nombres en UTF-8
+    header.writeUInt16LE(8, 8);           // método: deflate
+    header.writeUInt16LE(time, 10);
+    header.writeUInt16LE(date, 12);
+    header.writeUInt32LE(crc, 14);
+    header.writeUInt32LE(compressed.length, 18);
+    header.writeUInt32LE(data.length, 22);
+    header.writeUInt16LE(nameBuf.length, 26);
+    header.writeUInt16LE(0, 28);
+
+    this.entries.push({
+      name: nameBuf,
+      crc,
+      compressedSize: compressed.length,
+      size: data.length,
+      offset: this.offset,
+      time,
+      date,
+    });
+
+    await this.write(Buffer.concat([header, nameBuf]));
+    await this.write(compressed);
+  }
+
+  /** Escribe el directorio central y cierra el archivo. Devuelve el tamaño total en bytes. */
+  async finalize(): Promise<number> {
+    const cdStart = this.offset;
+    for (const e of this.entries) {
+      const h = Buffer.alloc(46);
+      h.writeUInt32LE(0x02014b50, 0);
+      h.writeUInt16LE(20, 4);             // versión que lo creó
+      h.writeUInt16LE(20, 6);             // versión necesaria
+      h.writeUInt16LE(0x0800, 8);
+      h.writeUInt16LE(8, 10);
+      h.writeUInt16LE(e.time, 12);
+      h.writeUInt16LE(e.date, 14);
+      h.writeUInt32LE(e.crc, 16);
+      h.writeUInt32LE(e.compressedSize, 20);
+      h.writeUInt32LE(e.size, 24);
+      h.writeUInt16LE(e.name.length, 28);
+      // extra, comentario, disco, atributos internos/externos en 0
+      h.writeUInt32LE(e.offset, 42);
+      await this.write(Buffer.concat([h, e.name]));
+    }
+    const cdSize = this.offset - cdStart;
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(cdSize, 12);
+    end.writeUInt32LE(cdStart, 16);
+    await this.write(end);
+
+    await this.file.close();
+    return this.offset;
+  }
+
+  /** Cierra sin finalizar (en caso de error); el llamador elimina el archivo */
+  async abort() {
+    await this.file.close().catch(() => undefined);
+  }
+}